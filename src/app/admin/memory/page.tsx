@@ -0,0 +1,755 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import AdminGuard from "@/components/AdminGuard";
+import { memoryText } from "@/lib/jarvis/memory/retrieval";
+import { MEMORY_TYPES, type MemoryInjection } from "@/lib/jarvis/memory/types";
+
+interface MemoryItem {
+  id: string;
+  user_id: string;
+  type: string;
+  content?: string | null;
+  summary?: string | null;
+  data?: any;
+  tags?: string[] | null;
+  importance?: number | null;
+  pinned?: boolean | null;
+  source?: string | null;
+  channel?: string | null;
+  archived_at?: string | null;
+  created_at: string;
+}
+
+interface HistoryItem {
+  id: string;
+  user_id: string;
+  channel: string;
+  role: string;
+  content: string;
+  created_at: string;
+}
+
+type FieldSpec = { key: string; label: string; type?: "text" | "number" | "textarea" };
+
+const TRADING_PROFILE_FIELDS: FieldSpec[] = [
+  { key: "propfirm_name", label: "Prop firm" },
+  { key: "account_size", label: "Account size", type: "number" },
+  { key: "target_percent", label: "Target %", type: "number" },
+  { key: "daily_loss_percent", label: "Daily loss limit %", type: "number" },
+  { key: "max_loss_percent", label: "Max loss %", type: "number" },
+  { key: "current_profit", label: "Current profit", type: "number" },
+  { key: "max_trades_per_day", label: "Max trades per day", type: "number" },
+  { key: "cooldown_minutes", label: "Tilt cool-down (minutes)", type: "number" },
+];
+
+const FINANCE_FIELDS: FieldSpec[] = [
+  { key: "account_currency", label: "Account currency (e.g. USD)" },
+  { key: "home_currency", label: "Home currency (e.g. INR)" },
+  { key: "eval_account_size", label: "Eval account size", type: "number" },
+  { key: "eval_target_percent", label: "Eval target %", type: "number" },
+  { key: "eval_target_amount", label: "Eval target amount", type: "number" },
+  { key: "eval_current_profit", label: "Eval current profit", type: "number" },
+  { key: "funded_account_size", label: "Funded account size", type: "number" },
+  { key: "funded_current_equity", label: "Funded equity", type: "number" },
+  { key: "monthly_living_cost", label: "Monthly living cost", type: "number" },
+  { key: "safe_monthly_return_percent", label: "Safe monthly return %", type: "number" },
+  { key: "long_term_target_equity", label: "Long-term target equity", type: "number" },
+  { key: "notes", label: "Notes", type: "textarea" },
+];
+
+const inputClass = "w-full border border-slate-700 rounded px-2 py-1 text-xs bg-slate-950";
+const sectionClass = "border border-slate-800 bg-slate-900/60 rounded-2xl p-4 space-y-3";
+
+type MemoryFilters = {
+  q: string;
+  type: string;
+  minImportance: string;
+  maxImportance: string;
+  from: string;
+  to: string;
+  pinned: boolean;
+  archived: boolean;
+};
+
+function memorySearchParams(filters: MemoryFilters): string {
+  const params = new URLSearchParams();
+  if (filters.q.trim()) params.set("q", filters.q.trim());
+  if (filters.type) params.set("type", filters.type);
+  if (filters.minImportance) params.set("minImportance", filters.minImportance);
+  if (filters.maxImportance) params.set("maxImportance", filters.maxImportance);
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  if (filters.pinned) params.set("pinned", "true");
+  if (filters.archived) params.set("archived", "true");
+  return params.toString();
+}
+
+function formatTime(iso: string | null | undefined): string {
+  return iso ? new Date(iso).toLocaleString() : "—";
+}
+
+export default function AdminMemoryPage() {
+  return (
+    <AdminGuard>
+      <main className="max-w-5xl mx-auto px-4 pb-10 pt-4 space-y-8">
+        <header className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Memory Browser</h1>
+            <p className="text-xs text-slate-400 mt-1 max-w-xl">
+              Everything Jarvis remembers about you: search, fix and pin
+              memories, see which ones went into each reply, and keep the
+              trading profile and finance snapshot up to date.
+            </p>
+          </div>
+          <Link
+            href="/admin"
+            className="text-xs text-emerald-400 hover:text-emerald-200"
+          >
+            ← Back to Admin
+          </Link>
+        </header>
+
+        <MemoryBrowser />
+        <InjectionsPanel />
+        <HistoryPanel />
+
+        <section className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <RecordForm
+            title="Trading profile"
+            description="Prop-firm rules Jarvis sizes and tilt-checks against. Leave a field empty to clear it."
+            endpoint="/api/jarvis/trading-profile"
+            responseKey="profile"
+            fields={TRADING_PROFILE_FIELDS}
+          />
+          <RecordForm
+            title="Finance snapshot"
+            description="Accounts, targets and living costs used when money comes up."
+            endpoint="/api/jarvis/finance"
+            responseKey="finance"
+            fields={FINANCE_FIELDS}
+          />
+        </section>
+      </main>
+    </AdminGuard>
+  );
+}
+
+/* ====== MEMORIES ====== */
+
+function MemoryBrowser() {
+  const [items, setItems] = useState<MemoryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState<string | null>(null);
+  const [undoId, setUndoId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<MemoryItem | null>(null);
+  const [editForm, setEditForm] = useState({ content: "", type: "misc", importance: 1, tags: "" });
+  const [filters, setFilters] = useState<MemoryFilters>({
+    q: "",
+    type: "",
+    minImportance: "",
+    maxImportance: "",
+    from: "",
+    to: "",
+    pinned: false,
+    archived: false,
+  });
+
+  // query string of the last search; edits reload with it
+  const [query, setQuery] = useState("");
+
+  async function loadItems(search: string) {
+    try {
+      const res = await fetch(`/api/jarvis/memory?${search}`);
+      const data = await res.json();
+      if (!data.ok) throw new Error(data.error || "Load failed");
+      setItems(data.memories);
+    } catch (err: any) {
+      console.error("Failed to load memories", err);
+      setMessage("Couldn't load memories: " + (err?.message ?? "Unknown error"));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadItems("");
+  }, []);
+
+  async function patchMemory(id: string, patch: Record<string, unknown>) {
+    const res = await fetch(`/api/jarvis/memory/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(patch),
+    });
+    const data = await res.json();
+    if (!data.ok) {
+      alert("Error: " + data.error);
+      return false;
+    }
+    await loadItems(query);
+    return true;
+  }
+
+  async function handleDelete(item: MemoryItem) {
+    if (!confirm(`Delete this memory?\n\n${memoryText(item).slice(0, 200)}`)) return;
+    const res = await fetch(`/api/jarvis/memory/${item.id}`, { method: "DELETE" });
+    const data = await res.json();
+    if (!data.ok) {
+      alert("Error: " + data.error);
+      return;
+    }
+    setUndoId(data.entry.id);
+    setMessage("Memory deleted.");
+    if (editing?.id === item.id) setEditing(null);
+    await loadItems(query);
+  }
+
+  async function handleUndo() {
+    if (!undoId) return;
+    const res = await fetch(`/api/jarvis/memory/log/${undoId}`, {
+      method: "PATCH",
+      body: JSON.stringify({ undone: true }),
+    });
+    const data = await res.json();
+    setUndoId(null);
+    setMessage(data.ok ? "Memory restored." : "Undo failed: " + data.error);
+    await loadItems(query);
+  }
+
+  function handleEdit(item: MemoryItem) {
+    setEditing(item);
+    setEditForm({
+      content: memoryText(item),
+      type: item.type ?? "misc",
+      importance: item.importance ?? 1,
+      tags: (item.tags ?? []).join(","),
+    });
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    if (!editing) return;
+    const saved = await patchMemory(editing.id, {
+      content: editForm.content,
+      type: editForm.type,
+      importance: Number(editForm.importance),
+      tags: editForm.tags
+        .split(",")
+        .map((t) => t.trim())
+        .filter(Boolean),
+    });
+    if (saved) {
+      setEditing(null);
+      setMessage("Memory updated.");
+    }
+  }
+
+  return (
+    <section className={sectionClass}>
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold">
+          Memories{" "}
+          {loading && <span className="text-[10px] text-slate-500">(loading…)</span>}
+        </h2>
+        {message && (
+          <p className="text-[11px] text-slate-300 flex items-center gap-2">
+            {message}
+            {undoId && (
+              <button
+                type="button"
+                onClick={handleUndo}
+                className="text-emerald-300 hover:text-emerald-200 underline"
+              >
+                Undo
+              </button>
+            )}
+          </p>
+        )}
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          const search = memorySearchParams(filters);
+          setQuery(search);
+          setLoading(true);
+          loadItems(search);
+        }}
+        className="grid grid-cols-2 md:grid-cols-4 gap-2 items-end"
+      >
+        <div className="col-span-2">
+          <label className="block text-[11px] font-medium mb-1">Search</label>
+          <input
+            className={inputClass}
+            value={filters.q}
+            onChange={(e) => setFilters((f) => ({ ...f, q: e.target.value }))}
+            placeholder="e.g. revenge trading"
+          />
+        </div>
+        <div>
+          <label className="block text-[11px] font-medium mb-1">Type</label>
+          <select
+            className={inputClass}
+            value={filters.type}
+            onChange={(e) => setFilters((f) => ({ ...f, type: e.target.value }))}
+          >
+            <option value="">All types</option>
+            {MEMORY_TYPES.map((t) => (
+              <option key={t} value={t}>
+                {t}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex gap-2">
+          <div>
+            <label className="block text-[11px] font-medium mb-1">Importance ≥</label>
+            <input
+              type="number"
+              min={1}
+              max={10}
+              className={inputClass}
+              value={filters.minImportance}
+              onChange={(e) => setFilters((f) => ({ ...f, minImportance: e.target.value }))}
+            />
+          </div>
+          <div>
+            <label className="block text-[11px] font-medium mb-1">≤</label>
+            <input
+              type="number"
+              min={1}
+              max={10}
+              className={inputClass}
+              value={filters.maxImportance}
+              onChange={(e) => setFilters((f) => ({ ...f, maxImportance: e.target.value }))}
+            />
+          </div>
+        </div>
+        <div>
+          <label className="block text-[11px] font-medium mb-1">From</label>
+          <input
+            type="date"
+            className={inputClass}
+            value={filters.from}
+            onChange={(e) => setFilters((f) => ({ ...f, from: e.target.value }))}
+          />
+        </div>
+        <div>
+          <label className="block text-[11px] font-medium mb-1">To</label>
+          <input
+            type="date"
+            className={inputClass}
+            value={filters.to}
+            onChange={(e) => setFilters((f) => ({ ...f, to: e.target.value }))}
+          />
+        </div>
+        <div className="flex items-center gap-3 text-[11px] text-slate-300">
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={filters.pinned}
+              onChange={(e) => setFilters((f) => ({ ...f, pinned: e.target.checked }))}
+            />
+            Pinned only
+          </label>
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={filters.archived}
+              onChange={(e) => setFilters((f) => ({ ...f, archived: e.target.checked }))}
+            />
+            Archived
+          </label>
+        </div>
+        <button
+          type="submit"
+          className="px-4 py-1.5 rounded-md bg-emerald-600 text-xs font-semibold hover:bg-emerald-500"
+        >
+          Search
+        </button>
+      </form>
+
+      {editing && (
+        <form
+          onSubmit={handleSave}
+          className="space-y-3 border border-emerald-800/60 bg-slate-950/60 rounded-xl p-3"
+        >
+          <div className="flex items-center justify-between">
+            <h3 className="text-xs font-semibold">Edit memory</h3>
+            <button
+              type="button"
+              onClick={() => setEditing(null)}
+              className="text-[11px] text-slate-400 hover:text-slate-200"
+            >
+              Cancel
+            </button>
+          </div>
+          <textarea
+            className="w-full border border-slate-700 rounded px-2 py-2 text-sm bg-slate-950 h-24"
+            value={editForm.content}
+            onChange={(e) => setEditForm((f) => ({ ...f, content: e.target.value }))}
+            required
+          />
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            <select
+              className={inputClass}
+              value={editForm.type}
+              onChange={(e) => setEditForm((f) => ({ ...f, type: e.target.value }))}
+            >
+              {MEMORY_TYPES.map((t) => (
+                <option key={t} value={t}>
+                  {t}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={1}
+              max={10}
+              className={inputClass}
+              value={editForm.importance}
+              onChange={(e) => setEditForm((f) => ({ ...f, importance: Number(e.target.value) }))}
+            />
+            <input
+              className={inputClass}
+              value={editForm.tags}
+              onChange={(e) => setEditForm((f) => ({ ...f, tags: e.target.value }))}
+              placeholder="tags,comma,separated"
+            />
+          </div>
+          <button
+            type="submit"
+            className="px-4 py-1.5 rounded-md bg-emerald-600 text-xs font-semibold hover:bg-emerald-500"
+          >
+            Save memory
+          </button>
+        </form>
+      )}
+
+      <div className="space-y-2">
+        {items.map((item) => (
+          <div
+            key={item.id}
+            className="border border-slate-800 rounded-xl p-3 bg-slate-950/60"
+          >
+            <div className="flex justify-between items-center gap-2">
+              <div className="text-[10px] text-slate-500">
+                {item.type} · importance {item.importance ?? "?"} · {item.channel ?? item.user_id} ·{" "}
+                {formatTime(item.created_at)}
+                {item.pinned && <span className="ml-2 text-amber-300">PINNED</span>}
+                {item.archived_at && <span className="ml-2 text-slate-400">archived</span>}
+              </div>
+              <div className="flex gap-3 text-[11px]">
+                <button
+                  type="button"
+                  onClick={() => patchMemory(item.id, { pinned: !item.pinned })}
+                  className="text-amber-300 hover:text-amber-200"
+                >
+                  {item.pinned ? "Unpin" : "Pin"}
+                </button>
+                {item.archived_at && (
+                  <button
+                    type="button"
+                    onClick={() => patchMemory(item.id, { archived: false })}
+                    className="text-slate-300 hover:text-slate-100"
+                  >
+                    Restore
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => handleEdit(item)}
+                  className="text-emerald-300 hover:text-emerald-200"
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(item)}
+                  className="text-red-400 hover:text-red-300"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+            <p className="text-[12px] text-slate-300 mt-1 whitespace-pre-wrap">
+              {memoryText(item)}
+            </p>
+            {item.tags && item.tags.length > 0 && (
+              <p className="text-[10px] text-slate-500 mt-1">#{item.tags.join(" #")}</p>
+            )}
+          </div>
+        ))}
+        {items.length === 0 && !loading && (
+          <p className="text-xs text-slate-500">No memories match these filters.</p>
+        )}
+      </div>
+    </section>
+  );
+}
+
+/* ====== INJECTED MEMORIES PER REPLY ====== */
+
+function InjectionsPanel() {
+  const [injections, setInjections] = useState<MemoryInjection[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  async function loadInjections() {
+    try {
+      const res = await fetch("/api/jarvis/memory/injections?limit=20");
+      const data = await res.json();
+      if (!data.ok) throw new Error(data.error || "Load failed");
+      setInjections(data.injections);
+    } catch (err) {
+      console.error("Failed to load memory injections", err);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadInjections();
+  }, []);
+
+  return (
+    <section className={sectionClass}>
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold">
+          Memories used in recent replies{" "}
+          {loading && <span className="text-[10px] text-slate-500">(loading…)</span>}
+        </h2>
+        <button
+          type="button"
+          onClick={() => {
+            setLoading(true);
+            loadInjections();
+          }}
+          className="text-[11px] text-emerald-300 hover:text-emerald-200"
+        >
+          Refresh
+        </button>
+      </div>
+      <div className="space-y-2">
+        {injections.map((inj) => (
+          <details
+            key={inj.id}
+            className="border border-slate-800 rounded-xl p-3 bg-slate-950/60"
+          >
+            <summary className="cursor-pointer text-[12px] text-slate-200">
+              <span className="text-[10px] text-slate-500 mr-2">
+                {formatTime(inj.created_at)} · {inj.channel ?? "?"} · {inj.memories.length} memories
+              </span>
+              {inj.message ?? "(no message)"}
+            </summary>
+            <ol className="mt-2 space-y-1 list-decimal list-inside">
+              {inj.memories.map((m, i) => (
+                <li key={`${inj.id}-${i}`} className="text-[11px] text-slate-400">
+                  <span className="text-slate-500">
+                    [{m.type ?? "?"}
+                    {m.relevance != null ? ` · ${m.relevance}` : ""}]
+                  </span>{" "}
+                  {m.text}
+                </li>
+              ))}
+            </ol>
+          </details>
+        ))}
+        {injections.length === 0 && !loading && (
+          <p className="text-xs text-slate-500">No replies with injected memories yet.</p>
+        )}
+      </div>
+    </section>
+  );
+}
+
+/* ====== CHAT HISTORY ====== */
+
+function HistoryPanel() {
+  const [rows, setRows] = useState<HistoryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [channel, setChannel] = useState("");
+  const [q, setQ] = useState("");
+
+  async function loadHistory(channelFilter: string, search: string) {
+    const params = new URLSearchParams({ limit: "50" });
+    if (channelFilter) params.set("channel", channelFilter);
+    if (search.trim()) params.set("q", search.trim());
+    try {
+      const res = await fetch(`/api/jarvis/history?${params.toString()}`);
+      const data = await res.json();
+      if (!data.ok) throw new Error(data.error || "Load failed");
+      setRows(data.history);
+    } catch (err) {
+      console.error("Failed to load history", err);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadHistory("", "");
+  }, []);
+
+  return (
+    <section className={sectionClass}>
+      <h2 className="text-sm font-semibold">
+        Chat history{" "}
+        {loading && <span className="text-[10px] text-slate-500">(loading…)</span>}
+      </h2>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          setLoading(true);
+          loadHistory(channel, q);
+        }}
+        className="flex gap-2 items-center"
+      >
+        <input
+          className={inputClass}
+          value={q}
+          onChange={(e) => setQ(e.target.value)}
+          placeholder="Search messages"
+        />
+        <select
+          className="border border-slate-700 rounded px-2 py-1 text-xs bg-slate-950"
+          value={channel}
+          onChange={(e) => setChannel(e.target.value)}
+        >
+          <option value="">All channels</option>
+          <option value="web">Web</option>
+          <option value="telegram">Telegram</option>
+        </select>
+        <button
+          type="submit"
+          className="px-4 py-1.5 rounded-md bg-emerald-600 text-xs font-semibold hover:bg-emerald-500"
+        >
+          Search
+        </button>
+      </form>
+      <div className="space-y-1 max-h-96 overflow-auto">
+        {rows.map((row) => (
+          <div key={row.id} className="text-[11px] border-b border-slate-800/60 py-1">
+            <span className="text-slate-500">
+              {formatTime(row.created_at)} · {row.channel} ·{" "}
+            </span>
+            <span className={row.role === "user" ? "text-emerald-300" : "text-sky-300"}>
+              {row.role}:
+            </span>{" "}
+            <span className="text-slate-300 whitespace-pre-wrap">{row.content}</span>
+          </div>
+        ))}
+        {rows.length === 0 && !loading && (
+          <p className="text-xs text-slate-500">No history rows.</p>
+        )}
+      </div>
+    </section>
+  );
+}
+
+/* ====== TRADING PROFILE / FINANCE FORMS ====== */
+
+// Record → input strings; null fields become empty inputs
+function formValues(record: Record<string, any> | null, specs: FieldSpec[]): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const f of specs) values[f.key] = record?.[f.key] == null ? "" : String(record[f.key]);
+  return values;
+}
+
+function RecordForm(props: {
+  title: string;
+  description: string;
+  endpoint: string;
+  responseKey: string;
+  fields: FieldSpec[];
+}) {
+  const { title, description, endpoint, responseKey, fields } = props;
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+
+  async function loadRecord(url: string, key: string, specs: FieldSpec[]) {
+    try {
+      const res = await fetch(url);
+      const data = await res.json();
+      if (!data.ok) throw new Error(data.error || "Load failed");
+      setValues(formValues(data[key], specs));
+      setUpdatedAt(data[key]?.updated_at ?? data[key]?.last_updated ?? null);
+    } catch (err: any) {
+      console.error(`Failed to load ${url}`, err);
+      setResult("Couldn't load: " + (err?.message ?? "Unknown error"));
+    }
+  }
+
+  useEffect(() => {
+    loadRecord(endpoint, responseKey, fields);
+  }, [endpoint, responseKey, fields]);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setResult(null);
+    try {
+      const res = await fetch(endpoint, {
+        method: "PATCH",
+        body: JSON.stringify(values),
+      });
+      const data = await res.json();
+      if (!data.ok) {
+        setResult("Error: " + data.error);
+      } else {
+        setValues(formValues(data[responseKey], fields));
+        setUpdatedAt(data[responseKey]?.updated_at ?? data[responseKey]?.last_updated ?? null);
+        setResult("Saved.");
+      }
+    } catch (err: any) {
+      console.error(err);
+      setResult("Save failed: " + (err?.message ?? "Unknown error"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className={sectionClass}>
+      <div>
+        <h2 className="text-sm font-semibold">{title}</h2>
+        <p className="text-[11px] text-slate-400">{description}</p>
+        <p className="text-[10px] text-slate-500">Last updated: {formatTime(updatedAt)}</p>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {fields.map((f) => (
+          <div key={f.key} className={f.type === "textarea" ? "md:col-span-2" : undefined}>
+            <label className="block text-[11px] font-medium mb-1">{f.label}</label>
+            {f.type === "textarea" ? (
+              <textarea
+                className="w-full border border-slate-700 rounded px-2 py-2 text-xs bg-slate-950 h-20"
+                value={values[f.key] ?? ""}
+                onChange={(e) => setValues((v) => ({ ...v, [f.key]: e.target.value }))}
+              />
+            ) : (
+              <input
+                type={f.type === "number" ? "number" : "text"}
+                step="any"
+                className={inputClass}
+                value={values[f.key] ?? ""}
+                onChange={(e) => setValues((v) => ({ ...v, [f.key]: e.target.value }))}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-1.5 rounded-md bg-emerald-600 text-xs font-semibold hover:bg-emerald-500 disabled:opacity-60"
+        >
+          {saving ? "Saving..." : `Save ${title.toLowerCase()}`}
+        </button>
+        {result && <p className="text-[11px] text-slate-300">{result}</p>}
+      </div>
+    </form>
+  );
+}
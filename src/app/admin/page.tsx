@@ -44,6 +44,27 @@ export default function AdminPage() {
             </p>
           </Link>
 
+          {/* Memory browser */}
+          <Link
+            href="/admin/memory"
+            className="border border-slate-800 rounded-2xl p-4 bg-slate-900/60 hover:bg-slate-900 transition group"
+          >
+            <h2 className="text-sm font-semibold mb-1 flex items-center gap-2">
+              Memory Browser
+              <span className="text-[10px] px-2 py-0.5 rounded-full bg-emerald-600/20 text-emerald-300 border border-emerald-700/60">
+                LIVE
+              </span>
+            </h2>
+            <p className="text-[11px] text-slate-400 mb-2">
+              Search, edit, pin and delete what Jarvis remembers, see which
+              memories went into each reply, and edit the trading profile and
+              finance snapshot.
+            </p>
+            <p className="text-[11px] text-emerald-300 group-hover:text-emerald-200">
+              Open memory browser →
+            </p>
+          </Link>
+
           {/* Training Data placeholder */}
           <div className="border border-slate-800 rounded-2xl p-4 bg-slate-900/40 opacity-80">
             <h2 className="text-sm font-semibold mb-1 flex items-center gap-2">
@@ -3,10 +3,17 @@
 
 import { useState } from "react";
 
+const STATUS_STYLES = {
+  pass: "bg-emerald-500/15 text-emerald-300 ring-1 ring-emerald-500/50",
+  fail: "bg-rose-500/15 text-rose-300 ring-1 ring-rose-500/50",
+  unknown: "bg-slate-800 text-slate-400 ring-1 ring-slate-700",
+};
+
 export default function AnalyzerPage() {
   const [description, setDescription] = useState("");
   const [context, setContext] = useState("");
   const [analysis, setAnalysis] = useState("");
+  const [checks, setChecks] = useState([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
 
@@ -14,6 +21,7 @@ export default function AnalyzerPage() {
     e.preventDefault();
     setError("");
     setAnalysis("");
+    setChecks([]);
 
     if (!description.trim()) {
       setError("Bro, paste at least one trade / setup description.");
@@ -34,13 +42,15 @@ export default function AnalyzerPage() {
       const data = await res.json();
       if (!res.ok || !data.ok) {
         setError(
-          data?.message ||
+          data?.error ||
+            data?.message ||
             "Something broke while analyzing this trade."
         );
         return;
       }
 
       setAnalysis(data.analysis || "");
+      setChecks(Array.isArray(data.checks) ? data.checks : []);
     } catch (err) {
       console.error(err);
       setError(
@@ -106,6 +116,32 @@ export default function AnalyzerPage() {
         </button>
       </form>
 
+      {checks.length > 0 && (
+        <section className="bg-slate-900/70 border border-slate-800 rounded-2xl p-6 space-y-3">
+          <h2 className="text-lg font-medium">Checks</h2>
+          <ul className="space-y-2 text-sm">
+            {checks.map((c, i) => (
+              <li key={`${c.source}-${i}`} className="flex items-start gap-3">
+                <span
+                  className={`mt-0.5 shrink-0 rounded-full px-2 py-0.5 text-[0.65rem] font-semibold uppercase ${
+                    STATUS_STYLES[c.status] || STATUS_STYLES.unknown
+                  }`}
+                >
+                  {c.status}
+                </span>
+                <div>
+                  <div className="text-slate-100">
+                    {c.label}{" "}
+                    <span className="text-[0.7rem] text-slate-500">({c.source})</span>
+                  </div>
+                  <div className="text-xs text-slate-400">{c.detail}</div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
       {analysis && (
         <section className="bg-slate-900/70 border border-slate-800 rounded-2xl p-6 space-y-3">
           <h2 className="text-lg font-medium">Jarvis Analysis</h2>
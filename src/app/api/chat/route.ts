@@ -1,15 +1,27 @@
 // FILE: src/app/api/chat/route.ts
 export const runtime = "nodejs"; // ensure Node runtime if you need native libs or longer-running streams
 
-import { NextRequest, NextResponse } from "next/server";
+import { after, NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { groqClient } from "@/lib/groq";
 import { getNowInfo } from "@/lib/time";
 import {
   isPercentOfTargetQuestion,
   buildPercentOfTargetAnswerFromText,
+  isRoomLeftQuestion,
+  buildRoomLeftAnswerFromText,
 } from "@/lib/jarvis/math";
-import { fetchMemoryForUser, saveMemory } from "@/lib/jarvis-memory";
+import { loadTradingProfile } from "@/lib/jarvis/tradingMemory";
+import { loadFinance } from "@/lib/jarvis/finance";
+import { answerMathQuestionFromText } from "@/lib/jarvis/mathIntent";
+import { buildJournalStatsSnippet } from "@/lib/jarvis/journalStats";
+import { loadJournalStats } from "@/lib/jarvis/trades";
+import { buildReadinessSnippet, loadTodayReadiness } from "@/lib/jarvis/checkins";
+import { buildCooldownSnippet, checkForTilt, cooldownNotice } from "@/lib/jarvis/tilt";
+import { buildToneDirective } from "@/lib/jarvis/tone";
+import { answerMemoryCommand, memoryText, recordMemoryInjection } from "@/lib/jarvis/memory";
+import { fetchRelevantMemories, saveMemory } from "@/lib/jarvis-memory";
+import { captureMemoryFromMessage } from "@/lib/memory-capture";
 import { streamOpenAIResponse } from "@/lib/openai-stream"; // helper to stream OpenAI responses as ReadableStream
 
 // A robust chat route that:
@@ -19,6 +31,18 @@ import { streamOpenAIResponse } from "@/lib/openai-stream"; // helper to stream
 // - applies smalltalk suppression rules
 // - streams LLM response back to client
 
+// Single SSE event with a fixed reply (same shape streamOpenAIResponse emits)
+function cannedStream(text: string) {
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(
+        new TextEncoder().encode(`data: ${JSON.stringify({ delta: text })}\n\n`)
+      );
+      controller.close();
+    },
+  });
+}
+
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
@@ -34,21 +58,63 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // 1) Fetch short-term and long-term memory to inject
     const supabase = createClient();
-    const memoryItems = await fetchMemoryForUser(supabase, userId, { limit: 6 });
+    const lastRaw = messages[messages.length - 1]?.content ?? "";
+    const channel = userId.startsWith("tg:") ? "telegram" : "web";
+
+    // 0) "/forget X" / yes / no / "undo forget" — handled before anything reads memory
+    const memoryCommandAnswer = await answerMemoryCommand(supabase, userId, lastRaw, channel).catch((e) => {
+      console.warn("memory command failed:", e);
+      return null;
+    });
+    if (memoryCommandAnswer) {
+      return new Response(cannedStream(memoryCommandAnswer), {
+        headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+      });
+    }
+
+    // Extract anything worth remembering once the reply is out (Telegram captures in its own route)
+    if (channel === "web") {
+      after(() => captureMemoryFromMessage(supabase, { userId, text: lastRaw, channel }));
+    }
+
+    // 1) Fetch the memories most relevant to the latest message (Telegram arrives here too)
+    const memoryItems = await fetchRelevantMemories(supabase, userId, lastRaw, { limit: 6 });
 
     // 2) Build context preface
     const nowInfo = getNowInfo();
     const memoryPreface = memoryItems && memoryItems.length
       ? `Memory summary (most relevant):\n${memoryItems
-          .map((m: any, i: number) => `${i + 1}. ${m.summary}`)
+          .map((m: any, i: number) => `${i + 1}. ${memoryText(m)}`)
           .join("\n")}\n\n`
       : "";
+    // Logged on the paths that send this prompt to the LLM; listed in the admin memory browser
+    const logInjection = () =>
+      after(() =>
+        recordMemoryInjection(supabase, { userId, channel, message: lastRaw, rows: memoryItems ?? [] }).catch((e) =>
+          console.warn("recordMemoryInjection failed:", e)
+        )
+      );
+
+    // Journal stats go into the prompt; their edge fills in winrate / R:R for projections
+    const journalStats = await loadJournalStats(supabase);
+    const journalPreface = journalStats?.total ? `${buildJournalStatsSnippet(journalStats)}\n\n` : "";
+
+    // Today's check-in readiness, so sizing and "should I trade" answers respect it
+    const { readiness } = await loadTodayReadiness(supabase);
+    const readinessPreface = `${buildReadinessSnippet(readiness)}\n\n`;
+
+    // Tilt check on the latest message; a running cool-down switches Jarvis to support mode
+    const tilt = await checkForTilt(supabase, lastRaw, {
+      channel,
+      chatId: channel === "telegram" ? userId.slice(3) : null,
+    });
+    const cooldownPreface = tilt.cooldown
+      ? `${buildCooldownSnippet(tilt.cooldown)}\n${buildToneDirective("support", channel)}\n\n`
+      : "";
 
     // 3) Smalltalk suppression: if the user prompt is casual smalltalk, encourage brevity
-    const lastUserMsg =
-      messages[messages.length - 1]?.content?.toLowerCase() ?? "";
+    const lastUserMsg = lastRaw.toLowerCase();
     const isSmalltalk = /^(hi|hello|hey|how are you|what's up|sup)\b/.test(
       lastUserMsg
     );
@@ -58,21 +124,46 @@ export async function POST(req: NextRequest) {
 
     // 5) Build system prompt
     const systemPrompt = `You are Jarvis — a concise, accuracy-first trading assistant. Use the injected memory when helpful. Time: ${nowInfo.iso}
-${memoryPreface}`;
+${memoryPreface}${journalPreface}${readinessPreface}${cooldownPreface}`;
 
     const payloadMessages = [{ role: "system", content: systemPrompt }, ...messages];
 
+    // 5b) "How much can I still risk today?" — answered fully by the math engine, no LLM;
+    //     a cool-down halves or refuses the next-trade risk
+    if (isRoomLeftQuestion(lastUserMsg)) {
+      const [profile, finance] = await Promise.all([loadTradingProfile(supabase), loadFinance(supabase)]);
+      const answer = buildRoomLeftAnswerFromText(lastUserMsg, profile, { cooldown: tilt.cooldown, finance });
+      const notice = tilt.cooldown ? `${cooldownNotice(tilt.cooldown)}\n\n` : "";
+      return new Response(cannedStream(`${notice}${answer}`), {
+        headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+      });
+    }
+
+    // 5c) Sizing / prop-firm / simulation questions — parsed into a MathTask, no LLM
+    const mathIntentAnswer = await answerMathQuestionFromText(supabase, lastRaw, {
+      journal: journalStats,
+      cooldown: tilt.cooldown,
+    });
+    if (mathIntentAnswer) {
+      const notice = tilt.started && tilt.cooldown ? `${cooldownNotice(tilt.cooldown)}\n\n` : "";
+      return new Response(cannedStream(`${notice}${mathIntentAnswer}`), {
+        headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+      });
+    }
+
     // 6) If mathDetected, compute deterministic answer first and return a combined response
     if (mathDetected) {
       const mathAnswer = buildPercentOfTargetAnswerFromText(lastUserMsg);
 
-      // **ADJUSTED TO PROJECT saveMemory SIGNATURE** (no 'source' field)
       try {
-        // call project's saveMemory(userId, payload) - keep payload fields compatible with MemoryRow type
         await saveMemory(userId, {
-          summary: `Answered math question: ${lastUserMsg} => ${mathAnswer}`,
+          type: "math",
+          content: `Answered math question: ${lastUserMsg} => ${mathAnswer}`,
           data: { question: lastUserMsg, answer: mathAnswer },
-          importance: 5,
+          // low: one-off calculations decay and archive quickly; repeats reinforce the same row
+          importance: 2,
+          source: "chat",
+          channel,
         });
       } catch (e) {
         console.warn("saveMemory failed:", e);
@@ -83,6 +174,7 @@ ${memoryPreface}`;
       payloadMessages.push({ role: "user", content: combined });
 
       // stream response
+      logInjection();
       const stream = await streamOpenAIResponse(payloadMessages, { userId });
       return new Response(stream, {
         headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
@@ -90,18 +182,11 @@ ${memoryPreface}`;
     }
 
     // 7) If smalltalk & our policy says suppress casual chatter, respond briefly without long context
-    if (isSmalltalk) {
+    if (isSmalltalk && !tilt.cooldown) {
       // short canned reply — still stream to keep client compatibility
-      const stream = new ReadableStream({
-        start(controller) {
-          controller.enqueue(
-            new TextEncoder().encode(
-              'data: {"delta":"Hey — I’m Jarvis. How can I help with trading or project tasks today?"}\n\n'
-            )
-          );
-          controller.close();
-        },
-      });
+      const stream = cannedStream(
+        "Hey — I’m Jarvis. How can I help with trading or project tasks today?"
+      );
 
       return new Response(stream, {
         headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
@@ -109,6 +194,7 @@ ${memoryPreface}`;
     }
 
     // 8) Normal flow: stream the LLM response with memory injection
+    logInjection();
     const stream = await streamOpenAIResponse(payloadMessages, { userId });
     return new Response(stream, {
       headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
@@ -0,0 +1,21 @@
+// /app/api/jarvis/checkins/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { deleteCheckin } from "@/lib/jarvis/checkins";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function DELETE(_req: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    await deleteCheckin(createClient(), id);
+
+    return NextResponse.json({ ok: true });
+  } catch (err: any) {
+    console.error("[checkins/delete] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+// /app/api/jarvis/checkins/export/route.ts
+// GET ?format=csv|json&from=YYYY-MM-DD&to=YYYY-MM-DD → file download, oldest first
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { CHECKIN_EXPORT_COLUMNS, listCheckins } from "@/lib/jarvis/checkins";
+import {
+  exportBody,
+  exportFilename,
+  parseDateRange,
+  parseExportFormat,
+} from "@/lib/jarvis/export";
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const format = parseExportFormat(searchParams.get("format"));
+    const range = parseDateRange(searchParams.get("from"), searchParams.get("to"));
+
+    const checkins = await listCheckins(createClient(), { ...range, limit: 2000 });
+    const { body, contentType } = exportBody(checkins.reverse(), CHECKIN_EXPORT_COLUMNS, format);
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${exportFilename("checkins", range, format)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err: any) {
+    console.error("[checkins/export] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,21 @@
+// /app/api/jarvis/checkins/import-local/route.ts
+// One-time import of the browser check-ins (localStorage "jarvis-daily-checkins-v1").
+// Days that already have a stored check-in are skipped, so posting again is a no-op.
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { importLocalCheckins, type WebCheckin } from "@/lib/jarvis/checkins";
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as { checkins: WebCheckin[] };
+    const result = await importLocalCheckins(createClient(), body?.checkins);
+
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err: any) {
+    console.error("[checkins/import-local] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+// /app/api/jarvis/checkins/route.ts
+// GET  ?from=YYYY-MM-DD&to=YYYY-MM-DD&limit=60 → newest first
+// POST CheckinInput → saved row (replaces that day's check-in)
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { listCheckins, saveCheckin, type CheckinInput } from "@/lib/jarvis/checkins";
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const limit = searchParams.get("limit");
+
+    const checkins = await listCheckins(createClient(), {
+      from: searchParams.get("from") ?? undefined,
+      to: searchParams.get("to") ?? undefined,
+      limit: limit ? Number(limit) : undefined,
+    });
+
+    return NextResponse.json({ ok: true, checkins });
+  } catch (err: any) {
+    console.error("[checkins/list] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as CheckinInput;
+    const checkin = await saveCheckin(createClient(), { ...body, source: "web" });
+
+    return NextResponse.json({ ok: true, checkin });
+  } catch (err: any) {
+    console.error("[checkins/save] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
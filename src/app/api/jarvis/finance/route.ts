@@ -0,0 +1,36 @@
+// /app/api/jarvis/finance/route.ts
+// GET → { ok, finance }  (null until the first save)
+// PATCH form fields (eval_*, funded_*, monthly_living_cost, currencies, notes; "" clears) → { ok, finance }
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { loadFinance, sanitizeFinancePatch, upsertFinance } from "@/lib/jarvis/finance";
+
+export async function GET() {
+  try {
+    const finance = await loadFinance(createClient());
+
+    return NextResponse.json({ ok: true, finance });
+  } catch (err: any) {
+    console.error("[finance/get] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  try {
+    const patch = sanitizeFinancePatch(await req.json());
+    if (!Object.keys(patch).length) throw new Error("Nothing to update.");
+    const finance = await upsertFinance(createClient(), patch);
+
+    return NextResponse.json({ ok: true, finance });
+  } catch (err: any) {
+    console.error("[finance/update] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
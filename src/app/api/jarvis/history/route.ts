@@ -0,0 +1,31 @@
+// /app/api/jarvis/history/route.ts
+// GET ?userId=&channel=web|telegram&q=&limit=50 → { ok, history }  jarvis_history rows, newest first
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { listHistory, type HistoryChannel } from "@/lib/jarvis/history";
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const channel = searchParams.get("channel");
+    if (channel && channel !== "web" && channel !== "telegram") {
+      throw new Error(`Unknown channel "${channel}".`);
+    }
+
+    const history = await listHistory({
+      supabase: createClient(),
+      userId: searchParams.get("userId") ?? undefined,
+      channel: (channel as HistoryChannel | null) ?? undefined,
+      q: searchParams.get("q") ?? undefined,
+      limit: Math.max(1, Math.min(500, Number(searchParams.get("limit")) || 50)),
+    });
+
+    return NextResponse.json({ ok: true, history });
+  } catch (err: any) {
+    console.error("[history/list] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
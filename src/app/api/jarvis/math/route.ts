@@ -1,24 +1,78 @@
 // src/app/api/jarvis/math/route.ts
 // Simple HTTP wrapper around the deterministic math engine.
+// Body is either a MathTask ({ type, input }) or { text, variables? } for
+// free-form arithmetic via parseAndCompute. Both go through the same registry.
+// During a tilt cool-down, position sizing and room-left's next-trade risk are
+// halved or refused like in chat.
 
 import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
 import {
   MathTask,
   MathTaskResult,
+  parseAndCompute,
   runMathTask,
 } from "@/lib/jarvis/math";
+import {
+  cooldownNotice,
+  cooldownRiskPercent,
+  getActiveCooldown,
+} from "@/lib/jarvis/tilt";
+
+const SIZING_TASKS: MathTask["type"][] = ["position-size", "instrument-position-size", "room-left"];
+
+// Risk % the cool-down cuts: the requested one, or for room-left today's cap on the next trade
+function sizingRiskPercent(task: MathTask): number {
+  if (task.type !== "room-left") return (task.input as { riskPercent: number }).riskPercent;
+  const res = runMathTask(task);
+  return res.type === "room-left" ? res.result.maxRiskNextTradePct : 0;
+}
 
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
+
+    if (typeof body?.text === "string") {
+      const parsed = parseAndCompute(body.text, { variables: body.variables });
+      return NextResponse.json(parsed, { status: parsed.ok ? 200 : 400 });
+    }
+
     const task = body as MathTask;
 
+    const cooldown = SIZING_TASKS.includes(task?.type)
+      ? await getActiveCooldown(createClient())
+      : null;
+    let risk: { from: number; to: number } | null = null;
+    const riskPercent = cooldown ? sizingRiskPercent(task) : 0;
+    if (cooldown && riskPercent > 0) {
+      const reduced = cooldownRiskPercent(cooldown, riskPercent);
+      if (reduced == null) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: "cooldown_active",
+            cooldown: { severity: cooldown.severity, ends_at: cooldown.ends_at },
+            notice: cooldownNotice(cooldown),
+          },
+          { status: 400 }
+        );
+      }
+      risk = { from: riskPercent, to: reduced };
+      task.input = { ...task.input, riskPercent: reduced } as typeof task.input;
+    }
+
     const result: MathTaskResult = runMathTask(task);
 
     return NextResponse.json(
       {
         ok: true,
         result,
+        ...(cooldown
+          ? {
+              cooldown: { severity: cooldown.severity, ends_at: cooldown.ends_at, risk },
+              notice: cooldownNotice(cooldown),
+            }
+          : {}),
       },
       { status: 200 }
     );
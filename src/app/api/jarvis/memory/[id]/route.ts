@@ -0,0 +1,39 @@
+// /app/api/jarvis/memory/[id]/route.ts
+// PATCH  MemoryPatch (content, type, tags, importance, pinned, archived) → { ok, memory }
+// DELETE → { ok, entry }  the log entry; PATCH /api/jarvis/memory/log/[entry.id] undoes it
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { deleteMemory, updateMemory, type MemoryPatch } from "@/lib/jarvis/memory";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = (await req.json()) as MemoryPatch;
+    const memory = await updateMemory(createClient(), id, body);
+
+    return NextResponse.json({ ok: true, memory });
+  } catch (err: any) {
+    console.error("[memory/update] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE(_req: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const entry = await deleteMemory(createClient(), id);
+
+    return NextResponse.json({ ok: true, entry });
+  } catch (err: any) {
+    console.error("[memory/delete] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+// /app/api/jarvis/memory/injections/route.ts
+// GET ?userId=&limit= → { ok, injections }  memories put into each recent reply, newest first
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { listMemoryInjections } from "@/lib/jarvis/memory";
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const injections = await listMemoryInjections(createClient(), {
+      userId: searchParams.get("userId") ?? undefined,
+      limit: Math.max(1, Math.min(200, Number(searchParams.get("limit")) || 30)),
+    });
+
+    return NextResponse.json({ ok: true, injections });
+  } catch (err: any) {
+    console.error("[memory/injections] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
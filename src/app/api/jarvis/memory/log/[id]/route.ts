@@ -0,0 +1,26 @@
+// /app/api/jarvis/memory/log/[id]/route.ts
+// PATCH { undone: true } → { ok, entry }  restore the memories this merge / archive / forget / delete changed
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { undoMemoryAction } from "@/lib/jarvis/memory";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    if (body?.undone !== true) {
+      throw new Error("Send { undone: true } to undo this memory action.");
+    }
+    const entry = await undoMemoryAction(createClient(), id);
+
+    return NextResponse.json({ ok: true, entry });
+  } catch (err: any) {
+    console.error("[memory/undo] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+// /app/api/jarvis/memory/log/route.ts
+// GET ?userId=&limit= → { ok, entries }  merges, archives, forgets and admin deletes, newest first
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { listMemoryLog } from "@/lib/jarvis/memory";
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const entries = await listMemoryLog(createClient(), {
+      userId: searchParams.get("userId") ?? undefined,
+      limit: Math.max(1, Math.min(200, Number(searchParams.get("limit")) || 50)),
+    });
+
+    return NextResponse.json({ ok: true, entries });
+  } catch (err: any) {
+    console.error("[memory/log] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
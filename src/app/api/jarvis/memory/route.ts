@@ -0,0 +1,40 @@
+// /app/api/jarvis/memory/route.ts
+// GET ?q=&type=&minImportance=&maxImportance=&from=YYYY-MM-DD&to=YYYY-MM-DD&pinned=true&archived=true&userId=&limit=100
+//     → { ok, memories }  newest first, without vectors
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { searchMemories } from "@/lib/jarvis/memory";
+
+function numberParam(value: string | null): number | undefined {
+  if (value == null || value === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const pinned = searchParams.get("pinned");
+
+    const memories = await searchMemories(createClient(), {
+      userId: searchParams.get("userId") ?? undefined,
+      q: searchParams.get("q") ?? undefined,
+      type: searchParams.get("type") ?? undefined,
+      minImportance: numberParam(searchParams.get("minImportance")),
+      maxImportance: numberParam(searchParams.get("maxImportance")),
+      from: searchParams.get("from") ?? undefined,
+      to: searchParams.get("to") ?? undefined,
+      pinned: pinned == null || pinned === "" ? undefined : pinned === "true",
+      archived: searchParams.get("archived") === "true",
+      limit: Math.max(1, Math.min(500, Number(searchParams.get("limit")) || 100)),
+    });
+
+    return NextResponse.json({ ok: true, memories });
+  } catch (err: any) {
+    console.error("[memory/list] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
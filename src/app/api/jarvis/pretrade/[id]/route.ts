@@ -0,0 +1,23 @@
+// /app/api/jarvis/pretrade/[id]/route.ts
+// PATCH { taken, result_r?, trade_id? } → { ok, check }
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { recordPreTradeOutcome, type PreTradeOutcome } from "@/lib/jarvis/preTrade";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = (await req.json()) as PreTradeOutcome;
+    const check = await recordPreTradeOutcome(createClient(), id, body);
+
+    return NextResponse.json({ ok: true, check });
+  } catch (err: any) {
+    console.error("[pretrade/outcome] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+// /app/api/jarvis/pretrade/route.ts
+// GET  ?limit → { ok, checks[], summary, checklist[] } (recent checks, override stats, checklist items)
+// POST { description, riskPercent?, dayPnl?, checklist?, ...levels } → { ok, result, check }
+// The verdict is logged so its outcome can be recorded via PATCH /api/jarvis/pretrade/[id].
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { buildKnowledgeContext } from "@/lib/jarvis/knowledge/context";
+import {
+  evaluatePreTrade,
+  listPreTradeChecks,
+  logPreTradeCheck,
+  summarizeOverrides,
+  type PreTradeInput,
+} from "@/lib/jarvis/preTrade";
+
+export async function GET(req: NextRequest) {
+  try {
+    const limit = Number(req.nextUrl.searchParams.get("limit") ?? 200);
+    const checks = await listPreTradeChecks(createClient(), Number.isFinite(limit) ? limit : 200);
+    const checklist = await buildKnowledgeContext({ itemTypes: ["checklist"], maxItems: 20 });
+
+    return NextResponse.json({
+      ok: true,
+      checks,
+      summary: summarizeOverrides(checks),
+      checklist: checklist.map((b) => ({ title: b.title, content: b.content })),
+    });
+  } catch (err: any) {
+    console.error("[pretrade/list] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as PreTradeInput;
+    const description = typeof body?.description === "string" ? body.description : "";
+    const supabase = createClient();
+
+    const result = await evaluatePreTrade(supabase, { ...body, description, channel: "web" });
+    const check = await logPreTradeCheck(supabase, result, description, "web");
+
+    return NextResponse.json({ ok: true, result, check });
+  } catch (err: any) {
+    console.error("[pretrade/evaluate] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
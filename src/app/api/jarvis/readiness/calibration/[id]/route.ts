@@ -0,0 +1,26 @@
+// /app/api/jarvis/readiness/calibration/[id]/route.ts
+// PATCH { accepted: true } → { ok, calibration }  make this proposal the active readiness model
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { acceptReadinessModel } from "@/lib/jarvis/checkins";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    if (body?.accepted !== true) {
+      throw new Error("Send { accepted: true } to accept; DELETE /api/jarvis/readiness/calibration resets to defaults.");
+    }
+    const calibration = await acceptReadinessModel(createClient(), id);
+
+    return NextResponse.json({ ok: true, calibration });
+  } catch (err: any) {
+    console.error("[readiness/accept] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+// /app/api/jarvis/readiness/calibration/route.ts
+// GET    → { ok, latest, active }  latest proposal/accepted model with evidence; active model in use
+// POST   → { ok, calibration }     re-run the analysis over all check-ins and trades
+// DELETE → { ok, active }          go back to the default model
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  getActiveReadinessModel,
+  getLatestCalibration,
+  resetReadinessModel,
+  runReadinessCalibration,
+} from "@/lib/jarvis/checkins";
+
+export async function GET() {
+  try {
+    const supabase = createClient();
+    const [latest, active] = await Promise.all([
+      getLatestCalibration(supabase),
+      getActiveReadinessModel(supabase),
+    ]);
+
+    return NextResponse.json({ ok: true, latest, active });
+  } catch (err: any) {
+    console.error("[readiness/calibration] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
+
+export async function POST() {
+  try {
+    const calibration = await runReadinessCalibration(createClient());
+
+    return NextResponse.json({ ok: true, calibration });
+  } catch (err: any) {
+    console.error("[readiness/calibrate] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE() {
+  try {
+    const supabase = createClient();
+    await resetReadinessModel(supabase);
+
+    return NextResponse.json({ ok: true, active: await getActiveReadinessModel(supabase) });
+  } catch (err: any) {
+    console.error("[readiness/reset] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
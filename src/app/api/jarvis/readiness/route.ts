@@ -0,0 +1,19 @@
+// /app/api/jarvis/readiness/route.ts
+// GET → { ok, readiness, checkin, recentTrades } for today; readiness is null without a check-in
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { loadTodayReadiness } from "@/lib/jarvis/checkins";
+
+export async function GET() {
+  try {
+    const today = await loadTodayReadiness(createClient());
+
+    return NextResponse.json({ ok: true, ...today });
+  } catch (err: any) {
+    console.error("[readiness] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
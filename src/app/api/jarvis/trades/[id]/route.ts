@@ -0,0 +1,55 @@
+// /app/api/jarvis/trades/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { deleteTrade, getTrade, updateTrade, type TradePatch } from "@/lib/jarvis/trades";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_req: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const trade = await getTrade(createClient(), id);
+    if (!trade) {
+      return NextResponse.json({ ok: false, error: "Trade not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true, trade });
+  } catch (err: any) {
+    console.error("[trades/get] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = (await req.json()) as TradePatch;
+    const trade = await updateTrade(createClient(), id, body);
+
+    return NextResponse.json({ ok: true, trade });
+  } catch (err: any) {
+    console.error("[trades/update] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE(_req: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    await deleteTrade(createClient(), id);
+
+    return NextResponse.json({ ok: true });
+  } catch (err: any) {
+    console.error("[trades/delete] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+// /app/api/jarvis/trades/export/route.ts
+// GET ?format=csv|json&from=YYYY-MM-DD&to=YYYY-MM-DD → file download, oldest first
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { listAllTrades, TRADE_EXPORT_COLUMNS } from "@/lib/jarvis/trades";
+import {
+  exportBody,
+  exportFilename,
+  parseDateRange,
+  parseExportFormat,
+} from "@/lib/jarvis/export";
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const format = parseExportFormat(searchParams.get("format"));
+    const range = parseDateRange(searchParams.get("from"), searchParams.get("to"));
+
+    const trades = await listAllTrades(createClient(), range);
+    const { body, contentType } = exportBody(trades.reverse(), TRADE_EXPORT_COLUMNS, format);
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${exportFilename("trades", range, format)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err: any) {
+    console.error("[trades/export] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+// /app/api/jarvis/trades/import-broker/route.ts
+// Body: { content, format?, mapping?, dateOrder?, dryRun? }
+// Parses an MT4/MT5 HTML statement or a cTrader / column-mapped CSV and
+// stores new trades (deduped by ticket). dryRun returns the parsed preview only;
+// a plain CSV without a mapping returns its headers so the UI can ask for one.
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  insertTradesIfNew,
+  parseBrokerStatement,
+  type BrokerImportOptions,
+} from "@/lib/jarvis/trades";
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as BrokerImportOptions & {
+      content: string;
+      dryRun?: boolean;
+    };
+
+    const parsed = parseBrokerStatement(body?.content, {
+      format: body.format,
+      mapping: body.mapping,
+      dateOrder: body.dateOrder,
+    });
+    const needsMapping = parsed.format === "csv" && !body.mapping;
+
+    const summary = {
+      format: parsed.format,
+      headers: parsed.headers,
+      parsed: parsed.trades.length,
+      unmapped: parsed.unmapped,
+      ignored: parsed.ignored,
+      needsMapping,
+    };
+
+    if (body.dryRun || needsMapping) {
+      return NextResponse.json({ ok: true, ...summary, preview: parsed.trades.slice(0, 50) });
+    }
+
+    const result = await insertTradesIfNew(createClient(), parsed.trades);
+    return NextResponse.json({ ok: true, ...summary, ...result });
+  } catch (err: any) {
+    console.error("[trades/import-broker] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+// /app/api/jarvis/trades/import-local/route.ts
+// One-time import of the browser journal (localStorage "jarvis-trade-journal-v1").
+// Each trade is keyed by its local id, so posting the same list again is a no-op.
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { importLocalJournal } from "@/lib/jarvis/trades";
+import type { JournalTrade } from "@/lib/jarvis/journalStats";
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as { trades: JournalTrade[] };
+    const result = await importLocalJournal(createClient(), body?.trades);
+
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err: any) {
+    console.error("[trades/import-local] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+// /app/api/jarvis/trades/route.ts
+// GET  ?from=YYYY-MM-DD&to=YYYY-MM-DD&symbol=XAUUSD&limit=200 → newest first
+// POST TradeInput → created row
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createTrade, listTrades, type TradeInput } from "@/lib/jarvis/trades";
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const limit = searchParams.get("limit");
+
+    const trades = await listTrades(createClient(), {
+      from: searchParams.get("from") ?? undefined,
+      to: searchParams.get("to") ?? undefined,
+      symbol: searchParams.get("symbol") ?? undefined,
+      limit: limit ? Number(limit) : undefined,
+    });
+
+    return NextResponse.json({ ok: true, trades });
+  } catch (err: any) {
+    console.error("[trades/list] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as TradeInput;
+    const trade = await createTrade(createClient(), body);
+
+    return NextResponse.json({ ok: true, trade });
+  } catch (err: any) {
+    console.error("[trades/create] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
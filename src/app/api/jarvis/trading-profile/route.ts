@@ -0,0 +1,44 @@
+// /app/api/jarvis/trading-profile/route.ts
+// GET → { ok, profile }  (null until the first save)
+// PATCH form fields (account_size, max_trades_per_day, cooldown_minutes, ...; "" clears) → { ok, profile }
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  loadTradingProfile,
+  parseTradingProfileForm,
+  upsertTradingProfile,
+} from "@/lib/jarvis/tradingMemory";
+
+export async function GET() {
+  try {
+    const profile = await loadTradingProfile(createClient());
+
+    return NextResponse.json({ ok: true, profile });
+  } catch (err: any) {
+    console.error("[trading-profile/get] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  try {
+    const supabase = createClient();
+    const patch = parseTradingProfileForm(await req.json());
+    if (!Object.keys(patch).length) throw new Error("Nothing to update.");
+
+    await upsertTradingProfile(supabase, patch);
+    const profile = await loadTradingProfile(supabase);
+    if (!profile) throw new Error("Trading profile could not be saved.");
+
+    return NextResponse.json({ ok: true, profile });
+  } catch (err: any) {
+    console.error("[trading-profile/update] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
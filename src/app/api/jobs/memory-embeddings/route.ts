@@ -0,0 +1,43 @@
+// /app/api/jobs/memory-embeddings/route.ts
+/**
+ * Backfills embeddings on jarvis_memory rows saved without one (or with a
+ * different provider), so semantic retrieval doesn't re-embed them per query.
+ * Body (optional): { userId?: string, limit?: number }.
+ *
+ * Protected by X-JARVIS-KEY header (JARVIS_API_KEY env). GET is the same job
+ * for Vercel Cron, which authenticates with "Authorization: Bearer <CRON_SECRET>".
+ */
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { jobAuthError } from "@/lib/job-auth";
+import { backfillMemoryEmbeddings } from "@/lib/jarvis-memory";
+import { getEmbeddingProvider } from "@/lib/jarvis/memory";
+
+async function run(opts: { userId?: string; limit?: number }) {
+  try {
+    const limit = Math.max(1, Math.min(500, Number(opts.limit) || 100));
+    const updated = await backfillMemoryEmbeddings(createClient(), { userId: opts.userId, limit });
+
+    return NextResponse.json({ ok: true, provider: getEmbeddingProvider().id, updated });
+  } catch (err: any) {
+    console.error("[jobs/memory-embeddings] error", err);
+    return NextResponse.json({ ok: false, error: err?.message ?? "Unknown error" }, { status: 400 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const denied = jobAuthError(req, "memory-embeddings");
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => ({}));
+  return run({ userId: typeof body?.userId === "string" ? body.userId : undefined, limit: body?.limit });
+}
+
+export async function GET(req: NextRequest) {
+  const denied = jobAuthError(req, "memory-embeddings");
+  if (denied) return denied;
+
+  return run({});
+}
@@ -0,0 +1,42 @@
+// /app/api/jobs/memory-maintenance/route.ts
+/**
+ * Daily memory upkeep: merges near-duplicate memories, steps down the
+ * importance of ones that haven't been reinforced and archives the stale
+ * ones. Merges and archives land in jarvis_memory_log and can be undone.
+ * Body (optional): { userId?: string }.
+ *
+ * Protected by X-JARVIS-KEY header (JARVIS_API_KEY env). GET is the same job
+ * for Vercel Cron, which authenticates with "Authorization: Bearer <CRON_SECRET>".
+ */
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { jobAuthError } from "@/lib/job-auth";
+import { runMemoryMaintenance } from "@/lib/jarvis/memory";
+
+async function run(opts: { userId?: string }) {
+  try {
+    const result = await runMemoryMaintenance(createClient(), { userId: opts.userId });
+
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err: any) {
+    console.error("[jobs/memory-maintenance] error", err);
+    return NextResponse.json({ ok: false, error: err?.message ?? "Unknown error" }, { status: 400 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const denied = jobAuthError(req, "memory-maintenance");
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => ({}));
+  return run({ userId: typeof body?.userId === "string" ? body.userId : undefined });
+}
+
+export async function GET(req: NextRequest) {
+  const denied = jobAuthError(req, "memory-maintenance");
+  if (denied) return denied;
+
+  return run({});
+}
@@ -0,0 +1,79 @@
+// /app/api/jobs/morning-checkin/route.ts
+/**
+ * Starts the guided Telegram morning check-in once the local time reaches
+ * JARVIS_CHECKIN_TIME ("HH:MM", default 08:00) in JARVIS_TIMEZONE
+ * (default Asia/Kolkata). Meant to be pinged every ~15 minutes by a scheduler;
+ * it only starts once per day and never if today's check-in is already logged.
+ *
+ * Protected by X-JARVIS-KEY header (JARVIS_API_KEY env). GET is the same job
+ * for Vercel Cron, which authenticates with "Authorization: Bearer <CRON_SECRET>".
+ * Chat: TELEGRAM_PRIMARY_CHAT_ID, else TELEGRAM_CHAT_ID.
+ */
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { jobAuthError } from "@/lib/job-auth";
+import { sendToTelegram } from "@/lib/telegram";
+import { startTelegramCheckin } from "@/lib/jarvis/checkins";
+
+const DEFAULT_CHECKIN_TIME = "08:00";
+const DEFAULT_TIMEZONE = "Asia/Kolkata";
+
+// Minutes since local midnight in the given IANA timezone
+function localMinutes(timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date());
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return get("hour") * 60 + get("minute");
+}
+
+function parseCheckinTime(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    throw new Error(`JARVIS_CHECKIN_TIME must be HH:MM, got "${value}".`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+async function run() {
+  try {
+    const chatId = process.env.TELEGRAM_PRIMARY_CHAT_ID || process.env.TELEGRAM_CHAT_ID;
+    if (!chatId) throw new Error("Set TELEGRAM_PRIMARY_CHAT_ID or TELEGRAM_CHAT_ID.");
+
+    const timezone = process.env.JARVIS_TIMEZONE || DEFAULT_TIMEZONE;
+    const startAt = parseCheckinTime(process.env.JARVIS_CHECKIN_TIME || DEFAULT_CHECKIN_TIME);
+    if (localMinutes(timezone) < startAt) {
+      return NextResponse.json({ ok: true, started: false, reason: "too_early" });
+    }
+
+    const reply = await startTelegramCheckin(createClient(), chatId, "schedule");
+    if (!reply) {
+      return NextResponse.json({ ok: true, started: false, reason: "already_started_today" });
+    }
+
+    await sendToTelegram(chatId, reply.text, { keyboard: reply.keyboard });
+    return NextResponse.json({ ok: true, started: true });
+  } catch (err: any) {
+    console.error("[jobs/morning-checkin] error", err);
+    return NextResponse.json({ ok: false, error: err?.message ?? "Unknown error" }, { status: 400 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const denied = jobAuthError(req, "morning-checkin");
+  if (denied) return denied;
+
+  return run();
+}
+
+export async function GET(req: NextRequest) {
+  const denied = jobAuthError(req, "morning-checkin");
+  if (denied) return denied;
+
+  return run();
+}
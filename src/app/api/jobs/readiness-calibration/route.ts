@@ -0,0 +1,41 @@
+// /app/api/jobs/readiness-calibration/route.ts
+/**
+ * Scheduled readiness calibration: re-analyses check-ins against same-day
+ * trade results and stores a fresh proposal for /readiness. Nothing changes
+ * until the user accepts it there.
+ *
+ * Protected by X-JARVIS-KEY header (JARVIS_API_KEY env). GET is the same job
+ * for Vercel Cron, which authenticates with "Authorization: Bearer <CRON_SECRET>".
+ */
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { jobAuthError } from "@/lib/job-auth";
+import { runReadinessCalibration } from "@/lib/jarvis/checkins";
+
+async function run() {
+  try {
+    const row = await runReadinessCalibration(createClient());
+    const { tradingDays, ready, changes } = row.evidence;
+
+    return NextResponse.json({ ok: true, id: row.id, version: row.version, tradingDays, ready, changes });
+  } catch (err: any) {
+    console.error("[jobs/readiness-calibration] error", err);
+    return NextResponse.json({ ok: false, error: err?.message ?? "Unknown error" }, { status: 400 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const denied = jobAuthError(req, "readiness-calibration");
+  if (denied) return denied;
+
+  return run();
+}
+
+export async function GET(req: NextRequest) {
+  const denied = jobAuthError(req, "readiness-calibration");
+  if (denied) return denied;
+
+  return run();
+}
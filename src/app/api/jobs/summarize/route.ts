@@ -1,22 +1,44 @@
-// Minimal no-op summarizer route to avoid build-time type mismatches.
-// Replacing the previous summarizer implementation temporarily so the app can build and Jarvis can go live.
-// You can restore a full summarizer later once you want it back.
-
+// /app/api/jobs/summarize/route.ts
+/**
+ * Daily memory summarizer: summarizes the last N days of memories, chat
+ * history and journal trades, rebuilds the /profile summary and writes the
+ * day's entry for /journal/auto. Runs once per local day (JARVIS_TIMEZONE);
+ * later runs that day are skipped unless { force: true }.
+ * Body (optional): { days?: number, force?: boolean }.
+ *
+ * Protected by X-JARVIS-KEY header (JARVIS_API_KEY env). GET is the same job
+ * for Vercel Cron, which authenticates with "Authorization: Bearer <CRON_SECRET>".
+ */
 export const runtime = "nodejs";
 
 import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { jobAuthError } from "@/lib/job-auth";
+import { runDailySummary } from "@/lib/daily-summary";
 
-export async function POST(req: NextRequest) {
+async function run(opts: { days?: number; force?: boolean }) {
   try {
-    // Intentionally do nothing: summarizer disabled for deployment stability.
-    // Returning success so any scheduled job or trigger sees an OK response.
-    return NextResponse.json({ ok: true, message: "Summarizer disabled for deployment." });
+    const days = Math.max(1, Math.min(90, Number(opts.days) || 7));
+    const result = await runDailySummary(createClient(), { days, force: opts.force === true });
+
+    return NextResponse.json({ ok: true, ...result });
   } catch (err: any) {
-    console.error("summarizer no-op failed:", err);
-    return NextResponse.json({ ok: false, error: String(err) }, { status: 500 });
+    console.error("[jobs/summarize] error", err);
+    return NextResponse.json({ ok: false, error: err?.message ?? "Unknown error" }, { status: 400 });
   }
 }
 
-export async function GET() {
-  return NextResponse.json({ ok: true, message: "Summarizer disabled (GET)." });
+export async function POST(req: NextRequest) {
+  const denied = jobAuthError(req, "summarize");
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => ({}));
+  return run({ days: body?.days, force: body?.force });
+}
+
+export async function GET(req: NextRequest) {
+  const denied = jobAuthError(req, "summarize");
+  if (denied) return denied;
+
+  return run({});
 }
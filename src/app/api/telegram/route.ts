@@ -1,19 +1,59 @@
 // src/app/api/telegram/route.ts
 export const runtime = "nodejs";
 
-import { NextRequest, NextResponse } from "next/server";
+import { after, NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { getNowInfo } from "@/lib/time";
 import { handleIncomingChat } from "@/lib/chat-forward";
-import { sendToTelegram } from "@/lib/telegram";
+import {
+  answerTelegramCallback,
+  editTelegramMessage,
+  sendToTelegram,
+  type TelegramInlineKeyboard,
+} from "@/lib/telegram";
+import { answerMathQuestionFromText } from "@/lib/jarvis/mathIntent";
+import { answerPreTradeCommand } from "@/lib/jarvis/preTrade";
+import { handleCheckinCallback, handleCheckinText, type TelegramFlowReply } from "@/lib/jarvis/checkins";
+import { checkForTilt, cooldownNotice } from "@/lib/jarvis/tilt";
+import { answerMemoryCommand } from "@/lib/jarvis/memory";
 import memoryLib from "@/lib/jarvis-memory";
+import { captureMemoryFromMessage } from "@/lib/memory-capture";
 
 type TelegramWebhook = any; // keep flexible
 
+// Guided check-in button tap: stamp the answer on the question, ask the next one
+async function handleCallbackQuery(query: any) {
+  const chatId = query.message?.chat?.id;
+  let reply: TelegramFlowReply | null = null;
+  try {
+    reply = chatId ? await handleCheckinCallback(createClient(), chatId, query.data ?? "") : null;
+  } catch (err: any) {
+    console.warn("telegram check-in callback failed:", err);
+    reply = { text: `Check-in failed: ${err?.message ?? "unknown error"}` };
+  }
+
+  try {
+    await answerTelegramCallback(query.id);
+    if (!reply) return;
+    if (reply.answered && query.message?.message_id) {
+      await editTelegramMessage(chatId, query.message.message_id, reply.answered);
+    }
+    await sendToTelegram(chatId, reply.text, { keyboard: reply.keyboard });
+  } catch (e) {
+    console.warn("telegram callback reply failed:", e);
+  }
+}
+
 export async function POST(req: NextRequest) {
   try {
     const body: TelegramWebhook = await req.json();
 
+    // Inline button taps (guided check-in) arrive as callback_query, not message
+    if (body?.callback_query) {
+      await handleCallbackQuery(body.callback_query);
+      return NextResponse.json({ ok: true });
+    }
+
     const message =
       body?.message ?? body?.edited_message ?? body?.channel_post;
 
@@ -40,41 +80,96 @@ export async function POST(req: NextRequest) {
     const userId = `tg:${chatId}`;
     const incoming = [{ role: "user", content: text }];
 
-    // === 1) Forward to Jarvis internal chat ===
+    // === 1) Guided check-in step, forget/undo memory command, tilt check, pre-trade gate command, deterministic math answer, else forward to Jarvis internal chat ===
     let finalText = "Hi — Jarvis received your message.";
+    let keyboard: TelegramInlineKeyboard | undefined;
+    let directReply: string | null = null; // answered here without the chat model
+    let handledCommand = false; // check-in answers and memory commands aren't facts to extract
     try {
-      const reply = await handleIncomingChat({
-        messages: incoming,
-        userId,
-      });
+      const checkinReply = await handleCheckinText(createClient(), chatId, text);
+      if (checkinReply) {
+        handledCommand = true;
+        directReply = checkinReply.text;
+        keyboard = checkinReply.keyboard;
+      }
+    } catch (err: any) {
+      console.warn("telegram check-in step failed:", err);
+      directReply = `Check-in failed: ${err?.message ?? "unknown error"}`;
+    }
+    if (!directReply) {
+      try {
+        directReply = await answerMemoryCommand(createClient(), userId, text, "telegram");
+        handledCommand = !!directReply;
+      } catch (err: any) {
+        console.warn("telegram memory command failed:", err);
+        directReply = `Memory command failed: ${err?.message ?? "unknown error"}`;
+      }
+    }
+
+    // Tilt check before any gate or sizing answer (check-in answers are skipped);
+    // a new cool-down is announced with the reply
+    const tilt = directReply ? null : await checkForTilt(createClient(), text, { channel: "telegram", chatId });
+    if (!directReply) {
+      try {
+        directReply = await answerPreTradeCommand(createClient(), text);
+      } catch (err: any) {
+        console.warn("telegram pre-trade command failed:", err);
+        directReply = `Pre-trade check failed: ${err?.message ?? "unknown error"}`;
+      }
+    }
+    if (!directReply) {
+      try {
+        directReply = await answerMathQuestionFromText(createClient(), text, { cooldown: tilt?.cooldown });
+      } catch (err) {
+        console.warn("telegram math intent failed:", err);
+      }
+    }
 
-      // Safe normalization: check shapes before accessing .text
-      if (typeof reply === "string") {
-        finalText = reply;
-      } else if (reply && typeof reply === "object") {
-        // If it has a 'text' property that's a string, use it.
-        if ("text" in reply && typeof (reply as any).text === "string") {
-          finalText = (reply as any).text;
-        } else if ("reply" in reply && typeof (reply as any).reply === "string") {
-          finalText = (reply as any).reply;
-        } else if ("message" in reply && typeof (reply as any).message === "string") {
-          finalText = (reply as any).message;
+    if (directReply) {
+      finalText = directReply;
+    } else {
+      try {
+        const reply = await handleIncomingChat({
+          messages: incoming,
+          userId,
+        });
+
+        // Safe normalization: check shapes before accessing .text
+        if (typeof reply === "string") {
+          finalText = reply;
+        } else if (reply && typeof reply === "object") {
+          // If it has a 'text' property that's a string, use it.
+          if ("text" in reply && typeof (reply as any).text === "string") {
+            finalText = (reply as any).text;
+          } else if ("reply" in reply && typeof (reply as any).reply === "string") {
+            finalText = (reply as any).reply;
+          } else if ("message" in reply && typeof (reply as any).message === "string") {
+            finalText = (reply as any).message;
+          } else {
+            // fallback to stringifying the object (safe)
+            finalText = JSON.stringify(reply);
+          }
         } else {
-          // fallback to stringifying the object (safe)
-          finalText = JSON.stringify(reply);
+          finalText = String(reply ?? finalText);
         }
-      } else {
-        finalText = String(reply ?? finalText);
+      } catch (err) {
+        console.warn("handleIncomingChat failed:", err);
+        finalText =
+          "Jarvis encountered an error processing your message. Try again.";
       }
-    } catch (err) {
-      console.warn("handleIncomingChat failed:", err);
-      finalText =
-        "Jarvis encountered an error processing your message. Try again.";
+    }
+
+    if (tilt?.started && tilt.cooldown) {
+      finalText = `${cooldownNotice(tilt.cooldown)}\n\n${finalText}`;
+    }
+
+    if (!handledCommand) {
+      after(() => captureMemoryFromMessage(createClient(), { userId, text, channel: "telegram" }));
     }
 
     // === 2) Send Telegram reply ===
     try {
-      await sendToTelegram(chatId, finalText);
+      await sendToTelegram(chatId, finalText, { keyboard });
     } catch (e) {
       console.warn("sendToTelegram failed:", e);
     }
@@ -0,0 +1,36 @@
+// /app/api/trade/analyze/route.ts
+// Body: { description, context? } → { ok, analysis, checks[], setup, math }
+// Levels, RR and size are computed deterministically; the setup is then
+// graded against active rule/checklist knowledge items.
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { analyzeTradeSetup } from "@/lib/jarvis/tradeAnalysis";
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const description = typeof body?.description === "string" ? body.description : "";
+    const context = typeof body?.context === "string" ? body.context : "";
+
+    const result = await analyzeTradeSetup(createClient(), description, context);
+
+    return NextResponse.json({
+      ok: true,
+      analysis: result.analysis,
+      checks: result.checks,
+      setup: result.setup,
+      math: {
+        riskReward: result.math.riskReward,
+        positionSize: result.math.positionSize,
+        assumptions: result.math.assumptions,
+        error: result.math.error,
+      },
+    });
+  } catch (err: any) {
+    console.error("[trade/analyze] error", err);
+    return NextResponse.json(
+      { ok: false, error: err?.message ?? "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
@@ -2,8 +2,13 @@
 
 import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
+import ExportControls from "@/components/ExportControls";
+import { toWebCheckin } from "@/lib/jarvis/checkins";
+import { localDate } from "@/lib/time";
 
+// Pre-Supabase check-ins; imported once, then left alone as a backup
 const STORAGE_KEY = "jarvis-daily-checkins-v1";
+const IMPORTED_KEY = "jarvis-daily-checkins-v1-imported";
 
 const defaultForm = {
   date: "",
@@ -25,35 +30,43 @@ export default function CheckinPage() {
   const [analysisText, setAnalysisText] = useState("");
   const [analysisError, setAnalysisError] = useState("");
 
-  // Load from localStorage
+  const [loadError, setLoadError] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // Import any browser-only check-ins once, then load them from Supabase
   useEffect(() => {
-    try {
-      if (typeof window === "undefined") return;
-      const raw = window.localStorage.getItem(STORAGE_KEY);
-      if (raw) {
-        const parsed = JSON.parse(raw);
-        if (Array.isArray(parsed)) setCheckins(parsed);
+    const load = async () => {
+      try {
+        const raw = window.localStorage.getItem(STORAGE_KEY);
+        const local = raw ? JSON.parse(raw) : [];
+        if (Array.isArray(local) && local.length && !window.localStorage.getItem(IMPORTED_KEY)) {
+          const res = await fetch("/api/jarvis/checkins/import-local", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ checkins: local }),
+          });
+          const data = await res.json();
+          if (!data.ok) throw new Error(data.error || "Import failed");
+          if (data.errors?.length) console.warn("Some local check-ins were not imported", data.errors);
+          window.localStorage.setItem(IMPORTED_KEY, new Date().toISOString());
+        }
+
+        const res = await fetch("/api/jarvis/checkins");
+        const data = await res.json();
+        if (!data.ok) throw new Error(data.error || "Load failed");
+        setCheckins(data.checkins.map(toWebCheckin));
+      } catch (e) {
+        console.error("Failed to load checkins", e);
+        setLoadError("Couldn't load your check-ins from Jarvis. Check your connection and reload.");
       }
-    } catch (e) {
-      console.error("Failed to load checkins", e);
-    }
+    };
+    load();
   }, []);
 
-  // Save on change
-  useEffect(() => {
-    try {
-      if (typeof window === "undefined") return;
-      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(checkins));
-    } catch (e) {
-      console.error("Failed to save checkins", e);
-    }
-  }, [checkins]);
-
   // Set default date = today
   useEffect(() => {
     if (!form.date) {
-      const today = new Date().toISOString().slice(0, 10);
-      setForm((prev) => ({ ...prev, date: today }));
+      setForm((prev) => ({ ...prev, date: localDate() }));
     }
   }, [form.date]);
 
@@ -61,30 +74,46 @@ export default function CheckinPage() {
     setForm((prev) => ({ ...prev, [field]: value }));
   };
 
-  const handleSubmit = (e) => {
+  const handleSubmit = async (e) => {
     e.preventDefault();
 
-    const date = form.date || new Date().toISOString().slice(0, 10);
-
-    const newCheckin = {
-      id: Date.now(),
-      date,
-      sleepHours: form.sleepHours.trim(),
-      sleepQuality: form.sleepQuality,
-      mood: form.mood,
-      stress: form.stress,
-      energy: form.energy,
-      focus: form.focus,
-      urgeToTrade: form.urgeToTrade,
-      notes: form.notes.trim(),
-      plan: form.plan.trim(),
-    };
+    const date = form.date || localDate();
 
-    // Prevent duplicate for same day (replace last with same date)
-    setCheckins((prev) => {
-      const filtered = prev.filter((c) => c.date !== date);
-      return [newCheckin, ...filtered];
-    });
+    setSaving(true);
+    try {
+      const res = await fetch("/api/jarvis/checkins", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          checkin_date: date,
+          sleep_hours: form.sleepHours.trim(),
+          sleep_quality: form.sleepQuality,
+          mood: form.mood,
+          stress: form.stress,
+          energy: form.energy,
+          focus: form.focus,
+          urge_to_trade: form.urgeToTrade,
+          notes: form.notes.trim(),
+          plan: form.plan.trim(),
+        }),
+      });
+      const data = await res.json();
+      if (!data.ok) throw new Error(data.error || "Save failed");
+
+      // One check-in per day: the saved one replaces that date
+      const saved = toWebCheckin(data.checkin);
+      setCheckins((prev) =>
+        [saved, ...prev.filter((c) => c.date !== saved.date)].sort((a, b) =>
+          b.date.localeCompare(a.date)
+        )
+      );
+    } catch (err) {
+      console.error("Failed to save check-in", err);
+      alert(`Couldn't save the check-in: ${err.message}`);
+      return;
+    } finally {
+      setSaving(false);
+    }
 
     setAnalysisText("");
     setAnalysisError("");
@@ -184,9 +213,24 @@ Using this, I want you to:
     }
   };
 
-  const handleDelete = (id) => {
+  const handleDelete = async (id) => {
     if (!confirm("Delete this check-in?")) return;
-    setCheckins((prev) => prev.filter((c) => c.id !== id));
+    try {
+      const res = await fetch(`/api/jarvis/checkins/${id}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!data.ok) throw new Error(data.error || "Delete failed");
+      setCheckins((prev) => prev.filter((c) => c.id !== id));
+    } catch (err) {
+      console.error("Failed to delete check-in", err);
+      alert(`Couldn't delete the check-in: ${err.message}`);
+    }
+  };
+
+  const handleExport = (format, range) => {
+    const params = new URLSearchParams({ format });
+    if (range.from) params.set("from", range.from);
+    if (range.to) params.set("to", range.to);
+    window.location.href = `/api/jarvis/checkins/export?${params}`;
   };
 
   return (
@@ -211,7 +255,7 @@ Using this, I want you to:
 
           <div className="flex flex-wrap items-center gap-2 text-xs sm:text-[0.7rem]">
             <span className="rounded-full bg-slate-900/80 px-3 py-1 text-slate-400 ring-1 ring-slate-700">
-              Stored locally in your browser
+              Synced with Jarvis (web + Telegram)
             </span>
             <Link
               href="/"
@@ -447,9 +491,10 @@ Using this, I want you to:
               <div className="flex justify-end">
                 <button
                   type="submit"
-                  className="inline-flex items-center gap-2 rounded-xl bg-amber-500 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-950 shadow-lg shadow-amber-500/40 transition hover:bg-amber-400"
+                  disabled={saving}
+                  className="inline-flex items-center gap-2 rounded-xl bg-amber-500 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-950 shadow-lg shadow-amber-500/40 transition hover:bg-amber-400 disabled:cursor-not-allowed disabled:opacity-60"
                 >
-                  Save today
+                  {saving ? "Saving…" : "Save today"}
                   <span>✓</span>
                 </button>
               </div>
@@ -491,6 +536,16 @@ Using this, I want you to:
                 </span>
               </div>
 
+              {checkins.length > 0 && (
+                <div className="mb-3">
+                  <ExportControls label="Export" onExport={handleExport} />
+                </div>
+              )}
+
+              {loadError && (
+                <p className="py-2 text-xs text-rose-400">{loadError}</p>
+              )}
+
               {checkins.length === 0 ? (
                 <p className="py-6 text-center text-xs text-slate-500">
                   Start by logging today. This history is for you and Jarvis to see your
@@ -0,0 +1,309 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { decodeStatement } from "@/lib/jarvis/trades/brokerImport";
+
+const FORMATS = [
+  { value: "auto", label: "Detect automatically" },
+  { value: "mt-html", label: "MT4 / MT5 statement (HTML)" },
+  { value: "ctrader-csv", label: "cTrader history (CSV)" },
+  { value: "csv", label: "Other CSV (map columns)" },
+];
+
+const DATE_ORDERS = [
+  { value: "", label: "Default for format" },
+  { value: "YMD", label: "Year-Month-Day" },
+  { value: "DMY", label: "Day/Month/Year" },
+  { value: "MDY", label: "Month/Day/Year" },
+];
+
+// Journal fields a CSV column can map to
+const MAPPING_FIELDS = [
+  { key: "symbol", label: "Symbol *" },
+  { key: "direction", label: "Direction (buy/sell) *" },
+  { key: "ticket", label: "Ticket / ID" },
+  { key: "openTime", label: "Open time" },
+  { key: "closeTime", label: "Close time" },
+  { key: "entry", label: "Entry price" },
+  { key: "exit", label: "Exit price" },
+  { key: "stop", label: "Stop loss" },
+  { key: "target", label: "Take profit" },
+  { key: "profit", label: "Profit (money)" },
+  { key: "resultR", label: "Result R" },
+];
+
+const inputClass =
+  "w-full rounded-lg border border-slate-800 bg-slate-900/80 px-3 py-2 text-xs text-slate-100 outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500";
+
+export default function JournalImportPage() {
+  const [fileName, setFileName] = useState("");
+  const [content, setContent] = useState("");
+  const [format, setFormat] = useState("auto");
+  const [dateOrder, setDateOrder] = useState("");
+  const [mapping, setMapping] = useState({});
+  const [headers, setHeaders] = useState([]);
+  const [needsMapping, setNeedsMapping] = useState(false);
+
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [report, setReport] = useState(null);
+
+  const handleFile = async (e) => {
+    const file = e.target.files?.[0];
+    setReport(null);
+    setError("");
+    setHeaders([]);
+    setNeedsMapping(false);
+    setMapping({});
+    if (!file) return;
+    setFileName(file.name);
+    setContent(decodeStatement(await file.arrayBuffer()));
+  };
+
+  const run = async (dryRun) => {
+    if (!content) {
+      alert("Choose a statement file first.");
+      return;
+    }
+
+    const cleanMapping = Object.fromEntries(
+      Object.entries(mapping).filter(([, v]) => v !== "")
+    );
+    const useMapping = format === "csv" || needsMapping;
+
+    setBusy(true);
+    setError("");
+    try {
+      const res = await fetch("/api/jarvis/trades/import-broker", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          content,
+          format: useMapping ? "csv" : format,
+          dateOrder: dateOrder || undefined,
+          mapping: useMapping && cleanMapping.symbol && cleanMapping.direction ? cleanMapping : undefined,
+          dryRun,
+        }),
+      });
+      const data = await res.json();
+      if (!data.ok) throw new Error(data.error || "Import failed");
+
+      setHeaders(data.headers || []);
+      setNeedsMapping(data.needsMapping || (useMapping && data.format === "csv"));
+      setReport({ ...data, dryRun: dryRun || data.needsMapping });
+    } catch (err) {
+      console.error("Statement import error:", err);
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center px-2 py-4 sm:px-4">
+      <div className="flex w-full max-w-4xl flex-col gap-4 sm:gap-5">
+        {/* Header */}
+        <header className="flex flex-col justify-between gap-3 rounded-2xl border border-slate-800/80 bg-slate-950/70 px-4 py-3 shadow-lg shadow-black/40 backdrop-blur sm:flex-row sm:items-center sm:px-6">
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-full bg-indigo-500/15 ring-2 ring-indigo-500/60">
+              <span className="text-xl">📥</span>
+            </div>
+            <div>
+              <h1 className="text-base font-semibold text-slate-50 sm:text-lg">
+                Import Broker Statement
+              </h1>
+              <p className="text-xs text-slate-400 sm:text-sm">
+                MT4/MT5 HTML statements, cTrader history or any CSV. Tickets already in
+                your journal are skipped.
+              </p>
+            </div>
+          </div>
+
+          <Link
+            href="/journal"
+            className="rounded-full bg-emerald-500/15 px-3 py-1 text-xs font-medium text-emerald-200 ring-1 ring-emerald-500/60 hover:bg-emerald-500/25 transition"
+          >
+            ← Back to Journal
+          </Link>
+        </header>
+
+        {/* File + options */}
+        <section className="space-y-3 rounded-2xl border border-slate-800/80 bg-slate-950/80 p-4 shadow-xl shadow-black/40 backdrop-blur sm:p-5">
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+            <div className="space-y-1">
+              <label className="text-[0.7rem] font-medium text-slate-400">Statement file</label>
+              <input
+                type="file"
+                accept=".htm,.html,.csv,.txt"
+                onChange={handleFile}
+                className="w-full text-xs text-slate-300 file:mr-3 file:rounded-lg file:border-0 file:bg-slate-800 file:px-3 file:py-2 file:text-xs file:text-slate-100"
+              />
+              {fileName && <p className="text-[0.65rem] text-slate-500">{fileName}</p>}
+            </div>
+
+            <div className="space-y-1">
+              <label className="text-[0.7rem] font-medium text-slate-400">Format</label>
+              <select value={format} onChange={(e) => setFormat(e.target.value)} className={inputClass}>
+                {FORMATS.map((f) => (
+                  <option key={f.value} value={f.value}>
+                    {f.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-1">
+              <label className="text-[0.7rem] font-medium text-slate-400">Date order</label>
+              <select value={dateOrder} onChange={(e) => setDateOrder(e.target.value)} className={inputClass}>
+                {DATE_ORDERS.map((d) => (
+                  <option key={d.value} value={d.value}>
+                    {d.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {needsMapping && headers.length > 0 && (
+            <div className="space-y-2 pt-2">
+              <h2 className="text-sm font-semibold text-slate-100">Map CSV columns</h2>
+              <p className="text-[0.7rem] text-slate-500">
+                R is computed when entry, stop and exit are mapped (or map a Result R column).
+              </p>
+              <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+                {MAPPING_FIELDS.map((f) => (
+                  <div key={f.key} className="space-y-1">
+                    <label className="text-[0.7rem] font-medium text-slate-400">{f.label}</label>
+                    <select
+                      value={mapping[f.key] ?? ""}
+                      onChange={(e) => setMapping((prev) => ({ ...prev, [f.key]: e.target.value }))}
+                      className={inputClass}
+                    >
+                      <option value="">—</option>
+                      {headers.map((h) => (
+                        <option key={h} value={h}>
+                          {h}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex flex-wrap justify-end gap-2 pt-2">
+            <button
+              type="button"
+              onClick={() => run(true)}
+              disabled={busy || !content}
+              className="rounded-xl border border-slate-700 bg-slate-900/80 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-200 transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Preview
+            </button>
+            <button
+              type="button"
+              onClick={() => run(false)}
+              disabled={busy || !content}
+              className="rounded-xl bg-indigo-500 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-950 shadow-lg shadow-indigo-500/40 transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-slate-800 disabled:text-slate-400 disabled:shadow-none"
+            >
+              {busy ? "Working…" : "Import"}
+            </button>
+          </div>
+
+          {error && <p className="text-xs text-rose-400">{error}</p>}
+        </section>
+
+        {/* Report */}
+        {report && (
+          <section className="space-y-3 rounded-2xl border border-slate-800/80 bg-slate-950/80 p-4 shadow-xl shadow-black/40 backdrop-blur sm:p-5">
+            <h2 className="text-sm font-semibold text-slate-100">
+              {report.dryRun ? "Preview" : "Import result"} ({report.format})
+            </h2>
+            <div className="flex flex-wrap gap-2 text-[0.7rem]">
+              <span className="rounded-full bg-slate-900/80 px-3 py-1 text-slate-300 ring-1 ring-slate-700">
+                {report.parsed} trade(s) parsed
+              </span>
+              {!report.dryRun && (
+                <>
+                  <span className="rounded-full bg-emerald-500/15 px-3 py-1 text-emerald-200 ring-1 ring-emerald-500/60">
+                    {report.imported} imported
+                  </span>
+                  <span className="rounded-full bg-slate-900/80 px-3 py-1 text-slate-400 ring-1 ring-slate-700">
+                    {report.skipped} already in journal
+                  </span>
+                </>
+              )}
+              <span className="rounded-full bg-slate-900/80 px-3 py-1 text-slate-400 ring-1 ring-slate-700">
+                {report.ignored} non-trade row(s) ignored
+              </span>
+              <span className="rounded-full bg-amber-500/15 px-3 py-1 text-amber-200 ring-1 ring-amber-500/60">
+                {report.unmapped.length} row(s) not mapped
+              </span>
+            </div>
+
+            {report.needsMapping && (
+              <p className="text-xs text-amber-300">
+                Pick at least the symbol and direction columns above, then preview again.
+              </p>
+            )}
+
+            {report.preview?.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="min-w-full border-collapse text-xs text-slate-200">
+                  <thead>
+                    <tr className="border-b border-slate-800 bg-slate-900/80">
+                      <th className="px-3 py-2 text-left font-medium">Date</th>
+                      <th className="px-3 py-2 text-left font-medium">Symbol</th>
+                      <th className="px-3 py-2 text-left font-medium">Dir</th>
+                      <th className="px-3 py-2 text-left font-medium">Entry</th>
+                      <th className="px-3 py-2 text-left font-medium">Stop</th>
+                      <th className="px-3 py-2 text-left font-medium">Result R</th>
+                      <th className="px-3 py-2 text-left font-medium">Outcome</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.preview.map((t) => (
+                      <tr key={t.external_id} className="border-b border-slate-900/60">
+                        <td className="px-3 py-2 text-slate-300">{t.trade_date}</td>
+                        <td className="px-3 py-2 font-semibold text-slate-50">{t.symbol}</td>
+                        <td className="px-3 py-2 text-slate-300">{t.direction}</td>
+                        <td className="px-3 py-2 text-slate-300">{t.entry ?? "—"}</td>
+                        <td className="px-3 py-2 text-slate-300">{t.stop ?? "—"}</td>
+                        <td className="px-3 py-2 text-slate-300">{t.rr_result ?? "—"}</td>
+                        <td className="px-3 py-2 text-slate-300">{t.outcome ?? "—"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {report.unmapped.length > 0 && (
+              <div>
+                <h3 className="mb-1 text-[0.7rem] font-medium text-slate-400">Rows not mapped</h3>
+                <ul className="space-y-1 text-[0.7rem] text-slate-400">
+                  {report.unmapped.map((u) => (
+                    <li key={`${u.row}-${u.reason}`}>
+                      <span className="text-amber-300">Row {u.row}:</span> {u.reason}
+                      <span className="block truncate text-slate-600">{u.raw}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {report.errors?.length > 0 && (
+              <ul className="space-y-1 text-[0.7rem] text-rose-400">
+                {report.errors.map((e) => (
+                  <li key={e}>{e}</li>
+                ))}
+              </ul>
+            )}
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
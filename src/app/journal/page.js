@@ -2,8 +2,17 @@
 
 import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
-
+import ExportControls from "@/components/ExportControls";
+import {
+  buildJournalStatsSnippet,
+  computeJournalStats,
+} from "@/lib/jarvis/journalStats";
+import { toJournalTrade } from "@/lib/jarvis/trades";
+import { localDate } from "@/lib/time";
+
+// Pre-Supabase journal; imported once, then left alone as a backup
 const STORAGE_KEY = "jarvis-trade-journal-v1";
+const IMPORTED_KEY = "jarvis-trade-journal-v1-imported";
 
 const defaultForm = {
   date: "",
@@ -20,6 +29,74 @@ const defaultForm = {
   notes: "",
 };
 
+function fmtStat(value) {
+  return value == null ? "—" : value.toFixed(2);
+}
+
+function StatCard({ label, value, accent = "text-slate-50" }) {
+  return (
+    <div className="rounded-xl bg-slate-900/80 p-3 border border-slate-800">
+      <div className="text-[0.7rem] text-slate-400">{label}</div>
+      <div className={`mt-1 text-lg font-semibold ${accent}`}>{value}</div>
+    </div>
+  );
+}
+
+// Cumulative R, oldest trade on the left
+function EquityCurve({ points }) {
+  const width = 240;
+  const height = 60;
+  const values = [0, ...points.map((p) => p.cumulativeR)];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const coords = values
+    .map((v, i) => {
+      const x = (i / (values.length - 1)) * width;
+      const y = height - ((v - min) / span) * height;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+  const zeroY = height - ((0 - min) / span) * height;
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/80 p-3">
+      <div className="mb-1 text-[0.7rem] text-slate-400">Equity curve (R)</div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="h-16 w-full" preserveAspectRatio="none">
+        <line x1="0" x2={width} y1={zeroY} y2={zeroY} className="stroke-slate-700" strokeDasharray="3 3" />
+        <polyline points={coords} fill="none" className="stroke-indigo-400" strokeWidth="1.5" />
+      </svg>
+    </div>
+  );
+}
+
+function BreakdownTable({ title, rows }) {
+  if (!rows.length) return null;
+  return (
+    <div>
+      <div className="mb-1 text-[0.7rem] font-medium text-slate-400">{title}</div>
+      <table className="w-full text-[0.7rem] text-slate-300">
+        <tbody>
+          {rows.map((r) => (
+            <tr key={r.key} className="border-b border-slate-900/60">
+              <td className="py-1 pr-2 text-slate-200">{r.key}</td>
+              <td className="py-1 pr-2 text-right text-slate-500">{r.trades}t</td>
+              <td className="py-1 pr-2 text-right">{r.winRatePct.toFixed(0)}%</td>
+              <td
+                className={`py-1 text-right font-semibold ${
+                  r.totalR > 0 ? "text-emerald-400" : r.totalR < 0 ? "text-rose-400" : "text-slate-300"
+                }`}
+              >
+                {r.totalR.toFixed(2)}R
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 export default function JournalPage() {
   const [trades, setTrades] = useState([]);
   const [form, setForm] = useState(defaultForm);
@@ -29,69 +106,41 @@ export default function JournalPage() {
   const [analysisText, setAnalysisText] = useState("");
   const [analysisError, setAnalysisError] = useState("");
 
-  // Load from localStorage on mount
+  const [loadError, setLoadError] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // Import any browser-only trades once, then load the journal from Supabase
   useEffect(() => {
-    try {
-      if (typeof window === "undefined") return;
-      const raw = window.localStorage.getItem(STORAGE_KEY);
-      if (raw) {
-        const parsed = JSON.parse(raw);
-        if (Array.isArray(parsed)) {
-          setTrades(parsed);
+    const load = async () => {
+      try {
+        const raw = window.localStorage.getItem(STORAGE_KEY);
+        const local = raw ? JSON.parse(raw) : [];
+        if (Array.isArray(local) && local.length && !window.localStorage.getItem(IMPORTED_KEY)) {
+          const res = await fetch("/api/jarvis/trades/import-local", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ trades: local }),
+          });
+          const data = await res.json();
+          if (!data.ok) throw new Error(data.error || "Import failed");
+          if (data.errors?.length) console.warn("Some local trades were not imported", data.errors);
+          window.localStorage.setItem(IMPORTED_KEY, new Date().toISOString());
         }
+
+        const res = await fetch("/api/jarvis/trades");
+        const data = await res.json();
+        if (!data.ok) throw new Error(data.error || "Load failed");
+        setTrades(data.trades.map(toJournalTrade));
+      } catch (e) {
+        console.error("Failed to load trades", e);
+        setLoadError("Couldn't load your journal from Jarvis. Check your connection and reload.");
       }
-    } catch (e) {
-      console.error("Failed to load trades from storage", e);
-    }
+    };
+    load();
   }, []);
 
-  // Save to localStorage whenever trades change
-  useEffect(() => {
-    try {
-      if (typeof window === "undefined") return;
-      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(trades));
-    } catch (e) {
-      console.error("Failed to save trades to storage", e);
-    }
-  }, [trades]);
-
-  // Basic stats
-  const stats = useMemo(() => {
-    if (!trades.length) {
-      return {
-        total: 0,
-        wins: 0,
-        losses: 0,
-        winRate: 0,
-        totalR: 0,
-        avgR: 0,
-      };
-    }
-
-    let wins = 0;
-    let losses = 0;
-    let totalR = 0;
-
-    for (const t of trades) {
-      const r = Number(t.rrResult) || 0;
-      totalR += r;
-      if (t.outcome === "Win") wins += 1;
-      if (t.outcome === "Loss") losses += 1;
-    }
-
-    const total = trades.length;
-    const winRate = total ? (wins / total) * 100 : 0;
-    const avgR = total ? totalR / total : 0;
-
-    return {
-      total,
-      wins,
-      losses,
-      winRate,
-      totalR,
-      avgR,
-    };
-  }, [trades]);
+  // Shared analytics (same numbers Jarvis sees in chat)
+  const stats = useMemo(() => computeJournalStats(trades), [trades]);
 
   const handleChange = (field, value) => {
     setForm((prev) => ({
@@ -100,7 +149,7 @@ export default function JournalPage() {
     }));
   };
 
-  const handleSubmit = (e) => {
+  const handleSubmit = async (e) => {
     e.preventDefault();
 
     const symbol = form.symbol.trim().toUpperCase();
@@ -109,35 +158,63 @@ export default function JournalPage() {
       return;
     }
 
-    const date = form.date || new Date().toISOString().slice(0, 10);
-
-    const newTrade = {
-      id: Date.now(),
-      date,
-      symbol,
-      direction: form.direction,
-      entry: form.entry.trim(),
-      stop: form.stop.trim(),
-      target: form.target.trim(),
-      rrPlanned: form.rrPlanned.trim(),
-      rrResult: form.rrResult.trim(),
-      outcome: form.outcome,
-      emotionBefore: form.emotionBefore,
-      emotionAfter: form.emotionAfter,
-      notes: form.notes.trim(),
-    };
+    const date = form.date || localDate();
 
-    setTrades((prev) => [newTrade, ...prev]);
-    setForm((prev) => ({
-      ...defaultForm,
-      // keep date defaulting to last used
-      date,
-    }));
+    setSaving(true);
+    try {
+      const res = await fetch("/api/jarvis/trades", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          trade_date: date,
+          symbol,
+          direction: form.direction,
+          entry: form.entry.trim(),
+          stop: form.stop.trim(),
+          target: form.target.trim(),
+          rr_planned: form.rrPlanned.trim(),
+          rr_result: form.rrResult.trim(),
+          outcome: form.outcome,
+          emotion_before: form.emotionBefore,
+          emotion_after: form.emotionAfter,
+          notes: form.notes.trim(),
+        }),
+      });
+      const data = await res.json();
+      if (!data.ok) throw new Error(data.error || "Save failed");
+
+      setTrades((prev) => [toJournalTrade(data.trade), ...prev]);
+      setForm((prev) => ({
+        ...defaultForm,
+        // keep date defaulting to last used
+        date,
+      }));
+    } catch (err) {
+      console.error("Failed to save trade", err);
+      alert(`Couldn't save the trade: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExport = (format, range) => {
+    const params = new URLSearchParams({ format });
+    if (range.from) params.set("from", range.from);
+    if (range.to) params.set("to", range.to);
+    window.location.href = `/api/jarvis/trades/export?${params}`;
   };
 
-  const handleDelete = (id) => {
+  const handleDelete = async (id) => {
     if (!confirm("Delete this trade?")) return;
-    setTrades((prev) => prev.filter((t) => t.id !== id));
+    try {
+      const res = await fetch(`/api/jarvis/trades/${id}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!data.ok) throw new Error(data.error || "Delete failed");
+      setTrades((prev) => prev.filter((t) => t.id !== id));
+    } catch (err) {
+      console.error("Failed to delete trade", err);
+      alert(`Couldn't delete the trade: ${err.message}`);
+    }
   };
 
   // ---- NEW: ask Jarvis to analyze trades ----
@@ -168,6 +245,9 @@ export default function JournalPage() {
       const content = `
 I am a discretionary trader working on discipline, emotions and consistency.
 
+Overall journal stats:
+${buildJournalStatsSnippet(stats)}
+
 Here are my most recent trades (max 15, most recent first):
 ${summaryLines.join("\n")}
 
@@ -230,8 +310,20 @@ Please:
 
           <div className="flex flex-wrap items-center gap-2 text-xs sm:text-[0.7rem]">
             <span className="rounded-full bg-slate-900/80 px-3 py-1 text-slate-400 ring-1 ring-slate-700">
-              Stored locally in your browser
+              Synced to Jarvis (web + Telegram)
             </span>
+            <Link
+              href="/journal/report"
+              className="rounded-full bg-slate-900/80 px-3 py-1 text-slate-300 ring-1 ring-slate-700 hover:bg-slate-900"
+            >
+              Monthly report
+            </Link>
+            <Link
+              href="/journal/import"
+              className="rounded-full bg-indigo-500/15 px-3 py-1 font-medium text-indigo-200 ring-1 ring-indigo-500/60 hover:bg-indigo-500/25 transition"
+            >
+              Import statement
+            </Link>
             <Link
               href="/"
               className="rounded-full bg-emerald-500/15 px-3 py-1 font-medium text-emerald-200 ring-1 ring-emerald-500/60 hover:bg-emerald-500/25 transition"
@@ -251,32 +343,46 @@ Please:
             </p>
 
             <div className="grid grid-cols-2 gap-3 pt-2 text-xs">
-              <div className="rounded-xl bg-slate-900/80 p-3 border border-slate-800">
-                <div className="text-[0.7rem] text-slate-400">Total Trades</div>
-                <div className="mt-1 text-lg font-semibold text-slate-50">
-                  {stats.total}
-                </div>
-              </div>
-              <div className="rounded-xl bg-slate-900/80 p-3 border border-slate-800">
-                <div className="text-[0.7rem] text-slate-400">Win Rate</div>
-                <div className="mt-1 text-lg font-semibold text-emerald-400">
-                  {stats.total ? `${stats.winRate.toFixed(1)}%` : "—"}
-                </div>
-              </div>
-              <div className="rounded-xl bg-slate-900/80 p-3 border border-slate-800">
-                <div className="text-[0.7rem] text-slate-400">Total R</div>
-                <div className="mt-1 text-lg font-semibold text-slate-50">
-                  {stats.total ? stats.totalR.toFixed(2) : "—"}
-                </div>
-              </div>
-              <div className="rounded-xl bg-slate-900/80 p-3 border border-slate-800">
-                <div className="text-[0.7rem] text-slate-400">Avg R / Trade</div>
-                <div className="mt-1 text-lg font-semibold text-slate-50">
-                  {stats.total ? stats.avgR.toFixed(2) : "—"}
-                </div>
-              </div>
+              <StatCard label="Total Trades" value={stats.total} />
+              <StatCard
+                label="Win Rate"
+                value={stats.counted ? `${stats.winRatePct.toFixed(1)}%` : "—"}
+                accent="text-emerald-400"
+              />
+              <StatCard label="Total R" value={stats.counted ? stats.totalR.toFixed(2) : "—"} />
+              <StatCard label="Expectancy (R)" value={stats.counted ? stats.expectancyR.toFixed(2) : "—"} />
+              <StatCard label="Profit Factor" value={fmtStat(stats.profitFactor)} />
+              <StatCard label="Payoff Ratio" value={fmtStat(stats.payoffRatio)} />
+              <StatCard label="SQN" value={fmtStat(stats.sqn)} />
+              <StatCard label="Std Dev R" value={stats.counted > 1 ? stats.stdDevR.toFixed(2) : "—"} />
+              <StatCard
+                label="Max DD (R)"
+                value={stats.counted ? stats.maxDrawdownR.toFixed(2) : "—"}
+                accent="text-rose-400"
+              />
+              <StatCard
+                label="Streaks W / L"
+                value={stats.counted ? `${stats.maxConsecutiveWins} / ${stats.maxConsecutiveLosses}` : "—"}
+              />
             </div>
 
+            {stats.counted > 1 && <EquityCurve points={stats.equityCurve} />}
+
+            {stats.counted > 0 && (
+              <div className="space-y-3 pt-1">
+                <BreakdownTable title="By symbol" rows={stats.bySymbol} />
+                <BreakdownTable title="By direction" rows={stats.byDirection} />
+                <BreakdownTable title="By weekday" rows={stats.byWeekday} />
+                <BreakdownTable title="By emotion before" rows={stats.byEmotionBefore} />
+              </div>
+            )}
+
+            {stats.total > stats.counted && (
+              <p className="text-[0.65rem] text-slate-500">
+                {stats.total - stats.counted} trade(s) without a Result R are left out of the stats.
+              </p>
+            )}
+
             <button
               type="button"
               onClick={handleAskJarvis}
@@ -344,7 +450,8 @@ Please:
                     Entry
                   </label>
                   <input
-                    type="text"
+                    type="number"
+                    step="any"
                     value={form.entry}
                     onChange={(e) => handleChange("entry", e.target.value)}
                     className="w-full rounded-lg border border-slate-800 bg-slate-900/80 px-3 py-2 text-xs text-slate-100 outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
@@ -356,7 +463,8 @@ Please:
                     Stop
                   </label>
                   <input
-                    type="text"
+                    type="number"
+                    step="any"
                     value={form.stop}
                     onChange={(e) => handleChange("stop", e.target.value)}
                     className="w-full rounded-lg border border-slate-800 bg-slate-900/80 px-3 py-2 text-xs text-slate-100 outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
@@ -368,7 +476,8 @@ Please:
                     Target
                   </label>
                   <input
-                    type="text"
+                    type="number"
+                    step="any"
                     value={form.target}
                     onChange={(e) => handleChange("target", e.target.value)}
                     className="w-full rounded-lg border border-slate-800 bg-slate-900/80 px-3 py-2 text-xs text-slate-100 outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
@@ -467,9 +576,10 @@ Please:
               <div className="flex justify-end">
                 <button
                   type="submit"
+                  disabled={saving}
                   className="inline-flex items-center gap-2 rounded-xl bg-indigo-500 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-950 shadow-lg shadow-indigo-500/40 transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-indigo-800/60 disabled:text-slate-300 disabled:shadow-none"
                 >
-                  Save Trade
+                  {saving ? "Saving…" : "Save Trade"}
                   <span>✓</span>
                 </button>
               </div>
@@ -511,6 +621,16 @@ Please:
                 </span>
               </div>
 
+              {trades.length > 0 && (
+                <div className="mb-3">
+                  <ExportControls label="Export" onExport={handleExport} />
+                </div>
+              )}
+
+              {loadError && (
+                <p className="py-2 text-xs text-rose-400">{loadError}</p>
+              )}
+
               {trades.length === 0 ? (
                 <p className="py-6 text-center text-xs text-slate-500">
                   Nothing here yet. After you log trades, they will show up in this list.
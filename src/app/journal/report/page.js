@@ -0,0 +1,232 @@
+// src/app/journal/report/page.js
+// Monthly performance report: server-rendered from jarvis_trades so it can be
+// printed or saved as PDF from the browser and shared with a mentor.
+import Link from "next/link";
+import PrintButton from "@/components/PrintButton";
+import { createClient } from "@/lib/supabase/server";
+import { monthRange } from "@/lib/jarvis/export";
+import { computeJournalStats } from "@/lib/jarvis/journalStats";
+import { listAllTrades, toJournalTrade } from "@/lib/jarvis/trades";
+
+export const dynamic = "force-dynamic";
+
+const MONTH_RE = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+function shiftMonth(month, delta) {
+  const [year, m] = month.split("-").map(Number);
+  const d = new Date(Date.UTC(year, m - 1 + delta, 1));
+  return d.toISOString().slice(0, 7);
+}
+
+function monthLabel(month) {
+  const [year, m] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, m - 1, 1)).toLocaleDateString("en-US", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function fmt(value, suffix = "") {
+  return value == null ? "—" : `${value}${suffix}`;
+}
+
+function signedR(value) {
+  return `${value > 0 ? "+" : ""}${value.toFixed(2)}R`;
+}
+
+function EquityChart({ points }) {
+  const width = 640;
+  const height = 180;
+  const pad = 24;
+  const values = [0, ...points.map((p) => p.cumulativeR)];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const x = (i) => pad + (i / Math.max(values.length - 1, 1)) * (width - 2 * pad);
+  const y = (v) => pad + (1 - (v - min) / span) * (height - 2 * pad);
+  const coords = values.map((v, i) => `${x(i).toFixed(1)},${y(v).toFixed(1)}`).join(" ");
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="h-48 w-full">
+      <line x1={pad} x2={width - pad} y1={y(0)} y2={y(0)} stroke="#94a3b8" strokeDasharray="4 4" />
+      <polyline points={coords} fill="none" stroke="#4f46e5" strokeWidth="2" />
+      {values.map((v, i) => (
+        <circle key={i} cx={x(i)} cy={y(v)} r="2.5" fill="#4f46e5" />
+      ))}
+      <text x={4} y={y(max) + 4} fontSize="10" fill="#64748b">
+        {max.toFixed(1)}R
+      </text>
+      <text x={4} y={y(min) + 4} fontSize="10" fill="#64748b">
+        {min.toFixed(1)}R
+      </text>
+    </svg>
+  );
+}
+
+function Breakdown({ title, rows }) {
+  return (
+    <div>
+      <h3 className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-500">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-xs text-slate-500">No data.</p>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-slate-300 text-left text-slate-500">
+              <th className="py-1 font-medium"></th>
+              <th className="py-1 text-right font-medium">Trades</th>
+              <th className="py-1 text-right font-medium">Win %</th>
+              <th className="py-1 text-right font-medium">Avg R</th>
+              <th className="py-1 text-right font-medium">Total R</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => (
+              <tr key={r.key} className="border-b border-slate-200">
+                <td className="py-1">{r.key}</td>
+                <td className="py-1 text-right">{r.trades}</td>
+                <td className="py-1 text-right">{r.winRatePct.toFixed(0)}%</td>
+                <td className="py-1 text-right">{signedR(r.avgR)}</td>
+                <td className="py-1 text-right font-semibold">{signedR(r.totalR)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default async function JournalReportPage({ searchParams }) {
+  const params = await searchParams;
+  const month = MONTH_RE.test(params?.month ?? "")
+    ? params.month
+    : new Date().toISOString().slice(0, 7);
+  const range = monthRange(month);
+
+  let trades = [];
+  let error = "";
+  try {
+    const rows = await listAllTrades(createClient(), range);
+    trades = rows.map(toJournalTrade);
+  } catch (err) {
+    console.error("[journal/report] error", err);
+    error = err?.message ?? "Could not load trades.";
+  }
+
+  const stats = computeJournalStats(trades);
+  const notes = trades
+    .filter((t) => t.notes)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const statRows = [
+    ["Trades logged", stats.total],
+    ["Trades with result", stats.counted],
+    ["Wins / losses / BE", `${stats.wins} / ${stats.losses} / ${stats.breakevens}`],
+    ["Win rate", fmt(stats.winRatePct, "%")],
+    ["Total", signedR(stats.totalR)],
+    ["Expectancy", `${signedR(stats.expectancyR)} per trade`],
+    ["Avg win / avg loss", `${stats.avgWinR.toFixed(2)}R / ${stats.avgLossR.toFixed(2)}R`],
+    ["Payoff ratio", fmt(stats.payoffRatio)],
+    ["Profit factor", fmt(stats.profitFactor)],
+    ["Std dev", `${stats.stdDevR.toFixed(2)}R`],
+    ["SQN", fmt(stats.sqn)],
+    ["Longest streaks", `${stats.maxConsecutiveWins} wins, ${stats.maxConsecutiveLosses} losses`],
+    ["Max drawdown", `${stats.maxDrawdownR.toFixed(2)}R`],
+  ];
+
+  const navClass =
+    "rounded-full bg-slate-900/80 px-3 py-1 text-xs text-slate-300 ring-1 ring-slate-700 hover:bg-slate-900";
+
+  return (
+    <div className="mx-auto w-full max-w-4xl space-y-4 px-2 py-4 sm:px-4 print:max-w-none print:p-0">
+      {/* Controls (screen only) */}
+      <div className="flex flex-wrap items-center justify-between gap-2 print:hidden">
+        <div className="flex flex-wrap items-center gap-2">
+          <Link href={`/journal/report?month=${shiftMonth(month, -1)}`} className={navClass}>
+            ← {monthLabel(shiftMonth(month, -1))}
+          </Link>
+          <Link href={`/journal/report?month=${shiftMonth(month, 1)}`} className={navClass}>
+            {monthLabel(shiftMonth(month, 1))} →
+          </Link>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Link href="/journal" className={navClass}>
+            ← Trade journal
+          </Link>
+          <PrintButton />
+        </div>
+      </div>
+
+      {/* Report sheet */}
+      <article className="space-y-6 rounded-2xl bg-white p-6 text-slate-900 shadow-xl shadow-black/40 print:rounded-none print:p-0 print:shadow-none">
+        <header className="border-b border-slate-300 pb-3">
+          <h1 className="text-xl font-semibold">Trading report · {monthLabel(month)}</h1>
+          <p className="text-xs text-slate-500">
+            {range.from} to {range.to} · results in R (risk units) ·
+            generated {new Date().toISOString().slice(0, 10)}
+          </p>
+        </header>
+
+        {error ? (
+          <p className="text-sm text-rose-600">{error}</p>
+        ) : stats.total === 0 ? (
+          <p className="text-sm text-slate-500">No trades logged this month.</p>
+        ) : (
+          <>
+            <section className="grid grid-cols-1 gap-6 md:grid-cols-2 print:grid-cols-2">
+              <div>
+                <h2 className="mb-2 text-sm font-semibold">Performance</h2>
+                <table className="w-full text-xs">
+                  <tbody>
+                    {statRows.map(([label, value]) => (
+                      <tr key={label} className="border-b border-slate-200">
+                        <td className="py-1 text-slate-500">{label}</td>
+                        <td className="py-1 text-right font-medium">{value}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div>
+                <h2 className="mb-2 text-sm font-semibold">Equity curve (cumulative R)</h2>
+                {stats.equityCurve.length ? (
+                  <EquityChart points={stats.equityCurve} />
+                ) : (
+                  <p className="text-xs text-slate-500">No trades with a result R yet.</p>
+                )}
+              </div>
+            </section>
+
+            <section className="grid grid-cols-1 gap-6 md:grid-cols-2 print:grid-cols-2">
+              <Breakdown title="Emotion before entry" rows={stats.byEmotionBefore} />
+              <Breakdown title="By symbol" rows={stats.bySymbol} />
+            </section>
+
+            <section className="break-inside-avoid">
+              <h2 className="mb-2 text-sm font-semibold">Journal notes</h2>
+              {notes.length === 0 ? (
+                <p className="text-xs text-slate-500">No notes this month.</p>
+              ) : (
+                <ul className="space-y-2 text-xs">
+                  {notes.map((t) => (
+                    <li key={t.id} className="break-inside-avoid border-l-2 border-slate-300 pl-3">
+                      <div className="font-medium">
+                        {t.date} · {t.symbol} {t.direction}
+                        {t.rrResult !== "" && ` · ${signedR(Number(t.rrResult))}`}
+                        {t.emotionBefore && ` · felt ${t.emotionBefore}`}
+                      </div>
+                      <p className="whitespace-pre-wrap text-slate-700">{t.notes}</p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </>
+        )}
+      </article>
+    </div>
+  );
+}
@@ -10,7 +10,7 @@ export default function RootLayout({ children }) {
   return (
     <html lang="en" className="bg-slate-950 text-slate-100">
       <body className="min-h-screen bg-slate-950 text-slate-100">
-        <header className="border-b border-slate-800 bg-slate-950/80 backdrop-blur">
+        <header className="border-b border-slate-800 bg-slate-950/80 backdrop-blur print:hidden">
           <div className="max-w-5xl mx-auto px-4 py-3 flex items-center justify-between gap-4">
             <div className="flex items-center gap-2">
               <div className="h-7 w-7 rounded-xl bg-emerald-500/10 border border-emerald-400/40 flex items-center justify-center text-xs font-semibold text-emerald-300">
@@ -44,6 +44,12 @@ export default function RootLayout({ children }) {
               >
                 Journal
               </a>
+              <a
+                href="/pretrade"
+                className="px-2 py-1 rounded-lg hover:bg-slate-800 text-slate-200"
+              >
+                Pre-trade
+              </a>
               <a
                 href="/readiness"
                 className="px-2 py-1 rounded-lg hover:bg-slate-800 text-slate-200"
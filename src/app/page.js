@@ -3,72 +3,6 @@
 import { useEffect, useRef, useState } from "react";
 import Link from "next/link";
 
-const CHECKIN_STORAGE_KEY = "jarvis-daily-checkins-v1";
-
-function computeStatusFromCheckin(checkin) {
-  if (!checkin) return null;
-
-  const sleepHours = Number(checkin.sleepHours || 0);
-  const { sleepQuality, mood, stress, energy, focus, urgeToTrade } = checkin;
-  // --- Hard "no trade" signals ---
-  const veryTired = sleepHours > 0 && sleepHours < 4;
-  const awfulSleep = sleepQuality === "Very bad";
-  const extremeUrge = urgeToTrade === "Extreme / Revenge mode";
-  const veryHighStress = stress === "Very high";
-  const veryLowEnergy = energy === "Very low";
-  const veryLowFocus = focus === "Very low";
-
-  if (
-    veryTired ||
-    awfulSleep ||
-    extremeUrge ||
-    veryHighStress ||
-    veryLowEnergy ||
-    veryLowFocus
-  ) {
-    return {
-      level: "block", // red
-      label: "Today: NO TRADING",
-      detail:
-        "Your state is risky for trading (fatigue, stress or revenge energy). Focus on recovery, journaling and routine instead of taking risk.",
-    };
-  }
-
-  // --- Caution / reduced risk ---
-  const lowSleep = sleepHours > 0 && sleepHours < 6;
-  const badSleep = sleepQuality === "Bad";
-  const highStress = stress === "High";
-  const lowEnergy = energy === "Low";
-  const lowFocus = focus === "Low";
-  const weirdMood = ["Anxious", "Frustrated", "Angry", "Sad"].includes(mood);
-  const highUrge = urgeToTrade === "High" || urgeToTrade === "Very low";
-
-  if (
-    lowSleep ||
-    badSleep ||
-    highStress ||
-    lowEnergy ||
-    lowFocus ||
-    weirdMood ||
-    highUrge
-  ) {
-    return {
-      level: "caution", // amber
-      label: "Today: CAREFUL · Reduce risk",
-      detail:
-        "Trade smaller and less. Focus on A+ setups only, limit number of trades, and stop early if you feel emotions spiking.",
-    };
-  }
-
-  // --- Good to go ---
-  return {
-    level: "good", // green
-    label: "Today: FIT TO TRADE",
-    detail:
-      "Your state looks solid — calm, rested and focused enough. Still follow your rules: A+ setups only, no forcing trades.",
-  };
-}
-
 export default function Home() {
   const [messages, setMessages] = useState([
     {
@@ -91,23 +25,19 @@ export default function Home() {
     }
   }, [messages, loading]);
 
-  // Load latest check-in from localStorage and compute status
+  // Today's readiness (check-in + recent trades), scored server-side
   useEffect(() => {
-    try {
-      if (typeof window === "undefined") return;
-      const raw = window.localStorage.getItem(CHECKIN_STORAGE_KEY);
-      if (!raw) return;
-
-      const parsed = JSON.parse(raw);
-      if (!Array.isArray(parsed) || parsed.length === 0) return;
-
-      // stored newest first in /checkin
-      const latest = parsed[0];
-      const status = computeStatusFromCheckin(latest);
-      setTodayStatus(status);
-    } catch (e) {
-      console.error("Failed to read daily check-in", e);
-    }
+    const load = async () => {
+      try {
+        const res = await fetch("/api/jarvis/readiness");
+        const data = await res.json();
+        if (!data.ok) throw new Error(data.error || "Load failed");
+        setTodayStatus(data.readiness);
+      } catch (e) {
+        console.error("Failed to read daily check-in", e);
+      }
+    };
+    load();
   }, []);
 
   const sendMessage = async () => {
@@ -204,7 +134,9 @@ export default function Home() {
 
             {/* Today status pill */}
             <span className={`rounded-full px-3 py-1 font-medium ring-1 ${statusStyles}`}>
-              {todayStatus ? todayStatus.label : "No check-in for today yet"}
+              {todayStatus
+                ? `${todayStatus.label} · ${todayStatus.score}/100`
+                : "No check-in for today yet"}
             </span>
 
             <Link
@@ -0,0 +1,334 @@
+// src/app/pretrade/page.js
+"use client";
+
+import { useEffect, useState } from "react";
+
+const VERDICT_STYLES = {
+  GO: "bg-emerald-500/15 text-emerald-300 ring-1 ring-emerald-500/50",
+  "REDUCE SIZE": "bg-amber-500/15 text-amber-300 ring-1 ring-amber-500/50",
+  "NO-TRADE": "bg-rose-500/15 text-rose-300 ring-1 ring-rose-500/50",
+};
+
+const SEVERITY_STYLES = {
+  block: "text-rose-300",
+  reduce: "text-amber-300",
+  ok: "text-emerald-300",
+};
+
+const SEVERITY_MARKS = { block: "✖", reduce: "▲", ok: "✔" };
+
+const inputClass =
+  "w-full rounded-xl bg-slate-950 border border-slate-800 px-3 py-2 text-sm text-slate-100 outline-none focus:border-emerald-400 focus:ring-1 focus:ring-emerald-500/60";
+
+function signedR(value) {
+  return `${value > 0 ? "+" : ""}${Number(value).toFixed(2)}R`;
+}
+
+function StatsRow({ label, stats }) {
+  const lossRate = stats.withResult ? Math.round((stats.losses / stats.withResult) * 100) : null;
+  return (
+    <tr className="border-b border-slate-800">
+      <td className="py-1 text-slate-300">{label}</td>
+      <td className="py-1 text-right">{stats.checks}</td>
+      <td className="py-1 text-right">{stats.taken}</td>
+      <td className="py-1 text-right">{lossRate == null ? "—" : `${lossRate}%`}</td>
+      <td className="py-1 text-right font-semibold">{stats.withResult ? signedR(stats.totalR) : "—"}</td>
+    </tr>
+  );
+}
+
+function OutcomeControls({ check, onSave }) {
+  const [resultR, setResultR] = useState("");
+
+  if (check.taken === false) {
+    return <span className="text-xs text-slate-500">Skipped</span>;
+  }
+  if (check.taken && check.result_r != null) {
+    return <span className="text-xs font-semibold text-slate-200">{signedR(check.result_r)}</span>;
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <input
+        type="number"
+        step="0.01"
+        placeholder="R"
+        value={resultR}
+        onChange={(e) => setResultR(e.target.value)}
+        className="w-16 rounded-lg bg-slate-950 border border-slate-800 px-2 py-1 text-xs text-slate-100"
+      />
+      <button
+        type="button"
+        onClick={() => onSave(check.id, { taken: true, result_r: resultR })}
+        className="rounded-lg bg-slate-800 px-2 py-1 text-xs text-slate-200 hover:bg-slate-700"
+      >
+        {check.taken ? "Save R" : "Took it"}
+      </button>
+      {!check.taken && (
+        <button
+          type="button"
+          onClick={() => onSave(check.id, { taken: false })}
+          className="rounded-lg px-2 py-1 text-xs text-slate-400 hover:bg-slate-800"
+        >
+          Skipped
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default function PreTradePage() {
+  const [description, setDescription] = useState("");
+  const [riskPercent, setRiskPercent] = useState("");
+  const [dayPnl, setDayPnl] = useState("");
+  const [checklist, setChecklist] = useState([]);
+  const [ticked, setTicked] = useState({});
+  const [result, setResult] = useState(null);
+  const [checks, setChecks] = useState([]);
+  const [summary, setSummary] = useState(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  async function loadChecks() {
+    try {
+      const res = await fetch("/api/jarvis/pretrade");
+      const data = await res.json();
+      if (!res.ok || !data.ok) throw new Error(data?.error || "Could not load checks.");
+      setChecks(data.checks || []);
+      setSummary(data.summary || null);
+      setChecklist(data.checklist || []);
+    } catch (err) {
+      console.error(err);
+      setError(err.message);
+    }
+  }
+
+  useEffect(() => {
+    loadChecks();
+  }, []);
+
+  async function handleCheck(e) {
+    e.preventDefault();
+    setError("");
+    setResult(null);
+
+    if (!description.trim()) {
+      setError("Describe the trade first — symbol, direction, entry, stop, target.");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const res = await fetch("/api/jarvis/pretrade", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          description,
+          riskPercent: riskPercent || null,
+          dayPnl: dayPnl || null,
+          checklist: Object.fromEntries(checklist.map((c) => [c.title, !!ticked[c.title]])),
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok || !data.ok) {
+        setError(data?.error || "Something broke while checking this trade.");
+        return;
+      }
+
+      setResult(data.result);
+      loadChecks();
+    } catch (err) {
+      console.error(err);
+      setError("Couldn't reach the pre-trade gate right now. Try again in a bit.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleOutcome(id, outcome) {
+    setError("");
+    try {
+      const res = await fetch(`/api/jarvis/pretrade/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(outcome),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.ok) throw new Error(data?.error || "Could not save the outcome.");
+      loadChecks();
+    } catch (err) {
+      console.error(err);
+      setError(err.message);
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      <section className="space-y-2">
+        <h1 className="text-3xl font-semibold tracking-tight">Pre-trade check</h1>
+        <p className="text-slate-400 text-sm">
+          Run every trade through the gate before you click. It checks today&apos;s check-in, your daily
+          loss room, trades taken today, your rules and your checklist.
+        </p>
+      </section>
+
+      <form
+        onSubmit={handleCheck}
+        className="bg-slate-900/70 border border-slate-800 rounded-2xl p-6 space-y-4"
+      >
+        <div className="space-y-1">
+          <label className="text-sm font-medium text-slate-200">Planned trade</label>
+          <textarea
+            className={`${inputClass} min-h-[100px]`}
+            placeholder="Long XAUUSD entry 2350, SL 2342, TP 2366"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div className="space-y-1">
+            <label className="text-sm font-medium text-slate-200">Risk % (default 1)</label>
+            <input
+              type="number"
+              step="0.01"
+              className={inputClass}
+              value={riskPercent}
+              onChange={(e) => setRiskPercent(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm font-medium text-slate-200">
+              Today&apos;s P/L so far (optional, else from the journal)
+            </label>
+            <input
+              type="number"
+              step="0.01"
+              className={inputClass}
+              value={dayPnl}
+              onChange={(e) => setDayPnl(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {checklist.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-sm font-medium text-slate-200">Checklist</div>
+            {checklist.map((c) => (
+              <label key={c.title} className="flex items-start gap-2 text-sm text-slate-300">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={!!ticked[c.title]}
+                  onChange={(e) => setTicked((prev) => ({ ...prev, [c.title]: e.target.checked }))}
+                />
+                <span>
+                  {c.title}
+                  <span className="block text-xs text-slate-500 whitespace-pre-wrap">{c.content}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <div className="text-xs text-red-400 bg-red-950/40 border border-red-900/50 rounded-xl px-3 py-2">
+            {error}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={loading}
+          className="inline-flex items-center gap-2 rounded-xl px-4 py-2 text-sm font-medium bg-emerald-500 text-slate-950 hover:bg-emerald-400 disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          {loading ? "Checking..." : "Check trade"}
+        </button>
+      </form>
+
+      {result && (
+        <section className="bg-slate-900/70 border border-slate-800 rounded-2xl p-6 space-y-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <span className={`rounded-full px-3 py-1 text-sm font-semibold ${VERDICT_STYLES[result.verdict]}`}>
+              {result.verdict}
+            </span>
+            {result.suggestedRiskPercent != null && (
+              <span className="text-sm text-amber-300">Size down to {result.suggestedRiskPercent}% risk</span>
+            )}
+            <span className="text-xs text-slate-500">
+              {result.tradesToday}/{result.maxTradesPerDay} trades today
+            </span>
+          </div>
+          <ul className="space-y-1 text-sm">
+            {result.reasons.map((r, i) => (
+              <li key={`${r.factor}-${i}`} className={SEVERITY_STYLES[r.severity]}>
+                {SEVERITY_MARKS[r.severity]} <span className="text-slate-200">{r.text}</span>
+              </li>
+            ))}
+          </ul>
+          {result.mathLines.length > 0 && (
+            <div className="space-y-1 text-xs text-slate-400">
+              {result.mathLines.map((line, i) => (
+                <p key={i}>{line}</p>
+              ))}
+            </div>
+          )}
+          {result.assumptions.length > 0 && (
+            <p className="text-xs text-slate-500">Assumptions: {result.assumptions.join("; ")}.</p>
+          )}
+        </section>
+      )}
+
+      {summary && (
+        <section className="bg-slate-900/70 border border-slate-800 rounded-2xl p-6 space-y-3">
+          <h2 className="text-lg font-medium">Following vs overriding the gate</h2>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-slate-700 text-left text-slate-500">
+                <th className="py-1 font-medium"></th>
+                <th className="py-1 text-right font-medium">Checks</th>
+                <th className="py-1 text-right font-medium">Taken</th>
+                <th className="py-1 text-right font-medium">Loss rate</th>
+                <th className="py-1 text-right font-medium">Total R</th>
+              </tr>
+            </thead>
+            <tbody>
+              <StatsRow label="Taken on GO" stats={summary.followed} />
+              <StatsRow label="Overrides (REDUCE SIZE / NO-TRADE)" stats={summary.overrides} />
+              <StatsRow label="REDUCE SIZE" stats={summary.byVerdict["REDUCE SIZE"]} />
+              <StatsRow label="NO-TRADE" stats={summary.byVerdict["NO-TRADE"]} />
+            </tbody>
+          </table>
+          {summary.pendingOutcome > 0 && (
+            <p className="text-xs text-slate-500">{summary.pendingOutcome} check(s) still need an outcome below.</p>
+          )}
+        </section>
+      )}
+
+      {checks.length > 0 && (
+        <section className="bg-slate-900/70 border border-slate-800 rounded-2xl p-6 space-y-3">
+          <h2 className="text-lg font-medium">Recent checks</h2>
+          <ul className="divide-y divide-slate-800 text-sm">
+            {checks.slice(0, 20).map((c) => (
+              <li key={c.id} className="flex flex-wrap items-center justify-between gap-2 py-2">
+                <div className="min-w-0">
+                  <span className={`mr-2 rounded-full px-2 py-0.5 text-[0.65rem] font-semibold ${VERDICT_STYLES[c.verdict]}`}>
+                    {c.verdict}
+                  </span>
+                  <span className="text-slate-200">
+                    {[c.symbol, c.direction].filter(Boolean).join(" ") || "Trade"} · {c.risk_percent}%
+                  </span>
+                  <span className="ml-2 text-xs text-slate-500">
+                    {c.created_at?.slice(0, 16).replace("T", " ")} · {c.channel}
+                  </span>
+                </div>
+                <OutcomeControls check={c} onSave={handleOutcome} />
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
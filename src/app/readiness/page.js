@@ -1,163 +1,124 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { computeReadinessScore } from "@/lib/readinessScore";
+import Link from "next/link";
+import { DEFAULT_READINESS_MODEL, describeSignal, readinessFactorLabel } from "@/lib/jarvis/checkins/readiness";
+import { MIN_DAYS_FOR_CALIBRATION } from "@/lib/jarvis/checkins/calibration";
 
-export default function ReadinessPage() {
-  const [latestCheckIn, setLatestCheckIn] = useState(null);
-  const [recentTrades, setRecentTrades] = useState([]);
-  const [result, setResult] = useState(null);
-  const [storageDebug, setStorageDebug] = useState({
-    keys: [],
-    checkinKey: null,
-    tradesKey: null,
-  });
+const LEVEL_STYLES = {
+  good: "bg-emerald-500/15 text-emerald-300 border border-emerald-500/40",
+  caution: "bg-amber-500/15 text-amber-300 border border-amber-500/40",
+  block: "bg-rose-500/15 text-rose-300 border border-rose-500/40",
+};
 
-  useEffect(() => {
-    try {
-      const keys = [];
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        keys.push(key);
-      }
+const LEVEL_NAMES = {
+  good: "Fit to trade",
+  caution: "Careful",
+  block: "No trading",
+};
 
-      let foundCheckins = null;
-      let foundCheckinKey = null;
-      let foundTrades = null;
-      let foundTradesKey = null;
+const SIGNAL_STYLES = {
+  good: "text-emerald-300",
+  caution: "text-amber-300",
+  block: "text-rose-300",
+};
 
-      // 1) Prefer specific known keys if they exist
-      const knownCheckinKeys = [
-        "jarvis_checkins",
-        "jarvis_daily_checkins",
-        "trader_jarvis_checkins",
-      ];
-      const knownTradeKeys = [
-        "jarvis_trades",
-        "jarvis_trading_journal",
-        "trader_jarvis_trades",
-      ];
-
-      for (const k of knownCheckinKeys) {
-        const raw = localStorage.getItem(k);
-        if (raw) {
-          try {
-            const arr = JSON.parse(raw);
-            if (Array.isArray(arr) && arr.length > 0) {
-              foundCheckins = arr;
-              foundCheckinKey = k;
-              break;
-            }
-          } catch (e) {
-            // ignore
-          }
-        }
-      }
-
-      for (const k of knownTradeKeys) {
-        const raw = localStorage.getItem(k);
-        if (raw) {
-          try {
-            const arr = JSON.parse(raw);
-            if (Array.isArray(arr) && arr.length > 0) {
-              foundTrades = arr;
-              foundTradesKey = k;
-              break;
-            }
-          } catch (e) {
-            // ignore
-          }
-        }
-      }
+function signedR(value) {
+  return `${value > 0 ? "+" : ""}${Number(value).toFixed(2)}R`;
+}
 
-      // 2) If still not found, auto-detect by shape
-      if (!foundCheckins) {
-        for (const key of keys) {
-          const raw = localStorage.getItem(key);
-          if (!raw) continue;
-          try {
-            const value = JSON.parse(raw);
-            if (Array.isArray(value) && value.length > 0) {
-              // looks like checkins?
-              const looksLikeCheckin = value.some((item) => {
-                if (!item || typeof item !== "object") return false;
-                return (
-                  "sleep" in item ||
-                  "sleepHours" in item ||
-                  "sleepQuality" in item ||
-                  "mood" in item ||
-                  "stress" in item
-                );
-              });
-              if (looksLikeCheckin) {
-                foundCheckins = value;
-                foundCheckinKey = key;
-                break;
-              }
-            }
-          } catch (_) {
-            // ignore parse errors
-          }
-        }
-      }
+function LevelTable({ title, levels }) {
+  return (
+    <div>
+      <p className="text-[11px] uppercase tracking-[0.15em] text-slate-500 mb-1">{title}</p>
+      <table className="w-full text-[11px]">
+        <tbody>
+          {levels.map((l) => (
+            <tr key={l.level} className="border-b border-slate-800">
+              <td className={`py-1 ${SIGNAL_STYLES[l.level]}`}>{LEVEL_NAMES[l.level]}</td>
+              <td className="py-1 text-right text-slate-400">{l.days} days</td>
+              <td className="py-1 text-right">{l.days ? `${signedR(l.avgOutcomeR)} / day` : "—"}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
 
-      if (!foundTrades) {
-        for (const key of keys) {
-          const raw = localStorage.getItem(key);
-          if (!raw) continue;
-          try {
-            const value = JSON.parse(raw);
-            if (Array.isArray(value) && value.length > 0) {
-              // looks like trades?
-              const looksLikeTrades = value.some((item) => {
-                if (!item || typeof item !== "object") return false;
-                return (
-                  "symbol" in item ||
-                  "pair" in item ||
-                  "resultR" in item ||
-                  "plannedRR" in item ||
-                  "outcome" in item
-                );
-              });
-              if (looksLikeTrades) {
-                foundTrades = value;
-                foundTradesKey = key;
-                break;
-              }
-            }
-          } catch (_) {
-            // ignore
-          }
-        }
-      }
+export default function ReadinessPage() {
+  const [checkin, setCheckin] = useState(null);
+  const [recentTrades, setRecentTrades] = useState([]);
+  const [result, setResult] = useState(null);
+  const [loaded, setLoaded] = useState(false);
+  const [loadError, setLoadError] = useState("");
+  const [calibration, setCalibration] = useState(null);
+  const [activeModel, setActiveModel] = useState(null);
+  const [calibrating, setCalibrating] = useState(false);
+  const [calibrationError, setCalibrationError] = useState("");
 
-      // 3) Update state
-      if (foundCheckins && foundCheckins.length > 0) {
-        setLatestCheckIn(foundCheckins[foundCheckins.length - 1]);
-      }
-      if (foundTrades && foundTrades.length > 0) {
-        setRecentTrades(foundTrades);
-      }
+  // Same model the home banner, pre-trade gate, chat and Telegram use
+  async function loadReadiness() {
+    try {
+      const res = await fetch("/api/jarvis/readiness");
+      const data = await res.json();
+      if (!data.ok) throw new Error(data.error || "Load failed");
+      setCheckin(data.checkin);
+      setRecentTrades(data.recentTrades || []);
+      setResult(data.readiness);
+    } catch (e) {
+      console.error("Failed to load readiness", e);
+      setLoadError("Couldn't load today's readiness. Check your connection and reload.");
+    } finally {
+      setLoaded(true);
+    }
+  }
 
-      setStorageDebug({
-        keys,
-        checkinKey: foundCheckinKey,
-        tradesKey: foundTradesKey,
-      });
+  async function loadCalibration() {
+    try {
+      const res = await fetch("/api/jarvis/readiness/calibration");
+      const data = await res.json();
+      if (!data.ok) throw new Error(data.error || "Load failed");
+      setCalibration(data.latest);
+      setActiveModel(data.active);
     } catch (e) {
-      console.error("Error scanning localStorage:", e);
+      console.error("Failed to load calibration", e);
+      setCalibrationError("Couldn't load the calibration.");
     }
-  }, []);
+  }
 
   useEffect(() => {
-    if (latestCheckIn) {
-      setResult(computeReadinessScore(latestCheckIn, recentTrades));
-    } else {
-      setResult(computeReadinessScore(null, recentTrades));
+    loadReadiness();
+    loadCalibration();
+  }, []);
+
+  async function calibrationRequest(url, init) {
+    setCalibrating(true);
+    setCalibrationError("");
+    try {
+      const res = await fetch(url, init);
+      const data = await res.json();
+      if (!data.ok) throw new Error(data.error || "Request failed");
+      await Promise.all([loadCalibration(), loadReadiness()]);
+    } catch (e) {
+      console.error("Calibration request failed", e);
+      setCalibrationError(e.message);
+    } finally {
+      setCalibrating(false);
     }
-  }, [latestCheckIn, recentTrades]);
+  }
+
+  const runCalibration = () => calibrationRequest("/api/jarvis/readiness/calibration", { method: "POST" });
+  const acceptCalibration = () =>
+    calibrationRequest(`/api/jarvis/readiness/calibration/${calibration.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ accepted: true }),
+    });
+  const resetModel = () => calibrationRequest("/api/jarvis/readiness/calibration", { method: "DELETE" });
 
-  const dateLabel = latestCheckIn?.date || "No check-in";
+  const evidence = calibration?.evidence;
+  const { good, caution } = (activeModel ?? DEFAULT_READINESS_MODEL).thresholds;
 
   return (
     <div className="min-h-screen bg-slate-950 text-slate-100 flex flex-col items-center px-4 py-10">
@@ -171,12 +132,12 @@ export default function ReadinessPage() {
               Combined view of your mental state and recent trading behaviour.
             </p>
           </div>
-          <a
+          <Link
             href="/"
             className="text-xs px-3 py-1 rounded-full border border-slate-700 hover:bg-slate-800"
           >
             ← Back to Jarvis
-          </a>
+          </Link>
         </header>
 
         <main className="grid gap-6 md:grid-cols-[2fr,1.4fr]">
@@ -188,26 +149,18 @@ export default function ReadinessPage() {
                   Today&apos;s Readiness
                 </p>
                 <p className="text-xs text-slate-500">
-                  Based on latest check-in · {dateLabel}
+                  Based on today&apos;s check-in · {checkin?.checkin_date || "No check-in"}
                 </p>
               </div>
               {result && (
-                <span
-                  className={`text-xs font-semibold px-3 py-1 rounded-full ${
-                    result.level === "GREEN"
-                      ? "bg-emerald-500/15 text-emerald-300 border border-emerald-500/40"
-                      : result.level === "YELLOW"
-                      ? "bg-amber-500/15 text-amber-300 border border-amber-500/40"
-                      : result.level === "RED"
-                      ? "bg-rose-500/15 text-rose-300 border border-rose-500/40"
-                      : "bg-slate-700/60 text-slate-200 border border-slate-600"
-                  }`}
-                >
-                  {result.level}
+                <span className={`text-xs font-semibold px-3 py-1 rounded-full ${LEVEL_STYLES[result.level]}`}>
+                  {result.label}
                 </span>
               )}
             </div>
 
+            {loadError && <p className="text-sm text-rose-400">{loadError}</p>}
+
             {result ? (
               <>
                 <div className="flex items-end gap-4 mb-4">
@@ -218,43 +171,72 @@ export default function ReadinessPage() {
                 </div>
 
                 <p className="text-sm text-slate-200 leading-relaxed">
-                  {result.message}
+                  {result.detail}
                 </p>
 
+                <ul className="mt-4 space-y-1 text-xs">
+                  {result.signals.map((s) => (
+                    <li key={s.factor} className="flex justify-between gap-3">
+                      <span className={SIGNAL_STYLES[s.severity]}>{describeSignal(s)}</span>
+                      <span className="text-slate-500">
+                        {s.points > 0 ? "+" : ""}
+                        {s.points}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+
                 <div className="mt-6 text-xs text-slate-500 space-y-1">
                   <p>
-                    • 0–49: 🔴 Don&apos;t trade or go micro size. Focus on
+                    • Any red flag or under {caution}: 🔴 Don&apos;t trade or go micro size. Focus on
                     mental reset.
                   </p>
                   <p>
-                    • 50–74: 🟡 Trade less, focus on A+ setups only, reduce
+                    • Any amber flag or {caution}–{good - 1}: 🟡 Trade less, focus on A+ setups only, reduce
                     risk.
                   </p>
                   <p>
-                    • 75–100: 🟢 Normal risk allowed, but still follow your
+                    • {good}–100 with no flags: 🟢 Normal risk allowed, but still follow your
                     rules.
                   </p>
+                  <p className="pt-1">Model: {result.modelVersion}</p>
                 </div>
               </>
             ) : (
-              <p className="text-sm text-slate-400">
-                No data yet. Log a daily check-in and some journal trades first.
-              </p>
+              loaded &&
+              !loadError && (
+                <p className="text-sm text-slate-400">
+                  No check-in for today yet.{" "}
+                  <Link href="/checkin" className="text-amber-300 underline">
+                    Log one
+                  </Link>{" "}
+                  to get a readiness score.
+                </p>
+              )
             )}
           </section>
 
-          {/* Data + debug */}
+          {/* Data */}
           <section className="space-y-4">
             <div className="bg-slate-900/60 border border-slate-800 rounded-2xl p-4">
-              <h2 className="text-sm font-semibold mb-2">Latest Check-In</h2>
-              {latestCheckIn ? (
-                <pre className="text-[11px] text-slate-300 whitespace-pre-wrap break-words bg-slate-950/60 rounded-xl p-3 max-h-64 overflow-y-auto">
-{JSON.stringify(latestCheckIn, null, 2)}
-                </pre>
+              <h2 className="text-sm font-semibold mb-2">Today&apos;s Check-In</h2>
+              {checkin ? (
+                <div className="text-[11px] text-slate-300 space-y-1">
+                  <p>
+                    Sleep: {checkin.sleep_hours ?? "?"}h ({checkin.sleep_quality ?? "?"})
+                  </p>
+                  <p>
+                    Mood: {checkin.mood ?? "?"} · Stress: {checkin.stress ?? "?"} · Energy:{" "}
+                    {checkin.energy ?? "?"}
+                  </p>
+                  <p>
+                    Focus: {checkin.focus ?? "?"} · Urge to trade: {checkin.urge_to_trade ?? "?"}
+                  </p>
+                  {checkin.notes && <p className="text-slate-400">Notes: {checkin.notes}</p>}
+                  {checkin.plan && <p className="text-slate-400">Plan: {checkin.plan}</p>}
+                </div>
               ) : (
-                <p className="text-xs text-slate-500">
-                  No check-ins found yet in localStorage.
-                </p>
+                <p className="text-xs text-slate-500">No check-in logged today.</p>
               )}
             </div>
 
@@ -262,43 +244,163 @@ export default function ReadinessPage() {
               <h2 className="text-sm font-semibold mb-2">
                 Recent Trades (last 5)
               </h2>
-              {recentTrades && recentTrades.length > 0 ? (
-                <pre className="text-[11px] text-slate-300 whitespace-pre-wrap break-words bg-slate-950/60 rounded-xl p-3 max-h-64 overflow-y-auto">
-{JSON.stringify(recentTrades.slice(-5), null, 2)}
-                </pre>
+              {recentTrades.length > 0 ? (
+                <ul className="text-[11px] text-slate-300 space-y-1">
+                  {recentTrades.map((t) => (
+                    <li key={t.id}>
+                      {t.trade_date} · {t.symbol} {t.direction}
+                      {t.rr_result != null && ` · ${t.rr_result > 0 ? "+" : ""}${t.rr_result}R`}
+                      {t.emotion_before && ` · felt ${t.emotion_before}`}
+                    </li>
+                  ))}
+                </ul>
               ) : (
                 <p className="text-xs text-slate-500">
-                  No trades found yet in localStorage.
+                  No trades in the journal yet.
                 </p>
               )}
             </div>
+          </section>
+        </main>
 
-            {/* Debug panel so we can see what's going on */}
-            <div className="bg-slate-900/40 border border-dashed border-slate-700 rounded-2xl p-4">
-              <h2 className="text-xs font-semibold mb-2 text-slate-400">
-                Storage Debug (for you & Jarvis dev)
-              </h2>
-              <p className="text-[11px] text-slate-500 mb-1">
-                LocalStorage keys on this browser:
-              </p>
-              <pre className="text-[11px] text-slate-400 whitespace-pre-wrap break-words bg-slate-950/60 rounded-xl p-3 max-h-40 overflow-y-auto mb-2">
-{JSON.stringify(storageDebug.keys, null, 2)}
-              </pre>
-              <p className="text-[11px] text-slate-500">
-                Detected check-in key:{" "}
-                <span className="text-slate-200">
-                  {storageDebug.checkinKey || "none"}
-                </span>
-              </p>
-              <p className="text-[11px] text-slate-500">
-                Detected trades key:{" "}
-                <span className="text-slate-200">
-                  {storageDebug.tradesKey || "none"}
-                </span>
+        {/* Calibration */}
+        <section className="bg-slate-900/70 border border-slate-800 rounded-2xl p-6 space-y-4">
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div>
+              <h2 className="text-sm font-semibold">Calibration against your results</h2>
+              <p className="text-xs text-slate-500">
+                Pairs each check-in with that day&apos;s trades (R, rule breaks, emotional notes) and
+                proposes weights and thresholds that fit how you actually trade.
               </p>
+              {activeModel && (
+                <p className="text-xs text-slate-400 mt-1">Active model: {activeModel.version}</p>
+              )}
             </div>
-          </section>
-        </main>
+            <div className="flex gap-2">
+              {activeModel && activeModel.version !== DEFAULT_READINESS_MODEL.version && (
+                <button
+                  type="button"
+                  onClick={resetModel}
+                  disabled={calibrating}
+                  className="text-xs px-3 py-1 rounded-full border border-slate-700 hover:bg-slate-800 disabled:opacity-60"
+                >
+                  Use defaults
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={runCalibration}
+                disabled={calibrating}
+                className="text-xs px-3 py-1 rounded-full bg-slate-800 hover:bg-slate-700 disabled:opacity-60"
+              >
+                {calibrating ? "Working..." : "Run analysis"}
+              </button>
+            </div>
+          </div>
+
+          {calibrationError && <p className="text-xs text-rose-400">{calibrationError}</p>}
+
+          {evidence ? (
+            <>
+              <p className="text-xs text-slate-400">
+                {evidence.tradingDays} trading days with a check-in (of {evidence.checkins} check-ins) ·
+                average {signedR(evidence.avgOutcomeR)} per day after rule-break and emotion penalties ·
+                run {evidence.generatedAt.slice(0, 10)}
+              </p>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <LevelTable title={`Current model (${(activeModel ?? DEFAULT_READINESS_MODEL).version})`} levels={evidence.levels.current} />
+                <LevelTable title={`Proposed (${calibration.version})`} levels={evidence.levels.proposed} />
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-[11px]">
+                  <thead>
+                    <tr className="border-b border-slate-700 text-left text-slate-500">
+                      <th className="py-1 font-medium">Factor</th>
+                      <th className="py-1 text-right font-medium">Days</th>
+                      <th className="py-1 text-right font-medium">Avg / day</th>
+                      <th className="py-1 text-right font-medium">vs avg</th>
+                      <th className="py-1 text-right font-medium">Rule breaks / day</th>
+                      <th className="py-1 text-right font-medium">Points</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {evidence.factors.map((f) =>
+                      f.values
+                        .filter((v) => v.days > 0)
+                        .map((v, i) => (
+                          <tr key={`${f.factor}-${v.value}`} className="border-b border-slate-800">
+                            <td className="py-1 text-slate-300">
+                              {i === 0 && (
+                                <span className="text-slate-500">
+                                  {readinessFactorLabel(f.factor)}
+                                  {f.correlation != null && ` (r ${f.correlation})`}
+                                  {f.informative === false && " · not used"}:{" "}
+                                </span>
+                              )}
+                              {v.value}
+                            </td>
+                            <td className="py-1 text-right text-slate-400">{v.days}</td>
+                            <td className="py-1 text-right">{signedR(v.avgOutcomeR)}</td>
+                            <td className={`py-1 text-right ${v.deltaR < 0 ? "text-rose-300" : "text-emerald-300"}`}>
+                              {signedR(v.deltaR)}
+                            </td>
+                            <td className="py-1 text-right text-slate-400">{v.ruleBreakRate}</td>
+                            <td className="py-1 text-right">
+                              {v.currentPoints === v.proposedPoints
+                                ? v.currentPoints
+                                : `${v.currentPoints} → ${v.proposedPoints}`}
+                            </td>
+                          </tr>
+                        ))
+                    )}
+                  </tbody>
+                </table>
+                <p className="text-[11px] text-slate-500 mt-1">
+                  r = correlation between the current points for a factor and your day results; near 0
+                  means that factor hasn&apos;t predicted anything for you yet. Factors marked &quot;not
+                  used&quot; don&apos;t separate good days from bad ones clearly enough to be re-weighted.
+                </p>
+              </div>
+
+              {evidence.changes.length > 0 ? (
+                <ul className="text-xs text-slate-300 space-y-1">
+                  {evidence.changes.map((c) => (
+                    <li key={c}>• {c}</li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-xs text-slate-400">No changes proposed — the current model fits your results.</p>
+              )}
+
+              {calibration.status === "accepted" ? (
+                <p className="text-xs text-emerald-300">
+                  Accepted {calibration.accepted_at?.slice(0, 10)} — this is the model scoring your check-ins.
+                </p>
+              ) : evidence.ready ? (
+                <button
+                  type="button"
+                  onClick={acceptCalibration}
+                  disabled={calibrating || evidence.changes.length === 0}
+                  className="rounded-xl px-4 py-2 text-sm font-medium bg-emerald-500 text-slate-950 hover:bg-emerald-400 disabled:opacity-60"
+                >
+                  Accept calibrated model
+                </button>
+              ) : (
+                <p className="text-xs text-amber-300">
+                  {evidence.reason ??
+                    `Need at least ${MIN_DAYS_FOR_CALIBRATION} trading days with a check-in before this can replace the defaults.`}{" "}
+                  Keep checking in.
+                </p>
+              )}
+            </>
+          ) : (
+            <p className="text-xs text-slate-500">
+              No analysis yet. Run it once you have a few weeks of check-ins and journal trades.
+            </p>
+          )}
+        </section>
       </div>
     </div>
   );
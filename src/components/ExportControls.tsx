@@ -0,0 +1,58 @@
+"use client";
+
+import React, { useState } from "react";
+import type { DateRange, ExportFormat } from "@/lib/jarvis/export";
+
+interface ExportControlsProps {
+  label: string;
+  onExport: (format: ExportFormat, range: DateRange) => void | Promise<void>;
+}
+
+/**
+ * Date range + CSV / JSON download buttons.
+ * Leave both dates empty to export everything.
+ */
+const ExportControls: React.FC<ExportControlsProps> = ({ label, onExport }) => {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [error, setError] = useState("");
+
+  async function handleExport(format: ExportFormat) {
+    setError("");
+    if (from && to && from > to) {
+      setError("From must not be after To.");
+      return;
+    }
+    try {
+      await onExport(format, { from: from || undefined, to: to || undefined });
+    } catch (err: any) {
+      console.error("Export error:", err);
+      setError(err?.message ?? "Export failed");
+    }
+  }
+
+  const inputClass =
+    "rounded-lg border border-slate-800 bg-slate-900/80 px-2 py-1 text-[0.7rem] text-slate-100 outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500";
+  const buttonClass =
+    "rounded-lg border border-slate-700 bg-slate-900/80 px-3 py-1 text-[0.7rem] font-semibold text-slate-200 hover:bg-slate-800 transition";
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[0.7rem] font-medium text-slate-400">{label}</span>
+        <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+        <span className="text-[0.7rem] text-slate-500">to</span>
+        <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+        <button type="button" onClick={() => handleExport("csv")} className={buttonClass}>
+          CSV
+        </button>
+        <button type="button" onClick={() => handleExport("json")} className={buttonClass}>
+          JSON
+        </button>
+      </div>
+      {error && <p className="text-[0.7rem] text-rose-400">{error}</p>}
+    </div>
+  );
+};
+
+export default ExportControls;
@@ -0,0 +1,25 @@
+"use client";
+
+import React from "react";
+
+interface PrintButtonProps {
+  label?: string;
+}
+
+/**
+ * Opens the browser print dialog ("Save as PDF" lives there too).
+ * Hidden on the printed page itself.
+ */
+const PrintButton: React.FC<PrintButtonProps> = ({ label = "Print / Save as PDF" }) => {
+  return (
+    <button
+      type="button"
+      onClick={() => window.print()}
+      className="rounded-full bg-indigo-500/15 px-3 py-1 text-xs font-medium text-indigo-200 ring-1 ring-indigo-500/60 hover:bg-indigo-500/25 transition print:hidden"
+    >
+      {label}
+    </button>
+  );
+};
+
+export default PrintButton;
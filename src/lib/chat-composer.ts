@@ -6,6 +6,11 @@
 // - Defensive / TypeScript-friendly
 
 import { groqClient } from "@/lib/groq";
+import { createClient } from "@/lib/supabase/server";
+import { buildReadinessSnippet, loadTodayReadiness } from "@/lib/jarvis/checkins";
+import { buildCooldownSnippet, getActiveCooldown } from "@/lib/jarvis/tilt";
+import { buildToneDirective } from "@/lib/jarvis/tone";
+import { memoryText, recordMemoryInjection } from "@/lib/jarvis/memory";
 import jarvisPersona from "@/lib/jarvis-persona";
 import * as memoryLibImport from "./jarvis-memory";
 import * as mathEngine from "./math-engine";
@@ -16,6 +21,8 @@ type Msg = { role: Role; content: string; ts?: string };
 type ComposeOpts = {
   userId: string;
   messages?: Msg[]; // conversation messages (most recent last)
+  query?: string; // memory lookup text; defaults to the latest user message
+  incoming?: string; // raw text as sent by telegram/processPending
   memoryLimit?: number;
   memoryMaxAgeDays?: number;
   verbose?: boolean;
@@ -33,15 +40,15 @@ function normalizeMessages(input?: Msg[] | { role: string; content: string }[])
 
 // pick the best memory fetch function available
 const memoryLib: any = (memoryLibImport as any).default ?? memoryLibImport;
-async function fetchRelevant(userId: string, memoryLimit = 6, maxAgeDays?: number) {
+async function fetchRelevant(userId: string, query: string | null, memoryLimit = 6, maxAgeDays?: number) {
   try {
     if (!memoryLib) return [];
     // prefer getRelevantMemories alias if available
     if (typeof memoryLib.getRelevantMemories === "function") {
-      return await memoryLib.getRelevantMemories(userId, null, maxAgeDays ?? null, memoryLimit);
+      return await memoryLib.getRelevantMemories(userId, query, maxAgeDays ?? null, memoryLimit);
     }
     if (typeof memoryLib.fetchRelevantMemories === "function") {
-      return await memoryLib.fetchRelevantMemories(userId, null, maxAgeDays ?? null, memoryLimit);
+      return await memoryLib.fetchRelevantMemories(userId, query, maxAgeDays ?? null, memoryLimit);
     }
     if (typeof memoryLib.fetchMemoryForUser === "function") {
       return await memoryLib.fetchMemoryForUser(userId, { limit: memoryLimit });
@@ -55,24 +62,25 @@ async function fetchRelevant(userId: string, memoryLimit = 6, maxAgeDays?: numbe
 
 function buildMemoryPreface(memRows: any[]) {
   if (!memRows || memRows.length === 0) return "";
-  // Defensive: each row may have summary or data.summary or summary in data
   const lines = memRows.map((m: any, i: number) => {
-    const summary =
-      m?.summary ??
-      (m?.data && (m.data.summary || m.data.text || m.data.note)) ??
-      (typeof m === "string" ? m : JSON.stringify(m).slice(0, 200));
-    return `${i + 1}. ${String(summary).replace(/\s+/g, " ").trim()}`;
+    const text = typeof m === "string" ? m : memoryText(m) || JSON.stringify(m).slice(0, 200);
+    return `${i + 1}. ${text}`;
   });
   return `Relevant memories (most relevant first):\n${lines.join("\n")}\n\n`;
 }
 
-function buildSystemPrompt(userId: string, memoryPreface: string) {
+function buildSystemPrompt(
+  userId: string,
+  memoryPreface: string,
+  readinessPreface: string,
+  cooldownPreface: string
+) {
   const personaText =
     (jarvisPersona && (jarvisPersona as any).summary) ||
     (jarvisPersona && typeof jarvisPersona === "string" ? jarvisPersona : null) ||
     "You are Jarvis, a concise, factual trading assistant. Speak clearly and helpfully.";
   const now = new Date().toISOString();
-  return `${personaText}\nUser: ${userId}\nTime: ${now}\n\n${memoryPreface}Respond concisely and with numeric accuracy when relevant.`;
+  return `${personaText}\nUser: ${userId}\nTime: ${now}\n\n${memoryPreface}${readinessPreface}${cooldownPreface}Respond concisely and with numeric accuracy when relevant.`;
 }
 
 export default async function composeChat(opts: ComposeOpts) {
@@ -81,11 +89,38 @@ export default async function composeChat(opts: ComposeOpts) {
   const maxAgeDays = opts.memoryMaxAgeDays;
 
   const convo = normalizeMessages(opts.messages);
-  // fetch relevant memories
-  const memRows = await fetchRelevant(userId, memoryLimit, maxAgeDays);
+  // fetch the memories closest to what the user just said
+  const lastUser = [...convo].reverse().find((m) => m.role === "user")?.content;
+  const query = opts.query ?? opts.incoming ?? lastUser ?? null;
+  const memRows = await fetchRelevant(userId, query, memoryLimit, maxAgeDays);
   const memoryPreface = buildMemoryPreface(memRows);
 
-  const systemPrompt = buildSystemPrompt(userId, memoryPreface);
+  // today's check-in readiness (same model as the web banner and pre-trade gate)
+  const supabase = createClient();
+  const { readiness } = await loadTodayReadiness(supabase);
+  const readinessPreface = `${buildReadinessSnippet(readiness)}\n\n`;
+
+  // a running tilt cool-down keeps replies in support mode
+  const cooldown = await getActiveCooldown(supabase).catch((e) => {
+    console.warn("cool-down lookup failed:", e);
+    return null;
+  });
+  const channel = userId.startsWith("tg:") ? "telegram" : "web";
+  const cooldownPreface = cooldown
+    ? `${buildCooldownSnippet(cooldown)}\n${buildToneDirective("support", channel)}\n\n`
+    : "";
+
+  const systemPrompt = buildSystemPrompt(userId, memoryPreface, readinessPreface, cooldownPreface);
+
+  // shown per reply in the admin memory browser
+  if (Array.isArray(memRows) && memRows.length) {
+    await recordMemoryInjection(supabase, {
+      userId,
+      channel,
+      message: query,
+      rows: memRows.filter((m: any) => m && typeof m === "object"),
+    }).catch((e) => console.warn("recordMemoryInjection failed:", e));
+  }
 
   // final composed messages: system prompt, then the recent convo (limit last 12 msgs)
   const recent = convo.slice(-12).map((m) => ({ role: m.role, content: m.content }));
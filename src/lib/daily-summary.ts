@@ -0,0 +1,137 @@
+// src/lib/daily-summary.ts
+// Daily memory summarizer / profile builder:
+// - collects the last N days of memories, chat history and journal trades
+// - summarizes them with summarizeItemsWithLLM
+// - writes the long-term profile (jarvis_profile, read by /profile)
+// - writes a dated type="journal" memory (read by /journal/auto)
+// Idempotent per local day: a second run the same day is skipped unless forced.
+
+import { PRIMARY_USER_ID } from "./constants";
+import { upsertUserProfileSummary } from "./supabase";
+import { saveMemory } from "./jarvis-memory";
+import summarizeItemsWithLLM from "./memory-summarizer";
+import { memoryText } from "./jarvis/memory";
+import { listTrades } from "./jarvis/trades";
+import { localDate } from "./time";
+
+const DEFAULT_DAYS = 7;
+const MEMORY_LIMIT = 300;
+const HISTORY_LIMIT = 200;
+
+// Summaries of summaries drift; these are outputs of this job, not inputs
+const SKIPPED_TYPES = new Set(["journal", "summary"]);
+
+export type DailySummaryResult = {
+  date: string;
+  skipped?: "already_ran" | "no_items";
+  items: number;
+  summary?: string;
+  bullets?: string[];
+  journalMemoryId?: string | null;
+};
+
+type SummaryItem = { text: string; type?: string };
+
+async function findJournalMemory(supabase: any, date: string) {
+  const { data, error } = await supabase
+    .from("jarvis_memory")
+    .select("id")
+    .eq("user_id", PRIMARY_USER_ID)
+    .eq("type", "journal")
+    .eq("data->>entry_date", date)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data?.id as string | undefined) ?? null;
+}
+
+async function collectItems(supabase: any, days: number): Promise<SummaryItem[]> {
+  const since = new Date(Date.now() - days * 86400000);
+
+  // Single-user app: web and Telegram memories live under different user ids
+  const { data: memories, error: memoryError } = await supabase
+    .from("jarvis_memory")
+    .select("*")
+    .gte("created_at", since.toISOString())
+    .is("archived_at", null)
+    .order("importance", { ascending: false })
+    .limit(MEMORY_LIMIT);
+  if (memoryError) throw memoryError;
+
+  const { data: history, error: historyError } = await supabase
+    .from("jarvis_history")
+    .select("role, content, channel, created_at")
+    .eq("role", "user")
+    .gte("created_at", since.toISOString())
+    .order("created_at", { ascending: false })
+    .limit(HISTORY_LIMIT);
+  if (historyError) throw historyError;
+
+  const trades = await listTrades(supabase, { from: localDate(undefined, since) });
+
+  return [
+    ...(memories ?? [])
+      .filter((m: any) => !SKIPPED_TYPES.has(m.type) && memoryText(m))
+      .map((m: any) => ({ type: m.type ?? "memory", text: memoryText(m).slice(0, 300) })),
+    ...trades.map((t) => ({
+      type: "trade",
+      text: [
+        t.trade_date,
+        t.symbol,
+        t.direction,
+        t.rr_result != null ? `${t.rr_result > 0 ? "+" : ""}${t.rr_result}R` : t.outcome ?? "open",
+        t.emotion_before ? `felt ${t.emotion_before}` : "",
+        t.notes ?? "",
+      ]
+        .filter(Boolean)
+        .join(" · ")
+        .slice(0, 300),
+    })),
+    ...(history ?? [])
+      .filter((h: any) => String(h.content ?? "").trim())
+      .map((h: any) => ({ type: `chat-${h.channel ?? "web"}`, text: String(h.content).slice(0, 300) })),
+  ];
+}
+
+export async function runDailySummary(
+  supabase: any,
+  opts: { days?: number; date?: string; force?: boolean } = {}
+): Promise<DailySummaryResult> {
+  const date = opts.date ?? localDate();
+  const days = opts.days ?? DEFAULT_DAYS;
+
+  const existingId = await findJournalMemory(supabase, date);
+  if (existingId && !opts.force) return { date, skipped: "already_ran", items: 0, journalMemoryId: existingId };
+
+  const items = await collectItems(supabase, days);
+  if (!items.length) return { date, skipped: "no_items", items: 0 };
+
+  const { summary, bullets = [] } = await summarizeItemsWithLLM({ userId: PRIMARY_USER_ID, items, persist: false });
+  if (!summary?.trim()) throw new Error("Summarizer returned no summary.");
+
+  const bulletText = bullets.map((b: string) => `- ${b}`).join("\n");
+  await upsertUserProfileSummary([summary, bulletText].filter(Boolean).join("\n\n"), PRIMARY_USER_ID);
+
+  const content = [`Daily journal — ${date}`, summary, bulletText].filter(Boolean).join("\n\n");
+  const data = { entry_date: date, days, items: items.length, bullets };
+  let journalMemoryId = existingId;
+  if (existingId) {
+    // Forced re-run: replace the day's entry rather than adding a second one (vector rebuilt on read)
+    const { error } = await supabase
+      .from("jarvis_memory")
+      .update({ content, data, embedding: null })
+      .eq("id", existingId);
+    if (error) throw error;
+  } else {
+    const saved = await saveMemory(
+      PRIMARY_USER_ID,
+      { type: "journal", content, tags: ["daily_journal"], importance: 6, source: "daily_summary", data },
+      { dedupe: false }
+    );
+    if (!saved) throw new Error("Could not save the journal memory.");
+    journalMemoryId = await findJournalMemory(supabase, date);
+  }
+
+  return { date, items: items.length, summary, bullets, journalMemoryId };
+}
@@ -1,27 +1,158 @@
 // src/lib/jarvis-memory.ts
 // Unified memory helper for Jarvis.
-// - Named exports: fetchMemoryForUser, fetchRelevantMemories, getRelevantMemories, saveMemory, saveConversation, writeJournal
+// - Named exports: fetchMemoryForUser, fetchRelevantMemories, getRelevantMemories, saveMemory, saveConversation, writeJournal,
+//   backfillMemoryEmbeddings
 // - Default export: memoryLib { ... }
 // Server-only helpers using Supabase server client.
+// Rows carry an embedding (see lib/jarvis/memory) so a query is matched by meaning;
+// the ilike / importance lookups remain as the fallback. Archived rows are never returned,
+// and a save that nearly repeats an existing memory reinforces it instead.
 
 import { createClient } from "./supabase/server";
 import type { SupabaseClient } from "@supabase/supabase-js";
-
+import {
+  compactVector,
+  getEmbeddingProvider,
+  memoryCandidates,
+  memoryText,
+  mergeIntoDuplicate,
+  rankMemories,
+  type MemoryEmbeddingColumns,
+  type MemoryType,
+} from "./jarvis/memory";
+
+// The one row shape every writer uses (chat, Telegram, extractor, summarizer).
+// Older rows may keep their text in `summary` or `text`; read text with memoryText().
 export type MemoryRow = {
   id?: string;
   user_id: string;
-  summary: string;
-  data?: any;
+  type: MemoryType;
+  content: string;
+  tags?: string[];
   importance?: number;
+  source?: string | null; // "chat", "extractor", "auto_summarizer", ...
+  channel?: string | null; // "web" | "telegram"
+  data?: any;
   created_at?: string;
+  embedding?: number[] | null;
+  embedding_model?: string | null;
+};
+
+export type MemoryInput = {
+  content?: string;
+  summary?: string; // older callers; same as content
+  type?: MemoryType;
+  tags?: string[];
+  importance?: number;
+  source?: string;
+  channel?: string;
+  data?: any;
 };
 
+const MEMORY_COLUMNS = "id, user_id, type, content, summary, text, tags, data, importance, source, channel, created_at";
+
 export type ConversationMessage = {
   role: "user" | "assistant" | "system";
   content: string;
   ts?: string;
 };
 
+// Newest rows scored per semantic query; older ones only come back via the fallback
+const SEMANTIC_CANDIDATES = 300;
+const SEMANTIC_COLUMNS = `${MEMORY_COLUMNS}, embedding, embedding_model`;
+// A whole chat message never appears verbatim in a memory; longer queries skip the text match
+const MAX_TEXT_MATCH_LENGTH = 80;
+
+/* -------------------------
+   embeddings
+   ------------------------- */
+
+// Vector for a memory's text with the active provider; nulls if it can't be embedded
+async function embedMemoryText(text: string): Promise<MemoryEmbeddingColumns> {
+  const provider = getEmbeddingProvider();
+  const none = { embedding: null, embedding_model: null };
+  try {
+    if (!text.trim()) return none;
+    const [vector] = await provider.embed([text]);
+    return vector ? { embedding: compactVector(vector), embedding_model: provider.id } : none;
+  } catch (e) {
+    console.warn("embedMemoryText failed", e);
+    return none;
+  }
+}
+
+// Ranks recent rows against the query; null when nothing is similar enough (or on error)
+async function semanticMemories(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  query: string,
+  maxAgeDays: number | undefined,
+  limit: number
+) {
+  const provider = getEmbeddingProvider();
+  let builder = supabase
+    .from("jarvis_memory")
+    .select(SEMANTIC_COLUMNS)
+    .eq("user_id", userId)
+    .is("archived_at", null);
+  if (typeof maxAgeDays === "number" && maxAgeDays > 0) {
+    const cutoff = new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000);
+    builder = builder.gte("created_at", cutoff.toISOString());
+  }
+  const { data, error } = await builder.order("created_at", { ascending: false }).limit(SEMANTIC_CANDIDATES);
+  if (error) {
+    console.warn("semanticMemories supabase error:", error);
+    return null;
+  }
+  const candidates = await memoryCandidates(data ?? [], provider);
+  if (!candidates.length) return null;
+
+  const [queryVector] = await provider.embed([query]);
+  const ranked = rankMemories(queryVector, candidates, { limit });
+  if (!ranked.length) return null;
+
+  return ranked.map(({ row, score, similarity }) => {
+    const { embedding: _embedding, ...rest } = row;
+    return { ...rest, relevance: Math.round(score * 1000) / 1000, similarity: Math.round(similarity * 1000) / 1000 };
+  });
+}
+
+/**
+ * Stores vectors on jarvis_memory rows that have none (or one from another
+ * provider). Returns how many rows were updated.
+ */
+export async function backfillMemoryEmbeddings(
+  supabase: ReturnType<typeof createClient>,
+  opts: { userId?: string; limit?: number } = {}
+) {
+  const provider = getEmbeddingProvider();
+  let builder = supabase
+    .from("jarvis_memory")
+    .select("*")
+    .or(`embedding_model.is.null,embedding_model.neq.${provider.id}`);
+  if (opts.userId) builder = builder.eq("user_id", opts.userId);
+  const { data, error } = await builder.order("created_at", { ascending: false }).limit(opts.limit ?? 100);
+  if (error) throw error;
+
+  const rows = (data ?? []).filter((r: any) => memoryText(r));
+  if (!rows.length) return 0;
+  const vectors = await provider.embed(rows.map(memoryText));
+
+  let updated = 0;
+  for (let i = 0; i < rows.length; i++) {
+    const { error: updateError } = await supabase
+      .from("jarvis_memory")
+      .update({ embedding: compactVector(vectors[i]), embedding_model: provider.id })
+      .eq("id", rows[i].id);
+    if (updateError) {
+      console.warn("backfillMemoryEmbeddings update error", updateError);
+      continue;
+    }
+    updated += 1;
+  }
+  return updated;
+}
+
 /* -------------------------
    fetchMemoryForUser
    ------------------------- */
@@ -51,8 +182,9 @@ export async function fetchMemoryForUser(
     const limit = opts?.limit ?? 6;
     const { data, error } = await supabase
       .from("jarvis_memory")
-      .select("id, user_id, summary, data, importance, created_at")
+      .select(MEMORY_COLUMNS)
       .eq("user_id", userId)
+      .is("archived_at", null)
       .order("importance", { ascending: false })
       .limit(limit);
 
@@ -125,25 +257,41 @@ export async function fetchRelevantMemories(
     if (!userId) return [];
 
     const finalLimit = typeof limit === "number" ? limit : 10;
-    let builder = supabase
-      .from("jarvis_memory")
-      .select("id, user_id, summary, data, importance, created_at")
-      .eq("user_id", userId);
 
-    if (typeof maxAgeDays === "number" && maxAgeDays > 0) {
-      const cutoff = new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000);
-      builder = builder.gte("created_at", cutoff.toISOString());
+    if (query && query.trim().length) {
+      try {
+        const ranked = await semanticMemories(supabase, userId, query, maxAgeDays, finalLimit);
+        if (ranked) return ranked;
+      } catch (e) {
+        console.warn("semantic memory retrieval failed, falling back", e);
+      }
     }
 
-    if (query && query.trim().length) {
-      const orCond = `summary.ilike.%${query}%,data->>text.ilike.%${query}%`;
-      builder = builder.or(orCond);
-      builder = builder.order("importance", { ascending: false }).limit(finalLimit);
-      const { data, error } = await builder;
+    // Query builders mutate, so the text match and the plain fallback each get their own
+    const recentMemories = () => {
+      const builder = supabase
+        .from("jarvis_memory")
+        .select(MEMORY_COLUMNS)
+        .eq("user_id", userId)
+        .is("archived_at", null);
+      if (typeof maxAgeDays === "number" && maxAgeDays > 0) {
+        const cutoff = new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000);
+        return builder.gte("created_at", cutoff.toISOString());
+      }
+      return builder;
+    };
+
+    // Commas and parentheses would break the .or() filter syntax
+    const needle = (query ?? "").replace(/[,()]/g, " ").trim();
+    if (needle && needle.length <= MAX_TEXT_MATCH_LENGTH) {
+      const { data, error } = await recentMemories()
+        .or(`content.ilike.%${needle}%,summary.ilike.%${needle}%,data->>text.ilike.%${needle}%`)
+        .order("importance", { ascending: false })
+        .limit(finalLimit);
       if (!error && Array.isArray(data) && data.length) return data;
     }
 
-    const { data, error } = await builder.order("importance", { ascending: false }).limit(finalLimit);
+    const { data, error } = await recentMemories().order("importance", { ascending: false }).limit(finalLimit);
     if (error) {
       console.warn("fetchRelevantMemories supabase error:", error);
       return [];
@@ -173,16 +321,37 @@ export async function getRelevantMemories(
    saveMemory
    ------------------------- */
 
-export async function saveMemory(userId: string, payload: { summary: string; data?: any; importance?: number }) {
+// opts.dedupe: false for dated entries (daily journal) that must never be merged
+export async function saveMemory(userId: string, payload: MemoryInput, opts: { dedupe?: boolean } = {}) {
   try {
     const supabase = createClient();
+    const content = String(payload.content ?? payload.summary ?? "").trim();
+    if (!content) return false;
     const row: MemoryRow = {
       user_id: userId,
-      summary: payload.summary,
-      data: payload.data ?? {},
+      type: payload.type ?? "misc",
+      content,
+      tags: payload.tags ?? [],
       importance: payload.importance ?? 1,
+      source: payload.source ?? null,
+      channel: payload.channel ?? null,
+      data: payload.data ?? {},
+      ...(await embedMemoryText(content)),
     };
-    const { error } = await supabase.from("jarvis_memory").insert([row]);
+    if (row.embedding && opts.dedupe !== false) {
+      try {
+        if (await mergeIntoDuplicate(supabase, { ...row, embedding: row.embedding })) return true;
+      } catch (e) {
+        console.warn("saveMemory duplicate check failed, inserting", e);
+      }
+    }
+    let { error } = await supabase.from("jarvis_memory").insert([row]);
+    if (error && row.embedding) {
+      // Table without the embedding columns yet: keep the memory, skip the vector
+      console.warn("saveMemory insert with embedding failed, retrying without", error);
+      const { embedding: _embedding, embedding_model: _model, ...plain } = row;
+      ({ error } = await supabase.from("jarvis_memory").insert([plain]));
+    }
     if (error) {
       console.warn("saveMemory insert error", error);
       return false;
@@ -274,6 +443,7 @@ const memoryLib = {
   saveMemory,
   saveConversation,
   writeJournal,
+  backfillMemoryEmbeddings,
 };
 
 export default memoryLib;
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { buildCalibrationDays, calibrateReadiness } from "./calibration";
+import { DEFAULT_READINESS_MODEL } from "./readiness";
+
+const now = new Date("2026-10-01T00:00:00Z");
+
+function checkin(date: string, stress: string) {
+  return {
+    date,
+    sleepHours: "8",
+    sleepQuality: "Good",
+    mood: "Calm",
+    stress,
+    energy: "Normal",
+    focus: "Normal",
+    urgeToTrade: "Normal",
+  };
+}
+
+// Twelve trading days in September, one trade each
+function history(stressFor: (i: number) => string, rFor: (i: number) => number) {
+  const checkins = [];
+  const trades = [];
+  for (let i = 0; i < 12; i++) {
+    const date = `2026-09-${String(i + 1).padStart(2, "0")}`;
+    checkins.push(checkin(date, stressFor(i)));
+    trades.push({ date, rrResult: String(rFor(i)) });
+  }
+  return { checkins, trades };
+}
+
+describe("buildCalibrationDays", () => {
+  it("pairs each check-in with that day's trades and penalises rule breaks and emotion", () => {
+    const days = buildCalibrationDays(
+      [checkin("2026-10-01", "Low"), checkin("2026-10-02", "Low")],
+      [
+        { trade_date: "2026-10-01", rr_result: 2, notes: "broke my rules on size" },
+        { trade_date: "2026-10-01", rr_result: -1, notes: "revenge entry" },
+        { trade_date: "2026-09-30", rr_result: -3 },
+      ],
+      [
+        { created_at: "2026-10-01T10:00:00Z", verdict: "NO-TRADE", taken: true },
+        { created_at: "2026-10-01T11:00:00Z", verdict: "NO-TRADE", taken: false },
+      ]
+    );
+    expect(days).toEqual([
+      expect.objectContaining({
+        date: "2026-10-01",
+        trades: 2,
+        totalR: 1,
+        ruleBreaks: 2,
+        emotionalTrades: 1,
+        outcomeR: -0.5,
+      }),
+    ]);
+    // The morning's view: only the trades before the day
+    expect(days[0].factors.recentR).toBe("heavy-losses");
+  });
+});
+
+describe("calibrateReadiness", () => {
+  it("isn't ready with too few trading days", () => {
+    const { checkins, trades } = history((i) => (i % 2 ? "High" : "Low"), (i) => (i % 2 ? -1 : 1));
+    const calibration = calibrateReadiness(checkins.slice(0, 4), trades, [], DEFAULT_READINESS_MODEL, now);
+    expect(calibration).toMatchObject({ checkins: 4, tradingDays: 4, ready: false });
+    expect(calibration.reason).toMatch(/at least 10 trading days/);
+  });
+
+  it("keeps the current model when no answer separates good days from bad", () => {
+    const { checkins, trades } = history((i) => (i % 4 < 2 ? "Low" : "High"), (i) => (i % 2 ? -1 : 1));
+    const calibration = calibrateReadiness(checkins, trades, [], DEFAULT_READINESS_MODEL, now);
+    expect(calibration.ready).toBe(false);
+    expect(calibration.reason).toMatch(/None of the check-in answers/);
+    expect(calibration.factors.find((f) => f.factor === "stress")).toMatchObject({ strength: 0, informative: false });
+    expect(calibration.changes).toEqual([]);
+    expect(calibration.proposed).toEqual({ ...DEFAULT_READINESS_MODEL, version: "calibrated-2026-10-01" });
+  });
+
+  it("re-weights and flags only the factor that predicts the results", () => {
+    const { checkins, trades } = history((i) => (i % 2 ? "High" : "Low"), (i) => (i % 2 ? -1 : 1));
+    const calibration = calibrateReadiness(checkins, trades, [], DEFAULT_READINESS_MODEL, now);
+    expect(calibration).toMatchObject({ tradingDays: 12, ready: true, reason: null, avgOutcomeR: 0 });
+    expect(calibration.factors.filter((f) => f.informative).map((f) => f.factor)).toEqual(["stress"]);
+
+    const { proposed } = calibration;
+    expect(proposed.points.stress.High).toBeLessThan(DEFAULT_READINESS_MODEL.points.stress.High!);
+    expect(proposed.points.stress.Low).toBeGreaterThan(DEFAULT_READINESS_MODEL.points.stress.Low!);
+    expect(proposed.points.mood).toEqual(DEFAULT_READINESS_MODEL.points.mood);
+    expect(proposed.block.stress).toContain("High");
+    expect(calibration.changes).toContain("stress High now means NO TRADING (-1R vs average over 6 days)");
+
+    expect(calibration.levels.current.find((l) => l.level === "caution")).toMatchObject({ days: 6, avgOutcomeR: -1 });
+    expect(calibration.levels.proposed.find((l) => l.level === "block")).toMatchObject({ days: 6, avgOutcomeR: -1 });
+    expect(calibration.levels.proposed.find((l) => l.level === "good")).toMatchObject({ days: 6, avgOutcomeR: 1 });
+  });
+});
@@ -0,0 +1,368 @@
+// /lib/jarvis/checkins/calibration.ts
+// Calibrates the readiness model against what actually happened: every
+// check-in is paired with that day's journal trades (R, rule breaks,
+// emotional notes) and each factor value's average outcome is compared with
+// the user's overall average. Only factors whose values clearly separate good
+// and bad days are re-weighted, around the points the factor already gives on
+// an average day, so a factor that predicts nothing leaves the model alone.
+// The result is the evidence table /readiness shows and a proposed
+// ReadinessModel the user can accept.
+// Pure and browser-safe; the store runs it over Supabase rows.
+
+import {
+  DEFAULT_READINESS_MODEL,
+  readinessFactors,
+  RECENT_TRADES_FOR_READINESS,
+  readinessFactorLabel,
+  scoreReadiness,
+  type ReadinessCheckinLike,
+  type ReadinessFactor,
+  type ReadinessFactors,
+  type ReadinessLevel,
+  type ReadinessModel,
+  type ReadinessTradeLike,
+} from "./readiness";
+
+// Below this many trading days with a check-in the proposal is shown but can't be accepted
+export const MIN_DAYS_FOR_CALIBRATION = 10;
+
+const MIN_DAYS_PER_FLAG = 3;        // a value needs this many days before it can gain/lose a flag
+const SHRINK_DAYS = 5;              // evidence weight = n / (n + SHRINK_DAYS); the rest stays current
+const POINTS_PER_R = 10;            // 1R better/worse than average ≈ 10 readiness points
+const POINTS_CLAMP = { min: -25, max: 20 };
+const RULE_BREAK_PENALTY_R = 0.5;   // outcome = day R − penalties, so a lucky rule break still counts against
+const EMOTIONAL_PENALTY_R = 0.5;
+const BLOCK_DELTA_R = -1;
+const CAUTION_DELTA_R = -0.5;
+const CLEAR_CAUTION_DELTA_R = 0.25;
+const THRESHOLD_STEP = 5;
+const MIN_STRENGTH = 0.1;           // share of outcome variance a factor must explain (η²) …
+const NOISE_MULTIPLE = 3;           // … and at least this many times what chance alone gives, (k − 1) / (n − 1)
+
+const RULE_BREAK_RE = /\b(broke|breaking|broken)\b.*\brules?\b|\brule break|\bfomo\b|\bovertrad|\bmoved (my )?(stop|sl)\b|\bno (stop|sl)\b|\bchas(ed|ing)\b/i;
+const EMOTIONAL_RE = /\b(angry|frustrated|revenge|tilt(ed)?)\b/i;
+
+// Pre-trade checks count as a rule break when a NO-TRADE verdict was taken anyway
+export type CalibrationCheckLike = { created_at: string; verdict: string; taken: boolean | null };
+
+export interface CalibrationDay {
+  date: string;
+  factors: ReadinessFactors;
+  trades: number;
+  totalR: number;
+  ruleBreaks: number;
+  emotionalTrades: number;
+  outcomeR: number;                 // totalR − rule break and emotional penalties
+}
+
+export interface FactorValueEvidence {
+  value: string;
+  days: number;
+  avgOutcomeR: number;
+  deltaR: number;                   // vs the average over all trading days
+  ruleBreakRate: number;            // rule breaks per day
+  emotionalRate: number;            // emotional trades per day
+  currentPoints: number;
+  proposedPoints: number;
+}
+
+export interface FactorEvidence {
+  factor: ReadinessFactor;
+  correlation: number | null;       // current points vs outcome; null without variance
+  strength: number | null;          // η²: share of outcome variance explained by the value; null without variance
+  informative: boolean;             // strength clears the noise floor; only these factors are re-weighted
+  values: FactorValueEvidence[];
+}
+
+export interface LevelOutcome {
+  level: ReadinessLevel;
+  days: number;
+  avgOutcomeR: number;
+  totalR: number;
+}
+
+export interface ReadinessCalibration {
+  generatedAt: string;
+  checkins: number;
+  tradingDays: number;              // check-in days with at least one trade
+  ready: boolean;                   // enough days and at least one informative factor
+  reason: string | null;            // why the proposal can't be accepted yet
+  avgOutcomeR: number;
+  factors: FactorEvidence[];
+  levels: { current: LevelOutcome[]; proposed: LevelOutcome[] };
+  proposed: ReadinessModel;
+  changes: string[];                // human-readable differences from the current model
+}
+
+function round2(value: number): number {
+  return Number(value.toFixed(2));
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((s, v) => s + v, 0) / values.length : 0;
+}
+
+function pearson(xs: number[], ys: number[]): number | null {
+  if (xs.length < 3) return null;
+  const mx = mean(xs);
+  const my = mean(ys);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  xs.forEach((x, i) => {
+    sxy += (x - mx) * (ys[i] - my);
+    sxx += (x - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  });
+  return sxx && syy ? round2(sxy / Math.sqrt(sxx * syy)) : null;
+}
+
+// η² of outcomes grouped by factor value, and whether it beats chance for k groups over n days
+function correlationRatio(groups: number[][]): { strength: number | null; informative: boolean } {
+  const all = groups.flat();
+  const m = mean(all);
+  const total = all.reduce((sum, y) => sum + (y - m) ** 2, 0);
+  const k = groups.filter((g) => g.length).length;
+  if (!total || k < 2) return { strength: null, informative: false };
+  const between = groups.reduce((sum, g) => sum + (g.length ? g.length * (mean(g) - m) ** 2 : 0), 0);
+  const strength = between / total;
+  const noise = (k - 1) / Math.max(1, all.length - 1);
+  return { strength: round2(strength), informative: strength >= Math.max(MIN_STRENGTH, NOISE_MULTIPLE * noise) };
+}
+
+function tradeDate(t: ReadinessTradeLike): string {
+  return String(t.trade_date ?? t.date ?? "");
+}
+
+function tradeR(t: ReadinessTradeLike): number {
+  const n = Number(t.rr_result ?? t.rrResult);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function tradeText(t: ReadinessTradeLike): string {
+  return [t.notes, t.emotion_before ?? t.emotionBefore, t.emotion_after ?? t.emotionAfter].filter(Boolean).join(" ");
+}
+
+function pointsFor(model: ReadinessModel, factor: ReadinessFactor, value: string): number {
+  return (model.points[factor] as Record<string, number | undefined>)[value] ?? 0;
+}
+
+// Each check-in paired with that day's trades; days without trades are left out
+export function buildCalibrationDays(
+  checkins: ReadinessCheckinLike[],
+  trades: ReadinessTradeLike[],
+  checks: CalibrationCheckLike[] = []
+): CalibrationDay[] {
+  const sorted = [...trades].sort((a, b) => tradeDate(b).localeCompare(tradeDate(a)));
+  const overrides = new Map<string, number>();
+  for (const c of checks) {
+    if (c.taken && c.verdict === "NO-TRADE") {
+      const date = String(c.created_at).slice(0, 10);
+      overrides.set(date, (overrides.get(date) ?? 0) + 1);
+    }
+  }
+
+  const days: CalibrationDay[] = [];
+  for (const checkin of checkins) {
+    const date = String(checkin.date ?? checkin.checkin_date ?? "");
+    const dayTrades = sorted.filter((t) => tradeDate(t) === date);
+    if (!date || !dayTrades.length) continue;
+
+    // The model sees the trades before the day, as it would have that morning
+    const before = sorted.filter((t) => tradeDate(t) < date).slice(0, RECENT_TRADES_FOR_READINESS);
+    const totalR = dayTrades.reduce((s, t) => s + tradeR(t), 0);
+    const ruleBreaks =
+      dayTrades.filter((t) => RULE_BREAK_RE.test(tradeText(t))).length + (overrides.get(date) ?? 0);
+    const emotionalTrades = dayTrades.filter((t) => EMOTIONAL_RE.test(tradeText(t))).length;
+
+    days.push({
+      date,
+      factors: readinessFactors(checkin, before),
+      trades: dayTrades.length,
+      totalR: round2(totalR),
+      ruleBreaks,
+      emotionalTrades,
+      outcomeR: round2(totalR - ruleBreaks * RULE_BREAK_PENALTY_R - emotionalTrades * EMOTIONAL_PENALTY_R),
+    });
+  }
+  return days;
+}
+
+function levelOutcomes(days: CalibrationDay[], model: ReadinessModel): LevelOutcome[] {
+  const levels: ReadinessLevel[] = ["good", "caution", "block"];
+  const byLevel = new Map<ReadinessLevel, CalibrationDay[]>(levels.map((l) => [l, []]));
+  for (const day of days) byLevel.get(scoreReadiness(day.factors, model).level)!.push(day);
+  return levels.map((level) => {
+    const group = byLevel.get(level)!;
+    return {
+      level,
+      days: group.length,
+      avgOutcomeR: round2(mean(group.map((d) => d.outcomeR))),
+      totalR: round2(group.reduce((s, d) => s + d.totalR, 0)),
+    };
+  });
+}
+
+// Lowest score a day without any flag can get: thresholds.good must not sit
+// above it, or a flag-free day would read as CAREFUL
+function flagFreeFloor(model: ReadinessModel): number {
+  let floor = model.base;
+  for (const factor of Object.keys(model.points) as ReadinessFactor[]) {
+    const flagged = new Set<string>([
+      ...(((model.block as Record<string, string[]>)[factor]) ?? []),
+      ...(((model.caution as Record<string, string[]>)[factor]) ?? []),
+    ]);
+    const unflagged = Object.entries(model.points[factor] as Record<string, number>)
+      .filter(([value]) => !flagged.has(value))
+      .map(([, points]) => points);
+    floor += Math.min(0, ...unflagged);
+  }
+  return Math.max(0, floor);
+}
+
+// Recomputed from the proposed model's scores over the whole 0–100 range,
+// like the flags: "fit" starts at the highest score whose days below do
+// ≥ 0.5R worse than average (capped at the flag-free floor), "no trading"
+// at the highest score under it whose days below do ≥ 1R worse.
+function proposeThresholds(
+  days: CalibrationDay[],
+  model: ReadinessModel,
+  avg: number
+): ReadinessModel["thresholds"] {
+  const scored = days.map((d) => ({ score: scoreReadiness(d.factors, model).score, outcome: d.outcomeR }));
+  const ceiling = Math.floor(flagFreeFloor(model) / THRESHOLD_STEP) * THRESHOLD_STEP;
+  const highest = (to: number, deltaR: number) => {
+    for (let t = to; t > 0; t -= THRESHOLD_STEP) {
+      const below = scored.filter((s) => s.score < t);
+      if (below.length >= MIN_DAYS_PER_FLAG && mean(below.map((s) => s.outcome)) - avg <= deltaR) return t;
+    }
+    return null;
+  };
+
+  const good = highest(ceiling, CAUTION_DELTA_R) ?? Math.min(model.thresholds.good, ceiling);
+  const caution =
+    highest(good - THRESHOLD_STEP, BLOCK_DELTA_R) ??
+    Math.max(0, Math.min(model.thresholds.caution, good - THRESHOLD_STEP));
+  return { good, caution };
+}
+
+export function calibrateReadiness(
+  checkins: ReadinessCheckinLike[],
+  trades: ReadinessTradeLike[],
+  checks: CalibrationCheckLike[] = [],
+  current: ReadinessModel = DEFAULT_READINESS_MODEL,
+  now: Date = new Date()
+): ReadinessCalibration {
+  const days = buildCalibrationDays(checkins, trades, checks);
+  const avg = mean(days.map((d) => d.outcomeR));
+
+  const proposed: ReadinessModel = JSON.parse(JSON.stringify(current));
+  proposed.version = `calibrated-${now.toISOString().slice(0, 10)}`;
+  const changes: string[] = [];
+
+  const factors: FactorEvidence[] = (Object.keys(current.points) as ReadinessFactor[]).map((factor) => {
+    const withValue = days.filter((d) => d.factors[factor] != null);
+    const correlation = pearson(
+      withValue.map((d) => pointsFor(current, factor, d.factors[factor]!)),
+      withValue.map((d) => d.outcomeR)
+    );
+
+    const valueNames = Object.keys(current.points[factor]);
+    const groups = valueNames.map((value) => withValue.filter((d) => d.factors[factor] === value));
+    const { strength, informative } = correlationRatio(groups.map((g) => g.map((d) => d.outcomeR)));
+
+    // Evidence is centred on what this factor gives an average day now, so
+    // re-weighting it doesn't move the average score
+    const factorMean = mean(withValue.map((d) => pointsFor(current, factor, d.factors[factor]!)));
+
+    const values = valueNames.map((value, i): FactorValueEvidence => {
+      const group = groups[i];
+      const n = group.length;
+      const avgOutcomeR = mean(group.map((d) => d.outcomeR));
+      const deltaR = n ? avgOutcomeR - avg : 0;
+      const currentPoints = pointsFor(current, factor, value);
+
+      const evidencePoints = Math.max(
+        POINTS_CLAMP.min,
+        Math.min(POINTS_CLAMP.max, factorMean + deltaR * POINTS_PER_R)
+      );
+      const weight = n / (n + SHRINK_DAYS);
+      const proposedPoints =
+        n && informative ? Math.round(weight * evidencePoints + (1 - weight) * currentPoints) : currentPoints;
+      (proposed.points[factor] as Record<string, number>)[value] = proposedPoints;
+
+      if (informative && n >= MIN_DAYS_PER_FLAG) adjustFlags(proposed, factor, value, round2(deltaR), n, changes);
+
+      return {
+        value,
+        days: n,
+        avgOutcomeR: round2(avgOutcomeR),
+        deltaR: round2(deltaR),
+        ruleBreakRate: n ? round2(mean(group.map((d) => d.ruleBreaks))) : 0,
+        emotionalRate: n ? round2(mean(group.map((d) => d.emotionalTrades))) : 0,
+        currentPoints,
+        proposedPoints,
+      };
+    });
+
+    for (const v of values) {
+      if (v.proposedPoints !== v.currentPoints) {
+        changes.push(`${readinessFactorLabel(factor)} ${v.value}: ${v.currentPoints} → ${v.proposedPoints} points (${v.days} days, ${v.deltaR >= 0 ? "+" : ""}${v.deltaR}R vs average)`);
+      }
+    }
+    return { factor, correlation, strength, informative, values };
+  });
+
+  // Nothing predicted the results: keep the current model as it is
+  const anyInformative = factors.some((f) => f.informative);
+  if (anyInformative) proposed.thresholds = proposeThresholds(days, proposed, avg);
+  if (proposed.thresholds.good !== current.thresholds.good || proposed.thresholds.caution !== current.thresholds.caution) {
+    changes.push(
+      `Thresholds: fit ≥ ${current.thresholds.good} → ${proposed.thresholds.good}, no trading < ${current.thresholds.caution} → ${proposed.thresholds.caution}`
+    );
+  }
+
+  return {
+    generatedAt: now.toISOString(),
+    checkins: checkins.length,
+    tradingDays: days.length,
+    ready: days.length >= MIN_DAYS_FOR_CALIBRATION && anyInformative,
+    reason:
+      days.length < MIN_DAYS_FOR_CALIBRATION
+        ? `Need at least ${MIN_DAYS_FOR_CALIBRATION} trading days with a check-in (have ${days.length}).`
+        : !anyInformative
+          ? "None of the check-in answers has separated good days from bad ones yet — the current model stays."
+          : null,
+    avgOutcomeR: round2(avg),
+    factors,
+    levels: { current: levelOutcomes(days, current), proposed: levelOutcomes(days, proposed) },
+    proposed,
+    changes,
+  };
+}
+
+// Flags only move on clear evidence, and block flags are never removed
+function adjustFlags(
+  model: ReadinessModel,
+  factor: ReadinessFactor,
+  value: string,
+  deltaR: number,
+  days: number,
+  changes: string[]
+): void {
+  const block = ((model.block as Record<string, string[]>)[factor] ??= []);
+  const caution = ((model.caution as Record<string, string[]>)[factor] ??= []);
+  const evidence = `${deltaR}R vs average over ${days} days`;
+
+  if (deltaR <= BLOCK_DELTA_R && !block.includes(value)) {
+    block.push(value);
+    if (caution.includes(value)) caution.splice(caution.indexOf(value), 1);
+    changes.push(`${readinessFactorLabel(factor)} ${value} now means NO TRADING (${evidence})`);
+  } else if (deltaR <= CAUTION_DELTA_R && !block.includes(value) && !caution.includes(value)) {
+    caution.push(value);
+    changes.push(`${readinessFactorLabel(factor)} ${value} now means CAREFUL (${evidence})`);
+  } else if (deltaR >= CLEAR_CAUTION_DELTA_R && days >= SHRINK_DAYS && caution.includes(value)) {
+    caution.splice(caution.indexOf(value), 1);
+    changes.push(`${readinessFactorLabel(factor)} ${value} no longer flags CAREFUL (+${evidence})`);
+  }
+}
@@ -0,0 +1,6 @@
+// /lib/jarvis/checkins/index.ts
+export * from "./types";
+export * from "./readiness";
+export * from "./calibration";
+export * from "./store";
+export * from "./telegram";
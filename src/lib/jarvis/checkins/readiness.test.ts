@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  assessReadiness,
+  buildReadinessSnippet,
+  DEFAULT_READINESS_MODEL,
+  readinessFactors,
+  scoreReadiness,
+  sleepBand,
+} from "./readiness";
+
+const rested = {
+  date: "2026-10-12",
+  sleepHours: "8",
+  sleepQuality: "Good",
+  mood: "Calm",
+  stress: "Low",
+  energy: "Normal",
+  focus: "High",
+  urgeToTrade: "Low",
+};
+
+describe("readinessFactors", () => {
+  it("reads both the web shape and jarvis_checkins rows, including legacy values", () => {
+    const row = { checkin_date: "2026-10-12", sleep_hours: 6.5, sleep_quality: "Okay", mood: "Good", focus: "Sharp" };
+    expect(readinessFactors(row)).toMatchObject({ sleepHours: "6-7h", sleepQuality: "Okay", mood: "Calm", focus: "High" });
+    expect(readinessFactors({ mood: "Euphoric" }).mood).toBeNull();
+  });
+
+  it("sums up only the last few trades", () => {
+    const losses = Array.from({ length: 5 }, () => ({ rrResult: "-2", notes: "revenge trade" }));
+    const older = { rrResult: "10" };
+    expect(readinessFactors(rested, [...losses, older])).toMatchObject({
+      recentR: "heavy-losses",
+      emotionalTrades: "two-plus",
+    });
+    expect(readinessFactors(rested, [{ rr_result: 0.5, emotion_before: "Frustrated" }])).toMatchObject({
+      recentR: "flat",
+      emotionalTrades: "one",
+    });
+    expect(readinessFactors(rested)).toMatchObject({ recentR: null, emotionalTrades: null });
+  });
+
+  it("bands sleep hours", () => {
+    expect([3, 4.5, 5, 6.9, 9, 10].map(sleepBand)).toEqual(["<4h", "4-5h", "5-6h", "6-7h", "7-9h", "9h+"]);
+    expect(sleepBand(0)).toBeNull();
+    expect(sleepBand(NaN)).toBeNull();
+  });
+});
+
+describe("assessReadiness", () => {
+  it("scores a rested, calm day as fit to trade", () => {
+    const result = assessReadiness(rested);
+    expect(result).toMatchObject({
+      date: "2026-10-12",
+      score: 92,
+      level: "good",
+      modelVersion: DEFAULT_READINESS_MODEL.version,
+    });
+    expect(result?.signals.every((s) => s.severity === "good")).toBe(true);
+  });
+
+  it("lets a single caution or block flag override the score", () => {
+    expect(assessReadiness({ ...rested, stress: "High" })?.level).toBe("caution");
+    const blocked = assessReadiness({ ...rested, sleepHours: "3" });
+    expect(blocked?.level).toBe("block");
+    expect(blocked?.signals[0]).toMatchObject({ factor: "sleepHours", value: "<4h", severity: "block" });
+  });
+
+  it("needs a check-in", () => {
+    expect(assessReadiness(null)).toBeNull();
+  });
+});
+
+describe("scoreReadiness", () => {
+  it("applies the model's thresholds and clamps the score to 0–100", () => {
+    const strict = { ...DEFAULT_READINESS_MODEL, thresholds: { good: 95, caution: 93 } };
+    const factors = readinessFactors(rested);
+    expect(scoreReadiness(factors, strict).level).toBe("block");
+    expect(scoreReadiness(factors, { ...strict, thresholds: { good: 95, caution: 90 } }).level).toBe("caution");
+    expect(scoreReadiness(factors, { ...DEFAULT_READINESS_MODEL, base: 90 }).score).toBe(100);
+  });
+});
+
+describe("buildReadinessSnippet", () => {
+  it("lists red flags and steers sizing on bad days", () => {
+    const snippet = buildReadinessSnippet(assessReadiness({ ...rested, sleepHours: "3", mood: "Angry" }));
+    expect(snippet).toContain("NO TRADING");
+    expect(snippet).toContain("Red flags: sleep: <4h; mood: Angry.");
+    expect(snippet).toContain("no new trades on NO TRADING");
+    expect(buildReadinessSnippet(assessReadiness(rested))).toContain("No red flags");
+    expect(buildReadinessSnippet(null)).toContain("no check-in logged today");
+  });
+});
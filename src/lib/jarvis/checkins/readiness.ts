@@ -0,0 +1,295 @@
+// /lib/jarvis/checkins/readiness.ts
+// The one readiness model: a daily check-in (plus the last few journal
+// trades) → score 0–100 and a trading level. Used by the home banner,
+// /readiness, the pre-trade gate, Telegram and the chat system prompt.
+// Pure and browser-safe; the numbers live in a ReadinessModel so they can
+// be recalibrated without touching the code.
+
+import {
+  ENERGY_LEVELS,
+  FOCUS_LEVELS,
+  MOODS,
+  SLEEP_QUALITIES,
+  STRESS_LEVELS,
+  URGE_LEVELS,
+  type CheckinMood,
+  type EnergyLevel,
+  type FocusLevel,
+  type SleepQuality,
+  type StressLevel,
+  type UrgeLevel,
+} from "./types";
+
+export type ReadinessLevel = "good" | "caution" | "block";
+
+export type SleepBand = "<4h" | "4-5h" | "5-6h" | "6-7h" | "7-9h" | "9h+";
+export type RecentRBand = "heavy-losses" | "flat" | "winning";
+
+// Every input reduced to a categorical value the model can score
+export interface ReadinessFactors {
+  sleepHours: SleepBand | null;
+  sleepQuality: SleepQuality | null;
+  mood: CheckinMood | null;
+  stress: StressLevel | null;
+  energy: EnergyLevel | null;
+  focus: FocusLevel | null;
+  urgeToTrade: UrgeLevel | null;
+  recentR: RecentRBand | null;          // avg R of the last trades
+  emotionalTrades: "none" | "one" | "two-plus" | null; // angry/frustrated/revenge/tilt among them
+}
+
+export type ReadinessFactor = keyof ReadinessFactors;
+
+export interface ReadinessModel {
+  version: string;
+  base: number;
+  points: { [F in ReadinessFactor]: Partial<Record<NonNullable<ReadinessFactors[F]>, number>> };
+  block: { [F in ReadinessFactor]?: NonNullable<ReadinessFactors[F]>[] };   // any of these → NO TRADING
+  caution: { [F in ReadinessFactor]?: NonNullable<ReadinessFactors[F]>[] }; // any of these → reduce risk
+  thresholds: { good: number; caution: number }; // score ≥ good → good; < caution → block
+}
+
+export interface ReadinessSignal {
+  factor: ReadinessFactor;
+  value: string;
+  points: number;
+  severity: ReadinessLevel;
+}
+
+export interface ReadinessResult {
+  date: string | null;
+  score: number;
+  level: ReadinessLevel;
+  label: string;
+  detail: string;
+  signals: ReadinessSignal[];       // scored factors, worst first
+  modelVersion: string;
+}
+
+// Either the web shape or a jarvis_checkins row; older field names are read too
+export type ReadinessCheckinLike = Record<string, any>;
+
+// Journal-like trades, newest first (JournalTrade or a jarvis_trades row)
+export type ReadinessTradeLike = Record<string, any>;
+
+export const RECENT_TRADES_FOR_READINESS = 5;
+
+// Every negative value below is also a caution or block flag, so a day with no
+// flags never scores under `base`; with thresholds.good at base such a day is
+// FIT TO TRADE, as the old flag-only status was. The score only decides between
+// CAREFUL and NO TRADING once flags pile up.
+export const DEFAULT_READINESS_MODEL: ReadinessModel = {
+  version: "default-2",
+  base: 50,
+  points: {
+    sleepHours: { "<4h": -10, "4-5h": -5, "5-6h": 5, "6-7h": 10, "7-9h": 15, "9h+": 10 },
+    sleepQuality: { Great: 5, Good: 3, Okay: 0, Bad: -5, "Very bad": -10 },
+    mood: { Calm: 8, Happy: 8, Neutral: 0, Anxious: -5, Frustrated: -8, Angry: -10, Sad: -5 },
+    stress: { Low: 5, Moderate: 0, High: -10, "Very high": -15 },
+    energy: { "Very low": -10, Low: -5, Normal: 0, High: 3, "Very high": 0 },
+    focus: { "Very low": -10, Low: -5, Normal: 0, High: 8 },
+    urgeToTrade: { "Very low": 0, Low: 3, Normal: 0, High: -10, "Extreme / Revenge mode": -20 },
+    recentR: { "heavy-losses": -10, flat: 0, winning: 5 },
+    emotionalTrades: { none: 0, one: 0, "two-plus": -10 },
+  },
+  block: {
+    sleepHours: ["<4h"],
+    sleepQuality: ["Very bad"],
+    stress: ["Very high"],
+    energy: ["Very low"],
+    focus: ["Very low"],
+    urgeToTrade: ["Extreme / Revenge mode"],
+  },
+  caution: {
+    sleepHours: ["4-5h", "5-6h"],
+    sleepQuality: ["Bad"],
+    mood: ["Anxious", "Frustrated", "Angry", "Sad"],
+    stress: ["High"],
+    energy: ["Low"],
+    focus: ["Low"],
+    urgeToTrade: ["High", "Very low"],
+    recentR: ["heavy-losses"],
+    emotionalTrades: ["two-plus"],
+  },
+  thresholds: { good: 50, caution: 35 },
+};
+
+const LEVEL_TEXT: Record<ReadinessLevel, { label: string; detail: string }> = {
+  block: {
+    label: "Today: NO TRADING",
+    detail:
+      "Your state is risky for trading (fatigue, stress or revenge energy). Focus on recovery, journaling and routine instead of taking risk.",
+  },
+  caution: {
+    label: "Today: CAREFUL · Reduce risk",
+    detail:
+      "Trade smaller and less. Focus on A+ setups only, limit number of trades, and stop early if you feel emotions spiking.",
+  },
+  good: {
+    label: "Today: FIT TO TRADE",
+    detail:
+      "Your state looks solid — calm, rested and focused enough. Still follow your rules: A+ setups only, no forcing trades.",
+  },
+};
+
+const FACTOR_LABELS: Record<ReadinessFactor, string> = {
+  sleepHours: "sleep",
+  sleepQuality: "sleep quality",
+  mood: "mood",
+  stress: "stress",
+  energy: "energy",
+  focus: "focus",
+  urgeToTrade: "urge to trade",
+  recentR: "recent results",
+  emotionalTrades: "emotional trades",
+};
+
+// Values older check-ins (and the old readiness score) used
+const LEGACY_VALUES: Record<string, Record<string, string>> = {
+  mood: { Good: "Calm" },
+  stress: { Normal: "Moderate" },
+  focus: { Sharp: "High" },
+  urgeToTrade: { "Very high": "High" },
+};
+
+function pick<T extends string>(options: readonly T[], raw: unknown, factor: string): T | null {
+  if (raw == null) return null;
+  const value = String(raw).trim();
+  const mapped = LEGACY_VALUES[factor]?.[value] ?? value;
+  return (options as readonly string[]).includes(mapped) ? (mapped as T) : null;
+}
+
+export function sleepBand(hours: number | null): SleepBand | null {
+  if (hours == null || !Number.isFinite(hours) || hours <= 0) return null;
+  if (hours < 4) return "<4h";
+  if (hours < 5) return "4-5h";
+  if (hours < 6) return "5-6h";
+  if (hours < 7) return "6-7h";
+  if (hours <= 9) return "7-9h";
+  return "9h+";
+}
+
+function tradeR(t: ReadinessTradeLike): number | null {
+  const raw = t.rrResult ?? t.rr_result ?? t.resultR;
+  if (raw == null || String(raw).trim() === "") return null;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : null;
+}
+
+function isEmotionalTrade(t: ReadinessTradeLike): boolean {
+  const before = String(t.emotionBefore ?? t.emotion_before ?? "").toLowerCase();
+  const notes = String(t.notes ?? "").toLowerCase();
+  return (
+    before.includes("angry") ||
+    before.includes("frustrated") ||
+    notes.includes("revenge") ||
+    notes.includes("tilt")
+  );
+}
+
+export function checkinDate(checkin: ReadinessCheckinLike | null | undefined): string | null {
+  return checkin ? String(checkin.date ?? checkin.checkin_date ?? "") || null : null;
+}
+
+export function readinessFactors(
+  checkin: ReadinessCheckinLike,
+  recentTrades: ReadinessTradeLike[] = []
+): ReadinessFactors {
+  const hours = Number(checkin.sleepHours ?? checkin.sleep_hours ?? checkin.sleep ?? NaN);
+  const trades = recentTrades.slice(0, RECENT_TRADES_FOR_READINESS);
+  const rs = trades.map(tradeR).filter((r): r is number => r != null);
+  const avgR = rs.length ? rs.reduce((s, r) => s + r, 0) / rs.length : null;
+  const emotional = trades.filter(isEmotionalTrade).length;
+
+  return {
+    sleepHours: sleepBand(Number.isFinite(hours) ? hours : null),
+    sleepQuality: pick(SLEEP_QUALITIES, checkin.sleepQuality ?? checkin.sleep_quality, "sleepQuality"),
+    mood: pick(MOODS, checkin.mood, "mood"),
+    stress: pick(STRESS_LEVELS, checkin.stress, "stress"),
+    energy: pick(ENERGY_LEVELS, checkin.energy, "energy"),
+    focus: pick(FOCUS_LEVELS, checkin.focus, "focus"),
+    urgeToTrade: pick(
+      URGE_LEVELS,
+      checkin.urgeToTrade ?? checkin.urge_to_trade ?? checkin.urge,
+      "urgeToTrade"
+    ),
+    recentR: avgR == null ? null : avgR < -1 ? "heavy-losses" : avgR > 1 ? "winning" : "flat",
+    emotionalTrades: trades.length ? (emotional >= 2 ? "two-plus" : emotional === 1 ? "one" : "none") : null,
+  };
+}
+
+// null when there is no check-in to judge
+export function assessReadiness(
+  checkin: ReadinessCheckinLike | null | undefined,
+  recentTrades: ReadinessTradeLike[] = [],
+  model: ReadinessModel = DEFAULT_READINESS_MODEL
+): ReadinessResult | null {
+  if (!checkin) return null;
+  return scoreReadiness(readinessFactors(checkin, recentTrades), model, checkinDate(checkin));
+}
+
+// Scores already-reduced factors; calibration replays past days through this
+export function scoreReadiness(
+  factors: ReadinessFactors,
+  model: ReadinessModel = DEFAULT_READINESS_MODEL,
+  date: string | null = null
+): ReadinessResult {
+  const signals: ReadinessSignal[] = [];
+  let score = model.base;
+
+  for (const factor of Object.keys(factors) as ReadinessFactor[]) {
+    const value = factors[factor];
+    if (value == null) continue;
+    const points = (model.points[factor] as Record<string, number | undefined>)[value] ?? 0;
+    const inList = (list?: string[]) => !!list && list.includes(value);
+    const severity: ReadinessLevel = inList(model.block[factor] as string[] | undefined)
+      ? "block"
+      : inList(model.caution[factor] as string[] | undefined)
+        ? "caution"
+        : "good";
+    score += points;
+    signals.push({ factor, value, points, severity });
+  }
+
+  score = Math.max(0, Math.min(100, Math.round(score)));
+
+  let level: ReadinessLevel = "good";
+  if (signals.some((s) => s.severity === "block") || score < model.thresholds.caution) level = "block";
+  else if (signals.some((s) => s.severity === "caution") || score < model.thresholds.good) level = "caution";
+
+  const rank: Record<ReadinessLevel, number> = { block: 0, caution: 1, good: 2 };
+  signals.sort((a, b) => rank[a.severity] - rank[b.severity] || a.points - b.points);
+
+  return {
+    date,
+    score,
+    level,
+    ...LEVEL_TEXT[level],
+    signals,
+    modelVersion: model.version,
+  };
+}
+
+export function readinessFactorLabel(factor: ReadinessFactor): string {
+  return FACTOR_LABELS[factor];
+}
+
+export function describeSignal(signal: ReadinessSignal): string {
+  return `${FACTOR_LABELS[signal.factor]}: ${signal.value}`;
+}
+
+// Context block for the chat system prompt (web and Telegram)
+export function buildReadinessSnippet(result: ReadinessResult | null | undefined): string {
+  if (!result) {
+    return "Readiness: no check-in logged today — ask how they slept and feel before talking size.";
+  }
+  const flagged = result.signals.filter((s) => s.severity !== "good").map(describeSignal);
+  const lines = [
+    `Readiness (${result.date ?? "latest check-in"}): ${result.score}/100 — ${result.label}.`,
+    flagged.length ? `Red flags: ${flagged.join("; ")}.` : "No red flags in the check-in.",
+  ];
+  if (result.level !== "good") {
+    lines.push("Steer sizing answers accordingly: reduced risk on CAREFUL, no new trades on NO TRADING.");
+  }
+  return lines.join("\n");
+}
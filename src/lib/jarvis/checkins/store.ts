@@ -0,0 +1,376 @@
+// /lib/jarvis/checkins/store.ts
+// Supabase data layer for daily check-ins (public.jarvis_checkins).
+// One row per day: saving a check-in for a date replaces that day's answers.
+
+import { localDate } from "@/lib/time";
+import type { ExportColumn } from "../export";
+import { listPreTradeChecks } from "../preTrade/store";
+import { listTrades } from "../trades/store";
+import type { JarvisTrade } from "../trades/types";
+import {
+  ENERGY_LEVELS,
+  FOCUS_LEVELS,
+  MOODS,
+  SLEEP_QUALITIES,
+  STRESS_LEVELS,
+  URGE_LEVELS,
+  type CheckinFilters,
+  type CheckinImportResult,
+  type CheckinInput,
+  type JarvisCheckin,
+  type ReadinessModelRow,
+  type WebCheckin,
+} from "./types";
+import {
+  assessReadiness,
+  DEFAULT_READINESS_MODEL,
+  RECENT_TRADES_FOR_READINESS,
+  type ReadinessModel,
+  type ReadinessResult,
+} from "./readiness";
+import { calibrateReadiness } from "./calibration";
+
+const TABLE = "jarvis_checkins";
+const MODELS_TABLE = "jarvis_readiness_models";
+const USER_ID = "single-user";
+const DEFAULT_LIMIT = 60;
+const MAX_LIMIT = 2000;
+const CALIBRATION_TRADE_LIMIT = 5000;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+const CHOICE_FIELDS: { key: keyof CheckinInput; label: string; options: readonly string[] }[] = [
+  { key: "sleep_quality", label: "Sleep quality", options: SLEEP_QUALITIES },
+  { key: "mood", label: "Mood", options: MOODS },
+  { key: "stress", label: "Stress", options: STRESS_LEVELS },
+  { key: "energy", label: "Energy", options: ENERGY_LEVELS },
+  { key: "focus", label: "Focus", options: FOCUS_LEVELS },
+  { key: "urge_to_trade", label: "Urge to trade", options: URGE_LEVELS },
+];
+
+function checkDate(value: string, field: string): string {
+  if (!DATE_RE.test(value)) {
+    throw new Error(`${field} must be a YYYY-MM-DD date.`);
+  }
+  return value;
+}
+
+function toTextOrNull(value: unknown): string | null {
+  if (value == null) return null;
+  const s = String(value).trim();
+  return s ? s : null;
+}
+
+// Validated column values for upsert; only keys present in the input
+function toColumns(input: CheckinInput): Record<string, unknown> {
+  const cols: Record<string, unknown> = {};
+
+  if (input.checkin_date !== undefined) cols.checkin_date = checkDate(String(input.checkin_date), "Date");
+  if (input.sleep_hours !== undefined) {
+    const raw = input.sleep_hours;
+    const hours = raw == null || String(raw).trim() === "" ? null : Number(raw);
+    if (hours != null && (!Number.isFinite(hours) || hours < 0 || hours > 24)) {
+      throw new Error("Sleep hours must be a number between 0 and 24.");
+    }
+    cols.sleep_hours = hours;
+  }
+
+  for (const { key, label, options } of CHOICE_FIELDS) {
+    if (input[key] === undefined) continue;
+    const value = toTextOrNull(input[key]);
+    if (value != null && !options.includes(value)) {
+      throw new Error(`${label} must be one of: ${options.join(", ")}.`);
+    }
+    cols[key] = value;
+  }
+
+  if (input.notes !== undefined) cols.notes = toTextOrNull(input.notes);
+  if (input.plan !== undefined) cols.plan = toTextOrNull(input.plan);
+  if (input.source !== undefined) cols.source = input.source;
+
+  return cols;
+}
+
+// Newest first, like the /checkin history
+export async function listCheckins(supabase: any, filters: CheckinFilters = {}): Promise<JarvisCheckin[]> {
+  const limit = Math.min(Math.max(1, filters.limit ?? DEFAULT_LIMIT), MAX_LIMIT);
+
+  let query = supabase
+    .from(TABLE)
+    .select("*")
+    .eq("user_id", USER_ID)
+    .order("checkin_date", { ascending: false })
+    .limit(limit);
+
+  if (filters.from) query = query.gte("checkin_date", checkDate(filters.from, "From"));
+  if (filters.to) query = query.lte("checkin_date", checkDate(filters.to, "To"));
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data ?? []) as JarvisCheckin[];
+}
+
+export async function getCheckinForDate(supabase: any, date: string): Promise<JarvisCheckin | null> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select("*")
+    .eq("user_id", USER_ID)
+    .eq("checkin_date", checkDate(date, "Date"))
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as JarvisCheckin) ?? null;
+}
+
+// Insert or replace the check-in for its date
+export async function saveCheckin(supabase: any, input: CheckinInput): Promise<JarvisCheckin> {
+  const payload = {
+    source: "web",
+    ...toColumns({ ...input, checkin_date: input.checkin_date || localDate() }),
+    user_id: USER_ID,
+    updated_at: new Date().toISOString(),
+  };
+
+  const { data, error } = await supabase
+    .from(TABLE)
+    .upsert(payload, { onConflict: "user_id,checkin_date" })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data as JarvisCheckin;
+}
+
+export async function deleteCheckin(supabase: any, id: string): Promise<void> {
+  const { error } = await supabase.from(TABLE).delete().eq("user_id", USER_ID).eq("id", id);
+  if (error) throw error;
+}
+
+// ---- Web shape (/checkin page, localStorage jarvis-daily-checkins-v1) -------
+
+export function fromWebCheckin(checkin: WebCheckin): CheckinInput {
+  return {
+    checkin_date: checkin.date,
+    sleep_hours: checkin.sleepHours,
+    sleep_quality: checkin.sleepQuality,
+    mood: checkin.mood,
+    stress: checkin.stress,
+    energy: checkin.energy,
+    focus: checkin.focus,
+    urge_to_trade: checkin.urgeToTrade,
+    notes: checkin.notes,
+    plan: checkin.plan,
+  };
+}
+
+export function toWebCheckin(row: JarvisCheckin): WebCheckin {
+  return {
+    id: row.id,
+    date: row.checkin_date,
+    sleepHours: row.sleep_hours == null ? "" : String(row.sleep_hours),
+    sleepQuality: row.sleep_quality ?? "",
+    mood: row.mood ?? "",
+    stress: row.stress ?? "",
+    energy: row.energy ?? "",
+    focus: row.focus ?? "",
+    urgeToTrade: row.urge_to_trade ?? "",
+    notes: row.notes ?? "",
+    plan: row.plan ?? "",
+  };
+}
+
+// One-time import of the browser check-ins; days already stored are kept
+export async function importLocalCheckins(
+  supabase: any,
+  checkins: WebCheckin[]
+): Promise<CheckinImportResult> {
+  if (!Array.isArray(checkins)) {
+    throw new Error("Check-ins must be an array.");
+  }
+  const result: CheckinImportResult = { imported: 0, skipped: 0, errors: [] };
+
+  const dates = checkins.map((c) => String(c?.date ?? "")).filter((d) => DATE_RE.test(d));
+  const existing = new Set<string>();
+  if (dates.length) {
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select("checkin_date")
+      .eq("user_id", USER_ID)
+      .in("checkin_date", dates);
+    if (error) throw error;
+    for (const row of data ?? []) existing.add(row.checkin_date);
+  }
+
+  const rows: Record<string, unknown>[] = [];
+  checkins.forEach((checkin, i) => {
+    const date = String(checkin?.date ?? "");
+    if (existing.has(date)) {
+      result.skipped += 1;
+      return;
+    }
+    try {
+      rows.push({
+        ...toColumns(fromWebCheckin(checkin)),
+        checkin_date: checkDate(date, "Date"),
+        source: "local-import",
+        user_id: USER_ID,
+      });
+      existing.add(date);
+    } catch (err: any) {
+      result.errors.push(`Check-in ${i + 1}: ${err?.message ?? String(err)}`);
+    }
+  });
+
+  if (rows.length) {
+    const { error } = await supabase.from(TABLE).insert(rows);
+    if (error) throw error;
+    result.imported = rows.length;
+  }
+  return result;
+}
+
+// ---- Readiness --------------------------------------------------------------
+
+export interface TodayReadiness {
+  checkin: JarvisCheckin | null;
+  recentTrades: JarvisTrade[];    // newest first
+  readiness: ReadinessResult | null;
+}
+
+// Today's check-in scored with the last few journal trades and the accepted
+// model (defaults otherwise); never throws
+export async function loadTodayReadiness(
+  supabase: any,
+  model?: ReadinessModel
+): Promise<TodayReadiness> {
+  try {
+    const [checkin, recentTrades, active] = await Promise.all([
+      getCheckinForDate(supabase, localDate()),
+      listTrades(supabase, { limit: RECENT_TRADES_FOR_READINESS }),
+      model ?? getActiveReadinessModel(supabase),
+    ]);
+    return { checkin, recentTrades, readiness: assessReadiness(checkin, recentTrades, active) };
+  } catch (err) {
+    console.error("Exception loading today's readiness:", err);
+    return { checkin: null, recentTrades: [], readiness: null };
+  }
+}
+
+// ---- Readiness model calibration ---------------------------------------------
+
+// The accepted calibrated model, else the defaults
+export async function getActiveReadinessModel(supabase: any): Promise<ReadinessModel> {
+  const { data, error } = await supabase
+    .from(MODELS_TABLE)
+    .select("model")
+    .eq("user_id", USER_ID)
+    .eq("status", "accepted")
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data?.model as ReadinessModel) ?? DEFAULT_READINESS_MODEL;
+}
+
+// Newest proposal or accepted model, with its evidence
+export async function getLatestCalibration(supabase: any): Promise<ReadinessModelRow | null> {
+  const { data, error } = await supabase
+    .from(MODELS_TABLE)
+    .select("*")
+    .eq("user_id", USER_ID)
+    .neq("status", "retired")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as ReadinessModelRow) ?? null;
+}
+
+// Analyse every check-in against its day's trades and store the proposal.
+// Older unaccepted proposals are retired; the accepted model stays active.
+export async function runReadinessCalibration(supabase: any): Promise<ReadinessModelRow> {
+  const [checkins, trades, checks, current] = await Promise.all([
+    listCheckins(supabase, { limit: MAX_LIMIT }),
+    listTrades(supabase, { limit: CALIBRATION_TRADE_LIMIT }),
+    listPreTradeChecks(supabase, 1000),
+    getActiveReadinessModel(supabase),
+  ]);
+  const calibration = calibrateReadiness(checkins, trades, checks, current);
+
+  const retire = await supabase
+    .from(MODELS_TABLE)
+    .update({ status: "retired" })
+    .eq("user_id", USER_ID)
+    .eq("status", "proposed");
+  if (retire.error) throw retire.error;
+
+  const { data, error } = await supabase
+    .from(MODELS_TABLE)
+    .insert({
+      user_id: USER_ID,
+      version: calibration.proposed.version,
+      model: calibration.proposed,
+      evidence: calibration,
+      status: "proposed",
+    })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data as ReadinessModelRow;
+}
+
+// Make a proposal the active model; the previously accepted one is retired
+export async function acceptReadinessModel(supabase: any, id: string): Promise<ReadinessModelRow> {
+  const { data: row, error: loadError } = await supabase
+    .from(MODELS_TABLE)
+    .select("*")
+    .eq("user_id", USER_ID)
+    .eq("id", id)
+    .maybeSingle();
+  if (loadError) throw loadError;
+  if (!row) throw new Error("Readiness model not found.");
+  const evidence = (row as ReadinessModelRow).evidence;
+  if (!evidence?.ready) {
+    throw new Error(evidence?.reason ?? "Not enough trading days with a check-in to accept this model yet.");
+  }
+
+  await resetReadinessModel(supabase);
+
+  const { data, error } = await supabase
+    .from(MODELS_TABLE)
+    .update({ status: "accepted", accepted_at: new Date().toISOString() })
+    .eq("user_id", USER_ID)
+    .eq("id", id)
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data as ReadinessModelRow;
+}
+
+// Back to DEFAULT_READINESS_MODEL
+export async function resetReadinessModel(supabase: any): Promise<void> {
+  const { error } = await supabase
+    .from(MODELS_TABLE)
+    .update({ status: "retired" })
+    .eq("user_id", USER_ID)
+    .eq("status", "accepted");
+  if (error) throw error;
+}
+
+// ---- Export -----------------------------------------------------------------
+
+export const CHECKIN_EXPORT_COLUMNS: ExportColumn<JarvisCheckin>[] = [
+  { header: "date", value: (c) => c.checkin_date },
+  { header: "sleep_hours", value: (c) => c.sleep_hours },
+  { header: "sleep_quality", value: (c) => c.sleep_quality },
+  { header: "mood", value: (c) => c.mood },
+  { header: "stress", value: (c) => c.stress },
+  { header: "energy", value: (c) => c.energy },
+  { header: "focus", value: (c) => c.focus },
+  { header: "urge_to_trade", value: (c) => c.urge_to_trade },
+  { header: "notes", value: (c) => c.notes },
+  { header: "plan", value: (c) => c.plan },
+  { header: "source", value: (c) => c.source },
+];
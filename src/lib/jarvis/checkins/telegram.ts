@@ -0,0 +1,257 @@
+// /lib/jarvis/checkins/telegram.ts
+// Guided morning check-in over Telegram: one question per message with
+// inline keyboard answers, progress kept in jarvis_telegram_sessions between
+// webhook calls. The finished check-in is saved in the /checkin page shape
+// and answered with today's readiness verdict.
+//   /checkin → start (or resume)   /cancel → stop
+// Started automatically by /api/jobs/morning-checkin at JARVIS_CHECKIN_TIME.
+
+import type { TelegramInlineKeyboard } from "@/lib/telegram";
+import { localDate } from "@/lib/time";
+import {
+  ENERGY_LEVELS,
+  FOCUS_LEVELS,
+  MOODS,
+  SLEEP_QUALITIES,
+  STRESS_LEVELS,
+  URGE_LEVELS,
+  type TelegramCheckinSession,
+  type WebCheckin,
+} from "./types";
+import { describeSignal, type ReadinessLevel } from "./readiness";
+import { fromWebCheckin, getCheckinForDate, loadTodayReadiness, saveCheckin } from "./store";
+
+const TABLE = "jarvis_telegram_sessions";
+const CALLBACK_PREFIX = "ci";
+const BUTTONS_PER_ROW = 3;
+
+type StepKey = Exclude<keyof WebCheckin, "id" | "date" | "notes">;
+
+interface CheckinStep {
+  key: StepKey;
+  question: string;
+  options: readonly string[];
+  input?: "hours" | "text";       // a typed reply is accepted too
+}
+
+const STEPS: CheckinStep[] = [
+  {
+    key: "sleepHours",
+    question: "🛌 How many hours did you sleep? (tap or type a number)",
+    options: ["4", "5", "6", "7", "8", "9+"],
+    input: "hours",
+  },
+  { key: "sleepQuality", question: "😴 Sleep quality?", options: SLEEP_QUALITIES },
+  { key: "mood", question: "🙂 Mood right now?", options: MOODS },
+  { key: "stress", question: "😤 Stress level?", options: STRESS_LEVELS },
+  { key: "energy", question: "⚡ Energy?", options: ENERGY_LEVELS },
+  { key: "focus", question: "🎯 Focus?", options: FOCUS_LEVELS },
+  { key: "urgeToTrade", question: "📈 Urge to trade?", options: URGE_LEVELS },
+  {
+    key: "plan",
+    question: "📝 Plan for today? Type it (max trades, risk, stop rules) or tap Skip.",
+    options: ["Skip"],
+    input: "text",
+  },
+];
+
+const LEVEL_ICONS: Record<ReadinessLevel, string> = { good: "🟢", caution: "🟠", block: "🔴" };
+
+export interface TelegramFlowReply {
+  text: string;
+  keyboard?: TelegramInlineKeyboard;
+  answered?: string;              // for a button tap: the question with its chosen answer
+}
+
+// ---- Session storage ------------------------------------------------------------
+
+async function loadSession(supabase: any, chatId: string): Promise<TelegramCheckinSession | null> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select("*")
+    .eq("chat_id", chatId)
+    .eq("checkin_date", localDate())
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as TelegramCheckinSession) ?? null;
+}
+
+async function saveSession(supabase: any, session: TelegramCheckinSession): Promise<void> {
+  const { error } = await supabase
+    .from(TABLE)
+    .upsert({ ...session, updated_at: new Date().toISOString() }, { onConflict: "chat_id,checkin_date" });
+  if (error) throw error;
+}
+
+// ---- Questions --------------------------------------------------------------------
+
+function keyboardFor(stepIndex: number): TelegramInlineKeyboard {
+  const rows: TelegramInlineKeyboard = [];
+  STEPS[stepIndex].options.forEach((option, i) => {
+    if (i % BUTTONS_PER_ROW === 0) rows.push([]);
+    rows[rows.length - 1].push({ text: option, callback_data: `${CALLBACK_PREFIX}:${stepIndex}:${i}` });
+  });
+  return rows;
+}
+
+function question(stepIndex: number, intro = ""): TelegramFlowReply {
+  const step = STEPS[stepIndex];
+  return {
+    text: `${intro}${step.question}\n(${stepIndex + 1}/${STEPS.length})`,
+    keyboard: keyboardFor(stepIndex),
+  };
+}
+
+// Typed replies: hours must be a number, free text only where the step takes it
+function parseTypedAnswer(step: CheckinStep, text: string): string | null {
+  if (step.input === "hours") {
+    if (step.options.includes(text.trim())) return buttonValue(step, text.trim());
+    const hours = Number(text.replace(",", ".").replace(/h(ours?|rs?)?$/i, "").trim());
+    return Number.isFinite(hours) && hours >= 0 && hours <= 24 ? String(hours) : null;
+  }
+  if (step.input === "text") return text.trim() || null;
+
+  const match = step.options.find((o) => o.toLowerCase() === text.trim().toLowerCase());
+  return match ?? null;
+}
+
+// "9+" has to land in the 9h+ band (over 9), not 7-9h
+function buttonValue(step: CheckinStep, option: string): string {
+  if (step.key === "sleepHours") return option === "9+" ? "9.5" : option;
+  if (step.key === "plan" && option === "Skip") return "";
+  return option;
+}
+
+// ---- Flow -------------------------------------------------------------------------
+
+async function finish(supabase: any, session: TelegramCheckinSession): Promise<TelegramFlowReply> {
+  const web: WebCheckin = {
+    id: Date.now(),
+    date: session.checkin_date,
+    sleepHours: session.answers.sleepHours ?? "",
+    sleepQuality: session.answers.sleepQuality ?? "",
+    mood: session.answers.mood ?? "",
+    stress: session.answers.stress ?? "",
+    energy: session.answers.energy ?? "",
+    focus: session.answers.focus ?? "",
+    urgeToTrade: session.answers.urgeToTrade ?? "",
+    notes: "",
+    plan: session.answers.plan ?? "",
+  };
+
+  await saveCheckin(supabase, { ...fromWebCheckin(web), source: "telegram" });
+  await saveSession(supabase, { ...session, status: "done", step: STEPS.length });
+
+  const { readiness } = await loadTodayReadiness(supabase);
+  if (!readiness) return { text: "✅ Check-in saved." };
+
+  const flagged = readiness.signals.filter((s) => s.severity !== "good").map(describeSignal);
+  const lines = [
+    "✅ Check-in saved.",
+    `${LEVEL_ICONS[readiness.level]} ${readiness.label} · ${readiness.score}/100`,
+    readiness.detail,
+  ];
+  if (flagged.length) lines.push(`Flags: ${flagged.join("; ")}.`);
+  if (readiness.level !== "good") lines.push("Run trades through /pretrade before you click.");
+  return { text: lines.join("\n") };
+}
+
+async function recordAnswer(
+  supabase: any,
+  session: TelegramCheckinSession,
+  value: string
+): Promise<TelegramFlowReply> {
+  const step = STEPS[session.step];
+  const next: TelegramCheckinSession = {
+    ...session,
+    answers: { ...session.answers, [step.key]: value },
+    step: session.step + 1,
+  };
+
+  if (next.step >= STEPS.length) return finish(supabase, next);
+  await saveSession(supabase, next);
+  return question(next.step);
+}
+
+// Start (or resume) today's check-in; null when today's is already logged and
+// this is the scheduled start
+export async function startTelegramCheckin(
+  supabase: any,
+  chatId: string | number,
+  startedBy: TelegramCheckinSession["started_by"] = "command"
+): Promise<TelegramFlowReply | null> {
+  const id = String(chatId);
+  const [existing, session] = await Promise.all([
+    getCheckinForDate(supabase, localDate()),
+    loadSession(supabase, id),
+  ]);
+
+  if (startedBy === "schedule" && (existing || session)) return null;
+  if (session?.status === "active") return question(session.step, "Picking up where we left off.\n");
+
+  await saveSession(supabase, {
+    chat_id: id,
+    checkin_date: localDate(),
+    status: "active",
+    step: 0,
+    answers: {},
+    started_by: startedBy,
+    updated_at: new Date().toISOString(),
+  });
+
+  const intro = existing
+    ? "You already checked in today — answering again replaces it.\n\n"
+    : "☀️ Morning check-in — 8 quick taps and I'll tell you how to trade today.\n\n";
+  return question(0, intro);
+}
+
+// Inline button tap; null when the callback isn't ours
+export async function handleCheckinCallback(
+  supabase: any,
+  chatId: string | number,
+  data: string
+): Promise<TelegramFlowReply | null> {
+  const [prefix, stepRaw, optionRaw] = String(data ?? "").split(":");
+  if (prefix !== CALLBACK_PREFIX) return null;
+
+  const stepIndex = Number(stepRaw);
+  const step = STEPS[stepIndex];
+  const option = step?.options[Number(optionRaw)];
+  const session = await loadSession(supabase, String(chatId));
+
+  if (!step || option == null || session?.status !== "active" || session.step !== stepIndex) {
+    return { text: "That question is already answered. Send /checkin to start again." };
+  }
+
+  const reply = await recordAnswer(supabase, session, buttonValue(step, option));
+  return { ...reply, answered: `${step.question.split(" (")[0]} → ${option}` };
+}
+
+// Typed message: /checkin, /cancel, or an answer to the current question.
+// null when there is no active check-in and the text isn't a command.
+export async function handleCheckinText(
+  supabase: any,
+  chatId: string | number,
+  text: string
+): Promise<TelegramFlowReply | null> {
+  const trimmed = text.trim();
+  if (/^\/checkin(?:@\w+)?\b/i.test(trimmed)) return startTelegramCheckin(supabase, chatId, "command");
+
+  const session = await loadSession(supabase, String(chatId));
+  if (session?.status !== "active") return null;
+
+  if (/^\/cancel(?:@\w+)?\b/i.test(trimmed)) {
+    await saveSession(supabase, { ...session, status: "cancelled" });
+    return { text: "Check-in cancelled. Send /checkin whenever you're ready." };
+  }
+  // Other commands (e.g. /pretrade) pass through untouched
+  if (trimmed.startsWith("/")) return null;
+
+  const step = STEPS[session.step];
+  const value = parseTypedAnswer(step, trimmed);
+  if (value == null) {
+    return question(session.step, step.input === "hours" ? "Send a number of hours, e.g. 6.5.\n" : "Tap one of the buttons.\n");
+  }
+  return recordAnswer(supabase, session, value);
+}
@@ -0,0 +1,114 @@
+// /lib/jarvis/checkins/types.ts
+import type { ReadinessCalibration } from "./calibration";
+import type { ReadinessModel } from "./readiness";
+
+// Answer options, exactly as the /checkin form offers them
+export const SLEEP_QUALITIES = ["Great", "Good", "Okay", "Bad", "Very bad"] as const;
+export const MOODS = ["Calm", "Happy", "Neutral", "Anxious", "Frustrated", "Angry", "Sad"] as const;
+export const STRESS_LEVELS = ["Low", "Moderate", "High", "Very high"] as const;
+export const ENERGY_LEVELS = ["Very low", "Low", "Normal", "High", "Very high"] as const;
+export const FOCUS_LEVELS = ["Very low", "Low", "Normal", "High"] as const;
+export const URGE_LEVELS = ["Very low", "Low", "Normal", "High", "Extreme / Revenge mode"] as const;
+
+export type SleepQuality = (typeof SLEEP_QUALITIES)[number];
+export type CheckinMood = (typeof MOODS)[number];
+export type StressLevel = (typeof STRESS_LEVELS)[number];
+export type EnergyLevel = (typeof ENERGY_LEVELS)[number];
+export type FocusLevel = (typeof FOCUS_LEVELS)[number];
+export type UrgeLevel = (typeof URGE_LEVELS)[number];
+
+// Where a row came from
+export type CheckinSource = "web" | "telegram" | "local-import";
+
+// Row in public.jarvis_checkins; one per user per day (unique user_id + checkin_date)
+export interface JarvisCheckin {
+  id: string;                     // uuid
+  user_id: string;
+  checkin_date: string;           // YYYY-MM-DD
+  sleep_hours: number | null;
+  sleep_quality: SleepQuality | null;
+  mood: CheckinMood | null;
+  stress: StressLevel | null;
+  energy: EnergyLevel | null;
+  focus: FocusLevel | null;
+  urge_to_trade: UrgeLevel | null;
+  notes: string | null;
+  plan: string | null;
+  source: CheckinSource;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CheckinInput {
+  checkin_date?: string;          // default today
+  sleep_hours?: number | string | null;
+  sleep_quality?: string | null;
+  mood?: string | null;
+  stress?: string | null;
+  energy?: string | null;
+  focus?: string | null;
+  urge_to_trade?: string | null;
+  notes?: string | null;
+  plan?: string | null;
+  source?: CheckinSource;
+}
+
+// The /checkin page shape (also what localStorage "jarvis-daily-checkins-v1" held)
+export interface WebCheckin {
+  id: string | number;
+  date: string;
+  sleepHours: string;
+  sleepQuality: string;
+  mood: string;
+  stress: string;
+  energy: string;
+  focus: string;
+  urgeToTrade: string;
+  notes: string;
+  plan: string;
+}
+
+export interface CheckinFilters {
+  from?: string;                  // inclusive YYYY-MM-DD
+  to?: string;                    // inclusive YYYY-MM-DD
+  limit?: number;
+}
+
+export interface CheckinImportResult {
+  imported: number;
+  skipped: number;                // a check-in for that date is already stored
+  errors: string[];
+}
+
+// ---- Telegram guided check-in -------------------------------------------------
+
+export type TelegramSessionStatus = "active" | "done" | "cancelled";
+
+// Row in public.jarvis_telegram_sessions; one per chat per day, keeps the
+// guided check-in's progress between webhook calls
+export interface TelegramCheckinSession {
+  chat_id: string;
+  checkin_date: string;           // YYYY-MM-DD the check-in is for
+  status: TelegramSessionStatus;
+  step: number;                   // index into the question list
+  answers: Partial<WebCheckin>;
+  started_by: "command" | "schedule";
+  updated_at: string;
+}
+
+// ---- Readiness calibration ----------------------------------------------------
+
+export type ReadinessModelStatus = "proposed" | "accepted" | "retired";
+
+// Row in public.jarvis_readiness_models; at most one "accepted" row per user,
+// which replaces DEFAULT_READINESS_MODEL everywhere readiness is scored
+export interface ReadinessModelRow {
+  id: string;                     // uuid
+  user_id: string;
+  version: string;
+  model: ReadinessModel;
+  evidence: ReadinessCalibration;
+  status: ReadinessModelStatus;
+  accepted_at: string | null;
+  created_at: string;
+}
@@ -0,0 +1,111 @@
+// src/lib/jarvis/export.ts
+// CSV / JSON export helpers for journal data. Plain functions with no
+// server imports, so the API routes and the browser pages share them.
+
+export type ExportFormat = "csv" | "json";
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => unknown;
+}
+
+export interface DateRange {
+  from?: string; // inclusive YYYY-MM-DD
+  to?: string; // inclusive YYYY-MM-DD
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_RE = /^\d{4}-\d{2}$/;
+
+export function parseExportFormat(raw: string | null | undefined): ExportFormat {
+  const format = (raw ?? "csv").trim().toLowerCase();
+  if (format !== "csv" && format !== "json") {
+    throw new Error("Format must be csv or json.");
+  }
+  return format;
+}
+
+export function parseDateRange(from?: string | null, to?: string | null): DateRange {
+  const range: DateRange = {};
+  if (from) {
+    if (!DATE_RE.test(from)) throw new Error("From must be a YYYY-MM-DD date.");
+    range.from = from;
+  }
+  if (to) {
+    if (!DATE_RE.test(to)) throw new Error("To must be a YYYY-MM-DD date.");
+    range.to = to;
+  }
+  if (range.from && range.to && range.from > range.to) {
+    throw new Error("From must not be after To.");
+  }
+  return range;
+}
+
+export function inDateRange(date: string | null | undefined, range: DateRange): boolean {
+  if (!date) return !range.from && !range.to;
+  const day = String(date).slice(0, 10);
+  if (range.from && day < range.from) return false;
+  if (range.to && day > range.to) return false;
+  return true;
+}
+
+// "2026-03" → first and last day of that month
+export function monthRange(month: string): Required<DateRange> {
+  if (!MONTH_RE.test(month)) {
+    throw new Error("Month must be YYYY-MM.");
+  }
+  const [year, m] = month.split("-").map(Number);
+  if (m < 1 || m > 12) {
+    throw new Error("Month must be YYYY-MM.");
+  }
+  const lastDay = new Date(Date.UTC(year, m, 0)).getUTCDate();
+  return { from: `${month}-01`, to: `${month}-${String(lastDay).padStart(2, "0")}` };
+}
+
+function csvCell(value: unknown): string {
+  if (value == null) return "";
+  const s = String(value);
+  return /[",\r\n]/.test(s) || s !== s.trim() ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+// RFC 4180 CSV with a header row and CRLF line endings (opens cleanly in Excel)
+export function toCsv<T>(rows: T[], columns: ExportColumn<T>[]): string {
+  const lines = [columns.map((c) => csvCell(c.header)).join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((c) => csvCell(c.value(row))).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+// e.g. "jarvis-trades_2026-03-01_2026-03-31.csv"
+export function exportFilename(kind: string, range: DateRange, format: ExportFormat): string {
+  const parts = [`jarvis-${kind}`];
+  if (range.from || range.to) parts.push(range.from ?? "start", range.to ?? "today");
+  return `${parts.join("_")}.${format}`;
+}
+
+export function exportBody<T>(
+  rows: T[],
+  columns: ExportColumn<T>[],
+  format: ExportFormat
+): { body: string; contentType: string } {
+  if (format === "json") {
+    return {
+      body: JSON.stringify(rows, null, 2),
+      contentType: "application/json; charset=utf-8",
+    };
+  }
+  return { body: toCsv(rows, columns), contentType: "text/csv; charset=utf-8" };
+}
+
+// Browser only: save a generated file without a server round-trip
+export function downloadFile(body: string, contentType: string, filename: string): void {
+  const url = URL.createObjectURL(new Blob([body], { type: contentType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
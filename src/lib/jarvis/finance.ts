@@ -1,4 +1,12 @@
 // src/lib/jarvis/finance.ts
+import type { Currency, FxRateTable } from "./math/types";
+import {
+  DEFAULT_ACCOUNT_CURRENCY,
+  DEFAULT_FX_RATES,
+  HOME_CURRENCY,
+  formatDualAmount,
+  tryConvertAmount,
+} from "./math/currency";
 
 export type JarvisFinance = {
   user_id: string;
@@ -12,9 +20,39 @@ export type JarvisFinance = {
   safe_monthly_return_percent: number | null;
   long_term_target_equity: number | null;
   notes: string | null;
+  account_currency?: string | null; // currency the amounts above are stored in (default USD)
+  home_currency?: string | null;    // currency the user thinks in (default INR)
   updated_at: string | null;
 };
 
+export type FinanceAmount = {
+  account: number;
+  home: number | null; // null when no FX rate is known
+};
+
+export type JarvisFinanceSnapshot = {
+  accountCurrency: Currency;
+  homeCurrency: Currency;
+  fxAsOf: string | null;
+  eval_account_size: FinanceAmount | null;
+  eval_target_amount: FinanceAmount | null;
+  eval_current_profit: FinanceAmount | null;
+  funded_account_size: FinanceAmount | null;
+  funded_current_equity: FinanceAmount | null;
+  monthly_living_cost: FinanceAmount | null;
+  long_term_target_equity: FinanceAmount | null;
+};
+
+const MONEY_FIELDS = [
+  "eval_account_size",
+  "eval_target_amount",
+  "eval_current_profit",
+  "funded_account_size",
+  "funded_current_equity",
+  "monthly_living_cost",
+  "long_term_target_equity",
+] as const;
+
 export async function loadFinance(supabase: any): Promise<JarvisFinance | null> {
   try {
     const { data, error } = await supabase
@@ -34,7 +72,88 @@ export async function loadFinance(supabase: any): Promise<JarvisFinance | null>
   }
 }
 
-export function buildFinanceContextSnippet(finance: JarvisFinance | null): string {
+export async function upsertFinance(
+  supabase: any,
+  patch: Partial<JarvisFinance>
+): Promise<JarvisFinance> {
+  const { data, error } = await supabase
+    .from("jarvis_finance")
+    .upsert({ ...patch, user_id: "single-user", updated_at: new Date().toISOString() })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data as JarvisFinance;
+}
+
+const NUMBER_FIELDS = [
+  ...MONEY_FIELDS,
+  "eval_target_percent",
+  "safe_monthly_return_percent",
+] as const;
+
+// Form input → finance patch. Empty fields clear the value; bad numbers throw.
+export function sanitizeFinancePatch(raw: unknown): Partial<JarvisFinance> {
+  if (!raw || typeof raw !== "object") return {};
+  const input = raw as Record<string, unknown>;
+  const patch: Partial<JarvisFinance> = {};
+
+  for (const field of NUMBER_FIELDS) {
+    if (!(field in input)) continue;
+    const value = input[field];
+    if (value == null || value === "") {
+      patch[field] = null;
+      continue;
+    }
+    const n = Number(String(value).replace(/[,\s]/g, ""));
+    if (!Number.isFinite(n)) throw new Error(`${field} must be a number.`);
+    patch[field] = n;
+  }
+
+  for (const field of ["account_currency", "home_currency"] as const) {
+    if (!(field in input)) continue;
+    const code = String(input[field] ?? "").trim().toUpperCase();
+    if (code && !/^[A-Z]{3}$/.test(code)) throw new Error(`${field} must be a 3-letter currency code.`);
+    patch[field] = code || null;
+  }
+
+  if ("notes" in input) patch.notes = String(input.notes ?? "").trim() || null;
+
+  return patch;
+}
+
+// Every money field in account currency and home currency, side by side.
+export function buildFinanceSnapshot(
+  finance: JarvisFinance,
+  fxRates: FxRateTable = DEFAULT_FX_RATES
+): JarvisFinanceSnapshot {
+  const accountCurrency = finance.account_currency || DEFAULT_ACCOUNT_CURRENCY;
+  const homeCurrency = finance.home_currency || HOME_CURRENCY;
+
+  const snapshot = {
+    accountCurrency,
+    homeCurrency,
+    fxAsOf: fxRates.asOf ?? null,
+  } as JarvisFinanceSnapshot;
+
+  for (const field of MONEY_FIELDS) {
+    const value = finance[field];
+    snapshot[field] =
+      value == null
+        ? null
+        : {
+            account: value,
+            home: tryConvertAmount(value, accountCurrency, homeCurrency, fxRates),
+          };
+  }
+
+  return snapshot;
+}
+
+export function buildFinanceContextSnippet(
+  finance: JarvisFinance | null,
+  fxRates: FxRateTable = DEFAULT_FX_RATES
+): string {
   if (!finance) {
     return `
 Financial snapshot (internal, currently minimal):
@@ -43,29 +162,41 @@ Financial snapshot (internal, currently minimal):
   }
 
   const f = finance;
+  const snap = buildFinanceSnapshot(f, fxRates);
+  const display = {
+    accountCurrency: snap.accountCurrency,
+    homeCurrency: snap.homeCurrency,
+    fxRates,
+  };
+  const money = (value: number | null, fallback: string) =>
+    value == null ? fallback : formatDualAmount(value, display);
 
   const lines: string[] = [];
   lines.push("Financial snapshot (internal context; use only when relevant):");
+  lines.push(
+    `- Amounts in ${snap.accountCurrency}, with ${snap.homeCurrency} alongside` +
+      (snap.fxAsOf ? ` (rates as of ${snap.fxAsOf}).` : ".")
+  );
 
   lines.push(
-    `- Evaluation / challenge: size ${f.eval_account_size ?? "?"}$, ` +
-      `target ${f.eval_target_percent ?? "?"}% (${f.eval_target_amount ?? "?"}$), ` +
-      `current profit ${f.eval_current_profit ?? "?"}$.`
+    `- Evaluation / challenge: size ${money(f.eval_account_size, "?")}, ` +
+      `target ${f.eval_target_percent ?? "?"}% (${money(f.eval_target_amount, "?")}), ` +
+      `current profit ${money(f.eval_current_profit, "?")}.`
   );
 
   lines.push(
-    `- Funded / live: size ${f.funded_account_size ?? "none yet"}$, ` +
-      `equity ${f.funded_current_equity ?? "n/a"}$.`
+    `- Funded / live: size ${money(f.funded_account_size, "none yet")}, ` +
+      `equity ${money(f.funded_current_equity, "n/a")}.`
   );
 
   lines.push(
-    `- Life needs: monthly living cost about ${f.monthly_living_cost ?? "?"}$, ` +
+    `- Life needs: monthly living cost about ${money(f.monthly_living_cost, "?")}, ` +
       `safe monthly return target ~${f.safe_monthly_return_percent ?? "?"}%.`
   );
 
   if (f.long_term_target_equity) {
     lines.push(
-      `- Long-term: target total trading equity ${f.long_term_target_equity.toLocaleString()}$.`
+      `- Long-term: target total trading equity ${money(f.long_term_target_equity, "?")}.`
     );
   }
 
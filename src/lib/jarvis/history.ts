@@ -93,4 +93,32 @@ export async function saveHistoryPair(opts: {
   } catch (err) {
     console.error("Exception saving jarvis_history:", err);
   }
-}
\ No newline at end of file
+}
+export type HistoryRow = {
+  id: string;
+  user_id: string;
+  channel: HistoryChannel;
+  role: HistoryRole;
+  content: string;
+  created_at: string;
+};
+
+// Full rows, newest first, for the admin console (any user unless given)
+export async function listHistory(opts: {
+  supabase: SupabaseLike;
+  userId?: string;
+  channel?: HistoryChannel;
+  q?: string;
+  limit?: number;
+}): Promise<HistoryRow[]> {
+  const { supabase, userId, channel, q, limit = 50 } = opts;
+
+  let query = supabase.from("jarvis_history").select("*");
+  if (userId) query = query.eq("user_id", userId);
+  if (channel) query = query.eq("channel", channel);
+  if (q && q.trim()) query = query.ilike("content", `%${q.trim()}%`);
+
+  const { data, error } = await query.order("created_at", { ascending: false }).limit(limit);
+  if (error) throw error;
+  return (data ?? []) as HistoryRow[];
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { computeJournalStats, journalEdge, type JournalTrade } from "./journalStats";
+
+function trade(id: number, date: string, rrResult: string, extra: Partial<JournalTrade> = {}): JournalTrade {
+  return { id, date, symbol: "eurusd", direction: "Long", rrResult, ...extra };
+}
+
+// Listed newest first, like the journal
+const trades: JournalTrade[] = [
+  trade(6, "2026-10-09", "", { notes: "no result yet" }),
+  trade(5, "2026-10-08", "2", { symbol: "XAUUSD", direction: "Short" }),
+  trade(4, "2026-10-07", "-1"),
+  trade(3, "2026-10-06", "-1", { emotionBefore: "Anxious" }),
+  trade(2, "2026-10-05", "0"),
+  trade(1, "2026-10-05", "3", { emotionBefore: "Calm" }),
+];
+
+describe("computeJournalStats", () => {
+  const stats = computeJournalStats(trades);
+
+  it("counts only trades with a numeric result", () => {
+    expect(stats).toMatchObject({ total: 6, counted: 5, wins: 2, losses: 2, breakevens: 1, winRatePct: 40 });
+  });
+
+  it("derives expectancy, payoff and profit factor in R", () => {
+    expect(stats).toMatchObject({
+      totalR: 3,
+      avgR: 0.6,
+      avgWinR: 2.5,
+      avgLossR: 1,
+      expectancyR: 0.6,
+      payoffRatio: 2.5,
+      profitFactor: 2.5,
+    });
+  });
+
+  it("walks the equity curve oldest first", () => {
+    expect(stats.equityCurve.map((p) => p.cumulativeR)).toEqual([3, 3, 2, 1, 3]);
+    expect(stats.maxDrawdownR).toBe(2);
+    expect(stats.maxConsecutiveLosses).toBe(2);
+    expect(stats.maxConsecutiveWins).toBe(1);
+  });
+
+  it("breaks results down by symbol, weekday and emotion", () => {
+    expect(stats.bySymbol[0]).toMatchObject({ key: "EURUSD", trades: 4, totalR: 1 });
+    expect(stats.byWeekday.map((r) => r.key)).toEqual(["Mon", "Tue", "Wed", "Thu"]);
+    expect(stats.byEmotionBefore.find((r) => r.key === "Anxious")).toMatchObject({ trades: 1, totalR: -1 });
+  });
+
+  it("handles an empty or missing journal", () => {
+    expect(computeJournalStats(null)).toMatchObject({ total: 0, counted: 0, payoffRatio: null, sqn: null });
+  });
+});
+
+describe("journalEdge", () => {
+  it("needs enough trades and at least one loss", () => {
+    const stats = computeJournalStats(trades);
+    expect(journalEdge(stats)).toBeNull();
+    expect(journalEdge(stats, 5)).toEqual({ expectedWinratePct: 40, expectedRR: 2.5, sampleSize: 5 });
+
+    const allWins = computeJournalStats(Array.from({ length: 12 }, (_, i) => trade(i, "2026-10-01", "1")));
+    expect(journalEdge(allWins)).toBeNull();
+  });
+});
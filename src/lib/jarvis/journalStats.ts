@@ -0,0 +1,275 @@
+// src/lib/jarvis/journalStats.ts
+// Analytics over logged trades (R-multiples). Shared by the /journal page,
+// the chat prompt and the math intent parser, so the numbers shown, the
+// numbers Jarvis talks about and the edge used in projections all agree.
+
+// Shape stored by /journal (localStorage "jarvis-trade-journal-v1").
+// Numeric fields are kept as strings because they come straight from inputs.
+export interface JournalTrade {
+  id: number | string;
+  date: string; // YYYY-MM-DD
+  symbol: string;
+  direction: string; // "Long" | "Short"
+  entry?: string;
+  stop?: string;
+  target?: string;
+  rrPlanned?: string;
+  rrResult?: string;
+  outcome?: string; // "Win" | "Loss" | "Break-even"
+  emotionBefore?: string;
+  emotionAfter?: string;
+  notes?: string;
+}
+
+export interface JournalEquityPoint {
+  index: number; // 1-based trade number, oldest first
+  date: string;
+  r: number;
+  cumulativeR: number;
+  drawdownR: number; // distance below the running peak, ≥ 0
+}
+
+export interface JournalBreakdownRow {
+  key: string;
+  trades: number;
+  wins: number;
+  winRatePct: number;
+  totalR: number;
+  avgR: number;
+}
+
+export interface JournalStats {
+  total: number; // every logged trade
+  counted: number; // trades with a numeric result R
+  wins: number;
+  losses: number;
+  breakevens: number;
+  winRatePct: number;
+  totalR: number;
+  avgR: number;
+  expectancyR: number; // winrate × avg win − lossrate × avg loss
+  avgWinR: number;
+  avgLossR: number; // as a positive number
+  payoffRatio: number | null; // avg win / avg loss; null without losses
+  profitFactor: number | null; // gross win / gross loss; null without losses
+  stdDevR: number;
+  sqn: number | null; // √min(n,100) × mean / stdev; null under 2 trades
+  maxConsecutiveWins: number;
+  maxConsecutiveLosses: number;
+  maxDrawdownR: number;
+  equityCurve: JournalEquityPoint[];
+  bySymbol: JournalBreakdownRow[];
+  byDirection: JournalBreakdownRow[];
+  byWeekday: JournalBreakdownRow[];
+  byEmotionBefore: JournalBreakdownRow[];
+}
+
+export interface JournalEdge {
+  expectedWinratePct: number;
+  expectedRR: number;
+  sampleSize: number;
+}
+
+// Fewer trades than this and the journal edge is too noisy to project from
+export const MIN_TRADES_FOR_EDGE = 10;
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const WEEKDAY_ORDER = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+function round2(value: number): number {
+  return Number(value.toFixed(2));
+}
+
+function parseR(raw: unknown): number | null {
+  if (raw == null || String(raw).trim() === "") return null;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : null;
+}
+
+function weekdayOf(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  return Number.isNaN(d.getTime()) ? "Unknown" : WEEKDAYS[d.getUTCDay()];
+}
+
+// Oldest first: by date, then by id when ids are creation timestamps,
+// otherwise by reversed input order (journals are listed newest first)
+function chronological(trades: JournalTrade[]): JournalTrade[] {
+  return trades
+    .map((trade, index) => ({ trade, index }))
+    .sort((a, b) => {
+      const byDate = String(a.trade.date ?? "").localeCompare(String(b.trade.date ?? ""));
+      if (byDate !== 0) return byDate;
+      const ida = Number(a.trade.id);
+      const idb = Number(b.trade.id);
+      if (Number.isFinite(ida) && Number.isFinite(idb)) return ida - idb;
+      return b.index - a.index;
+    })
+    .map((x) => x.trade);
+}
+
+function breakdown(
+  rows: { key: string; r: number }[],
+  order?: string[]
+): JournalBreakdownRow[] {
+  const groups = new Map<string, number[]>();
+  for (const { key, r } of rows) {
+    const list = groups.get(key) ?? [];
+    list.push(r);
+    groups.set(key, list);
+  }
+
+  const result: JournalBreakdownRow[] = [];
+  for (const [key, rs] of groups) {
+    const wins = rs.filter((r) => r > 0).length;
+    const totalR = rs.reduce((a, b) => a + b, 0);
+    result.push({
+      key,
+      trades: rs.length,
+      wins,
+      winRatePct: round2((wins / rs.length) * 100),
+      totalR: round2(totalR),
+      avgR: round2(totalR / rs.length),
+    });
+  }
+
+  if (order) {
+    const pos = (k: string) => (order.indexOf(k) === -1 ? order.length : order.indexOf(k));
+    return result.sort((a, b) => pos(a.key) - pos(b.key));
+  }
+  return result.sort((a, b) => b.trades - a.trades || b.totalR - a.totalR);
+}
+
+export function computeJournalStats(trades: JournalTrade[] | null | undefined): JournalStats {
+  const all = Array.isArray(trades) ? trades : [];
+  const scored = chronological(all)
+    .map((t) => ({ trade: t, r: parseR(t.rrResult) }))
+    .filter((x): x is { trade: JournalTrade; r: number } => x.r !== null);
+
+  const rs = scored.map((x) => x.r);
+  const n = rs.length;
+  const winners = rs.filter((r) => r > 0);
+  const losers = rs.filter((r) => r < 0);
+
+  const totalR = rs.reduce((a, b) => a + b, 0);
+  const grossWin = winners.reduce((a, b) => a + b, 0);
+  const grossLoss = -losers.reduce((a, b) => a + b, 0);
+  const avgR = n ? totalR / n : 0;
+  const avgWinR = winners.length ? grossWin / winners.length : 0;
+  const avgLossR = losers.length ? grossLoss / losers.length : 0;
+  const winRate = n ? winners.length / n : 0;
+  const lossRate = n ? losers.length / n : 0;
+
+  const variance = n > 1 ? rs.reduce((acc, r) => acc + (r - avgR) ** 2, 0) / (n - 1) : 0;
+  const stdDevR = Math.sqrt(variance);
+
+  let maxConsecutiveWins = 0;
+  let maxConsecutiveLosses = 0;
+  let winStreak = 0;
+  let lossStreak = 0;
+  let cumulative = 0;
+  let peak = 0;
+  let maxDrawdownR = 0;
+  const equityCurve: JournalEquityPoint[] = [];
+
+  scored.forEach(({ trade, r }, i) => {
+    winStreak = r > 0 ? winStreak + 1 : 0;
+    lossStreak = r < 0 ? lossStreak + 1 : 0;
+    maxConsecutiveWins = Math.max(maxConsecutiveWins, winStreak);
+    maxConsecutiveLosses = Math.max(maxConsecutiveLosses, lossStreak);
+
+    cumulative += r;
+    peak = Math.max(peak, cumulative);
+    const drawdown = peak - cumulative;
+    maxDrawdownR = Math.max(maxDrawdownR, drawdown);
+    equityCurve.push({
+      index: i + 1,
+      date: trade.date,
+      r,
+      cumulativeR: round2(cumulative),
+      drawdownR: round2(drawdown),
+    });
+  });
+
+  const keyed = (pick: (t: JournalTrade) => string | undefined) =>
+    scored.map(({ trade, r }) => ({ key: pick(trade)?.trim() || "Unknown", r }));
+
+  return {
+    total: all.length,
+    counted: n,
+    wins: winners.length,
+    losses: losers.length,
+    breakevens: n - winners.length - losers.length,
+    winRatePct: round2(winRate * 100),
+    totalR: round2(totalR),
+    avgR: round2(avgR),
+    expectancyR: round2(winRate * avgWinR - lossRate * avgLossR),
+    avgWinR: round2(avgWinR),
+    avgLossR: round2(avgLossR),
+    payoffRatio: avgLossR > 0 ? round2(avgWinR / avgLossR) : null,
+    profitFactor: grossLoss > 0 ? round2(grossWin / grossLoss) : null,
+    stdDevR: round2(stdDevR),
+    sqn: n > 1 && stdDevR > 0 ? round2((Math.sqrt(Math.min(n, 100)) * avgR) / stdDevR) : null,
+    maxConsecutiveWins,
+    maxConsecutiveLosses,
+    maxDrawdownR: round2(maxDrawdownR),
+    equityCurve,
+    bySymbol: breakdown(keyed((t) => t.symbol?.toUpperCase())),
+    byDirection: breakdown(keyed((t) => t.direction)),
+    byWeekday: breakdown(
+      scored.map(({ trade, r }) => ({ key: weekdayOf(trade.date), r })),
+      WEEKDAY_ORDER
+    ),
+    byEmotionBefore: breakdown(keyed((t) => t.emotionBefore)),
+  };
+}
+
+// Winrate and payoff ratio as the two-outcome edge the math tasks expect
+// (win +RR, lose 1R). Null until the sample is big enough to mean anything.
+export function journalEdge(
+  stats: JournalStats | null | undefined,
+  minTrades = MIN_TRADES_FOR_EDGE
+): JournalEdge | null {
+  if (!stats || stats.counted < minTrades) return null;
+  if (stats.payoffRatio == null || stats.payoffRatio <= 0) return null;
+  return {
+    expectedWinratePct: stats.winRatePct,
+    expectedRR: stats.payoffRatio,
+    sampleSize: stats.counted,
+  };
+}
+
+function formatRows(rows: JournalBreakdownRow[], limit = 5): string {
+  return rows
+    .slice(0, limit)
+    .map((r) => `${r.key} ${r.trades}t ${r.winRatePct}% ${r.totalR >= 0 ? "+" : ""}${r.totalR}R`)
+    .join("; ");
+}
+
+// ---- Build snippet for system prompt --------------------------------------
+
+export function buildJournalStatsSnippet(stats: JournalStats | null | undefined): string {
+  if (!stats || stats.counted === 0) {
+    return `
+[Trade journal stats]
+- No trades with a result R logged yet.
+`.trim();
+  }
+
+  const fmt = (v: number | null) => (v == null ? "n/a" : String(v));
+  return `
+[Trade journal stats] (${stats.counted} trades with R${
+    stats.total > stats.counted ? `, ${stats.total - stats.counted} without` : ""
+  })
+- Win rate: ${stats.winRatePct}% (${stats.wins}W / ${stats.losses}L / ${stats.breakevens}BE)
+- Expectancy: ${stats.expectancyR}R per trade, total ${stats.totalR}R
+- Avg win ${stats.avgWinR}R, avg loss ${stats.avgLossR}R, payoff ratio ${fmt(stats.payoffRatio)}, profit factor ${fmt(
+    stats.profitFactor
+  )}
+- Std dev ${stats.stdDevR}R, SQN ${fmt(stats.sqn)}
+- Max streaks: ${stats.maxConsecutiveWins} wins, ${stats.maxConsecutiveLosses} losses; max drawdown ${stats.maxDrawdownR}R
+- By symbol: ${formatRows(stats.bySymbol)}
+- By direction: ${formatRows(stats.byDirection)}
+- By weekday: ${formatRows(stats.byWeekday, 7)}
+- By emotion before: ${formatRows(stats.byEmotionBefore)}
+`.trim();
+}
@@ -1,9 +1,10 @@
 // /lib/jarvis/knowledge/context.ts
 import { listKnowledgeItems } from "./fetch";
-import { KnowledgeContextBlock } from "./types";
+import { KnowledgeContextBlock, KnowledgeItemType } from "./types";
 
 interface BuildContextOptions {
   intentTags?: string[];  // e.g. ['trading', 'psychology']
+  itemTypes?: KnowledgeItemType[]; // e.g. ['rule', 'checklist']; default all
   maxItems?: number;
 }
 
@@ -25,6 +26,7 @@ export async function buildKnowledgeContext(
   const all = await listKnowledgeItems({ status: "active" });
 
   const scored = all
+    .filter((item) => !options.itemTypes || options.itemTypes.includes(item.item_type))
     .map((item) => ({
       item,
       score: scoreItem(item, options.intentTags),
@@ -0,0 +1,344 @@
+// /lib/jarvis/math/answers.ts
+// Text-level helpers for chat and Telegram: detect a question, run it through
+// the engine, and phrase the result. Every answer ends with its provenance tag.
+import type { JarvisFinance } from "../finance";
+import type { TradingProfile } from "../tradingMemory";
+import { cooldownMinutesLeft, cooldownRiskPercent } from "../tilt/cooldown";
+import type { JarvisCooldown } from "../tilt/types";
+import { CurrencyDisplay, MathTask, MathTaskResult } from "./types";
+import { runMathTask } from "./engine";
+import { formatProvenance } from "./provenance";
+import { formatDualAmount, formatMoney } from "./currency";
+
+// ---------- Percent-of-target helpers (used in chat & telegram routes) ----------
+
+// Detect if user is asking: "what percent of my target have I hit" style questions
+export function isPercentOfTargetQuestion(text: string): boolean {
+  const lower = text.toLowerCase();
+  const hasPercentWord = lower.includes("percent") || lower.includes("%");
+  const hasTargetWord =
+    lower.includes("target") ||
+    lower.includes("eval") ||
+    lower.includes("evaluation") ||
+    lower.includes("challenge");
+
+  const numberMatches = text.match(/-?\d+(\.\d+)?/g) || [];
+  return hasPercentWord && hasTargetWord && numberMatches.length >= 2;
+}
+
+// Build a natural-language answer from a text containing two numbers
+// Example: "I made 4500 and target is 8000, what percent of target?"
+export function buildPercentOfTargetAnswerFromText(
+  text: string
+): string | null {
+  const numbers = text.match(/-?\d+(\.\d+)?/g);
+  if (!numbers || numbers.length < 2) return null;
+
+  const a = parseFloat(numbers[0]);
+  const b = parseFloat(numbers[1]);
+
+  if (!isFinite(a) || !isFinite(b) || b === 0) return null;
+
+  // assume: a = current, b = target
+  const current = a;
+  const target = b;
+
+  const res = runMathTask({ type: "what-percent", input: { part: current, whole: target } });
+  if (res.type !== "what-percent") return null;
+  const percent = res.result.percent;
+  const remaining = target - current;
+  const remainingPct = 100 - percent;
+
+  return [
+    `You've completed ~${percent.toFixed(2)}% of your target.`,
+    `Current: ${current}, Target: ${target}.`,
+    remaining >= 0
+      ? `You need ${remaining.toFixed(
+          2
+        )} more (${remainingPct.toFixed(2)}% of the target) to hit it.`
+      : `You've exceeded the target by ${Math.abs(remaining).toFixed(
+          2
+        )} (that's ${Math.abs(remainingPct).toFixed(2)}% over the target).`,
+    formatProvenance(res.provenance),
+  ].join(" ");
+}
+
+// ---------- Room-left helpers (used in chat & telegram routes) ----------
+
+// Detect "how much can I still risk / lose today?" style questions
+export function isRoomLeftQuestion(text: string): boolean {
+  const lower = text.toLowerCase();
+  return (
+    /how much (?:more )?(?:can|could) i (?:still )?(?:risk|lose)/.test(lower) ||
+    /(?:room|risk|loss) left (?:for )?today/.test(lower) ||
+    /(?:remaining|left) (?:daily|drawdown) (?:room|loss|limit)/.test(lower)
+  );
+}
+
+function parseAmount(raw: string | undefined): number | null {
+  if (!raw) return null;
+  const cleaned = raw.replace(/,/g, "").toLowerCase();
+  const n = parseFloat(cleaned);
+  if (!isFinite(n)) return null;
+  return cleaned.endsWith("k") ? n * 1000 : n;
+}
+
+// Build a deterministic room-left answer from the message plus stored profile.
+// Example: "equity 98.5k, started the day at 99,800, open risk 200 — how much can I still risk today?"
+// Amounts are in the finance row's account currency (default USD), with the home currency alongside.
+// During a tilt cool-down the next-trade risk is halved, or refused ("refuse")
+export function buildRoomLeftAnswerFromText(
+  text: string,
+  profile: TradingProfile | null,
+  options: { cooldown?: JarvisCooldown | null; finance?: JarvisFinance | null } = {}
+): string {
+  const lower = text.toLowerCase();
+  const amount = "\\$?(\\d[\\d,]*(?:\\.\\d+)?k?)";
+  const grab = (re: string) => parseAmount(lower.match(new RegExp(re))?.[1]);
+
+  const assumptions: string[] = [];
+  const accountCurrency = options.finance?.account_currency || "USD";
+  const homeCurrency = options.finance?.home_currency || undefined;
+
+  const accountSize =
+    grab(`(?:account(?: size)?|prop(?: firm)? account)\\s*(?:is|of|=|:)?\\s*${amount}`) ??
+    profile?.account_size ??
+    null;
+  const dailyPct = profile?.daily_loss_percent ?? null;
+  const totalPct = profile?.max_loss_percent ?? null;
+
+  if (!accountSize || dailyPct == null || totalPct == null) {
+    return (
+      "I need your account size, daily loss % and max loss % to work that out. " +
+      'Tell me those once (e.g. "100k account, daily loss 5%, max loss 10%") and I\'ll remember them.'
+    );
+  }
+
+  let currentEquity = grab(`(?:equity|i'?m at|currently at|now at)\\s*(?:is|=|:|at)?\\s*${amount}`);
+  if (currentEquity == null) {
+    currentEquity = accountSize + (profile?.current_profit ?? 0);
+    assumptions.push(`equity assumed ${currentEquity.toFixed(2)} (account size + last known profit)`);
+  }
+
+  let startOfDayBalance = grab(
+    `(?:start(?:ed)?(?: the| of the| of)? day|day start(?:ed)?)\\s*(?:balance)?\\s*(?:at|with|was|=|:)?\\s*${amount}`
+  );
+  if (startOfDayBalance == null) {
+    startOfDayBalance = currentEquity;
+    assumptions.push("start-of-day balance assumed equal to current equity");
+  }
+
+  const openRisk = grab(`open risk\\s*(?:is|of|=|:)?\\s*${amount}`) ?? 0;
+
+  const riskMatch = lower.match(/(\d+(?:\.\d+)?)\s*%\s*risk|risk(?:ing)?\s*(\d+(?:\.\d+)?)\s*%/);
+  const riskPercent = riskMatch ? parseFloat(riskMatch[1] ?? riskMatch[2]) : undefined;
+
+  const res = runMathTask({
+    type: "room-left",
+    input: {
+      config: {
+        accountSize,
+        currency: accountCurrency,
+        targetReturnPct: profile?.target_percent ?? 0,
+        maxDailyDrawdownPct: dailyPct,
+        maxTotalDrawdownPct: totalPct,
+      },
+      startOfDayBalance,
+      currentEquity,
+      openRisk,
+      riskPercent,
+    },
+  });
+  if (res.type !== "room-left") throw new Error("Unexpected math result.");
+  const result = res.result;
+
+  const money = (n: number) => formatDualAmount(n, { accountCurrency, homeCurrency });
+
+  const lines = [
+    `You can still lose ${money(result.remainingTodayAmount)} today and ${money(
+      result.remainingOverallAmount
+    )} overall before a breach.`,
+    `Daily breach level: ${formatMoney(result.drawdown.dailyFloor, accountCurrency)}, total breach level: ${formatMoney(
+      result.drawdown.totalFloor,
+      accountCurrency
+    )}.`,
+  ];
+
+  const cooldown = options.cooldown ?? null;
+  const nextTradePct = cooldown
+    ? cooldownRiskPercent(cooldown, result.maxRiskNextTradePct)
+    : result.maxRiskNextTradePct;
+  if (result.remainingTodayAmount <= 0) {
+    lines.push(`No room left today — stop trading for the day.`);
+  } else if (nextTradePct == null) {
+    lines.push(
+      `Cool-down active for another ${cooldownMinutesLeft(cooldown!)} min — no next trade until it ends.`
+    );
+  } else {
+    const nextTradeAmount = (accountSize * nextTradePct) / 100;
+    lines.push(
+      `Max risk on the next trade: ${money(nextTradeAmount)} (${nextTradePct.toFixed(2)}% of ${formatMoney(
+        accountSize,
+        accountCurrency,
+        0
+      )}).`
+    );
+    if (cooldown) {
+      assumptions.push(
+        `cool-down active: next-trade risk cut from ${result.maxRiskNextTradePct.toFixed(2)}% to ${nextTradePct.toFixed(2)}%`
+      );
+    }
+  }
+  if (assumptions.length) {
+    lines.push(`Assumptions: ${assumptions.join("; ")}.`);
+  }
+  lines.push(formatProvenance(res.provenance));
+  return lines.join(" ");
+}
+
+// Plain-language description of an engine result, without the provenance tag
+export function describeMathResult(result: MathTaskResult, display?: CurrencyDisplay): string {
+  const money = (n: number) => (display ? formatDualAmount(n, display) : n.toFixed(2));
+
+  switch (result.type) {
+    case "position-size": {
+      const r = result.result;
+      const unit = r.stopUnit ?? "point";
+      return `Risking ${r.riskPercent}% = ${money(r.riskAmount)} with a stop of ${r.stopLossPoints} ${unit}${
+        r.stopLossPoints === 1 ? "" : "s"
+      } at ${r.valuePerPoint} per ${unit} → position size ~ ${r.positionSize.toFixed(
+        3
+      )}.`;
+    }
+    case "instrument-position-size": {
+      const r = result.result;
+      const ccy = r.accountCurrency;
+      const amount = (n: number) =>
+        display ? formatDualAmount(n, { ...display, accountCurrency: ccy }) : `${n.toFixed(2)} ${ccy}`;
+      if (r.lots === 0) {
+        return `Risking ${amount(r.riskAmount)} on ${r.instrument.symbol} with a ${
+          r.stopDistance
+        } stop is below the minimum size of ${r.instrument.minLot} — widen the risk or tighten the stop.`;
+      }
+      return `${r.instrument.symbol} ${r.direction}: stop ${r.stopDistance} away (${r.stopTicks} ticks at ${r.tickValueAccount.toFixed(
+        4
+      )} ${ccy}/tick/lot) → ${r.lots} lots, risking ${amount(
+        r.actualRiskAmount
+      )} (${r.actualRiskPercent.toFixed(2)}%).`;
+    }
+    case "risk-reward": {
+      const r = result.result;
+      return `${r.direction === "long" ? "Long" : "Short"}: risking ${r.riskDistance} to make ${r.rewardDistance} → ${r.rr}R (stop ${r.stopPct.toFixed(
+        2
+      )}% from entry; break-even winrate ${r.breakevenWinratePct}%).`;
+    }
+    case "prop-firm-plan": {
+      const r = result.result;
+      return [
+        `Target: ${r.targetProfitPct}% (${money(r.targetProfitAmount)}).`,
+        `Daily loss limit: ${r.dailyLossLimitPct}% (${money(r.dailyLossLimitAmount)}).`,
+        `Total loss limit: ${r.totalLossLimitPct}% (${money(r.totalLossLimitAmount)}).`,
+        `Safe risk per trade ≈ ${r.safeRiskPerTradePct.toFixed(2)}%.`,
+      ].join(" ");
+    }
+    case "compounding-plan": {
+      const r = result.result;
+      return `Starting from ${money(r.startingBalance)}, after ${
+        r.numberOfTrades
+      } trades, expected balance ≈ ${money(r.endingBalance)} (growth factor per trade ~ ${r.growthFactorPerTrade.toFixed(
+        4
+      )}).`;
+    }
+    case "monte-carlo": {
+      const r = result.result;
+      return [
+        `Over ${r.simulations} simulated runs of ${r.numberOfTrades} trades from ${money(r.startingBalance)}:`,
+        `ending balance P5 ${money(r.endingBalance.p5)}, P50 ${money(r.endingBalance.p50)}, P95 ${money(
+          r.endingBalance.p95
+        )}.`,
+        `Max drawdown P50 ${r.maxDrawdownPct.p50}%, P95 ${r.maxDrawdownPct.p95}% (worst ${r.maxDrawdownPct.worst}%).`,
+        `Chance of hitting ${money(r.balanceFloor)}: ${(r.probabilityOfHittingFloor * 100).toFixed(
+          1
+        )}% (seed ${r.seed}).`,
+      ].join(" ");
+    }
+    case "prop-firm-pass-probability": {
+      const r = result.result;
+      const pct = (p: number) => `${(p * 100).toFixed(1)}%`;
+      return [
+        `Pass probability ≈ ${pct(r.passProbability)}.`,
+        `Fail by daily rule ${pct(r.failDailyProbability)}, by total rule ${pct(
+          r.failTotalProbability
+        )}, timeout ${pct(r.timeoutProbability)}.`,
+        r.expectedDaysToPass != null
+          ? `Expected ~${r.expectedDaysToPass} trading days to pass.`
+          : `No simulated run passed.`,
+      ].join(" ");
+    }
+    case "room-left": {
+      const r = result.result;
+      return [
+        `Room left today: ${money(r.remainingTodayAmount)}, overall: ${money(r.remainingOverallAmount)}.`,
+        `Max risk next trade: ${money(r.maxRiskNextTradeAmount)} (${r.maxRiskNextTradePct.toFixed(2)}%).`,
+        r.nextTrade ? `Max size: ${r.nextTrade.positionSize.toFixed(3)} lots.` : "",
+      ]
+        .filter(Boolean)
+        .join(" ");
+    }
+    case "percent-of": {
+      const r = result.result;
+      return `${r.percent}% of ${r.total} = ${r.value}.`;
+    }
+    case "what-percent": {
+      const r = result.result;
+      return `${r.part} is ${r.percent}% of ${r.whole}.`;
+    }
+    case "expression": {
+      const r = result.result;
+      const bound = Object.entries(r.variablesUsed).map(([k, v]) => `${k}=${v}`);
+      return `${r.expression} = ${r.value}` + (bound.length ? ` (with ${bound.join(", ")}).` : ".");
+    }
+    case "kelly": {
+      const r = result.result;
+      if (r.fullKellyPct <= 0) {
+        return `Expectancy is ${r.expectancyR}R per trade — there is no edge, so Kelly says risk nothing.`;
+      }
+      return [
+        `Expectancy ${r.expectancyR}R per trade.`,
+        `Full Kelly: risk ${r.fullKellyPct}% per trade; ${r.fraction}× Kelly: ${r.fractionalKellyPct}%.`,
+        r.assessment ? (r.notes[r.notes.length - 1] ?? "") : "",
+      ]
+        .filter(Boolean)
+        .join(" ");
+    }
+    case "optimal-f": {
+      const r = result.result;
+      if (r.optimalF <= 0) {
+        return `Over ${r.trades} trades the average is ${r.meanR}R — no edge, so optimal f is 0.`;
+      }
+      return [
+        `Over ${r.trades} trades (avg ${r.meanR}R, largest loss ${r.largestLossR}R), optimal f is ${r.optimalF}:`,
+        `risk ${r.optimalRiskPct}% per 1R for max growth (×${r.growthPerTrade} per trade), or ${r.fractionalRiskPct}% at ${r.fraction}×.`,
+        r.assessment ? (r.notes[r.notes.length - 1] ?? "") : "",
+      ]
+        .filter(Boolean)
+        .join(" ");
+    }
+    case "risk-of-ruin": {
+      const r = result.result;
+      return [
+        `Risk of ruin ≈ ${(r.riskOfRuin * 100).toFixed(1)}% (${r.sizing} sizing).`,
+        `${r.lossesToFloor} straight losses would hit the floor; expectancy ${r.expectancyR}R per trade.`,
+      ].join(" ");
+    }
+    default:
+      return "Unknown math result.";
+  }
+}
+
+// Textual summary of a MathTask, ending with its provenance tag.
+// Pass `display` to show money in account + home currency (e.g. "$500.00 (≈ ₹44,250)").
+export function formatEvalAnswer(task: MathTask, display?: CurrencyDisplay): string {
+  const result = runMathTask(task);
+  return `${describeMathResult(result, display)} ${formatProvenance(result.provenance)}`;
+}
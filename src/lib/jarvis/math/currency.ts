@@ -0,0 +1,101 @@
+// /lib/jarvis/math/currency.ts
+import { Currency, CurrencyDisplay, FxRateTable } from "./types";
+
+// The user thinks in INR; trading accounts are usually USD.
+export const HOME_CURRENCY: Currency = "INR";
+export const DEFAULT_ACCOUNT_CURRENCY: Currency = "USD";
+
+// Locally stored reference rates (1 USD = x). Good enough for context and
+// sizing estimates — update by hand when they drift, or pass a fresher table.
+export const DEFAULT_FX_RATES: FxRateTable = {
+  base: "USD",
+  asOf: "2026-10-01",
+  rates: {
+    INR: 88.5,
+    EUR: 0.86,
+    GBP: 0.75,
+    JPY: 149.5,
+    AUD: 1.53,
+    NZD: 1.73,
+    CAD: 1.4,
+    CHF: 0.8,
+    SGD: 1.29,
+    HKD: 7.78,
+  },
+};
+
+/**
+ * Convert an amount between currencies through a rate table quoted against
+ * a single base (1 base = rates[CCY]). The base itself is implicitly 1.
+ */
+export function convertAmount(
+  amount: number,
+  from: Currency,
+  to: Currency,
+  table?: FxRateTable
+): number {
+  const src = from.toUpperCase();
+  const dst = to.toUpperCase();
+  if (src === dst) return amount;
+
+  if (!table) {
+    throw new Error(`FX rate table required to convert ${src} to ${dst}.`);
+  }
+
+  const base = table.base.toUpperCase();
+  const rateOf = (ccy: string) => {
+    if (ccy === base) return 1;
+    const rate = table.rates[ccy];
+    if (!rate || rate <= 0) {
+      throw new Error(`No FX rate for ${ccy} in the rate table (base ${base}).`);
+    }
+    return rate;
+  };
+
+  return (amount / rateOf(src)) * rateOf(dst);
+}
+
+// Same as convertAmount, but null instead of throwing when a rate is missing.
+export function tryConvertAmount(
+  amount: number,
+  from: Currency,
+  to: Currency,
+  table: FxRateTable = DEFAULT_FX_RATES
+): number | null {
+  try {
+    return convertAmount(amount, from, to, table);
+  } catch {
+    return null;
+  }
+}
+
+export function formatMoney(amount: number, currency: Currency, fractionDigits = 2): string {
+  const code = currency.toUpperCase();
+  try {
+    // en-IN gives lakh/crore grouping for rupees
+    return new Intl.NumberFormat(code === "INR" ? "en-IN" : "en-US", {
+      style: "currency",
+      currency: code,
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    }).format(amount);
+  } catch {
+    return `${amount.toFixed(fractionDigits)} ${code}`;
+  }
+}
+
+/**
+ * "$1,000.00 (≈ ₹88,500)" — the amount in account currency with the home
+ * currency alongside. Falls back to the account amount alone when the home
+ * currency matches or no rate is known.
+ */
+export function formatDualAmount(amount: number, display: CurrencyDisplay): string {
+  const { accountCurrency } = display;
+  const homeCurrency = display.homeCurrency ?? HOME_CURRENCY;
+  const primary = formatMoney(amount, accountCurrency);
+
+  if (homeCurrency.toUpperCase() === accountCurrency.toUpperCase()) return primary;
+
+  const home = tryConvertAmount(amount, accountCurrency, homeCurrency, display.fxRates);
+  return home == null ? primary : `${primary} (≈ ${formatMoney(home, homeCurrency, 0)})`;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { computeDrawdownFloors, computeDrawdownState, tradingDayKey } from "./drawdown";
+import type { DrawdownModel, PropFirmConfig } from "./types";
+
+const config: PropFirmConfig = {
+  accountSize: 100000,
+  currency: "USD",
+  targetReturnPct: 8,
+  maxDailyDrawdownPct: 5,
+  maxTotalDrawdownPct: 10,
+};
+
+// Day one peaks at 104k intraday and closes at 103k; day two is at 102k
+const history = [
+  { at: "2026-10-01T09:00:00Z", equity: 100000 },
+  { at: "2026-10-01T13:00:00Z", equity: 104000 },
+  { at: "2026-10-01T20:00:00Z", equity: 103000 },
+  { at: "2026-10-02T10:00:00Z", equity: 102000 },
+];
+
+function stateFor(drawdownModel: DrawdownModel) {
+  return computeDrawdownState({ ...config, drawdownModel }, history);
+}
+
+describe("tradingDayKey", () => {
+  it("rolls timestamps before the reset hour into the previous day", () => {
+    expect(tradingDayKey("2026-10-01T21:30:00Z", "America/New_York", 17)).toBe("2026-10-01");
+    expect(tradingDayKey("2026-10-01T20:00:00Z", "America/New_York", 17)).toBe("2026-09-30");
+    expect(() => tradingDayKey("not a date")).toThrow(/Invalid equity timestamp/);
+  });
+});
+
+describe("computeDrawdownState", () => {
+  it("keeps the static floor at the starting size and the daily floor off the last close", () => {
+    const state = stateFor("static");
+    expect(state.tradingDay).toBe("2026-10-02");
+    expect(state.dayStartBalance).toBe(103000);
+    expect(state.dailyFloor).toBe(98000);
+    expect(state.totalFloor).toBe(90000);
+    expect(state.remainingDailyAmount).toBe(4000);
+    expect(state.remainingTotalAmount).toBe(12000);
+  });
+
+  it("trails the intraday peak or the end-of-day peak", () => {
+    expect(stateFor("trailing-intraday")).toMatchObject({ highWaterMark: 104000, totalFloor: 94000 });
+    expect(stateFor("trailing-eod")).toMatchObject({ highWaterMark: 103000, totalFloor: 93000 });
+  });
+
+  it("assumes a flat account without history", () => {
+    const state = computeDrawdownState(config);
+    expect(state).toMatchObject({ tradingDay: null, currentEquity: 100000, dailyFloor: 95000, totalFloor: 90000 });
+  });
+});
+
+describe("computeDrawdownFloors", () => {
+  const lock: PropFirmConfig = { ...config, drawdownModel: "trailing-until-breakeven-lock" };
+  const figures = (peak: number, currentEquity: number) => ({
+    dayStartBalance: currentEquity,
+    currentEquity,
+    intradayPeak: peak,
+    eodPeak: peak,
+  });
+
+  it("trails until the floor reaches the starting balance, then locks there", () => {
+    expect(computeDrawdownFloors(lock, figures(104000, 104000))).toMatchObject({ totalFloor: 94000, locked: false });
+    expect(computeDrawdownFloors(lock, figures(110000, 105000))).toMatchObject({ totalFloor: 100000, locked: true });
+    // Further gains no longer move the floor
+    const state = computeDrawdownFloors(lock, figures(120000, 101000));
+    expect(state).toMatchObject({ totalFloor: 100000, locked: true, remainingTotalAmount: 1000 });
+  });
+
+  it("never lets a peak below the starting size drag the floor down", () => {
+    const state = computeDrawdownFloors({ ...config, drawdownModel: "trailing-intraday" }, figures(97000, 96000));
+    expect(state.highWaterMark).toBe(100000);
+    expect(state.totalFloor).toBe(90000);
+  });
+
+  it("clamps remaining room at zero and rejects unknown models", () => {
+    expect(computeDrawdownFloors(config, figures(100000, 89000)).remainingTotalAmount).toBe(0);
+    expect(() =>
+      computeDrawdownFloors({ ...config, drawdownModel: "weekly" as DrawdownModel }, figures(100000, 100000))
+    ).toThrow(/Unknown drawdown model/);
+  });
+});
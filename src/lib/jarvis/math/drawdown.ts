@@ -0,0 +1,156 @@
+// /lib/jarvis/math/drawdown.ts
+import { DrawdownModel, DrawdownState, EquityPoint, PropFirmConfig } from "./types";
+
+export const DEFAULT_DAILY_RESET_TIMEZONE = "Etc/UTC";
+
+const DRAWDOWN_MODELS: DrawdownModel[] = [
+  "static",
+  "trailing-intraday",
+  "trailing-eod",
+  "trailing-until-breakeven-lock",
+];
+
+/**
+ * Trading-day key (YYYY-MM-DD) for a timestamp, in the firm's reset
+ * timezone. Anything before `resetHour` local time belongs to the previous day.
+ */
+export function tradingDayKey(
+  at: string | Date,
+  timeZone: string = DEFAULT_DAILY_RESET_TIMEZONE,
+  resetHour = 0
+): string {
+  const date = typeof at === "string" ? new Date(at) : at;
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid equity timestamp: ${String(at)}`);
+  }
+
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+
+  const dayOffset = get("hour") < resetHour ? -1 : 0;
+  const local = new Date(Date.UTC(get("year"), get("month") - 1, get("day") + dayOffset));
+  return local.toISOString().slice(0, 10);
+}
+
+/**
+ * Work out where the daily and total breach levels sit right now for the
+ * config's drawdown model, given the equity history so far (oldest first).
+ * Without history the account is assumed flat at its starting size.
+ */
+export function computeDrawdownState(
+  config: PropFirmConfig,
+  equityHistory: EquityPoint[] = []
+): DrawdownState {
+  const timeZone = config.dailyResetTimezone ?? DEFAULT_DAILY_RESET_TIMEZONE;
+  const resetHour = config.dailyResetHour ?? 0;
+  const { accountSize } = config;
+
+  const points = equityHistory
+    .filter((p) => Number.isFinite(p.equity))
+    .slice()
+    .sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+
+  // Last equity of each completed trading day, in order
+  const closes: number[] = [];
+  let currentDay: string | null = null;
+  let dayStartBalance = accountSize;
+  let intradayPeak = accountSize;
+
+  for (let i = 0; i < points.length; i++) {
+    const key = tradingDayKey(points[i].at, timeZone, resetHour);
+    if (currentDay !== null && key !== currentDay) {
+      dayStartBalance = points[i - 1].equity;
+      closes.push(dayStartBalance);
+    }
+    currentDay = key;
+    if (points[i].equity > intradayPeak) intradayPeak = points[i].equity;
+  }
+
+  const currentEquity = points.length ? points[points.length - 1].equity : accountSize;
+
+  return {
+    ...computeDrawdownFloors(config, {
+      dayStartBalance,
+      currentEquity,
+      intradayPeak,
+      eodPeak: Math.max(accountSize, ...closes),
+    }),
+    tradingDay: currentDay,
+  };
+}
+
+/**
+ * Breach levels from already-known figures (no history walk). Used by the
+ * live room-left calculator, where the user states balances directly.
+ */
+export function computeDrawdownFloors(
+  config: PropFirmConfig,
+  figures: {
+    dayStartBalance: number;
+    currentEquity: number;
+    intradayPeak: number;
+    eodPeak: number;
+  }
+): DrawdownState {
+  const model = config.drawdownModel ?? "static";
+  const timeZone = config.dailyResetTimezone ?? DEFAULT_DAILY_RESET_TIMEZONE;
+  const { accountSize } = config;
+  const { dayStartBalance, currentEquity } = figures;
+
+  if (!DRAWDOWN_MODELS.includes(model)) {
+    throw new Error(`Unknown drawdown model: ${model}`);
+  }
+
+  const dailyLimitAmount = (accountSize * config.maxDailyDrawdownPct) / 100;
+  const totalLimitAmount = (accountSize * config.maxTotalDrawdownPct) / 100;
+  const intradayPeak = Math.max(accountSize, figures.intradayPeak);
+  const eodPeak = Math.max(accountSize, figures.eodPeak);
+
+  let highWaterMark = accountSize;
+  let totalFloor = accountSize - totalLimitAmount;
+  let locked = false;
+
+  switch (model) {
+    case "static":
+      break;
+    case "trailing-intraday":
+      highWaterMark = intradayPeak;
+      totalFloor = highWaterMark - totalLimitAmount;
+      break;
+    case "trailing-eod":
+      highWaterMark = eodPeak;
+      totalFloor = highWaterMark - totalLimitAmount;
+      break;
+    case "trailing-until-breakeven-lock":
+      // Trails the intraday peak until the floor reaches the starting balance, then stops.
+      highWaterMark = intradayPeak;
+      totalFloor = Math.min(highWaterMark - totalLimitAmount, accountSize);
+      locked = highWaterMark - totalLimitAmount >= accountSize;
+      break;
+  }
+
+  const dailyFloor = dayStartBalance - dailyLimitAmount;
+
+  return {
+    model,
+    timeZone,
+    tradingDay: null,
+    highWaterMark,
+    locked,
+    dayStartBalance,
+    currentEquity,
+    dailyLimitAmount,
+    totalLimitAmount,
+    dailyFloor,
+    totalFloor,
+    remainingDailyAmount: Math.max(0, currentEquity - dailyFloor),
+    remainingTotalAmount: Math.max(0, currentEquity - totalFloor),
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { listMathTaskTypes, runMathTask } from "./engine";
+import { buildProvenance, formatProvenance, hashMathTask, MATH_ENGINE_NAME, MATH_ENGINE_VERSION } from "./provenance";
+import { parseAndCompute } from "./parse";
+import type { MathTask } from "./types";
+
+const sizing: MathTask = {
+  type: "position-size",
+  input: { accountSize: 10000, riskPercent: 1, stopLossPoints: 25, valuePerPoint: 10 },
+};
+
+describe("math task registry", () => {
+  it("dispatches every registered task type", () => {
+    expect(listMathTaskTypes()).toEqual(
+      expect.arrayContaining(["position-size", "monte-carlo", "room-left", "expression", "kelly", "risk-of-ruin"])
+    );
+    const result = runMathTask(sizing);
+    expect(result.type).toBe("position-size");
+    expect(result.result).toMatchObject({ riskAmount: 100, positionSize: 0.4 });
+  });
+
+  it("rejects unknown task types", () => {
+    expect(() => runMathTask({ type: "astrology", input: {} } as unknown as MathTask)).toThrow(
+      "Unknown math task type: astrology"
+    );
+  });
+
+  it("sends free text through the same registry", () => {
+    const res = parseAndCompute("2% of 50,000");
+    expect(res.ok).toBe(true);
+    expect(res.provenance?.taskType).toBe("percent-of");
+  });
+});
+
+describe("provenance", () => {
+  it("hashes equal inputs equally, whatever the key order", () => {
+    const reordered = {
+      type: "position-size",
+      input: { valuePerPoint: 10, stopLossPoints: 25, riskPercent: 1, accountSize: 10000 },
+    } as MathTask;
+    expect(hashMathTask(reordered)).toBe(hashMathTask(sizing));
+    expect(hashMathTask({ ...sizing, input: { ...sizing.input, riskPercent: 2 } })).not.toBe(hashMathTask(sizing));
+  });
+
+  it("ignores undefined fields", () => {
+    const withUndefined = { ...sizing, input: { ...sizing.input, stopUnit: undefined } } as MathTask;
+    expect(hashMathTask(withUndefined)).toBe(hashMathTask(sizing));
+  });
+
+  it("tags results with engine, version, task and a short hash", () => {
+    const provenance = buildProvenance(sizing);
+    expect(provenance).toEqual({
+      engine: MATH_ENGINE_NAME,
+      version: MATH_ENGINE_VERSION,
+      taskType: "position-size",
+      inputHash: expect.stringMatching(/^[0-9a-f]{16}$/),
+    });
+    expect(runMathTask(sizing).provenance).toEqual(provenance);
+    expect(formatProvenance(provenance)).toBe(
+      `[${MATH_ENGINE_NAME} v${MATH_ENGINE_VERSION} · position-size #${provenance.inputHash.slice(0, 8)}]`
+    );
+  });
+});
@@ -0,0 +1,55 @@
+// /lib/jarvis/math/engine.ts
+import { MathTask, MathTaskResult, MathTaskType } from "./types";
+import { calculatePositionSize } from "./risk";
+import { calculateInstrumentPositionSize } from "./instruments";
+import { calculateRiskReward } from "./riskReward";
+import { buildPropFirmPlan } from "./propFirm";
+import { buildCompoundingPlan } from "./compounding";
+import { runMonteCarlo } from "./monteCarlo";
+import { simulatePropFirmPassProbability } from "./propFirmSimulation";
+import { calculateRoomLeft } from "./roomLeft";
+import { calculateExpression, calculatePercentOf, calculateWhatPercent } from "./expression";
+import { calculateKelly, calculateOptimalF } from "./kelly";
+import { calculateRiskOfRuin } from "./riskOfRuin";
+import { buildProvenance } from "./provenance";
+
+type TaskInput<T extends MathTaskType> = Extract<MathTask, { type: T }>["input"];
+type TaskOutput<T extends MathTaskType> = Extract<MathTaskResult, { type: T }>["result"];
+
+// The one place a task type maps to its implementation. runMathTask and
+// parseAndCompute both dispatch through here; adding a task means adding
+// it to the MathTask union and to this table.
+const MATH_TASK_REGISTRY: { [T in MathTaskType]: (input: TaskInput<T>) => TaskOutput<T> } = {
+  "position-size": calculatePositionSize,
+  "instrument-position-size": calculateInstrumentPositionSize,
+  "risk-reward": calculateRiskReward,
+  "prop-firm-plan": buildPropFirmPlan,
+  "compounding-plan": buildCompoundingPlan,
+  "monte-carlo": runMonteCarlo,
+  "prop-firm-pass-probability": simulatePropFirmPassProbability,
+  "room-left": calculateRoomLeft,
+  "percent-of": calculatePercentOf,
+  "what-percent": calculateWhatPercent,
+  expression: calculateExpression,
+  kelly: calculateKelly,
+  "optimal-f": calculateOptimalF,
+  "risk-of-ruin": calculateRiskOfRuin,
+};
+
+export function listMathTaskTypes(): MathTaskType[] {
+  return Object.keys(MATH_TASK_REGISTRY) as MathTaskType[];
+}
+
+export function runMathTask(task: MathTask): MathTaskResult {
+  const handler = MATH_TASK_REGISTRY[task?.type] as ((input: unknown) => unknown) | undefined;
+  if (!handler) {
+    throw new Error(`Unknown math task type: ${String(task?.type)}`);
+  }
+
+  const result = handler(task.input);
+  return {
+    type: task.type,
+    result,
+    provenance: buildProvenance(task),
+  } as MathTaskResult;
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateExpression,
+  calculatePercentOf,
+  calculateWhatPercent,
+  evaluateExpression,
+  parseNumber,
+} from "./expression";
+
+const value = (expr: string, variables?: Record<string, number>) => evaluateExpression(expr, variables).value;
+
+describe("evaluateExpression", () => {
+  it("stays exact where floats drift", () => {
+    expect(value("0.1 + 0.2")).toBe(0.3);
+    expect(value("1.1 * 3")).toBe(3.3);
+    expect(value("1 / 3")).toBe(0.3333333333);
+  });
+
+  it("handles unary minus, right-associative powers and postfix percent", () => {
+    expect(value("-2^2")).toBe(-4);
+    expect(value("2 * -3")).toBe(-6);
+    expect(value("--5")).toBe(5);
+    expect(value("2^3^2")).toBe(512);
+    expect(value("2^-1")).toBe(0.5);
+    expect(value("200 * 10%")).toBe(20);
+    expect(value("(1 + 2) * 4")).toBe(12);
+  });
+
+  it("supports the built-in functions and constants", () => {
+    expect(value("max(1, 5, 3) - min(4, 2)")).toBe(3);
+    expect(value("round(2.345, 2)")).toBe(2.35);
+    expect(value("round(-2.5)")).toBe(-3);
+    expect(value("sqrt(16) + abs(-1)")).toBe(5);
+    expect(value("log(1000)")).toBe(3);
+    expect(value("log(8, 2)")).toBe(3);
+    expect(value("ln(e)")).toBe(1);
+    expect(value("lot * pip")).toBe(10);
+  });
+
+  it("binds variables case-insensitively and reports the ones used", () => {
+    const res = evaluateExpression("Balance*risk%/sl", { balance: 100000, RISK: 1, sl: 20, unused: 3 });
+    expect(res).toEqual({ ok: true, value: 50, used: { balance: 100000, risk: 1, sl: 20 } });
+    // Bound variables shadow constants
+    expect(value("pip * 2", { pip: 0.01 })).toBe(0.02);
+  });
+
+  it("reports division by zero instead of returning Infinity", () => {
+    expect(evaluateExpression("1 / 0")).toEqual({ ok: false, error: "Division by zero" });
+    expect(evaluateExpression("5 / (2 - 2)")).toEqual({ ok: false, error: "Division by zero" });
+    expect(evaluateExpression("0^-1")).toEqual({ ok: false, error: "Division by zero" });
+  });
+
+  it("rejects malformed input", () => {
+    expect(evaluateExpression("").error).toBe("Empty expression");
+    expect(evaluateExpression("1 + x").error).toBe("Unknown variable 'x'");
+    expect(evaluateExpression("foo(1)").error).toBe("Unknown function foo()");
+    expect(evaluateExpression("(1 + 2").error).toBe("Mismatched parentheses");
+    expect(evaluateExpression("1 $ 2").error).toBe("Invalid character '$' in expression");
+    expect(evaluateExpression("1.2.3").error).toBe("Invalid number '1.2.3'");
+    expect(evaluateExpression("abs(1, 2)").error).toBe("Wrong number of arguments for abs()");
+    expect(evaluateExpression("sqrt(-4)").error).toBe("sqrt() of a negative number");
+    expect(evaluateExpression("1, 2").error).toBe("Comma outside a function call");
+  });
+});
+
+describe("calculateExpression", () => {
+  it("trims the input and throws the evaluator's errors", () => {
+    expect(calculateExpression({ expression: " 2 * 3 " })).toEqual({
+      expression: "2 * 3",
+      value: 6,
+      variablesUsed: {},
+    });
+    expect(() => calculateExpression({ expression: "  " })).toThrow(/must not be empty/);
+    expect(() => calculateExpression({ expression: "1/0" })).toThrow(/Division by zero/);
+  });
+});
+
+describe("percent helpers", () => {
+  it("parses thousands separators and keeps precision", () => {
+    expect(parseNumber("100,000")).toBe(100000);
+    expect(parseNumber("-")).toBeNull();
+    expect(calculatePercentOf({ percent: 1.5, total: 100000 }).value).toBe(1500);
+    expect(calculatePercentOf({ percent: 0.1, total: 0.2 }).value).toBe(0.0002);
+    expect(calculateWhatPercent({ part: 1, whole: 3 }).percent).toBe(33.33333333);
+  });
+
+  it("rejects non-numbers and a zero whole", () => {
+    expect(() => calculatePercentOf({ percent: NaN, total: 10 })).toThrow(/valid numbers/);
+    expect(() => calculateWhatPercent({ part: 1, whole: 0 })).toThrow(/must not be 0/);
+  });
+});
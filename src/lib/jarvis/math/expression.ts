@@ -0,0 +1,453 @@
+// /lib/jarvis/math/expression.ts
+// Edge-safe fixed-point arithmetic (TinyBig) behind the "percent-of",
+// "what-percent" and "expression" tasks. No external deps, no eval.
+// Expressions support + - * / ^, unary minus, postfix % (percentage),
+// parentheses, functions (min, max, abs, round, sqrt, log, ln), constants
+// and bound variables (e.g. "balance*risk%/sl").
+
+import type { TradingProfile } from "../tradingMemory";
+import {
+  ExpressionInput,
+  ExpressionResult,
+  PercentOfInput,
+  PercentOfResult,
+  WhatPercentInput,
+  WhatPercentResult,
+} from "./types";
+
+type Numeric = number | string;
+
+class TinyBig {
+  n: bigint;
+  scale: bigint;
+  constructor(value: Numeric, scale = 8) {
+    this.scale = BigInt(10) ** BigInt(scale);
+    const asNum = typeof value === "number" ? value : parseFloat(String(value));
+    const normalized = Number.isFinite(asNum) ? asNum : 0;
+    this.n = BigInt(Math.round(normalized * Number(this.scale)));
+  }
+  static fromBigInt(n: bigint, scale: bigint) {
+    const obj = Object.create(TinyBig.prototype) as TinyBig;
+    obj.n = n;
+    obj.scale = scale;
+    return obj;
+  }
+  add(o: TinyBig) {
+    this._assertSameScale(o);
+    return TinyBig.fromBigInt(this.n + o.n, this.scale);
+  }
+  sub(o: TinyBig) {
+    this._assertSameScale(o);
+    return TinyBig.fromBigInt(this.n - o.n, this.scale);
+  }
+  mul(o: TinyBig) {
+    this._assertSameScale(o);
+    return TinyBig.fromBigInt((this.n * o.n) / this.scale, this.scale);
+  }
+  div(o: TinyBig) {
+    this._assertSameScale(o);
+    if (o.n === 0n) throw new Error("Division by zero");
+    return TinyBig.fromBigInt((this.n * this.scale) / o.n, this.scale);
+  }
+  pow(exp: TinyBig) {
+    this._assertSameScale(exp);
+    const e = exp.toNumber();
+    if (!Number.isInteger(e) || Math.abs(e) > 64) {
+      // Fractional / huge exponents can't stay fixed-point; go through float once
+      const v = Math.pow(this.toNumber(), e);
+      if (!Number.isFinite(v)) throw new Error("Invalid exponent");
+      return TinyBig.fromNumber(v, this.scale);
+    }
+    const one = TinyBig.fromBigInt(this.scale, this.scale);
+    let result = one;
+    let base = TinyBig.fromBigInt(this.n, this.scale);
+    let k = Math.abs(e);
+    while (k > 0) {
+      if (k & 1) result = result.mul(base);
+      base = base.mul(base);
+      k >>= 1;
+    }
+    return e < 0 ? one.div(result) : result;
+  }
+  cmp(o: TinyBig) {
+    this._assertSameScale(o);
+    return this.n === o.n ? 0 : this.n < o.n ? -1 : 1;
+  }
+  neg() {
+    return TinyBig.fromBigInt(-this.n, this.scale);
+  }
+  abs() {
+    return this.n < 0n ? this.neg() : this;
+  }
+  round(decimals = 0) {
+    const digits = this.scale.toString().length - 1;
+    if (decimals >= digits) return this;
+    // round half away from zero at the requested decimal place
+    const factor = BigInt(10) ** BigInt(digits - Math.max(0, decimals));
+    const half = factor / 2n;
+    const q = (this.n < 0n ? this.n - half : this.n + half) / factor;
+    return TinyBig.fromBigInt(q * factor, this.scale);
+  }
+  static fromNumber(value: number, scale: bigint) {
+    return TinyBig.fromBigInt(BigInt(Math.round(value * Number(scale))), scale);
+  }
+  toNumber() {
+    return Number(this.n) / Number(this.scale);
+  }
+  toFixed(dec = 6) {
+    return this.toNumber().toFixed(dec);
+  }
+  _assertSameScale(o: TinyBig) {
+    if (this.scale !== o.scale) throw new Error("Scale mismatch");
+  }
+  static from(value: Numeric, scale = 8) {
+    return new TinyBig(value, scale);
+  }
+}
+
+export function parseNumber(x: Numeric): number | null {
+  if (x === null || x === undefined) return null;
+  const s = String(x).trim().replace(/,/g, "");
+  if (s === "" || s === "-") return null;
+  const n = Number(s);
+  if (Number.isFinite(n)) return n;
+  return null;
+}
+
+const PERCENT_SCALE = 10;
+
+export function calculatePercentOf(input: PercentOfInput): PercentOfResult {
+  const percent = parseNumber(input.percent);
+  const total = parseNumber(input.total);
+  if (percent === null || total === null) {
+    throw new Error("Percent and total must be valid numbers.");
+  }
+
+  const value = TinyBig.from(percent, PERCENT_SCALE)
+    .mul(TinyBig.from(total, PERCENT_SCALE))
+    .div(TinyBig.from(100, PERCENT_SCALE));
+
+  return { percent, total, value: value.toNumber() };
+}
+
+export function calculateWhatPercent(input: WhatPercentInput): WhatPercentResult {
+  const part = parseNumber(input.part);
+  const whole = parseNumber(input.whole);
+  if (part === null || whole === null) {
+    throw new Error("Part and whole must be valid numbers.");
+  }
+  if (whole === 0) {
+    throw new Error("Whole must not be 0.");
+  }
+
+  const percent = TinyBig.from(part, PERCENT_SCALE)
+    .div(TinyBig.from(whole, PERCENT_SCALE))
+    .mul(TinyBig.from(100, PERCENT_SCALE));
+
+  return { part, whole, percent: percent.toNumber() };
+}
+
+/* -------------------------
+   Tiny expression evaluator
+   Supports: numbers, + - * / ^, unary minus, postfix % (x% = x/100),
+   parentheses, functions and named constants / variables.
+   Implementation: Shunting-yard (to RPN) + RPN eval over TinyBig
+   No eval(), no dynamic code, safe for Edge runtime.
+   ------------------------- */
+
+const EXPR_SCALE = 10;
+
+// Always available; bound variables with the same name take precedence.
+export const MATH_CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+  lot: 100000, // standard FX lot (units)
+  mini_lot: 10000,
+  micro_lot: 1000,
+  pip: 0.0001,
+  jpy_pip: 0.01,
+};
+
+type MathFunction = {
+  minArgs: number;
+  maxArgs: number;
+  apply: (args: TinyBig[]) => TinyBig;
+};
+
+function viaFloat(x: TinyBig, fn: (v: number) => number, name: string) {
+  const v = fn(x.toNumber());
+  if (!Number.isFinite(v)) throw new Error(`${name}() is undefined for ${x.toNumber()}`);
+  return TinyBig.fromNumber(v, x.scale);
+}
+
+const FUNCTIONS: Record<string, MathFunction> = {
+  min: { minArgs: 1, maxArgs: Infinity, apply: (a) => a.reduce((m, x) => (x.cmp(m) < 0 ? x : m)) },
+  max: { minArgs: 1, maxArgs: Infinity, apply: (a) => a.reduce((m, x) => (x.cmp(m) > 0 ? x : m)) },
+  abs: { minArgs: 1, maxArgs: 1, apply: ([x]) => x.abs() },
+  round: { minArgs: 1, maxArgs: 2, apply: ([x, d]) => x.round(d ? Math.trunc(d.toNumber()) : 0) },
+  sqrt: {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: ([x]) => {
+      if (x.n < 0n) throw new Error("sqrt() of a negative number");
+      return viaFloat(x, Math.sqrt, "sqrt");
+    },
+  },
+  // log(x) is base 10, log(x, b) is base b
+  log: {
+    minArgs: 1,
+    maxArgs: 2,
+    apply: ([x, b]) => {
+      if (x.n <= 0n) throw new Error("log() needs a positive number");
+      const base = b ? b.toNumber() : 10;
+      return viaFloat(x, (v) => Math.log(v) / Math.log(base), "log");
+    },
+  },
+  ln: {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: ([x]) => {
+      if (x.n <= 0n) throw new Error("ln() needs a positive number");
+      return viaFloat(x, Math.log, "ln");
+    },
+  },
+};
+
+const BINARY_OPS = ["+", "-", "*", "/", "^"];
+
+function isDigit(ch: string) {
+  return /[0-9.]/.test(ch);
+}
+function isNumberToken(t: string) {
+  return /^[0-9.]+$/.test(t);
+}
+function isIdentToken(t: string) {
+  return /^[a-z_][a-z0-9_]*$/.test(t);
+}
+
+function tokenizeExpression(expr: string) {
+  const out: string[] = [];
+  let i = 0;
+  while (i < expr.length) {
+    const c = expr[i];
+    if (c === " " || c === "\t" || c === "\n") {
+      i++;
+      continue;
+    }
+    if (isDigit(c)) {
+      let num = c;
+      i++;
+      while (i < expr.length && /[0-9.]/.test(expr[i])) {
+        num += expr[i++];
+      }
+      if ((num.match(/\./g) || []).length > 1) {
+        return { ok: false, error: `Invalid number '${num}'` };
+      }
+      out.push(num);
+      continue;
+    }
+    if (/[a-z_]/.test(c)) {
+      let name = c;
+      i++;
+      while (i < expr.length && /[a-z0-9_]/.test(expr[i])) {
+        name += expr[i++];
+      }
+      out.push(name);
+      continue;
+    }
+    if (c === "+" || c === "-") {
+      // Unary when it starts the expression or follows an operator, "(" or ","
+      const prev = out[out.length - 1];
+      const unary = prev === undefined || prev === "(" || prev === "," || prev === "u-" || BINARY_OPS.includes(prev);
+      if (unary) {
+        if (c === "-") out.push("u-");
+      } else {
+        out.push(c);
+      }
+      i++;
+      continue;
+    }
+    if (c === "*" || c === "/" || c === "^" || c === "%" || c === "(" || c === ")" || c === ",") {
+      out.push(c);
+      i++;
+      continue;
+    }
+    // unknown char -> invalid
+    return { ok: false, error: `Invalid character '${c}' in expression` };
+  }
+  return { ok: true, tokens: out };
+}
+
+function precedence(op: string) {
+  if (op === "+" || op === "-") return 1;
+  if (op === "*" || op === "/") return 2;
+  if (op === "u-") return 3;
+  if (op === "^") return 4;
+  return 0;
+}
+
+function isRightAssoc(op: string) {
+  return op === "^" || op === "u-";
+}
+
+function toRPN(tokens: string[]) {
+  const output: string[] = [];
+  const ops: string[] = [];
+  const argCounts: number[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (isNumberToken(t)) {
+      output.push(t);
+    } else if (isIdentToken(t)) {
+      if (tokens[i + 1] === "(") {
+        if (!FUNCTIONS[t]) return { ok: false, error: `Unknown function ${t}()` };
+        ops.push(`fn:${t}`);
+        argCounts.push(tokens[i + 2] === ")" ? 0 : 1);
+      } else {
+        output.push(t);
+      }
+    } else if (t === "%") {
+      // postfix, binds tightest: applies to the operand just emitted
+      output.push(t);
+    } else if (t === "u-") {
+      ops.push(t);
+    } else if (BINARY_OPS.includes(t)) {
+      while (ops.length) {
+        const top = ops[ops.length - 1];
+        if (top === "(" || top.startsWith("fn:")) break;
+        const higher = precedence(top) > precedence(t);
+        const equalLeft = precedence(top) === precedence(t) && !isRightAssoc(t);
+        if (!higher && !equalLeft) break;
+        output.push(ops.pop()!);
+      }
+      ops.push(t);
+    } else if (t === "(") {
+      ops.push(t);
+    } else if (t === ",") {
+      while (ops.length && ops[ops.length - 1] !== "(") {
+        output.push(ops.pop()!);
+      }
+      if (!ops.length || !argCounts.length || !ops[ops.length - 2]?.startsWith("fn:")) {
+        return { ok: false, error: "Comma outside a function call" };
+      }
+      argCounts[argCounts.length - 1]++;
+    } else if (t === ")") {
+      while (ops.length && ops[ops.length - 1] !== "(") {
+        output.push(ops.pop()!);
+      }
+      if (!ops.length || ops[ops.length - 1] !== "(") {
+        return { ok: false, error: "Mismatched parentheses" };
+      }
+      ops.pop(); // remove "("
+      if (ops.length && ops[ops.length - 1].startsWith("fn:")) {
+        output.push(`${ops.pop()!}:${argCounts.pop()}`);
+      }
+    } else {
+      return { ok: false, error: `Invalid token ${t}` };
+    }
+  }
+  while (ops.length) {
+    const op = ops.pop()!;
+    if (op === "(" || op === ")" || op.startsWith("fn:")) return { ok: false, error: "Mismatched parentheses" };
+    output.push(op);
+  }
+  return { ok: true, rpn: output };
+}
+
+function evalRPN(rpn: string[], variables: Record<string, number> = {}) {
+  const scale = BigInt(10) ** BigInt(EXPR_SCALE);
+  const stack: TinyBig[] = [];
+  const used: Record<string, number> = {};
+  try {
+    for (let i = 0; i < rpn.length; i++) {
+      const t = rpn[i];
+      if (isNumberToken(t)) {
+        stack.push(TinyBig.from(t, EXPR_SCALE));
+      } else if (t === "%" || t === "u-") {
+        if (stack.length < 1) return { ok: false, error: "Invalid expression" };
+        const a = stack.pop()!;
+        stack.push(t === "%" ? a.div(TinyBig.from(100, EXPR_SCALE)) : a.neg());
+      } else if (BINARY_OPS.includes(t)) {
+        if (stack.length < 2) return { ok: false, error: "Invalid expression" };
+        const b = stack.pop()!;
+        const a = stack.pop()!;
+        if (t === "+") stack.push(a.add(b));
+        else if (t === "-") stack.push(a.sub(b));
+        else if (t === "*") stack.push(a.mul(b));
+        else if (t === "/") stack.push(a.div(b));
+        else stack.push(a.pow(b));
+      } else if (t.startsWith("fn:")) {
+        const [, name, argc] = t.split(":");
+        const fn = FUNCTIONS[name];
+        const n = Number(argc);
+        if (n < fn.minArgs || n > fn.maxArgs) {
+          return { ok: false, error: `Wrong number of arguments for ${name}()` };
+        }
+        if (stack.length < n) return { ok: false, error: "Invalid expression" };
+        const args = stack.splice(stack.length - n, n);
+        stack.push(fn.apply(args));
+      } else if (isIdentToken(t)) {
+        const value = variables[t] ?? MATH_CONSTANTS[t];
+        if (value === undefined || !Number.isFinite(value)) {
+          return { ok: false, error: `Unknown variable '${t}'` };
+        }
+        if (variables[t] !== undefined) used[t] = value;
+        stack.push(TinyBig.fromNumber(value, scale));
+      } else {
+        return { ok: false, error: `Unknown RPN token ${t}` };
+      }
+    }
+  } catch (e: any) {
+    return { ok: false, error: e?.message ?? String(e) };
+  }
+  if (stack.length !== 1) return { ok: false, error: "Invalid expression result" };
+  return { ok: true, value: stack[0].toNumber(), used };
+}
+
+export function evaluateExpression(expr: string, variables: Record<string, number> = {}) {
+  const tok = tokenizeExpression(expr.toLowerCase());
+  if (!tok.ok) return { ok: false, error: tok.error };
+  if (!tok.tokens.length) return { ok: false, error: "Empty expression" };
+  const rpn = toRPN(tok.tokens);
+  if (!rpn.ok) return { ok: false, error: rpn.error };
+  const lowered: Record<string, number> = {};
+  for (const [k, v] of Object.entries(variables)) lowered[k.toLowerCase()] = v;
+  return evalRPN(rpn.rpn, lowered);
+}
+
+export function calculateExpression(input: ExpressionInput): ExpressionResult {
+  const expression = String(input.expression ?? "").trim();
+  if (!expression) {
+    throw new Error("Expression must not be empty.");
+  }
+
+  const res = evaluateExpression(expression, input.variables ?? {});
+  if (!res.ok) {
+    throw new Error(res.error);
+  }
+  return { expression, value: res.value, variablesUsed: res.used };
+}
+
+/**
+ * Variables an expression can use from the stored trading profile:
+ * balance (size + current profit), account, profit, target, daily_loss, max_loss.
+ * Percent fields stay as plain numbers, so "balance*daily_loss%" works.
+ */
+export function variablesFromTradingProfile(profile: TradingProfile | null): Record<string, number> {
+  if (!profile) return {};
+  const vars: Record<string, number> = {};
+  const set = (name: string, v: number | null | undefined) => {
+    if (v != null && Number.isFinite(v)) vars[name] = v;
+  };
+  set("account", profile.account_size);
+  set("account_size", profile.account_size);
+  set("profit", profile.current_profit);
+  set("target", profile.target_percent);
+  set("daily_loss", profile.daily_loss_percent);
+  set("max_loss", profile.max_loss_percent);
+  if (profile.account_size != null) {
+    set("balance", profile.account_size + (profile.current_profit ?? 0));
+  }
+  return vars;
+}
+
@@ -1,35 +1,23 @@
 // /lib/jarvis/math/index.ts
-import {
-  MathTask,
-  MathTaskResult,
-} from "./types";
-import { calculatePositionSize } from "./risk";
-import { buildPropFirmPlan } from "./propFirm";
-import { buildCompoundingPlan } from "./compounding";
+// Single entry point of the deterministic math engine. Every task type is
+// registered once in ./engine and dispatched by runMathTask; free text goes
+// through parseAndCompute (./parse) into the same registry.
 
 export * from "./types";
+export * from "./engine";
+export * from "./provenance";
 export * from "./risk";
+export * from "./instruments";
+export * from "./riskReward";
+export * from "./currency";
 export * from "./propFirm";
+export * from "./drawdown";
 export * from "./compounding";
-
-export function runMathTask(task: MathTask): MathTaskResult {
-  switch (task.type) {
-    case "position-size": {
-      const result = calculatePositionSize(task.input);
-      return { type: "position-size", result };
-    }
-    case "prop-firm-plan": {
-      const result = buildPropFirmPlan(task.input);
-      return { type: "prop-firm-plan", result };
-    }
-    case "compounding-plan": {
-      const result = buildCompoundingPlan(task.input);
-      return { type: "compounding-plan", result };
-    }
-    default: {
-      // Exhaustive check
-      const _never: never = task;
-      throw new Error("Unknown math task type");
-    }
-  }
-}
+export * from "./monteCarlo";
+export * from "./propFirmSimulation";
+export * from "./roomLeft";
+export * from "./kelly";
+export * from "./riskOfRuin";
+export * from "./expression";
+export * from "./parse";
+export * from "./answers";
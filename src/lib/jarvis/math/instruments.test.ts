@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { calculateInstrumentPositionSize, findInstrument } from "./instruments";
+import type { InstrumentPositionSizeInput } from "./types";
+
+const eurusd: InstrumentPositionSizeInput = {
+  symbol: "EURUSD",
+  accountSize: 100000,
+  riskPercent: 1,
+  entryPrice: 1.1,
+  stopPrice: 1.098,
+};
+
+describe("findInstrument", () => {
+  it("tolerates separators, broker suffixes, aliases and futures month codes", () => {
+    expect(findInstrument("EUR/USD")?.symbol).toBe("EURUSD");
+    expect(findInstrument("xauusd.raw")?.symbol).toBe("XAUUSD");
+    expect(findInstrument("NAS100#")?.symbol).toBe("NAS100");
+    expect(findInstrument("gold")?.symbol).toBe("XAUUSD");
+    expect(findInstrument("NQZ5")?.symbol).toBe("NQ");
+  });
+
+  it("builds specs for unlisted fiat pairs and rejects everything else", () => {
+    expect(findInstrument("USDINR")).toMatchObject({ assetClass: "fx", tickSize: 0.00001, quoteCurrency: "INR" });
+    expect(findInstrument("CHFJPY")).toMatchObject({ tickSize: 0.001, tickValue: 100 });
+    expect(findInstrument("ABCDEF")).toBeNull();
+    expect(findInstrument("USDUSD")).toBeNull();
+  });
+});
+
+describe("calculateInstrumentPositionSize", () => {
+  it("sizes a 20-pip EURUSD stop at 1% of 100k to 5 lots", () => {
+    const result = calculateInstrumentPositionSize(eurusd);
+    expect(result.direction).toBe("long");
+    expect(result.stopDistance).toBe(0.002);
+    expect(result.stopTicks).toBe(200);
+    expect(result.tickValueAccount).toBe(1);
+    expect(result.lots).toBe(5);
+    expect(result.actualRiskAmount).toBe(1000);
+  });
+
+  it("rounds down to the lot step and reports the actual risk", () => {
+    const result = calculateInstrumentPositionSize({ ...eurusd, stopPrice: 1.097 });
+    expect(result.rawLots).toBeCloseTo(3.3333, 4);
+    expect(result.lots).toBe(3.33);
+    expect(result.actualRiskAmount).toBeCloseTo(999, 6);
+    expect(result.notes.join(" ")).toMatch(/Rounded down to 3.33/);
+  });
+
+  it("converts a JPY tick value at the entry price on a USD account", () => {
+    const result = calculateInstrumentPositionSize({ ...eurusd, symbol: "USDJPY", entryPrice: 150, stopPrice: 150.3 });
+    expect(result.direction).toBe("short");
+    expect(result.stopTicks).toBe(300);
+    expect(result.tickValueAccount).toBeCloseTo(100 / 150, 10);
+    expect(result.lots).toBe(5);
+  });
+
+  it("converts through the rate table when the quote currency differs", () => {
+    const input = { ...eurusd, symbol: "GER40", entryPrice: 18000, stopPrice: 17950 };
+    const result = calculateInstrumentPositionSize({ ...input, fxRates: { base: "USD", rates: { EUR: 0.8 } } });
+    expect(result.tickValueAccount).toBeCloseTo(0.0125, 10);
+    expect(result.lots).toBe(16);
+    expect(() => calculateInstrumentPositionSize(input)).toThrow(/FX rate table required/);
+  });
+
+  it("returns zero lots when the minimum lot would overshoot the risk", () => {
+    const result = calculateInstrumentPositionSize({
+      ...eurusd,
+      symbol: "ES",
+      accountSize: 10000,
+      riskPercent: 0.5,
+      entryPrice: 5000,
+      stopPrice: 4990,
+    });
+    expect(result.rawLots).toBeCloseTo(0.1, 10);
+    expect(result.lots).toBe(0);
+    expect(result.actualRiskAmount).toBe(0);
+    expect(result.notes.join(" ")).toMatch(/below the minimum of 1/);
+  });
+
+  it("needs specs for unknown symbols and a real stop", () => {
+    expect(() => calculateInstrumentPositionSize({ ...eurusd, symbol: "FOOBAR" })).toThrow(/Unknown instrument/);
+    const custom = calculateInstrumentPositionSize({
+      ...eurusd,
+      symbol: "FOOBAR",
+      entryPrice: 100,
+      stopPrice: 99,
+      overrides: { tickSize: 0.5, tickValue: 10, lotStep: 1, minLot: 1 },
+    });
+    expect(custom.lots).toBe(50);
+    expect(() => calculateInstrumentPositionSize({ ...eurusd, stopPrice: 1.1 })).toThrow(/must differ/);
+    expect(() => calculateInstrumentPositionSize({ ...eurusd, stopPrice: 0 })).toThrow(/greater than 0/);
+  });
+});
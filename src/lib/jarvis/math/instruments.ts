@@ -0,0 +1,284 @@
+// /lib/jarvis/math/instruments.ts
+import {
+  Currency,
+  InstrumentPositionSizeInput,
+  InstrumentPositionSizeResult,
+  InstrumentSpec,
+} from "./types";
+import { calculatePositionSize } from "./risk";
+import { convertAmount } from "./currency";
+
+// Common retail CFD / CME specs. Brokers differ (especially on index CFDs),
+// so callers can pass `overrides` with their own contract specs.
+function fxPair(symbol: string): InstrumentSpec {
+  const quote = symbol.slice(3, 6);
+  const tickSize = quote === "JPY" ? 0.001 : 0.00001;
+  return {
+    symbol,
+    description: `${symbol.slice(0, 3)}/${quote} spot FX`,
+    assetClass: "fx",
+    contractSize: 100000,
+    tickSize,
+    tickValue: 100000 * tickSize,
+    quoteCurrency: quote,
+    lotStep: 0.01,
+    minLot: 0.01,
+  };
+}
+
+function indexCfd(symbol: string, description: string, quoteCurrency: Currency): InstrumentSpec {
+  return {
+    symbol,
+    description,
+    assetClass: "index",
+    contractSize: 1,
+    tickSize: 0.01,
+    tickValue: 0.01,
+    quoteCurrency,
+    lotStep: 0.01,
+    minLot: 0.01,
+  };
+}
+
+function future(
+  symbol: string,
+  description: string,
+  tickSize: number,
+  tickValue: number
+): InstrumentSpec {
+  return {
+    symbol,
+    description,
+    assetClass: "future",
+    contractSize: tickValue / tickSize,
+    tickSize,
+    tickValue,
+    quoteCurrency: "USD",
+    lotStep: 1,
+    minLot: 1,
+  };
+}
+
+const FIAT = ["USD", "EUR", "GBP", "JPY", "AUD", "NZD", "CAD", "CHF", "SGD", "HKD", "INR"];
+
+const INSTRUMENTS: InstrumentSpec[] = [
+  ...[
+    "EURUSD",
+    "GBPUSD",
+    "AUDUSD",
+    "NZDUSD",
+    "USDCAD",
+    "USDCHF",
+    "USDJPY",
+    "EURJPY",
+    "GBPJPY",
+    "AUDJPY",
+    "EURGBP",
+  ].map(fxPair),
+  {
+    symbol: "XAUUSD",
+    description: "Gold spot",
+    assetClass: "metal",
+    contractSize: 100,
+    tickSize: 0.01,
+    tickValue: 1,
+    quoteCurrency: "USD",
+    lotStep: 0.01,
+    minLot: 0.01,
+  },
+  {
+    symbol: "XAGUSD",
+    description: "Silver spot",
+    assetClass: "metal",
+    contractSize: 5000,
+    tickSize: 0.001,
+    tickValue: 5,
+    quoteCurrency: "USD",
+    lotStep: 0.01,
+    minLot: 0.01,
+  },
+  indexCfd("NAS100", "Nasdaq 100 CFD", "USD"),
+  indexCfd("US30", "Dow Jones 30 CFD", "USD"),
+  indexCfd("SPX500", "S&P 500 CFD", "USD"),
+  indexCfd("GER40", "DAX 40 CFD", "EUR"),
+  indexCfd("UK100", "FTSE 100 CFD", "GBP"),
+  future("ES", "E-mini S&P 500", 0.25, 12.5),
+  future("MES", "Micro E-mini S&P 500", 0.25, 1.25),
+  future("NQ", "E-mini Nasdaq 100", 0.25, 5),
+  future("MNQ", "Micro E-mini Nasdaq 100", 0.25, 0.5),
+  future("YM", "E-mini Dow", 1, 5),
+  future("MYM", "Micro E-mini Dow", 1, 0.5),
+  future("RTY", "E-mini Russell 2000", 0.1, 5),
+  future("CL", "Crude oil", 0.01, 10),
+  future("GC", "Gold futures", 0.1, 10),
+  future("MGC", "Micro gold futures", 0.1, 1),
+  future("SI", "Silver futures", 0.005, 25),
+  future("6E", "Euro FX futures", 0.00005, 6.25),
+];
+
+const ALIASES: Record<string, string> = {
+  GOLD: "XAUUSD",
+  SILVER: "XAGUSD",
+  US100: "NAS100",
+  USTEC: "NAS100",
+  NASDAQ: "NAS100",
+  DJ30: "US30",
+  DOW: "US30",
+  US500: "SPX500",
+  SPX: "SPX500",
+  DE40: "GER40",
+  DAX: "GER40",
+  FTSE: "UK100",
+};
+
+const REGISTRY = new Map(INSTRUMENTS.map((spec) => [spec.symbol, spec]));
+
+export function listInstruments(): InstrumentSpec[] {
+  return INSTRUMENTS.slice();
+}
+
+/**
+ * Look up a symbol, tolerating "EUR/USD", broker suffixes ("XAUUSD.raw",
+ * "NAS100#"), aliases ("GOLD", "US100") and futures month codes ("NQZ5").
+ * Unlisted 6-letter fiat pairs get standard FX specs. Null if unknown.
+ */
+export function findInstrument(symbol: string): InstrumentSpec | null {
+  const cleaned = symbol
+    .trim()
+    .replace(/[.#+_-][a-z0-9]*$/i, "")
+    .replace(/[\s/]/g, "")
+    .toUpperCase();
+
+  const direct = REGISTRY.get(ALIASES[cleaned] ?? cleaned);
+  if (direct) return direct;
+
+  const month = cleaned.match(/^([A-Z0-9]{1,3}?)[FGHJKMNQUVXZ]\d{1,2}$/);
+  if (month && REGISTRY.get(month[1])?.assetClass === "future") {
+    return REGISTRY.get(month[1]) ?? null;
+  }
+
+  if (/^[A-Z]{6}$/.test(cleaned)) {
+    const base = cleaned.slice(0, 3);
+    const quote = cleaned.slice(3);
+    if (base !== quote && FIAT.includes(base) && FIAT.includes(quote)) {
+      return fxPair(cleaned);
+    }
+  }
+
+  return null;
+}
+
+function decimalsOf(step: number): number {
+  return (String(step).split(".")[1] ?? "").length;
+}
+
+function floorToStep(value: number, step: number): number {
+  const decimals = decimalsOf(step);
+  // Small epsilon so 0.3 / 0.01 style float noise doesn't drop a whole step
+  return Number((Math.floor(value / step + 1e-9) * step).toFixed(decimals));
+}
+
+export function calculateInstrumentPositionSize(
+  input: InstrumentPositionSizeInput
+): InstrumentPositionSizeResult {
+  const { accountSize, riskPercent, entryPrice, stopPrice, fxRates } = input;
+  const accountCurrency = (input.accountCurrency ?? "USD").toUpperCase();
+
+  const base = findInstrument(input.symbol);
+  if (!base && !input.overrides) {
+    throw new Error(`Unknown instrument: ${input.symbol}. Pass contract specs via overrides.`);
+  }
+  const instrument: InstrumentSpec = {
+    symbol: input.symbol.toUpperCase(),
+    description: input.symbol,
+    assetClass: "fx",
+    contractSize: 1,
+    tickSize: 0,
+    tickValue: 0,
+    quoteCurrency: "USD",
+    lotStep: 0.01,
+    minLot: 0.01,
+    ...base,
+    ...input.overrides,
+  };
+
+  if (entryPrice <= 0 || stopPrice <= 0) {
+    throw new Error("Entry and stop prices must be greater than 0.");
+  }
+  if (entryPrice === stopPrice) {
+    throw new Error("Stop price must differ from entry price.");
+  }
+  if (instrument.tickSize <= 0 || instrument.tickValue <= 0) {
+    throw new Error("Tick size and tick value must be greater than 0.");
+  }
+  if (instrument.lotStep <= 0) {
+    throw new Error("Lot step must be greater than 0.");
+  }
+
+  const notes: string[] = [];
+  const quote = instrument.quoteCurrency.toUpperCase();
+  const stopTicks = Number((Math.abs(entryPrice - stopPrice) / instrument.tickSize).toFixed(6));
+  const stopDistance = Number((stopTicks * instrument.tickSize).toFixed(decimalsOf(instrument.tickSize)));
+
+  let tickValueAccount: number;
+  if (
+    quote !== accountCurrency &&
+    !fxRates &&
+    instrument.assetClass === "fx" &&
+    instrument.symbol.startsWith(accountCurrency)
+  ) {
+    // e.g. USDJPY on a USD account: the pair's own price is the conversion rate
+    tickValueAccount = instrument.tickValue / entryPrice;
+    notes.push(`Converted ${quote} tick value at the entry price (${entryPrice}).`);
+  } else {
+    tickValueAccount = convertAmount(instrument.tickValue, quote, accountCurrency, fxRates);
+    if (quote !== accountCurrency) {
+      notes.push(`Converted ${quote} tick value to ${accountCurrency} via the supplied rate table.`);
+    }
+  }
+
+  const sized = calculatePositionSize({
+    accountSize,
+    riskPercent,
+    stopLossPoints: stopTicks,
+    valuePerPoint: tickValueAccount,
+    stopUnit: "tick",
+  });
+
+  let lots = floorToStep(sized.positionSize, instrument.lotStep);
+  if (lots < instrument.minLot) {
+    notes.push(
+      `Raw size ${sized.positionSize.toFixed(4)} is below the minimum of ${instrument.minLot} — stop is too wide for this risk.`
+    );
+    lots = 0;
+  }
+
+  const actualRiskAmount = lots * stopTicks * tickValueAccount;
+
+  notes.unshift(
+    `${instrument.symbol}: stop ${stopDistance} away (${stopTicks} ticks of ${instrument.tickSize}), ` +
+      `${tickValueAccount.toFixed(4)} ${accountCurrency} per tick per lot.`
+  );
+  if (lots > 0 && lots < sized.positionSize - 1e-9) {
+    notes.push(
+      `Rounded down to ${lots} (lot step ${instrument.lotStep}); actual risk ${actualRiskAmount.toFixed(
+        2
+      )} ${accountCurrency}.`
+    );
+  }
+
+  return {
+    instrument,
+    accountCurrency,
+    direction: stopPrice < entryPrice ? "long" : "short",
+    stopDistance,
+    stopTicks,
+    tickValueAccount,
+    riskAmount: sized.riskAmount,
+    rawLots: sized.positionSize,
+    lots,
+    actualRiskAmount,
+    actualRiskPercent: (actualRiskAmount / accountSize) * 100,
+    notes,
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { calculateKelly, calculateOptimalF } from "./kelly";
+
+describe("calculateKelly", () => {
+  it("sizes a 50% / 2R edge at 25% full Kelly and grades the intended risk", () => {
+    const result = calculateKelly({ expectedRR: 2, expectedWinratePct: 50, riskPerTradePct: 1 });
+    expect(result).toMatchObject({ expectancyR: 0.5, fullKellyPct: 25, fraction: 0.5, fractionalKellyPct: 12.5 });
+    expect(result.assessment).toBe("within-fractional");
+    expect(calculateKelly({ expectedRR: 2, expectedWinratePct: 50, riskPerTradePct: 20 }).assessment).toBe(
+      "above-fractional"
+    );
+    const over = calculateKelly({ expectedRR: 2, expectedWinratePct: 50, riskPerTradePct: 50 });
+    expect(over.assessment).toBe("over-kelly");
+    expect(over.notes.join(" ")).toMatch(/2× full Kelly/);
+  });
+
+  it("says risk nothing when there is no edge", () => {
+    const result = calculateKelly({ expectedRR: 1, expectedWinratePct: 40, riskPerTradePct: 1 });
+    expect(result.expectancyR).toBe(-0.2);
+    expect(result.fullKellyPct).toBe(0);
+    expect(result.fractionalKellyPct).toBe(0);
+    expect(result.assessment).toBe("no-edge");
+    expect(result.notes).toContain("No positive edge — Kelly says risk nothing until the numbers improve.");
+  });
+
+  it("rejects out-of-range inputs", () => {
+    expect(() => calculateKelly({ expectedRR: 0, expectedWinratePct: 50 })).toThrow(/R:R/);
+    expect(() => calculateKelly({ expectedRR: 2, expectedWinratePct: 101 })).toThrow(/winrate/);
+    expect(() => calculateKelly({ expectedRR: 2, expectedWinratePct: 50, fraction: 0 })).toThrow(/fraction/);
+    expect(() => calculateKelly({ expectedRR: 2, expectedWinratePct: 50, riskPerTradePct: 100 })).toThrow(/Risk/);
+  });
+});
+
+describe("calculateOptimalF", () => {
+  it("matches Kelly on a two-outcome sample", () => {
+    const result = calculateOptimalF({ rMultiples: [2, -1] });
+    expect(result.optimalF).toBeCloseTo(0.25, 4);
+    expect(result.optimalRiskPct).toBe(25);
+    expect(result.fractionalRiskPct).toBe(12.5);
+    expect(result.notes).toContain("Fewer than 30 trades — treat optimal f as a rough upper bound.");
+  });
+
+  it("returns 0 when the sample expectancy isn't positive", () => {
+    const result = calculateOptimalF({ rMultiples: [1, -2], riskPerTradePct: 1 });
+    expect(result).toMatchObject({ optimalF: 0, optimalRiskPct: 0, growthPerTrade: 1, twr: 1, assessment: "no-edge" });
+    expect(result.notes).toContain("Sample expectancy is not positive — optimal f is 0.");
+  });
+
+  it("needs a losing trade to bound f", () => {
+    expect(() => calculateOptimalF({ rMultiples: [1, 2, 3] })).toThrow(/at least one losing trade/);
+  });
+
+  it("rejects empty, oversized and non-finite samples", () => {
+    expect(() => calculateOptimalF({ rMultiples: [] })).toThrow(/at least one trade/);
+    expect(() => calculateOptimalF({ rMultiples: new Array(5001).fill(-1) })).toThrow(/at most 5000/);
+    expect(() => calculateOptimalF({ rMultiples: [1, NaN, -1] })).toThrow(/finite/);
+  });
+});
@@ -0,0 +1,214 @@
+// /lib/jarvis/math/kelly.ts
+import {
+  KellyInput,
+  KellyResult,
+  OptimalFInput,
+  OptimalFResult,
+  RiskAssessment,
+} from "./types";
+
+const DEFAULT_FRACTION = 0.5;
+const MAX_SAMPLE = 5000;
+
+function round2(value: number): number {
+  return Number(value.toFixed(2));
+}
+
+function round4(value: number): number {
+  return Number(value.toFixed(4));
+}
+
+function validateFraction(fraction: number): void {
+  if (fraction <= 0 || fraction > 1) {
+    throw new Error("Kelly fraction must be between 0 and 1.");
+  }
+}
+
+function validateRisk(riskPerTradePct: number | undefined): void {
+  if (riskPerTradePct != null && (riskPerTradePct <= 0 || riskPerTradePct >= 100)) {
+    throw new Error("Risk per trade percent must be between 0 and 100.");
+  }
+}
+
+function assessRisk(
+  riskPerTradePct: number | undefined,
+  fullPct: number,
+  fractionalPct: number
+): RiskAssessment | null {
+  if (riskPerTradePct == null) return null;
+  if (fullPct <= 0) return "no-edge";
+  if (riskPerTradePct <= fractionalPct) return "within-fractional";
+  if (riskPerTradePct <= fullPct) return "above-fractional";
+  return "over-kelly";
+}
+
+function assessmentNote(
+  assessment: RiskAssessment | null,
+  riskPerTradePct: number | undefined,
+  fullPct: number,
+  fraction: number,
+  basis: string
+): string | null {
+  if (assessment == null || riskPerTradePct == null) return null;
+  switch (assessment) {
+    case "no-edge":
+      return `Risking ${riskPerTradePct}% with no edge only speeds up the losses.`;
+    case "within-fractional":
+      return `Risking ${riskPerTradePct}% is within ${fraction}× ${basis} — sane for this edge.`;
+    case "above-fractional":
+      return `Risking ${riskPerTradePct}% is above ${fraction}× ${basis} but below the full ${fullPct}% — expect deep swings.`;
+    case "over-kelly":
+      return `Risking ${riskPerTradePct}% is ${round2(
+        riskPerTradePct / fullPct
+      )}× full ${basis} — more risk for less long-run growth.`;
+  }
+}
+
+// Kelly for a two-outcome bet: win +RR with probability W, lose 1R otherwise.
+// f* = W − (1 − W) / RR, as a fraction of equity risked per trade.
+export function calculateKelly(input: KellyInput): KellyResult {
+  const { expectedRR, expectedWinratePct, riskPerTradePct } = input;
+  const fraction = input.fraction ?? DEFAULT_FRACTION;
+
+  if (expectedRR <= 0) {
+    throw new Error("Expected R:R must be greater than 0.");
+  }
+  if (expectedWinratePct < 0 || expectedWinratePct > 100) {
+    throw new Error("Expected winrate percent must be between 0 and 100.");
+  }
+  validateFraction(fraction);
+  validateRisk(riskPerTradePct);
+
+  const winrate = expectedWinratePct / 100;
+  const expectancyR = winrate * expectedRR - (1 - winrate);
+  const kelly = Math.max(0, winrate - (1 - winrate) / expectedRR);
+
+  const fullKellyPct = round2(kelly * 100);
+  const fractionalKellyPct = round2(kelly * fraction * 100);
+  const assessment = assessRisk(riskPerTradePct, fullKellyPct, fractionalKellyPct);
+
+  const notes: string[] = [];
+  notes.push(
+    `Edge: ${expectedWinratePct}% winners at ${expectedRR}R ⇒ ${round2(expectancyR)}R expected per trade.`
+  );
+  if (kelly <= 0) {
+    notes.push("No positive edge — Kelly says risk nothing until the numbers improve.");
+  } else {
+    notes.push(`Full Kelly ${fullKellyPct}%, ${fraction}× Kelly ${fractionalKellyPct}% of equity per trade.`);
+  }
+  const note = assessmentNote(assessment, riskPerTradePct, fullKellyPct, fraction, "Kelly");
+  if (note) notes.push(note);
+
+  return {
+    expectancyR: round4(expectancyR),
+    fullKellyPct,
+    fraction,
+    fractionalKellyPct,
+    riskPerTradePct: riskPerTradePct ?? null,
+    assessment,
+    notes,
+  };
+}
+
+// Mean log holding-period return when risking `r` of equity per 1R
+function meanLogGrowth(rMultiples: number[], r: number): number {
+  let sum = 0;
+  for (const R of rMultiples) {
+    sum += Math.log(1 + r * R);
+  }
+  return sum / rMultiples.length;
+}
+
+// Vince's optimal f over an actual trade sample. Risking r per 1R turns
+// each trade into an HPR of 1 + r·R; the log growth is concave in r, so a
+// golden-section search on (0, 1 / |largest loss|) finds the maximum.
+export function calculateOptimalF(input: OptimalFInput): OptimalFResult {
+  const { rMultiples, riskPerTradePct } = input;
+  const fraction = input.fraction ?? DEFAULT_FRACTION;
+
+  if (!Array.isArray(rMultiples) || rMultiples.length === 0) {
+    throw new Error("R-multiples must contain at least one trade.");
+  }
+  if (rMultiples.length > MAX_SAMPLE) {
+    throw new Error(`R-multiples must contain at most ${MAX_SAMPLE} trades.`);
+  }
+  if (rMultiples.some((r) => typeof r !== "number" || !Number.isFinite(r))) {
+    throw new Error("R-multiples must all be finite numbers.");
+  }
+  validateFraction(fraction);
+  validateRisk(riskPerTradePct);
+
+  const trades = rMultiples.length;
+  const meanR = rMultiples.reduce((a, b) => a + b, 0) / trades;
+  const worst = Math.min(...rMultiples);
+  if (worst >= 0) {
+    throw new Error("R-multiples need at least one losing trade to bound optimal f.");
+  }
+  const largestLossR = -worst;
+
+  let bestR = 0;
+  if (meanR > 0) {
+    // r must stay below 1/|largest loss|, or that trade wipes the account
+    let lo = 0;
+    let hi = (1 / largestLossR) * (1 - 1e-9);
+    const phi = (Math.sqrt(5) - 1) / 2;
+    let x1 = hi - phi * (hi - lo);
+    let x2 = lo + phi * (hi - lo);
+    let g1 = meanLogGrowth(rMultiples, x1);
+    let g2 = meanLogGrowth(rMultiples, x2);
+    for (let i = 0; i < 200 && hi - lo > 1e-10; i++) {
+      if (g1 < g2) {
+        lo = x1;
+        x1 = x2;
+        g1 = g2;
+        x2 = lo + phi * (hi - lo);
+        g2 = meanLogGrowth(rMultiples, x2);
+      } else {
+        hi = x2;
+        x2 = x1;
+        g2 = g1;
+        x1 = hi - phi * (hi - lo);
+        g1 = meanLogGrowth(rMultiples, x1);
+      }
+    }
+    bestR = (lo + hi) / 2;
+  }
+
+  const growth = Math.exp(meanLogGrowth(rMultiples, bestR));
+  const optimalF = bestR * largestLossR;
+  const optimalRiskPct = round2(bestR * 100);
+  const fractionalRiskPct = round2(bestR * fraction * 100);
+  const assessment = assessRisk(riskPerTradePct, optimalRiskPct, fractionalRiskPct);
+
+  const notes: string[] = [];
+  notes.push(
+    `${trades} trades, average ${round2(meanR)}R, largest loss ${round2(largestLossR)}R.`
+  );
+  if (bestR <= 0) {
+    notes.push("Sample expectancy is not positive — optimal f is 0.");
+  } else {
+    notes.push(
+      `Optimal f ${round4(optimalF)} ⇒ risk ${optimalRiskPct}% per 1R; ${fraction}× that is ${fractionalRiskPct}%.`
+    );
+    if (trades < 30) {
+      notes.push("Fewer than 30 trades — treat optimal f as a rough upper bound.");
+    }
+  }
+  const note = assessmentNote(assessment, riskPerTradePct, optimalRiskPct, fraction, "optimal f");
+  if (note) notes.push(note);
+
+  return {
+    trades,
+    meanR: round4(meanR),
+    largestLossR: round4(largestLossR),
+    optimalF: round4(optimalF),
+    optimalRiskPct,
+    fraction,
+    fractionalRiskPct,
+    growthPerTrade: round4(growth),
+    twr: round4(Math.pow(growth, trades)),
+    riskPerTradePct: riskPerTradePct ?? null,
+    assessment,
+    notes,
+  };
+}
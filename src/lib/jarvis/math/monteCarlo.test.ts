@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { runMonteCarlo } from "./monteCarlo";
+
+const base = {
+  startingBalance: 10000,
+  riskPerTradePct: 1,
+  expectedRR: 2,
+  expectedWinratePct: 45,
+  numberOfTrades: 100,
+  simulations: 500,
+  seed: 7,
+};
+
+describe("runMonteCarlo", () => {
+  it("returns the same result for the same seed", () => {
+    expect(runMonteCarlo(base)).toEqual(runMonteCarlo(base));
+    expect(runMonteCarlo({ ...base, seed: 8 }).endingBalance).not.toEqual(runMonteCarlo(base).endingBalance);
+  });
+
+  it("builds one ordered curve point per trade, starting at the balance", () => {
+    const result = runMonteCarlo(base);
+    expect(result.equityCurve).toHaveLength(base.numberOfTrades + 1);
+    expect(result.equityCurve[0]).toEqual({ tradeNumber: 0, p5: 10000, p50: 10000, p95: 10000 });
+    for (const point of result.equityCurve) {
+      expect(point.p5).toBeLessThanOrEqual(point.p50);
+      expect(point.p50).toBeLessThanOrEqual(point.p95);
+    }
+  });
+
+  it("hits the floor on every path when nothing wins and on none when nothing loses", () => {
+    const always = runMonteCarlo({ ...base, expectedWinratePct: 0, balanceFloor: 9999 });
+    expect(always.probabilityOfHittingFloor).toBe(1);
+    const never = runMonteCarlo({ ...base, expectedWinratePct: 100 });
+    expect(never.probabilityOfHittingFloor).toBe(0);
+    expect(never.maxDrawdownPct.worst).toBe(0);
+  });
+
+  it("rejects non-finite and fractional inputs", () => {
+    expect(() => runMonteCarlo({ ...base, expectedRR: NaN })).toThrow(/R:R/);
+    expect(() => runMonteCarlo({ ...base, startingBalance: Infinity })).toThrow(/Starting balance/);
+    expect(() => runMonteCarlo({ ...base, balanceFloor: NaN })).toThrow(/Balance floor/);
+    expect(() => runMonteCarlo({ ...base, numberOfTrades: 2.5 })).toThrow(/whole number/);
+    expect(() => runMonteCarlo({ ...base, simulations: 0 })).toThrow(/Simulations/);
+  });
+
+  it("caps trades × simulations so the equity curve fits in memory", () => {
+    expect(() => runMonteCarlo({ ...base, numberOfTrades: 2000, simulations: 20000 })).toThrow(/at most 2,000,000/);
+    expect(() => runMonteCarlo({ ...base, numberOfTrades: 2000, simulations: 1000 })).not.toThrow();
+  });
+});
@@ -0,0 +1,141 @@
+// /lib/jarvis/math/monteCarlo.ts
+import {
+  MonteCarloCurvePoint,
+  MonteCarloInput,
+  MonteCarloResult,
+} from "./types";
+import { createRng, percentileOfSorted, resolveSeed } from "./rng";
+
+const DEFAULT_SIMULATIONS = 1000;
+const MAX_SIMULATIONS = 20000;
+const MAX_TRADES = 2000;
+// The equity curve keeps every path's balance at every step (8 bytes each)
+const MAX_TRADE_PATHS = 2_000_000;
+
+function round2(value: number): number {
+  return Number(value.toFixed(2));
+}
+
+export function runMonteCarlo(input: MonteCarloInput): MonteCarloResult {
+  const {
+    startingBalance,
+    riskPerTradePct,
+    expectedRR,
+    expectedWinratePct,
+    numberOfTrades,
+  } = input;
+  const simulations = input.simulations ?? DEFAULT_SIMULATIONS;
+  const balanceFloor = input.balanceFloor ?? startingBalance * 0.5;
+
+  if (!Number.isFinite(startingBalance) || startingBalance <= 0) {
+    throw new Error("Starting balance must be greater than 0.");
+  }
+  if (!Number.isFinite(riskPerTradePct) || riskPerTradePct <= 0 || riskPerTradePct >= 100) {
+    throw new Error("Risk per trade percent must be between 0 and 100.");
+  }
+  if (!Number.isFinite(expectedRR) || expectedRR <= 0) {
+    throw new Error("Expected R:R must be greater than 0.");
+  }
+  if (!Number.isFinite(expectedWinratePct) || expectedWinratePct < 0 || expectedWinratePct > 100) {
+    throw new Error("Expected winrate percent must be between 0 and 100.");
+  }
+  if (!Number.isInteger(numberOfTrades) || numberOfTrades <= 0 || numberOfTrades > MAX_TRADES) {
+    throw new Error(`Number of trades must be a whole number between 1 and ${MAX_TRADES}.`);
+  }
+  if (!Number.isInteger(simulations) || simulations <= 0 || simulations > MAX_SIMULATIONS) {
+    throw new Error(`Simulations must be a whole number between 1 and ${MAX_SIMULATIONS}.`);
+  }
+  if (numberOfTrades * simulations > MAX_TRADE_PATHS) {
+    throw new Error(
+      `Number of trades × simulations must be at most ${MAX_TRADE_PATHS.toLocaleString("en-US")} — lower one of them.`
+    );
+  }
+  if (!Number.isFinite(balanceFloor) || balanceFloor < 0 || balanceFloor >= startingBalance) {
+    throw new Error("Balance floor must be between 0 and the starting balance.");
+  }
+
+  const seed = resolveSeed(input.seed);
+  const rng = createRng(seed);
+
+  const winrate = expectedWinratePct / 100;
+  const riskFraction = riskPerTradePct / 100;
+  const steps = numberOfTrades + 1;
+
+  // balances[t * simulations + s] = balance of path s after trade t
+  const balances = new Float64Array(steps * simulations);
+  const endings = new Float64Array(simulations);
+  const drawdowns = new Float64Array(simulations);
+  let floorHits = 0;
+
+  for (let s = 0; s < simulations; s++) {
+    let balance = startingBalance;
+    let peak = startingBalance;
+    let maxDd = 0;
+    let ruined = false;
+
+    balances[s] = balance;
+
+    for (let t = 1; t < steps; t++) {
+      // Once the floor is hit the account is considered blown: the path stops trading.
+      if (!ruined) {
+        const risk = balance * riskFraction;
+        balance = rng() < winrate ? balance + risk * expectedRR : balance - risk;
+
+        if (balance > peak) peak = balance;
+        const dd = (peak - balance) / peak;
+        if (dd > maxDd) maxDd = dd;
+
+        if (balance <= balanceFloor) {
+          ruined = true;
+          floorHits++;
+        }
+      }
+      balances[t * simulations + s] = balance;
+    }
+
+    endings[s] = balance;
+    drawdowns[s] = maxDd * 100;
+  }
+
+  const equityCurve: MonteCarloCurvePoint[] = [];
+  const column = new Float64Array(simulations);
+  for (let t = 0; t < steps; t++) {
+    column.set(balances.subarray(t * simulations, (t + 1) * simulations));
+    column.sort();
+    equityCurve.push({
+      tradeNumber: t,
+      p5: round2(percentileOfSorted(column, 5)),
+      p50: round2(percentileOfSorted(column, 50)),
+      p95: round2(percentileOfSorted(column, 95)),
+    });
+  }
+
+  endings.sort();
+  drawdowns.sort();
+
+  const mean = (values: Float64Array) =>
+    values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  return {
+    startingBalance,
+    numberOfTrades,
+    simulations,
+    seed,
+    equityCurve,
+    endingBalance: {
+      p5: round2(percentileOfSorted(endings, 5)),
+      p50: round2(percentileOfSorted(endings, 50)),
+      p95: round2(percentileOfSorted(endings, 95)),
+      mean: round2(mean(endings)),
+    },
+    maxDrawdownPct: {
+      p5: round2(percentileOfSorted(drawdowns, 5)),
+      p50: round2(percentileOfSorted(drawdowns, 50)),
+      p95: round2(percentileOfSorted(drawdowns, 95)),
+      mean: round2(mean(drawdowns)),
+      worst: round2(drawdowns[drawdowns.length - 1]),
+    },
+    balanceFloor,
+    probabilityOfHittingFloor: floorHits / simulations,
+  };
+}
@@ -0,0 +1,92 @@
+// /lib/jarvis/math/parse.ts
+// Free-form arithmetic text → "percent-of" / "what-percent" / "expression"
+// tasks, run through the same registry as every other MathTask.
+import { MathProvenance, MathTask } from "./types";
+import { runMathTask } from "./engine";
+
+export type ParseAndComputeOptions = {
+  variables?: Record<string, number>; // e.g. { ...variablesFromTradingProfile(p), risk: 1, sl: 20 }
+};
+
+export type ParseAndComputeResult = {
+  ok: boolean;
+  answer: string;
+  details?: any;
+  provenance?: MathProvenance;
+};
+
+// Map text to a task, or null when it isn't deterministic math
+export function parseMathText(text: string, options: ParseAndComputeOptions = {}): MathTask | null {
+  if (!text || typeof text !== "string") return null;
+
+  // Commas are thousands separators, except inside function calls where they split arguments
+  const hasCall = /[a-z_]\s*\(/i.test(text);
+  const cleaned = (hasCall ? text : text.replace(/,/g, "")).trim().toLowerCase();
+
+  // 1) X% of Y
+  const m = cleaned.match(/([0-9]+(?:\.[0-9]+)?)\s*(?:%|percent)\s*(?:of)?\s*([0-9]+(?:\.[0-9]+)?)/i);
+  if (m) {
+    return { type: "percent-of", input: { percent: Number(m[1]), total: Number(m[2]) } };
+  }
+
+  // 2) what percent is A of B
+  const m2 = cleaned.match(/what\s+percent\s+is\s+([0-9]+(?:\.[0-9]+)?)\s+of\s+([0-9]+(?:\.[0-9]+)?)/i);
+  if (m2) {
+    return { type: "what-percent", input: { part: Number(m2[1]), whole: Number(m2[2]) } };
+  }
+
+  // 3) arithmetic expression, optionally with functions and variables
+  const expr = cleaned
+    .replace(/^(?:what\s+is|what's|calculate|calc|compute)\s+/, "")
+    .replace(/\s*[=?]+\s*$/, "");
+  if (/^[0-9a-z_.\s+\-*/^%(),]+$/.test(expr)) {
+    return { type: "expression", input: { expression: expr, variables: options.variables } };
+  }
+
+  return null;
+}
+
+/* parseAndCompute: main entry */
+export function parseAndCompute(
+  text: string,
+  options: ParseAndComputeOptions = {}
+): ParseAndComputeResult {
+  if (!text || typeof text !== "string") return { ok: false, answer: "No text" };
+
+  const task = parseMathText(text, options);
+  if (!task) {
+    return { ok: false, answer: "Could not parse a deterministic math expression from the text." };
+  }
+
+  try {
+    const res = runMathTask(task);
+    switch (res.type) {
+      case "percent-of": {
+        const r = res.result;
+        return {
+          ok: true,
+          answer: `${r.percent}% of ${r.total} = ${r.value}`,
+          details: r,
+          provenance: res.provenance,
+        };
+      }
+      case "what-percent": {
+        const r = res.result;
+        return {
+          ok: true,
+          answer: `${r.part} is ${r.percent}% of ${r.whole}`,
+          details: r,
+          provenance: res.provenance,
+        };
+      }
+      case "expression": {
+        const r = res.result;
+        return { ok: true, answer: String(r.value), details: r, provenance: res.provenance };
+      }
+      default:
+        return { ok: false, answer: "Unexpected math task." };
+    }
+  } catch (e: any) {
+    return { ok: false, answer: e?.message ?? String(e) };
+  }
+}
@@ -4,6 +4,7 @@ import {
   PropFirmPlanInput,
   PropFirmPlanResult,
 } from "./types";
+import { computeDrawdownState } from "./drawdown";
 
 function clamp(value: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, value));
@@ -21,13 +22,18 @@ function estimateLosingStreak(winratePct: number): number {
 }
 
 export function buildPropFirmPlan(input: PropFirmPlanInput): PropFirmPlanResult {
-  const { config, riskPerTradePct, expectedRR, expectedWinratePct, maxTradesPerDay } = input;
+  const {
+    config,
+    riskPerTradePct,
+    expectedRR,
+    expectedWinratePct,
+    maxTradesPerDay,
+    equityHistory,
+  } = input;
   const {
     accountSize,
     currency,
     targetReturnPct,
-    maxDailyDrawdownPct,
-    maxTotalDrawdownPct,
   } = config;
 
   if (accountSize <= 0) {
@@ -37,17 +43,26 @@ export function buildPropFirmPlan(input: PropFirmPlanInput): PropFirmPlanResult
     throw new Error("maxTradesPerDay must be greater than 0.");
   }
 
-  const dailyLossLimitAmount = (accountSize * maxDailyDrawdownPct) / 100;
-  const totalLossLimitAmount = (accountSize * maxTotalDrawdownPct) / 100;
+  const drawdown = computeDrawdownState(config, equityHistory);
+
+  // Breach limits are the room left before each floor under the chosen model.
+  // With no equity history these equal the static % of the starting size.
+  const dailyLossLimitAmount = Math.min(
+    drawdown.remainingDailyAmount,
+    drawdown.remainingTotalAmount
+  );
+  const totalLossLimitAmount = drawdown.remainingTotalAmount;
+  const dailyLossLimitPct = (dailyLossLimitAmount / accountSize) * 100;
+  const totalLossLimitPct = (totalLossLimitAmount / accountSize) * 100;
   const targetProfitAmount = (accountSize * targetReturnPct) / 100;
 
   const estimatedLosingStreak = estimateLosingStreak(expectedWinratePct);
 
   // Max risk per trade from daily rule: assume worst-case all trades are losses
-  const maxRiskPerTradePctByDailyRule = maxDailyDrawdownPct / maxTradesPerDay;
+  const maxRiskPerTradePctByDailyRule = dailyLossLimitPct / maxTradesPerDay;
 
   // Max risk per trade from total rule: assume 1 full losing streak
-  const maxRiskPerTradePctByTotalRule = maxTotalDrawdownPct / estimatedLosingStreak;
+  const maxRiskPerTradePctByTotalRule = totalLossLimitPct / estimatedLosingStreak;
 
   const safeRiskPerTradePct = Math.min(
     maxRiskPerTradePctByDailyRule,
@@ -64,10 +79,23 @@ export function buildPropFirmPlan(input: PropFirmPlanInput): PropFirmPlanResult
     `Target profit: ${targetReturnPct}% → ${targetProfitAmount.toFixed(2)} ${currency}`
   );
   notes.push(
-    `Max daily drawdown: ${maxDailyDrawdownPct}% → ${dailyLossLimitAmount.toFixed(2)} ${currency}`
+    `Drawdown model: ${drawdown.model} (daily reset ${drawdown.timeZone})`
+  );
+  if (drawdown.model !== "static") {
+    notes.push(
+      `High-water mark: ${drawdown.highWaterMark.toFixed(2)} ${currency}` +
+        (drawdown.locked ? " (floor locked at starting balance)" : "")
+    );
+  }
+  notes.push(
+    `Daily breach level: ${drawdown.dailyFloor.toFixed(2)} ${currency} → room ${dailyLossLimitAmount.toFixed(
+      2
+    )} ${currency} (${dailyLossLimitPct.toFixed(2)}%)`
   );
   notes.push(
-    `Max total drawdown: ${maxTotalDrawdownPct}% → ${totalLossLimitAmount.toFixed(2)} ${currency}`
+    `Total breach level: ${drawdown.totalFloor.toFixed(2)} ${currency} → room ${totalLossLimitAmount.toFixed(
+      2
+    )} ${currency} (${totalLossLimitPct.toFixed(2)}%)`
   );
   notes.push(
     `Estimated worst losing streak (95% confidence, 100 trades): ~${estimatedLosingStreak} trades in a row`
@@ -90,9 +118,9 @@ export function buildPropFirmPlan(input: PropFirmPlanInput): PropFirmPlanResult
   );
 
   return {
-    dailyLossLimitPct: maxDailyDrawdownPct,
+    dailyLossLimitPct,
     dailyLossLimitAmount,
-    totalLossLimitPct: maxTotalDrawdownPct,
+    totalLossLimitPct,
     totalLossLimitAmount,
     targetProfitPct: targetReturnPct,
     targetProfitAmount,
@@ -100,6 +128,7 @@ export function buildPropFirmPlan(input: PropFirmPlanInput): PropFirmPlanResult
     maxRiskPerTradePctByTotalRule,
     safeRiskPerTradePct,
     estimatedLosingStreak,
+    drawdown,
     notes,
   };
 }
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { simulatePropFirmPassProbability } from "./propFirmSimulation";
+import type { PropFirmPassProbabilityInput } from "./types";
+
+const base: PropFirmPassProbabilityInput = {
+  config: {
+    accountSize: 100000,
+    currency: "USD",
+    targetReturnPct: 8,
+    maxDailyDrawdownPct: 5,
+    maxTotalDrawdownPct: 10,
+    maxTradingDays: 30,
+  },
+  riskPerTradePct: 1,
+  expectedRR: 2,
+  expectedWinratePct: 45,
+  maxTradesPerDay: 3,
+  simulations: 500,
+  seed: 11,
+};
+
+describe("simulatePropFirmPassProbability", () => {
+  it("returns the same result for the same seed, with outcomes adding up to 1", () => {
+    const result = simulatePropFirmPassProbability(base);
+    expect(result).toEqual(simulatePropFirmPassProbability(base));
+    const total =
+      result.passProbability + result.failDailyProbability + result.failTotalProbability + result.timeoutProbability;
+    expect(total).toBeCloseTo(1, 3);
+  });
+
+  it("rejects non-finite and fractional inputs", () => {
+    expect(() => simulatePropFirmPassProbability({ ...base, riskPerTradePct: NaN })).toThrow(/Risk per trade/);
+    expect(() => simulatePropFirmPassProbability({ ...base, expectedRR: Infinity })).toThrow(/R:R/);
+    expect(() => simulatePropFirmPassProbability({ ...base, maxTradesPerDay: 2.5 })).toThrow(/maxTradesPerDay/);
+    expect(() => simulatePropFirmPassProbability({ ...base, simulations: 10.5 })).toThrow(/Simulations/);
+    expect(() =>
+      simulatePropFirmPassProbability({ ...base, config: { ...base.config, targetReturnPct: NaN } })
+    ).toThrow(/Target return/);
+    expect(() =>
+      simulatePropFirmPassProbability({ ...base, config: { ...base.config, maxTradingDays: 100000 } })
+    ).toThrow(/maxTradingDays/);
+  });
+
+  it("caps simulations × days × trades so one request can't hang the server", () => {
+    expect(() =>
+      simulatePropFirmPassProbability({
+        ...base,
+        config: { ...base.config, maxTradingDays: 365 },
+        maxTradesPerDay: 100,
+        simulations: 20000,
+      })
+    ).toThrow(/at most 20,000,000/);
+  });
+});
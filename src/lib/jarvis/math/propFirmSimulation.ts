@@ -0,0 +1,248 @@
+// /lib/jarvis/math/propFirmSimulation.ts
+import {
+  PropFirmConfig,
+  PropFirmPassProbabilityInput,
+  PropFirmPassProbabilityResult,
+  PropFirmPhaseOutcome,
+} from "./types";
+import { createRng, resolveSeed, Rng } from "./rng";
+
+const DEFAULT_SIMULATIONS = 2000;
+const MAX_SIMULATIONS = 20000;
+const DEFAULT_MAX_TRADING_DAYS = 30;
+const MAX_TRADING_DAYS = 365;
+const MAX_TRADES_PER_DAY = 100;
+// Worst case the loop runs simulations × trading days × trades per day
+const MAX_TRADE_PATHS = 20_000_000;
+
+type PhaseOutcome = "pass" | "fail-daily" | "fail-total" | "timeout";
+
+interface PhaseRun {
+  outcome: PhaseOutcome;
+  days: number;
+}
+
+interface PhaseParams {
+  riskPerTradePct: number;
+  expectedRR: number;
+  winrate: number;
+  maxTradesPerDay: number;
+}
+
+function round4(value: number): number {
+  return Number(value.toFixed(4));
+}
+
+function validatePhase(config: PropFirmConfig) {
+  if (!Number.isFinite(config.accountSize) || config.accountSize <= 0) {
+    throw new Error("Account size must be greater than 0.");
+  }
+  if (!Number.isFinite(config.targetReturnPct) || config.targetReturnPct <= 0) {
+    throw new Error("Target return percent must be greater than 0.");
+  }
+  if (
+    !Number.isFinite(config.maxDailyDrawdownPct) ||
+    !Number.isFinite(config.maxTotalDrawdownPct) ||
+    config.maxDailyDrawdownPct <= 0 ||
+    config.maxTotalDrawdownPct <= 0
+  ) {
+    throw new Error("Drawdown limits must be greater than 0.");
+  }
+  const minDays = config.minTradingDays ?? 0;
+  const maxDays = config.maxTradingDays ?? DEFAULT_MAX_TRADING_DAYS;
+  if (!Number.isInteger(minDays) || minDays < 0) {
+    throw new Error("minTradingDays must be a whole number of at least 0.");
+  }
+  if (!Number.isInteger(maxDays) || maxDays <= 0 || maxDays > MAX_TRADING_DAYS) {
+    throw new Error(`maxTradingDays must be a whole number between 1 and ${MAX_TRADING_DAYS}.`);
+  }
+  if (maxDays < minDays) {
+    throw new Error("maxTradingDays must be at least minTradingDays.");
+  }
+}
+
+/**
+ * Simulate one phase day by day. Risk is a fixed % of the phase's account
+ * size. The trader stops taking risk once the target is reached, but keeps
+ * logging (risk-free) days until minTradingDays is satisfied. The total
+ * floor follows the config's drawdown model.
+ */
+function simulatePhase(config: PropFirmConfig, params: PhaseParams, rng: Rng): PhaseRun {
+  const { accountSize, targetReturnPct, maxDailyDrawdownPct, maxTotalDrawdownPct } = config;
+  const minDays = config.minTradingDays ?? 0;
+  const maxDays = config.maxTradingDays ?? DEFAULT_MAX_TRADING_DAYS;
+
+  const riskAmount = (accountSize * params.riskPerTradePct) / 100;
+  const targetBalance = accountSize * (1 + targetReturnPct / 100);
+  const totalLimit = (accountSize * maxTotalDrawdownPct) / 100;
+  const dailyLimit = (accountSize * maxDailyDrawdownPct) / 100;
+  const model = config.drawdownModel ?? "static";
+
+  let balance = accountSize;
+  let intradayPeak = accountSize;
+  let eodPeak = accountSize;
+
+  const totalFloor = () => {
+    switch (model) {
+      case "trailing-intraday":
+        return intradayPeak - totalLimit;
+      case "trailing-eod":
+        return eodPeak - totalLimit;
+      case "trailing-until-breakeven-lock":
+        return Math.min(intradayPeak - totalLimit, accountSize);
+      default:
+        return accountSize - totalLimit;
+    }
+  };
+
+  for (let day = 1; day <= maxDays; day++) {
+    if (balance >= targetBalance) {
+      if (day >= minDays) return { outcome: "pass", days: day };
+      continue;
+    }
+
+    const dayFloor = balance - dailyLimit;
+
+    for (let t = 0; t < params.maxTradesPerDay; t++) {
+      if (rng() < params.winrate) {
+        balance += riskAmount * params.expectedRR;
+      } else {
+        balance -= riskAmount;
+      }
+
+      if (balance > intradayPeak) intradayPeak = balance;
+
+      if (balance <= totalFloor()) return { outcome: "fail-total", days: day };
+      if (balance <= dayFloor) return { outcome: "fail-daily", days: day };
+      if (balance >= targetBalance) break;
+    }
+
+    if (balance > eodPeak) eodPeak = balance;
+
+    if (balance >= targetBalance && day >= minDays) {
+      return { outcome: "pass", days: day };
+    }
+  }
+
+  return { outcome: "timeout", days: maxDays };
+}
+
+function emptyCounts() {
+  return { attempts: 0, pass: 0, "fail-daily": 0, "fail-total": 0, timeout: 0, passDays: 0 };
+}
+
+export function simulatePropFirmPassProbability(
+  input: PropFirmPassProbabilityInput
+): PropFirmPassProbabilityResult {
+  const { riskPerTradePct, expectedRR, expectedWinratePct, maxTradesPerDay } = input;
+  const simulations = input.simulations ?? DEFAULT_SIMULATIONS;
+
+  const phases = (input.phases && input.phases.length ? input.phases : [input.config])
+    .slice()
+    .sort((a, b) => (a.phase ?? 1) - (b.phase ?? 1));
+
+  if (!Number.isFinite(riskPerTradePct) || riskPerTradePct <= 0) {
+    throw new Error("Risk per trade percent must be greater than 0.");
+  }
+  if (!Number.isFinite(expectedRR) || expectedRR <= 0) {
+    throw new Error("Expected R:R must be greater than 0.");
+  }
+  if (!Number.isFinite(expectedWinratePct) || expectedWinratePct < 0 || expectedWinratePct > 100) {
+    throw new Error("Expected winrate percent must be between 0 and 100.");
+  }
+  if (!Number.isInteger(maxTradesPerDay) || maxTradesPerDay <= 0 || maxTradesPerDay > MAX_TRADES_PER_DAY) {
+    throw new Error(`maxTradesPerDay must be a whole number between 1 and ${MAX_TRADES_PER_DAY}.`);
+  }
+  if (!Number.isInteger(simulations) || simulations <= 0 || simulations > MAX_SIMULATIONS) {
+    throw new Error(`Simulations must be a whole number between 1 and ${MAX_SIMULATIONS}.`);
+  }
+  phases.forEach(validatePhase);
+  const tradingDays = phases.reduce((sum, p) => sum + (p.maxTradingDays ?? DEFAULT_MAX_TRADING_DAYS), 0);
+  if (simulations * tradingDays * maxTradesPerDay > MAX_TRADE_PATHS) {
+    throw new Error(
+      `Simulations × trading days × trades per day must be at most ${MAX_TRADE_PATHS.toLocaleString("en-US")} — lower one of them.`
+    );
+  }
+
+  const seed = resolveSeed(input.seed);
+  const rng = createRng(seed);
+  const params: PhaseParams = {
+    riskPerTradePct,
+    expectedRR,
+    winrate: expectedWinratePct / 100,
+    maxTradesPerDay,
+  };
+
+  const perPhase = phases.map(() => emptyCounts());
+  const overall = { pass: 0, "fail-daily": 0, "fail-total": 0, timeout: 0, passDays: 0 };
+
+  for (let s = 0; s < simulations; s++) {
+    let totalDays = 0;
+    let final: PhaseOutcome = "pass";
+
+    for (let i = 0; i < phases.length; i++) {
+      const run = simulatePhase(phases[i], params, rng);
+      const counts = perPhase[i];
+      counts.attempts++;
+      counts[run.outcome]++;
+      totalDays += run.days;
+
+      if (run.outcome !== "pass") {
+        final = run.outcome;
+        break;
+      }
+      counts.passDays += run.days;
+    }
+
+    overall[final]++;
+    if (final === "pass") overall.passDays += totalDays;
+  }
+
+  const phaseOutcomes: PropFirmPhaseOutcome[] = phases.map((config, i) => {
+    const c = perPhase[i];
+    const share = (n: number) => (c.attempts ? round4(n / c.attempts) : 0);
+    return {
+      phase: config.phase ?? i + 1,
+      attempts: c.attempts,
+      passProbability: share(c.pass),
+      failDailyProbability: share(c["fail-daily"]),
+      failTotalProbability: share(c["fail-total"]),
+      timeoutProbability: share(c.timeout),
+      expectedDaysToPass: c.pass ? Number((c.passDays / c.pass).toFixed(1)) : null,
+    };
+  });
+
+  const result: PropFirmPassProbabilityResult = {
+    simulations,
+    seed,
+    passProbability: round4(overall.pass / simulations),
+    failDailyProbability: round4(overall["fail-daily"] / simulations),
+    failTotalProbability: round4(overall["fail-total"] / simulations),
+    timeoutProbability: round4(overall.timeout / simulations),
+    expectedDaysToPass: overall.pass
+      ? Number((overall.passDays / overall.pass).toFixed(1))
+      : null,
+    phases: phaseOutcomes,
+    notes: [],
+  };
+
+  const pct = (p: number) => `${(p * 100).toFixed(1)}%`;
+  result.notes.push(
+    `Simulated ${simulations} challenge attempts (${phases.length} phase${
+      phases.length > 1 ? "s" : ""
+    }), seed ${seed}.`
+  );
+  result.notes.push(
+    `Risk ${riskPerTradePct}% per trade, R:R ${expectedRR}, winrate ${expectedWinratePct}%, up to ${maxTradesPerDay} trades/day.`
+  );
+  for (const p of phaseOutcomes) {
+    result.notes.push(
+      `Phase ${p.phase}: pass ${pct(p.passProbability)}, daily breach ${pct(
+        p.failDailyProbability
+      )}, total breach ${pct(p.failTotalProbability)}, timeout ${pct(p.timeoutProbability)}` +
+        (p.expectedDaysToPass != null ? `, ~${p.expectedDaysToPass} days when passing.` : ".")
+    );
+  }
+
+  return result;
+}
@@ -0,0 +1,51 @@
+// /lib/jarvis/math/provenance.ts
+import { MathProvenance, MathTask } from "./types";
+
+export const MATH_ENGINE_NAME = "jarvis-math";
+// Bump when any task's formula or defaults change, so quoted answers can be traced.
+export const MATH_ENGINE_VERSION = "1.0.0";
+
+// JSON with sorted keys and no undefined fields, so equal inputs hash equally.
+function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value) ?? "null";
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter((k) => (value as Record<string, unknown>)[k] !== undefined)
+    .sort()
+    .map((k) => `${JSON.stringify(k)}:${canonicalJson((value as Record<string, unknown>)[k])}`);
+  return `{${entries.join(",")}}`;
+}
+
+// FNV-1a 64-bit; sync and edge-safe (no crypto module needed).
+function fnv1a64(text: string): string {
+  let hash = 0xcbf29ce484222325n;
+  const prime = 0x100000001b3n;
+  const mask = 0xffffffffffffffffn;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= BigInt(text.charCodeAt(i));
+    hash = (hash * prime) & mask;
+  }
+  return hash.toString(16).padStart(16, "0");
+}
+
+export function hashMathTask(task: MathTask): string {
+  return fnv1a64(canonicalJson({ type: task.type, input: task.input }));
+}
+
+export function buildProvenance(task: MathTask): MathProvenance {
+  return {
+    engine: MATH_ENGINE_NAME,
+    version: MATH_ENGINE_VERSION,
+    taskType: task.type,
+    inputHash: hashMathTask(task),
+  };
+}
+
+// Short tag appended to answers quoted in chat, e.g. "[jarvis-math v1.0.0 · position-size #3f9a1c02]"
+export function formatProvenance(p: MathProvenance): string {
+  return `[${p.engine} v${p.version} · ${p.taskType} #${p.inputHash.slice(0, 8)}]`;
+}
@@ -2,7 +2,7 @@
 import { PositionSizeInput, PositionSizeResult } from "./types";
 
 export function calculatePositionSize(input: PositionSizeInput): PositionSizeResult {
-  const { accountSize, riskPercent, stopLossPoints, valuePerPoint } = input;
+  const { accountSize, riskPercent, stopLossPoints, valuePerPoint, stopUnit = "point" } = input;
 
   if (accountSize <= 0) {
     throw new Error("Account size must be greater than 0.");
@@ -26,5 +26,6 @@ export function calculatePositionSize(input: PositionSizeInput): PositionSizeRes
     riskPercent,
     stopLossPoints,
     valuePerPoint,
+    stopUnit,
   };
 }
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { calculateRiskOfRuin } from "./riskOfRuin";
+import type { RiskOfRuinInput } from "./types";
+
+const base: RiskOfRuinInput = {
+  riskPerTradePct: 1,
+  expectedRR: 2,
+  expectedWinratePct: 50,
+  drawdownFloorPct: 10,
+};
+
+describe("calculateRiskOfRuin", () => {
+  it("applies the diffusion approximation to fixed sizing", () => {
+    const result = calculateRiskOfRuin({ ...base, sizing: "fixed" });
+    // drift 0.005, variance 0.000225, barrier 0.1
+    expect(result.riskOfRuin).toBeCloseTo(Math.exp(-40 / 9), 4);
+    expect(result.lossesToFloor).toBe(10);
+    expect(result.expectancyR).toBe(0.5);
+  });
+
+  it("walks fixed-fractional sizing in log-equity", () => {
+    const result = calculateRiskOfRuin(base);
+    expect(result.sizing).toBe("fixed-fractional");
+    // Each loss takes 1% of what's left, so ten of them don't reach -10%
+    expect(result.lossesToFloor).toBe(11);
+    expect(result.riskOfRuin).toBeGreaterThan(0);
+    expect(result.riskOfRuin).toBeLessThan(0.05);
+  });
+
+  it("is certain ruin without an edge", () => {
+    const result = calculateRiskOfRuin({ ...base, expectedRR: 1, expectedWinratePct: 40 });
+    expect(result.riskOfRuin).toBe(1);
+    expect(result.notes).toContain("No positive edge — the floor is reached eventually at any risk.");
+  });
+
+  it("is certain ruin when volatility drag eats a small edge", () => {
+    const result = calculateRiskOfRuin({ ...base, riskPerTradePct: 50, expectedRR: 1.1 });
+    expect(result.expectancyR).toBe(0.05);
+    expect(result.riskOfRuin).toBe(1);
+    expect(result.notes.join(" ")).toMatch(/volatility drag cancels the edge/);
+  });
+
+  it("is zero when no trade loses", () => {
+    expect(calculateRiskOfRuin({ ...base, expectedWinratePct: 100 }).riskOfRuin).toBe(0);
+  });
+
+  it("rejects out-of-range inputs", () => {
+    expect(() => calculateRiskOfRuin({ ...base, riskPerTradePct: 0 })).toThrow(/Risk per trade/);
+    expect(() => calculateRiskOfRuin({ ...base, expectedRR: -1 })).toThrow(/R:R/);
+    expect(() => calculateRiskOfRuin({ ...base, expectedWinratePct: -5 })).toThrow(/winrate/);
+    expect(() => calculateRiskOfRuin({ ...base, drawdownFloorPct: 100 })).toThrow(/Drawdown floor/);
+    expect(() => calculateRiskOfRuin({ ...base, sizing: "martingale" as any })).toThrow(/Unknown sizing/);
+  });
+});
@@ -0,0 +1,94 @@
+// /lib/jarvis/math/riskOfRuin.ts
+import { RiskOfRuinInput, RiskOfRuinResult } from "./types";
+
+function round2(value: number): number {
+  return Number(value.toFixed(2));
+}
+
+function round4(value: number): number {
+  return Number(value.toFixed(4));
+}
+
+// Analytical risk of ruin via the diffusion (Brownian) approximation:
+// a random walk with drift μ and variance σ² per step reaches a barrier
+// D below the start with probability exp(−2μD / σ²), or 1 when μ ≤ 0.
+// Fixed sizing walks in % of the starting balance; fixed-fractional
+// sizing walks in log-equity, so the barrier is −ln(1 − floor).
+export function calculateRiskOfRuin(input: RiskOfRuinInput): RiskOfRuinResult {
+  const { riskPerTradePct, expectedRR, expectedWinratePct, drawdownFloorPct } = input;
+  const sizing = input.sizing ?? "fixed-fractional";
+
+  if (riskPerTradePct <= 0 || riskPerTradePct >= 100) {
+    throw new Error("Risk per trade percent must be between 0 and 100.");
+  }
+  if (expectedRR <= 0) {
+    throw new Error("Expected R:R must be greater than 0.");
+  }
+  if (expectedWinratePct < 0 || expectedWinratePct > 100) {
+    throw new Error("Expected winrate percent must be between 0 and 100.");
+  }
+  if (drawdownFloorPct <= 0 || drawdownFloorPct >= 100) {
+    throw new Error("Drawdown floor percent must be between 0 and 100.");
+  }
+  if (sizing !== "fixed" && sizing !== "fixed-fractional") {
+    throw new Error(`Unknown sizing: ${String(sizing)}`);
+  }
+
+  const p = expectedWinratePct / 100;
+  const q = 1 - p;
+  const r = riskPerTradePct / 100;
+  const d = drawdownFloorPct / 100;
+  const expectancyR = p * expectedRR - q;
+
+  let winStep: number;
+  let lossStep: number;
+  let barrier: number;
+  let lossesToFloor: number;
+  if (sizing === "fixed") {
+    winStep = r * expectedRR;
+    lossStep = -r;
+    barrier = d;
+    lossesToFloor = Math.ceil(d / r - 1e-9);
+  } else {
+    winStep = Math.log(1 + r * expectedRR);
+    lossStep = Math.log(1 - r);
+    barrier = -Math.log(1 - d);
+    lossesToFloor = Math.ceil(barrier / -lossStep - 1e-9);
+  }
+
+  const mean = p * winStep + q * lossStep;
+  const variance = p * winStep * winStep + q * lossStep * lossStep - mean * mean;
+
+  let riskOfRuin: number;
+  if (mean <= 0 || variance <= 0) {
+    // No drift (or a sure loss): the floor is reached eventually
+    riskOfRuin = mean > 0 ? 0 : 1;
+  } else {
+    riskOfRuin = Math.min(1, Math.exp((-2 * mean * barrier) / variance));
+  }
+
+  const notes: string[] = [];
+  notes.push(
+    `Edge: ${expectedWinratePct}% winners at ${expectedRR}R ⇒ ${round2(expectancyR)}R expected per trade.`
+  );
+  notes.push(
+    `${riskPerTradePct}% risk (${sizing}) reaches the −${drawdownFloorPct}% floor after ${lossesToFloor} straight losses.`
+  );
+  if (mean <= 0) {
+    notes.push(
+      expectancyR > 0
+        ? "Risk is so large that volatility drag cancels the edge — ruin is certain over enough trades."
+        : "No positive edge — the floor is reached eventually at any risk."
+    );
+  } else {
+    notes.push(`Chance of ever hitting the floor: ${round2(riskOfRuin * 100)}% (diffusion approximation).`);
+  }
+
+  return {
+    riskOfRuin: round4(riskOfRuin),
+    expectancyR: round4(expectancyR),
+    lossesToFloor,
+    sizing,
+    notes,
+  };
+}
@@ -0,0 +1,50 @@
+// /lib/jarvis/math/riskReward.ts
+import { RiskRewardInput, RiskRewardResult } from "./types";
+
+function round2(value: number): number {
+  return Number(value.toFixed(2));
+}
+
+function roundPrice(value: number): number {
+  return Number(value.toFixed(6));
+}
+
+// Planned reward:risk from entry, stop and target prices. The stop and the
+// target must sit on opposite sides of the entry, matching the direction.
+export function calculateRiskReward(input: RiskRewardInput): RiskRewardResult {
+  const { entryPrice, stopPrice, targetPrice } = input;
+
+  if (!(entryPrice > 0) || !(stopPrice > 0) || !(targetPrice > 0)) {
+    throw new Error("Entry, stop and target prices must be greater than 0.");
+  }
+  if (entryPrice === stopPrice) {
+    throw new Error("Stop price must differ from the entry price.");
+  }
+
+  const direction = input.direction ?? (stopPrice < entryPrice ? "long" : "short");
+  if (direction !== "long" && direction !== "short") {
+    throw new Error(`Unknown direction: ${String(direction)}`);
+  }
+
+  const sign = direction === "long" ? 1 : -1;
+  const riskDistance = (entryPrice - stopPrice) * sign;
+  const rewardDistance = (targetPrice - entryPrice) * sign;
+
+  if (riskDistance <= 0) {
+    throw new Error(`Stop must be ${direction === "long" ? "below" : "above"} the entry for a ${direction}.`);
+  }
+  if (rewardDistance <= 0) {
+    throw new Error(`Target must be ${direction === "long" ? "above" : "below"} the entry for a ${direction}.`);
+  }
+
+  const rr = rewardDistance / riskDistance;
+
+  return {
+    direction,
+    riskDistance: roundPrice(riskDistance),
+    rewardDistance: roundPrice(rewardDistance),
+    rr: round2(rr),
+    stopPct: Number(((riskDistance / entryPrice) * 100).toFixed(4)),
+    breakevenWinratePct: round2(100 / (1 + rr)),
+  };
+}
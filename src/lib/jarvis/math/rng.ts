@@ -0,0 +1,39 @@
+// /lib/jarvis/math/rng.ts
+
+export type Rng = () => number;
+
+/**
+ * Small seedable PRNG (mulberry32). Same seed → same sequence, so
+ * simulation answers quoted in chat can be reproduced exactly.
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return function next() {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function resolveSeed(seed?: number): number {
+  if (typeof seed === "number" && Number.isFinite(seed)) {
+    return Math.floor(seed) >>> 0;
+  }
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Linear-interpolated percentile of an already sorted array.
+ * p is 0..100.
+ */
+export function percentileOfSorted(sorted: ArrayLike<number>, p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  if (lo === hi) return sorted[lo];
+  const weight = rank - lo;
+  return sorted[lo] * (1 - weight) + sorted[hi] * weight;
+}
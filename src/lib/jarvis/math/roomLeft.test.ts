@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { calculateRoomLeft } from "./roomLeft";
+import type { PropFirmConfig, RoomLeftInput } from "./types";
+
+const config: PropFirmConfig = {
+  accountSize: 100000,
+  currency: "USD",
+  targetReturnPct: 8,
+  maxDailyDrawdownPct: 5,
+  maxTotalDrawdownPct: 10,
+};
+
+const base: RoomLeftInput = { config, startOfDayBalance: 100000, currentEquity: 98500, openRisk: 500 };
+
+describe("calculateRoomLeft", () => {
+  it("takes open risk off the daily and overall room", () => {
+    const result = calculateRoomLeft(base);
+    expect(result.remainingTodayAmount).toBe(3000);
+    expect(result.remainingOverallAmount).toBe(8000);
+    expect(result.maxRiskNextTradeAmount).toBe(3000);
+    expect(result.maxRiskNextTradePct).toBe(3);
+    expect(result.nextTrade).toBeNull();
+  });
+
+  it("uses the intended risk when it fits and caps it when it doesn't", () => {
+    expect(calculateRoomLeft({ ...base, riskPercent: 1 }).maxRiskNextTradeAmount).toBe(1000);
+    const capped = calculateRoomLeft({ ...base, riskPercent: 5 });
+    expect(capped.maxRiskNextTradePct).toBe(3);
+    expect(capped.notes.join(" ")).toMatch(/Intended 5% risk exceeds today's room; capped at 3.00%/);
+  });
+
+  it("sizes the next trade from the capped risk", () => {
+    const result = calculateRoomLeft({ ...base, stopLossPoints: 20, valuePerPoint: 10 });
+    expect(result.nextTrade?.positionSize).toBe(15);
+  });
+
+  it("reports no room once the daily floor is reached", () => {
+    const result = calculateRoomLeft({
+      ...base,
+      currentEquity: 95000,
+      openRisk: 0,
+      stopLossPoints: 20,
+      valuePerPoint: 10,
+    });
+    expect(result.remainingTodayAmount).toBe(0);
+    expect(result.nextTrade).toBeNull();
+    expect(result.notes).toContain("No room left today — a further loss breaches the rules.");
+  });
+
+  it("trails the total floor from the high-water mark", () => {
+    const result = calculateRoomLeft({
+      config: { ...config, drawdownModel: "trailing-intraday" },
+      startOfDayBalance: 100000,
+      currentEquity: 97000,
+      highWaterMark: 106000,
+    });
+    expect(result.drawdown.totalFloor).toBe(96000);
+    expect(result.remainingTodayAmount).toBe(1000);
+  });
+
+  it("rejects impossible inputs", () => {
+    expect(() => calculateRoomLeft({ ...base, config: { ...config, accountSize: 0 } })).toThrow(/Account size/);
+    expect(() => calculateRoomLeft({ ...base, startOfDayBalance: 0 })).toThrow(/Start-of-day/);
+    expect(() => calculateRoomLeft({ ...base, currentEquity: -1 })).toThrow(/negative/);
+    expect(() => calculateRoomLeft({ ...base, openRisk: -1 })).toThrow(/Open risk/);
+    expect(() => calculateRoomLeft({ ...base, riskPercent: 0 })).toThrow(/Risk percent/);
+  });
+});
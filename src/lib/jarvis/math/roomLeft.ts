@@ -0,0 +1,99 @@
+// /lib/jarvis/math/roomLeft.ts
+import { RoomLeftInput, RoomLeftResult, PositionSizeResult } from "./types";
+import { computeDrawdownFloors } from "./drawdown";
+import { calculatePositionSize } from "./risk";
+
+export function calculateRoomLeft(input: RoomLeftInput): RoomLeftResult {
+  const { config, startOfDayBalance, currentEquity, riskPercent } = input;
+  const { accountSize, currency } = config;
+  const openRisk = input.openRisk ?? 0;
+
+  if (accountSize <= 0) {
+    throw new Error("Account size must be greater than 0.");
+  }
+  if (startOfDayBalance <= 0) {
+    throw new Error("Start-of-day balance must be greater than 0.");
+  }
+  if (currentEquity < 0) {
+    throw new Error("Current equity cannot be negative.");
+  }
+  if (openRisk < 0) {
+    throw new Error("Open risk cannot be negative.");
+  }
+  if (riskPercent != null && riskPercent <= 0) {
+    throw new Error("Risk percent must be greater than 0.");
+  }
+
+  // Without an explicit peak, assume today's numbers are the best the account has seen.
+  const drawdown = computeDrawdownFloors(config, {
+    dayStartBalance: startOfDayBalance,
+    currentEquity,
+    intradayPeak: input.highWaterMark ?? Math.max(startOfDayBalance, currentEquity),
+    eodPeak: input.highWaterMark ?? startOfDayBalance,
+  });
+
+  const remainingTodayAmount = Math.max(
+    0,
+    Math.min(drawdown.remainingDailyAmount, drawdown.remainingTotalAmount) - openRisk
+  );
+  const remainingOverallAmount = Math.max(0, drawdown.remainingTotalAmount - openRisk);
+
+  const maxRiskNextTradeAmount =
+    riskPercent != null
+      ? Math.min(remainingTodayAmount, (accountSize * riskPercent) / 100)
+      : remainingTodayAmount;
+  const maxRiskNextTradePct = (maxRiskNextTradeAmount / accountSize) * 100;
+
+  let nextTrade: PositionSizeResult | null = null;
+  if (input.stopLossPoints && input.valuePerPoint && maxRiskNextTradeAmount > 0) {
+    nextTrade = calculatePositionSize({
+      accountSize,
+      riskPercent: maxRiskNextTradePct,
+      stopLossPoints: input.stopLossPoints,
+      valuePerPoint: input.valuePerPoint,
+    });
+  }
+
+  const notes: string[] = [];
+  notes.push(
+    `Equity ${currentEquity.toFixed(2)} ${currency}, day started at ${startOfDayBalance.toFixed(
+      2
+    )} ${currency} (${drawdown.model} drawdown).`
+  );
+  notes.push(
+    `Daily breach at ${drawdown.dailyFloor.toFixed(2)}, total breach at ${drawdown.totalFloor.toFixed(
+      2
+    )} ${currency}.`
+  );
+  if (openRisk > 0) {
+    notes.push(`Open risk of ${openRisk.toFixed(2)} ${currency} already counted against the room.`);
+  }
+  notes.push(
+    `Room left today: ${remainingTodayAmount.toFixed(2)} ${currency}; overall: ${remainingOverallAmount.toFixed(
+      2
+    )} ${currency}.`
+  );
+  if (remainingTodayAmount <= 0) {
+    notes.push("No room left today — a further loss breaches the rules.");
+  } else if (riskPercent != null && maxRiskNextTradeAmount < (accountSize * riskPercent) / 100) {
+    notes.push(
+      `Intended ${riskPercent}% risk exceeds today's room; capped at ${maxRiskNextTradePct.toFixed(2)}%.`
+    );
+  }
+  if (nextTrade) {
+    notes.push(
+      `Max size for a ${nextTrade.stopLossPoints}-point stop: ${nextTrade.positionSize.toFixed(3)} lots.`
+    );
+  }
+
+  return {
+    drawdown,
+    openRisk,
+    remainingTodayAmount,
+    remainingOverallAmount,
+    maxRiskNextTradeAmount,
+    maxRiskNextTradePct,
+    nextTrade,
+    notes,
+  };
+}
@@ -15,14 +15,97 @@ export interface PositionSizeInput {
   riskPercent: number;        // % of account per trade (e.g. 1)
   stopLossPoints: number;     // pips / points
   valuePerPoint: number;      // money per pip/point per 1 lot or 1 unit
+  stopUnit?: StopUnit;        // what stopLossPoints counts, for the answer text; default "point"
 }
 
+export type StopUnit = "pip" | "point" | "tick";
+
 export interface PositionSizeResult {
   riskAmount: number;
   positionSize: number;
   riskPercent: number;
   stopLossPoints: number;
   valuePerPoint: number;
+  stopUnit: StopUnit;
+}
+
+export interface RiskRewardInput {
+  entryPrice: number;
+  stopPrice: number;
+  targetPrice: number;
+  direction?: "long" | "short";   // default: inferred from the stop side
+}
+
+export interface RiskRewardResult {
+  direction: "long" | "short";
+  riskDistance: number;           // price units, entry → stop
+  rewardDistance: number;         // price units, entry → target
+  rr: number;                     // reward / risk
+  stopPct: number;                // stop distance as % of entry
+  breakevenWinratePct: number;    // winrate needed to break even at this RR
+}
+
+export interface FxRateTable {
+  base: Currency;                 // e.g. "USD"
+  rates: Record<Currency, number>; // 1 base = rates[CCY], e.g. { JPY: 150.2, EUR: 0.92 }
+  asOf?: string;                  // date the rates were taken (YYYY-MM-DD)
+}
+
+export interface CurrencyDisplay {
+  accountCurrency: Currency;      // currency the account / amounts are in
+  homeCurrency?: Currency;        // shown alongside, e.g. "INR"
+  fxRates?: FxRateTable;          // default: the locally stored table
+}
+
+export type InstrumentClass = "fx" | "metal" | "index" | "future";
+
+export interface InstrumentSpec {
+  symbol: string;                 // canonical symbol, e.g. "EURUSD", "NQ"
+  description: string;
+  assetClass: InstrumentClass;
+  contractSize: number;           // units per 1 lot / contract
+  tickSize: number;               // minimum price increment
+  tickValue: number;              // value of one tick per 1 lot, in quoteCurrency
+  quoteCurrency: Currency;        // currency the P&L is booked in
+  lotStep: number;                // smallest lot increment, e.g. 0.01
+  minLot: number;
+}
+
+export interface InstrumentPositionSizeInput {
+  symbol: string;                 // "EURUSD", "XAUUSD", "NAS100", "NQ"...
+  accountSize: number;
+  accountCurrency?: Currency;     // default "USD"
+  riskPercent: number;
+  entryPrice: number;
+  stopPrice: number;
+  fxRates?: FxRateTable;          // needed when quote currency differs from account currency
+  overrides?: Partial<Omit<InstrumentSpec, "symbol">>; // broker-specific contract specs
+}
+
+export interface InstrumentPositionSizeResult {
+  instrument: InstrumentSpec;
+  accountCurrency: Currency;
+  direction: "long" | "short";
+  stopDistance: number;           // price units between entry and stop
+  stopTicks: number;
+  tickValueAccount: number;       // one tick per 1 lot, in account currency
+  riskAmount: number;             // intended risk, account currency
+  rawLots: number;                // before rounding to the lot step
+  lots: number;                   // rounded down to the lot step (0 if below min lot)
+  actualRiskAmount: number;       // risk at the rounded size
+  actualRiskPercent: number;
+  notes: string[];
+}
+
+export type DrawdownModel =
+  | "static"                          // limits fixed off the starting size
+  | "trailing-intraday"               // total floor trails peak equity, tick by tick
+  | "trailing-eod"                    // total floor trails peak end-of-day balance
+  | "trailing-until-breakeven-lock";  // trails intraday until the floor reaches starting size
+
+export interface EquityPoint {
+  at: string;                     // ISO timestamp
+  equity: number;
 }
 
 export interface PropFirmConfig {
@@ -32,7 +115,27 @@ export interface PropFirmConfig {
   maxDailyDrawdownPct: number;    // e.g. 5
   maxTotalDrawdownPct: number;    // e.g. 10
   minTradingDays?: number;
+  maxTradingDays?: number;        // trading days allowed before the phase times out
   phase?: 1 | 2 | 3;
+  drawdownModel?: DrawdownModel;  // default "static"
+  dailyResetTimezone?: string;    // IANA tz of the daily reset, default "Etc/UTC"
+  dailyResetHour?: number;        // local hour of the daily reset, default 0
+}
+
+export interface DrawdownState {
+  model: DrawdownModel;
+  timeZone: string;
+  tradingDay: string | null;      // current trading day (YYYY-MM-DD), null without history
+  highWaterMark: number;          // peak the total floor trails from
+  locked: boolean;                // breakeven lock engaged
+  dayStartBalance: number;
+  currentEquity: number;
+  dailyLimitAmount: number;
+  totalLimitAmount: number;
+  dailyFloor: number;             // equity at which the daily rule breaches
+  totalFloor: number;             // equity at which the total rule breaches
+  remainingDailyAmount: number;
+  remainingTotalAmount: number;
 }
 
 export interface PropFirmPlanInput {
@@ -41,6 +144,7 @@ export interface PropFirmPlanInput {
   expectedRR: number;             // average reward:risk, e.g. 2
   expectedWinratePct: number;     // e.g. 45
   maxTradesPerDay: number;        // hard cap
+  equityHistory?: EquityPoint[];  // oldest first; drives trailing / daily limits
 }
 
 export interface PropFirmPlanResult {
@@ -56,6 +160,64 @@ export interface PropFirmPlanResult {
   safeRiskPerTradePct: number;
 
   estimatedLosingStreak: number;
+  drawdown: DrawdownState;
+  notes: string[];
+}
+
+export interface PropFirmPassProbabilityInput {
+  config: PropFirmConfig;         // single phase (or phase 1 when `phases` is given)
+  phases?: PropFirmConfig[];      // multi-phase challenge, run in `phase` order
+  riskPerTradePct: number;        // % of account size risked per trade
+  expectedRR: number;
+  expectedWinratePct: number;
+  maxTradesPerDay: number;
+  simulations?: number;           // default 2000
+  seed?: number;
+}
+
+export interface PropFirmPhaseOutcome {
+  phase: number;
+  attempts: number;               // simulated paths that reached this phase
+  passProbability: number;        // conditional on reaching the phase, 0..1
+  failDailyProbability: number;
+  failTotalProbability: number;
+  timeoutProbability: number;
+  expectedDaysToPass: number | null;
+}
+
+export interface PropFirmPassProbabilityResult {
+  simulations: number;
+  seed: number;
+
+  passProbability: number;        // passed every phase, 0..1
+  failDailyProbability: number;
+  failTotalProbability: number;
+  timeoutProbability: number;
+  expectedDaysToPass: number | null; // total trading days over all phases, among passes
+
+  phases: PropFirmPhaseOutcome[];
+  notes: string[];
+}
+
+export interface RoomLeftInput {
+  config: PropFirmConfig;
+  startOfDayBalance: number;
+  currentEquity: number;
+  openRisk?: number;              // money still at risk on open positions (to their stops)
+  highWaterMark?: number;         // peak equity/EOD balance for trailing models
+  riskPercent?: number;           // intended risk for the next trade, % of account size
+  stopLossPoints?: number;        // next trade's stop, to size it
+  valuePerPoint?: number;
+}
+
+export interface RoomLeftResult {
+  drawdown: DrawdownState;
+  openRisk: number;
+  remainingTodayAmount: number;   // can still lose today before a breach (after open risk)
+  remainingOverallAmount: number; // can still lose overall before a breach (after open risk)
+  maxRiskNextTradeAmount: number;
+  maxRiskNextTradePct: number;    // % of account size
+  nextTrade: PositionSizeResult | null; // max lots, when a stop is given
   notes: string[];
 }
 
@@ -80,14 +242,178 @@ export interface CompoundingPlanResult {
   steps: CompoundingStep[];
 }
 
+export interface MonteCarloInput {
+  startingBalance: number;
+  riskPerTradePct: number;        // % of current balance risked per trade
+  expectedRR: number;             // reward:risk on winners, e.g. 2
+  expectedWinratePct: number;     // e.g. 45
+  numberOfTrades: number;         // trades per simulated path
+  simulations?: number;           // number of paths, default 1000
+  seed?: number;                  // same seed → same result
+  balanceFloor?: number;          // "ruin" level, default 50% of startingBalance
+}
+
+export interface MonteCarloPercentiles {
+  p5: number;
+  p50: number;
+  p95: number;
+}
+
+export interface MonteCarloCurvePoint extends MonteCarloPercentiles {
+  tradeNumber: number;
+}
+
+export interface MonteCarloResult {
+  startingBalance: number;
+  numberOfTrades: number;
+  simulations: number;
+  seed: number;
+
+  equityCurve: MonteCarloCurvePoint[];          // tradeNumber 0 = start
+  endingBalance: MonteCarloPercentiles & { mean: number };
+  maxDrawdownPct: MonteCarloPercentiles & { mean: number; worst: number };
+
+  balanceFloor: number;
+  probabilityOfHittingFloor: number;            // 0..1
+}
+
+export type RiskAssessment =
+  | "no-edge"                     // expectancy ≤ 0: any risk loses money over time
+  | "within-fractional"           // at or below the fractional-Kelly risk
+  | "above-fractional"            // between fractional and full Kelly
+  | "over-kelly";                 // above full Kelly: more risk, less growth
+
+export interface KellyInput {
+  expectedRR: number;             // average win in R, e.g. 2
+  expectedWinratePct: number;     // e.g. 45
+  fraction?: number;              // fractional Kelly multiplier, default 0.5
+  riskPerTradePct?: number;       // current risk, to assess against Kelly
+}
+
+export interface KellyResult {
+  expectancyR: number;            // expected R per trade
+  fullKellyPct: number;           // % of equity per trade (0 when no edge)
+  fraction: number;
+  fractionalKellyPct: number;
+  riskPerTradePct: number | null;
+  assessment: RiskAssessment | null; // null without riskPerTradePct
+  notes: string[];
+}
+
+export interface OptimalFInput {
+  rMultiples: number[];           // closed-trade results in R, losses negative
+  fraction?: number;              // fractional multiplier, default 0.5
+  riskPerTradePct?: number;
+}
+
+export interface OptimalFResult {
+  trades: number;
+  meanR: number;
+  largestLossR: number;           // as a positive number of R
+  optimalF: number;               // Vince optimal f, 0..1 (fraction of the largest loss)
+  optimalRiskPct: number;         // optimal f expressed as % of equity risked per 1R
+  fraction: number;
+  fractionalRiskPct: number;
+  growthPerTrade: number;         // geometric mean HPR at optimal f, e.g. 1.012
+  twr: number;                    // terminal wealth relative over the sample at optimal f
+  riskPerTradePct: number | null;
+  assessment: RiskAssessment | null;
+  notes: string[];
+}
+
+export type RiskOfRuinSizing =
+  | "fixed-fractional"            // risk % of current equity (compounding)
+  | "fixed";                      // risk % of starting balance (typical prop-firm)
+
+export interface RiskOfRuinInput {
+  riskPerTradePct: number;
+  expectedRR: number;
+  expectedWinratePct: number;
+  drawdownFloorPct: number;       // "ruin" = equity down this much from start, e.g. 10
+  sizing?: RiskOfRuinSizing;      // default "fixed-fractional"
+}
+
+export interface RiskOfRuinResult {
+  riskOfRuin: number;             // 0..1, diffusion approximation
+  expectancyR: number;
+  lossesToFloor: number;          // straight losses that would hit the floor
+  sizing: RiskOfRuinSizing;
+  notes: string[];
+}
+
+export interface PercentOfInput {
+  percent: number;                // "X% of Y" → X
+  total: number;                  // → Y
+}
+
+export interface PercentOfResult {
+  percent: number;
+  total: number;
+  value: number;
+}
+
+export interface WhatPercentInput {
+  part: number;                   // "what percent is A of B" → A
+  whole: number;                  // → B
+}
+
+export interface WhatPercentResult {
+  part: number;
+  whole: number;
+  percent: number;
+}
+
+export interface ExpressionInput {
+  expression: string;             // e.g. "balance*risk%/sl"
+  variables?: Record<string, number>; // bound names, e.g. from the trading profile
+}
+
+export interface ExpressionResult {
+  expression: string;
+  value: number;
+  variablesUsed: Record<string, number>; // bound variables the expression actually read
+}
+
 // ---- Unified Math Engine Types ----
 
 export type MathTask =
   | { type: "position-size"; input: PositionSizeInput }
+  | { type: "instrument-position-size"; input: InstrumentPositionSizeInput }
+  | { type: "risk-reward"; input: RiskRewardInput }
   | { type: "prop-firm-plan"; input: PropFirmPlanInput }
-  | { type: "compounding-plan"; input: CompoundingPlanInput };
+  | { type: "compounding-plan"; input: CompoundingPlanInput }
+  | { type: "monte-carlo"; input: MonteCarloInput }
+  | { type: "prop-firm-pass-probability"; input: PropFirmPassProbabilityInput }
+  | { type: "room-left"; input: RoomLeftInput }
+  | { type: "percent-of"; input: PercentOfInput }
+  | { type: "what-percent"; input: WhatPercentInput }
+  | { type: "expression"; input: ExpressionInput }
+  | { type: "kelly"; input: KellyInput }
+  | { type: "optimal-f"; input: OptimalFInput }
+  | { type: "risk-of-ruin"; input: RiskOfRuinInput };
+
+export type MathTaskType = MathTask["type"];
+
+export interface MathProvenance {
+  engine: string;                 // "jarvis-math"
+  version: string;                // MATH_ENGINE_VERSION at compute time
+  taskType: MathTaskType;
+  inputHash: string;              // FNV-1a 64 of the canonical { type, input } JSON
+}
 
-export type MathTaskResult =
+export type MathTaskResult = (
   | { type: "position-size"; result: PositionSizeResult }
+  | { type: "instrument-position-size"; result: InstrumentPositionSizeResult }
+  | { type: "risk-reward"; result: RiskRewardResult }
   | { type: "prop-firm-plan"; result: PropFirmPlanResult }
-  | { type: "compounding-plan"; result: CompoundingPlanResult };
+  | { type: "compounding-plan"; result: CompoundingPlanResult }
+  | { type: "monte-carlo"; result: MonteCarloResult }
+  | { type: "prop-firm-pass-probability"; result: PropFirmPassProbabilityResult }
+  | { type: "room-left"; result: RoomLeftResult }
+  | { type: "percent-of"; result: PercentOfResult }
+  | { type: "what-percent"; result: WhatPercentResult }
+  | { type: "expression"; result: ExpressionResult }
+  | { type: "kelly"; result: KellyResult }
+  | { type: "optimal-f"; result: OptimalFResult }
+  | { type: "risk-of-ruin"; result: RiskOfRuinResult }
+) & { provenance: MathProvenance };
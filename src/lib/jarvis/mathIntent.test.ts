@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { detectMathIntent, parseMathIntent } from "./mathIntent";
+import { formatEvalAnswer } from "./math";
+
+describe("detectMathIntent", () => {
+  it("routes sizing questions by whether prices and a known instrument are given", () => {
+    expect(detectMathIntent("lot size for 25 pips sl on eurusd")).toBe("position-size");
+    expect(detectMathIntent("what lot size for buy xauusd at 2350 sl 2342")).toBe("instrument-position-size");
+    expect(detectMathIntent("position size long EURUSD @ 1.0850 stop 1.0820")).toBe("instrument-position-size");
+  });
+
+  it("leaves ordinary chat alone", () => {
+    expect(detectMathIntent("how was your day bro")).toBeNull();
+  });
+});
+
+describe("parseMathIntent", () => {
+  it("reads the entry after a symbol token", () => {
+    const intent = parseMathIntent("what lot size for buy xauusd at 2350 sl 2342 1% risk 10000 account");
+    expect(intent?.missing).toEqual([]);
+    expect(intent?.task).toMatchObject({
+      type: "instrument-position-size",
+      input: { symbol: "XAUUSD", entryPrice: 2350, stopPrice: 2342, riskPercent: 1, accountSize: 10000 },
+    });
+  });
+
+  it("names the stop in the unit it was given", () => {
+    const pips = parseMathIntent("lot size for 25 pips sl eurusd 1% 10000 account");
+    expect(pips?.task).toMatchObject({ type: "position-size", input: { stopLossPoints: 25, stopUnit: "pip" } });
+    expect(formatEvalAnswer(pips!.task!)).toContain("stop of 25 pips at 10 per pip");
+
+    const points = parseMathIntent("lot size 20 points stop 1% 10000 account");
+    expect(formatEvalAnswer(points!.task!)).toContain("stop of 20 points at 10 per point");
+  });
+
+  it("lists what's missing instead of guessing", () => {
+    const intent = parseMathIntent("lot size for 25 pips sl");
+    expect(intent?.task).toBeNull();
+    expect(intent?.missing).toContain("account size");
+  });
+});
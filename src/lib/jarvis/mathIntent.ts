@@ -0,0 +1,644 @@
+// src/lib/jarvis/mathIntent.ts
+// Natural-language → typed MathTask. Pulls numbers out of free text
+// ("100k, 1% risk, 25 pip SL on EURUSD, what lot?"), fills gaps from the
+// stored TradingProfile / JarvisFinance (and the journal's edge for winrate
+// and R:R), and records every assumption made
+// so the answer can say what it took for granted.
+
+import {
+  MathTask,
+  formatEvalAnswer,
+  findInstrument,
+  tryConvertAmount,
+  DEFAULT_FX_RATES,
+} from "./math";
+import type { InstrumentSpec, StopUnit } from "./math/types";
+import { loadTradingProfile, type TradingProfile } from "./tradingMemory";
+import { loadFinance, type JarvisFinance } from "./finance";
+import { journalEdge, type JournalStats } from "./journalStats";
+import { loadJournalStats } from "./trades";
+import { cooldownMinutesLeft, cooldownRiskPercent, type JarvisCooldown } from "./tilt";
+
+export type MathIntentKind = MathTask["type"];
+
+export interface MathIntentContext {
+  profile?: TradingProfile | null;
+  finance?: JarvisFinance | null;
+  journal?: JournalStats | null; // edge defaults when the text gives no winrate / R:R
+}
+
+export interface MathIntentResult {
+  kind: MathIntentKind;
+  task: MathTask | null; // null when required inputs are still missing
+  assumptions: string[];
+  missing: string[];
+}
+
+const DEFAULT_RISK_PERCENT = 1;
+const DEFAULT_TRADES_PER_DAY = 2;
+const DEFAULT_NUMBER_OF_TRADES = 100;
+const DEFAULT_TOTAL_DRAWDOWN_PCT = 10;
+const DEFAULT_FX_PIP_VALUE = 10; // USD per pip per standard lot on xxxUSD pairs
+
+const NUM = "(\\d+(?:\\.\\d+)?)";
+const AMOUNT = "\\$?(\\d[\\d,]*(?:\\.\\d+)?k?)(?![\\d.]|\\s*%)";
+const UNIT = "(pips?|points?|pts?|ticks?)";
+
+function parseAmount(raw: string | undefined): number | null {
+  if (!raw) return null;
+  const cleaned = raw.replace(/,/g, "").toLowerCase();
+  const n = parseFloat(cleaned);
+  if (!isFinite(n)) return null;
+  return cleaned.endsWith("k") ? n * 1000 : n;
+}
+
+// First capture group of the first pattern that matches
+function grab(text: string, patterns: string[]): number | null {
+  for (const p of patterns) {
+    const m = text.match(new RegExp(p));
+    if (m) {
+      const value = parseAmount(m.slice(1).find((g) => g !== undefined));
+      if (value != null) return value;
+    }
+  }
+  return null;
+}
+
+// ---------- Field extractors ----------
+
+function extractAccount(t: string) {
+  return grab(t, [
+    `(?:account(?: size)?|balance|capital|equity)\\s*(?:is|of|=|:)?\\s*${AMOUNT}`,
+    `${AMOUNT}\\s*(?:usd|dollars?)?\\s*(?:account|challenge|eval|evaluation|funded|balance|capital)`,
+    `(?:i have|i've got|i got|starting with|start with|from)\\s*${AMOUNT}`,
+  ]);
+}
+
+function extractRiskPercent(t: string) {
+  return grab(t, [
+    `${NUM}\\s*%\\s*risk`,
+    `risk(?:ing)?(?: per trade)?\\s*(?:of|is|=|:)?\\s*${NUM}\\s*%`,
+  ]);
+}
+
+function extractTargetPercent(t: string) {
+  return grab(t, [`${NUM}\\s*%\\s*(?:profit )?target`, `target\\s*(?:is|of|=|:)?\\s*${NUM}\\s*%`]);
+}
+
+function extractDailyPercent(t: string) {
+  return grab(t, [
+    `${NUM}\\s*%\\s*daily`,
+    `daily(?: loss| drawdown| dd| limit)*\\s*(?:is|of|=|:)?\\s*${NUM}\\s*%`,
+  ]);
+}
+
+function extractTotalPercent(t: string) {
+  return grab(t, [
+    `${NUM}\\s*%\\s*(?:max|total|overall)`,
+    `(?:max|total|overall)(?: loss| drawdown| dd| limit)*\\s*(?:is|of|=|:)?\\s*${NUM}\\s*%`,
+  ]);
+}
+
+function extractFloorPercent(t: string) {
+  return (
+    extractTotalPercent(t) ??
+    grab(t, [
+      `${NUM}\\s*%\\s*(?:drawdown|dd|floor)`,
+      `(?:drawdown|dd|floor)\\s*(?:is|of|at|to|=|:)?\\s*${NUM}\\s*%`,
+    ])
+  );
+}
+
+function extractWinrate(t: string) {
+  return grab(t, [
+    `${NUM}\\s*%\\s*(?:win ?rate|wr|wins?)`,
+    `(?:win ?rate|wr)\\s*(?:is|of|=|:)?\\s*${NUM}`,
+  ]);
+}
+
+function extractRR(t: string) {
+  return grab(t, [
+    `\\b${NUM}\\s*r\\b(?!:)`,
+    `${NUM}\\s*(?:rr|r:r)\\b`,
+    `(?:rr|r:r|r/r|risk[- ]reward|reward)\\s*(?:of|is|=|:)?\\s*(?:1\\s*:\\s*)?${NUM}`,
+    `\\b1\\s*:\\s*${NUM}`,
+  ]);
+}
+
+function extractNumberOfTrades(t: string) {
+  return grab(t, [`${NUM}\\s*trades?(?!\\s*(?:a|per|/)\\s*day)`]);
+}
+
+function extractTradesPerDay(t: string) {
+  return grab(t, [`${NUM}\\s*trades?\\s*(?:a|per|/)\\s*day`, `max(?:imum)?\\s*${NUM}\\s*trades`]);
+}
+
+function extractStop(t: string): { distance: number; unit: string } | null {
+  const patterns = [
+    `${NUM}\\s*${UNIT}\\s*(?:sl|stop(?: loss)?|stoploss)`,
+    `(?:sl|stop(?: loss)?|stoploss)\\s*(?:of|is|=|:|at)?\\s*${NUM}\\s*${UNIT}`,
+  ];
+  for (const p of patterns) {
+    const m = t.match(new RegExp(p));
+    if (m) {
+      const [a, b] = [m[1], m[2]];
+      const distance = parseFloat(/^\d/.test(a) ? a : b);
+      const unit = /^\d/.test(a) ? b : a;
+      if (isFinite(distance) && distance > 0) return { distance, unit };
+    }
+  }
+  return null;
+}
+
+// "pips" / "pts" / "ticks" as written → the unit the sizing answer names
+function stopUnitOf(unit: string): StopUnit {
+  if (unit.startsWith("pip")) return "pip";
+  if (unit.startsWith("tick")) return "tick";
+  return "point";
+}
+
+// "buy 2350", "long @ 2350", "buy xauusd at 2350", "short eur/usd @ 1.085"
+function extractPrices(t: string): { entry: number; stop: number } | null {
+  const entry = t.match(
+    /(?:entry|enter(?:ing)?|buy|sell|long|short)(?:\s+[a-z][a-z0-9/.#]{2,9})?\s*(?:at|@|=|:)?\s*(\d+(?:\.\d+)?)/
+  );
+  const stop = t.match(/(?:sl|stop(?: loss)?|stoploss)\s*(?:at|@|=|:|is)?\s*(\d+(?:\.\d+)?)(?![\d.]|\s*(?:pips?|points?|pts?|ticks?))/);
+  if (!entry || !stop) return null;
+  const e = parseFloat(entry[1]);
+  const s = parseFloat(stop[1]);
+  if (!isFinite(e) || !isFinite(s) || e <= 0 || s <= 0 || e === s) return null;
+  // Treat the stop as a price only when it's in the same ballpark as the entry
+  if (Math.abs(e - s) / e > 0.5) return null;
+  return { entry: e, stop: s };
+}
+
+function extractTargetPrice(t: string, entry: number): number | null {
+  const m = t.match(/(?:tp|target|take profit)\s*(?:at|@|=|:|is)?\s*(\d+(?:\.\d+)?)(?![\d.]|\s*(?:%|r\b|pips?|points?|pts?|ticks?))/);
+  if (!m) return null;
+  const target = parseFloat(m[1]);
+  if (!isFinite(target) || target <= 0 || target === entry) return null;
+  return Math.abs(target - entry) / entry > 0.5 ? null : target;
+}
+
+function extractInstrument(original: string): InstrumentSpec | null {
+  const words = original.match(/[A-Za-z0-9][A-Za-z0-9/.#]*/g) || [];
+  for (const word of words) {
+    // Short futures roots ("ES", "NQ", "SI") only count when written in caps
+    if (word.length <= 3 && word !== word.toUpperCase()) continue;
+    if (/^\d+(?:\.\d+)?k?$/i.test(word)) continue;
+    const spec = findInstrument(word);
+    if (spec) return spec;
+  }
+  return null;
+}
+
+// ---------- Context fallbacks ----------
+
+function accountFromContext(
+  ctx: MathIntentContext,
+  assumptions: string[],
+  useEquity: boolean
+): number | null {
+  const p = ctx.profile;
+  if (p?.account_size) {
+    const value = useEquity ? p.account_size + (p.current_profit ?? 0) : p.account_size;
+    assumptions.push(
+      useEquity && p.current_profit
+        ? `balance ${value} from your profile (account size + current profit)`
+        : `account size ${value} from your profile`
+    );
+    return value;
+  }
+  const f = ctx.finance;
+  const fromFinance = f?.funded_current_equity ?? f?.funded_account_size ?? f?.eval_account_size ?? null;
+  if (fromFinance) {
+    assumptions.push(`account size ${fromFinance} from your finance snapshot`);
+    return fromFinance;
+  }
+  return null;
+}
+
+function withFallback(
+  value: number | null,
+  fallback: number | null | undefined,
+  label: string,
+  source: string,
+  assumptions: string[]
+): number | null {
+  if (value != null) return value;
+  if (fallback != null) {
+    assumptions.push(`${label} ${fallback}% from your ${source}`);
+    return fallback;
+  }
+  return null;
+}
+
+function withDefault(value: number | null, fallback: number, note: string, assumptions: string[]) {
+  if (value != null) return value;
+  assumptions.push(note);
+  return fallback;
+}
+
+// Money per 1 unit of the stated stop distance, per lot, in account currency
+function valuePerUnit(
+  spec: InstrumentSpec,
+  unit: string,
+  accountCurrency: string,
+  assumptions: string[]
+): number | null {
+  let size: number;
+  if (unit.startsWith("tick")) {
+    size = spec.tickSize;
+  } else if (unit.startsWith("pip")) {
+    if (spec.assetClass === "fx") {
+      size = spec.quoteCurrency === "JPY" ? 0.01 : 0.0001;
+    } else if (spec.assetClass === "metal") {
+      size = spec.symbol === "XAUUSD" ? 0.1 : 0.01;
+      assumptions.push(`1 pip on ${spec.symbol} taken as ${size}`);
+    } else {
+      size = 1;
+      assumptions.push(`1 pip on ${spec.symbol} taken as 1 point`);
+    }
+  } else {
+    // MT4/MT5 "points" on FX are the fractional tick; elsewhere a full price point
+    size = spec.assetClass === "fx" ? spec.tickSize : 1;
+  }
+
+  const perLot = Number(((spec.tickValue / spec.tickSize) * size).toFixed(6));
+  const value = tryConvertAmount(perLot, spec.quoteCurrency, accountCurrency, DEFAULT_FX_RATES);
+  if (value != null && spec.quoteCurrency.toUpperCase() !== accountCurrency.toUpperCase()) {
+    assumptions.push(`${spec.quoteCurrency} converted at stored rates (${DEFAULT_FX_RATES.asOf})`);
+  }
+  return value == null ? null : Number(value.toFixed(4));
+}
+
+// ---------- Detection ----------
+
+/**
+ * Which MathTask (if any) the message is asking for. Cheap regex check so
+ * routes can skip loading profile/finance for ordinary chat.
+ */
+export function detectMathIntent(text: string): MathIntentKind | null {
+  const t = text.toLowerCase();
+
+  if (
+    /(?:chances?|odds|probability|likelihood|likely)\b.*\bpass/.test(t) ||
+    /pass(?:ing)? (?:probability|chance|odds|rate)/.test(t)
+  ) {
+    return "prop-firm-pass-probability";
+  }
+  if (/risk of ruin|\bruin\b/.test(t)) return "risk-of-ruin";
+  if (/\bkelly\b/.test(t)) return "kelly";
+  if (/monte ?carlo|simulat/.test(t)) return "monte-carlo";
+  if (/compound/.test(t) || (/\bafter \d+ trades\b/.test(t) && /grow|balance|end up|become/.test(t))) {
+    return "compounding-plan";
+  }
+
+  const sizing = /\blots?\b|lot size|position size|how many (?:contracts|units)|what size/.test(t);
+  if (sizing && (extractStop(t) || extractPrices(t))) {
+    return extractPrices(t) && extractInstrument(text) ? "instrument-position-size" : "position-size";
+  }
+
+  const rrQuestion = /\b(?:rr|r:r|r\/r|risk[- ]?reward|reward[- ]?to[- ]?risk)\b/.test(t);
+  const prices = extractPrices(t);
+  if (rrQuestion && prices && extractTargetPrice(t, prices.entry) != null) {
+    return "risk-reward";
+  }
+
+  const perTrade =
+    /per trade|each trade|safe risk|how much (?:should|can|do) i risk/.test(t);
+  if (perTrade && (extractTargetPercent(t) != null || extractDailyPercent(t) != null)) {
+    return "prop-firm-plan";
+  }
+
+  return null;
+}
+
+// ---------- Parsing ----------
+
+export function parseMathIntent(
+  text: string,
+  ctx: MathIntentContext = {}
+): MathIntentResult | null {
+  const kind = detectMathIntent(text);
+  if (!kind) return null;
+
+  const t = text.toLowerCase().replace(/(\d),(?=\d{3}\b)/g, "$1");
+  const assumptions: string[] = [];
+  const missing: string[] = [];
+  const profile = ctx.profile ?? null;
+  const finance = ctx.finance ?? null;
+  const accountCurrency = finance?.account_currency || "USD";
+
+  const need = <T>(value: T | null, label: string): T | null => {
+    if (value == null) missing.push(label);
+    return value;
+  };
+  const done = (task: MathTask): MathIntentResult =>
+    missing.length
+      ? { kind, task: null, assumptions, missing }
+      : { kind, task, assumptions, missing };
+
+  const account = () =>
+    need(
+      extractAccount(t) ??
+        accountFromContext(ctx, assumptions, !kind.startsWith("prop-firm")),
+      "account size"
+    );
+  // Stated numbers win; otherwise fall back to the journal's own edge
+  const edge = journalEdge(ctx.journal);
+  const expectedRR = () => {
+    const stated = extractRR(t);
+    if (stated != null || !edge) return stated;
+    assumptions.push(`${edge.expectedRR}R payoff ratio from your last ${edge.sampleSize} journal trades`);
+    return edge.expectedRR;
+  };
+  const expectedWinrate = () => {
+    const stated = extractWinrate(t);
+    if (stated != null || !edge) return stated;
+    assumptions.push(`${edge.expectedWinratePct}% winrate from your last ${edge.sampleSize} journal trades`);
+    return edge.expectedWinratePct;
+  };
+
+  const riskPercent = () =>
+    withDefault(extractRiskPercent(t), DEFAULT_RISK_PERCENT, `risk ${DEFAULT_RISK_PERCENT}% per trade (default)`, assumptions);
+
+  const propConfig = () => {
+    const accountSize = account();
+    const targetReturnPct = need(
+      withFallback(
+        extractTargetPercent(t),
+        profile?.target_percent ?? finance?.eval_target_percent,
+        "target",
+        profile?.target_percent != null ? "profile" : "finance snapshot",
+        assumptions
+      ),
+      "profit target %"
+    );
+    const maxDailyDrawdownPct = need(
+      withFallback(extractDailyPercent(t), profile?.daily_loss_percent, "daily loss limit", "profile", assumptions),
+      "daily loss limit %"
+    );
+    const maxTotalDrawdownPct = withDefault(
+      withFallback(extractTotalPercent(t), profile?.max_loss_percent, "max loss limit", "profile", assumptions),
+      DEFAULT_TOTAL_DRAWDOWN_PCT,
+      `max loss limit ${DEFAULT_TOTAL_DRAWDOWN_PCT}% (typical, not stated)`,
+      assumptions
+    );
+    return {
+      accountSize: accountSize ?? 0,
+      currency: accountCurrency,
+      targetReturnPct: targetReturnPct ?? 0,
+      maxDailyDrawdownPct: maxDailyDrawdownPct ?? 0,
+      maxTotalDrawdownPct,
+    };
+  };
+
+  switch (kind) {
+    case "position-size": {
+      const accountSize = account();
+      const risk = riskPercent();
+      const stop = need(extractStop(t), "stop loss distance (e.g. 25 pips)");
+      const spec = extractInstrument(text);
+
+      let valuePerPoint: number | null = null;
+      if (stop && spec) {
+        valuePerPoint = valuePerUnit(spec, stop.unit, accountCurrency, assumptions);
+        if (valuePerPoint == null) missing.push(`an FX rate for ${spec.quoteCurrency}`);
+      } else if (stop) {
+        valuePerPoint = tryConvertAmount(DEFAULT_FX_PIP_VALUE, "USD", accountCurrency, DEFAULT_FX_RATES);
+        if (valuePerPoint == null) missing.push(`value per ${stop.unit.replace(/s$/, "")} per lot`);
+        assumptions.push(`$${DEFAULT_FX_PIP_VALUE} per ${stop.unit.replace(/s$/, "")} per lot (xxxUSD FX pair)`);
+      }
+
+      return done({
+        type: "position-size",
+        input: {
+          accountSize: accountSize ?? 0,
+          riskPercent: risk,
+          stopLossPoints: stop?.distance ?? 0,
+          valuePerPoint: valuePerPoint ?? 0,
+          stopUnit: stop ? stopUnitOf(stop.unit) : undefined,
+        },
+      });
+    }
+
+    case "instrument-position-size": {
+      const accountSize = account();
+      const risk = riskPercent();
+      const spec = extractInstrument(text)!;
+      const prices = extractPrices(t)!;
+      return done({
+        type: "instrument-position-size",
+        input: {
+          symbol: spec.symbol,
+          accountSize: accountSize ?? 0,
+          accountCurrency,
+          riskPercent: risk,
+          entryPrice: prices.entry,
+          stopPrice: prices.stop,
+          fxRates: DEFAULT_FX_RATES,
+        },
+      });
+    }
+
+    case "risk-reward": {
+      const prices = extractPrices(t)!;
+      const direction = /\b(?:short|sell)\b/.test(t) ? "short" : /\b(?:long|buy)\b/.test(t) ? "long" : undefined;
+      return done({
+        type: "risk-reward",
+        input: {
+          entryPrice: prices.entry,
+          stopPrice: prices.stop,
+          targetPrice: extractTargetPrice(t, prices.entry)!,
+          direction,
+        },
+      });
+    }
+
+    case "prop-firm-plan": {
+      const config = propConfig();
+      return done({
+        type: "prop-firm-plan",
+        input: {
+          config,
+          riskPerTradePct: riskPercent(),
+          expectedRR: withDefault(expectedRR(), 2, "2R average reward:risk (default)", assumptions),
+          expectedWinratePct: withDefault(expectedWinrate(), 50, "50% winrate (default)", assumptions),
+          maxTradesPerDay: withDefault(
+            extractTradesPerDay(t),
+            DEFAULT_TRADES_PER_DAY,
+            `${DEFAULT_TRADES_PER_DAY} trades per day max (default)`,
+            assumptions
+          ),
+        },
+      });
+    }
+
+    case "prop-firm-pass-probability": {
+      const config = propConfig();
+      return done({
+        type: "prop-firm-pass-probability",
+        input: {
+          config,
+          riskPerTradePct: riskPercent(),
+          expectedRR: need(expectedRR(), "average R:R (e.g. 2R)") ?? 0,
+          expectedWinratePct: need(expectedWinrate(), "winrate %") ?? 0,
+          maxTradesPerDay: withDefault(
+            extractTradesPerDay(t),
+            DEFAULT_TRADES_PER_DAY,
+            `${DEFAULT_TRADES_PER_DAY} trades per day max (default)`,
+            assumptions
+          ),
+          seed: grab(t, [`seed\\s*${NUM}`]) ?? 1,
+        },
+      });
+    }
+
+    case "monte-carlo":
+    case "compounding-plan": {
+      const input = {
+        startingBalance: account() ?? 0,
+        riskPerTradePct: riskPercent(),
+        expectedRR: need(expectedRR(), "average R:R (e.g. 2R)") ?? 0,
+        expectedWinratePct: need(expectedWinrate(), "winrate %") ?? 0,
+        numberOfTrades: withDefault(
+          extractNumberOfTrades(t),
+          DEFAULT_NUMBER_OF_TRADES,
+          `${DEFAULT_NUMBER_OF_TRADES} trades (default)`,
+          assumptions
+        ),
+      };
+      if (kind === "compounding-plan") {
+        return done({ type: "compounding-plan", input });
+      }
+      return done({
+        type: "monte-carlo",
+        input: {
+          ...input,
+          simulations: grab(t, [`${NUM}\\s*(?:simulations|sims|runs|paths)`]) ?? undefined,
+          seed: grab(t, [`seed\\s*${NUM}`]) ?? 1,
+        },
+      });
+    }
+
+    case "kelly": {
+      return done({
+        type: "kelly",
+        input: {
+          expectedRR: need(expectedRR(), "average R:R (e.g. 2R)") ?? 0,
+          expectedWinratePct: need(expectedWinrate(), "winrate %") ?? 0,
+          fraction: /quarter/.test(t) ? 0.25 : undefined,
+          riskPerTradePct: extractRiskPercent(t) ?? undefined,
+        },
+      });
+    }
+
+    case "risk-of-ruin": {
+      const propFirm = /prop|challenge|eval|funded/.test(t);
+      const drawdownFloorPct = withDefault(
+        withFallback(extractFloorPercent(t), propFirm ? profile?.max_loss_percent : null, "max loss limit", "profile", assumptions),
+        DEFAULT_TOTAL_DRAWDOWN_PCT,
+        `ruin = down ${DEFAULT_TOTAL_DRAWDOWN_PCT}% (default)`,
+        assumptions
+      );
+      if (propFirm) assumptions.push("risk sized off the starting balance (prop-firm style)");
+      return done({
+        type: "risk-of-ruin",
+        input: {
+          riskPerTradePct: riskPercent(),
+          expectedRR: need(expectedRR(), "average R:R (e.g. 2R)") ?? 0,
+          expectedWinratePct: need(expectedWinrate(), "winrate %") ?? 0,
+          drawdownFloorPct,
+          sizing: propFirm ? "fixed" : "fixed-fractional",
+        },
+      });
+    }
+
+    default:
+      // room-left has its own text helper (buildRoomLeftAnswerFromText)
+      return null;
+  }
+}
+
+const INTENT_LABELS: Record<MathIntentKind, string> = {
+  "position-size": "your position size",
+  "instrument-position-size": "your position size",
+  "risk-reward": "your reward:risk",
+  "prop-firm-plan": "your risk per trade",
+  "compounding-plan": "the compounding projection",
+  "monte-carlo": "the simulation",
+  "prop-firm-pass-probability": "your pass probability",
+  "room-left": "your room left",
+  "percent-of": "that percentage",
+  "what-percent": "that percentage",
+  expression: "that calculation",
+  kelly: "your Kelly risk",
+  "optimal-f": "your optimal f",
+  "risk-of-ruin": "your risk of ruin",
+};
+
+// Deterministic reply for a parsed intent: the engine's answer plus assumptions.
+export function answerMathIntent(intent: MathIntentResult, ctx: MathIntentContext = {}): string {
+  if (!intent.task) {
+    return `To work out ${INTENT_LABELS[intent.kind]} I still need: ${intent.missing.join(", ")}.`;
+  }
+
+  let answer: string;
+  try {
+    answer = formatEvalAnswer(intent.task, {
+      accountCurrency: ctx.finance?.account_currency || "USD",
+      homeCurrency: ctx.finance?.home_currency || undefined,
+    });
+  } catch (err: any) {
+    return `I couldn't compute that: ${err?.message ?? String(err)}`;
+  }
+
+  if (intent.assumptions.length) {
+    answer += `\nAssumptions: ${intent.assumptions.join("; ")}.`;
+  }
+  return answer;
+}
+
+/**
+ * One-stop helper for the chat and Telegram routes: returns a deterministic
+ * reply when the text is a recognised math question, otherwise null.
+ * Profile and finance rows are only loaded once a math intent is detected.
+ */
+export async function answerMathQuestionFromText(
+  supabase: any,
+  text: string,
+  options: { journal?: JournalStats | null; cooldown?: JarvisCooldown | null } = {}
+): Promise<string | null> {
+  if (!detectMathIntent(text)) return null;
+
+  const [profile, finance, journal] = await Promise.all([
+    loadTradingProfile(supabase),
+    loadFinance(supabase),
+    options.journal !== undefined ? options.journal : loadJournalStats(supabase),
+  ]);
+  const ctx = { profile, finance, journal };
+  const intent = parseMathIntent(text, ctx);
+  if (!intent) return null;
+
+  const refusal = options.cooldown ? applyCooldown(intent, options.cooldown) : null;
+  return refusal ?? answerMathIntent(intent, ctx);
+}
+
+const SIZING_KINDS: MathIntentKind[] = ["position-size", "instrument-position-size"];
+
+// During a tilt cool-down sizing is halved, or refused outright (the refusal text is returned)
+function applyCooldown(intent: MathIntentResult, cooldown: JarvisCooldown): string | null {
+  if (!SIZING_KINDS.includes(intent.kind) || !intent.task) return null;
+  const input = intent.task.input as { riskPercent: number };
+
+  const reduced = cooldownRiskPercent(cooldown, input.riskPercent);
+  if (reduced == null) {
+    return `Not sizing anything right now, bro — you're in a cool-down for another ${cooldownMinutesLeft(
+      cooldown
+    )} min. Step away from the charts; we'll look at it fresh after.`;
+  }
+  intent.assumptions.push(`cool-down active: risk cut from ${input.riskPercent}% to ${reduced}%`);
+  input.riskPercent = reduced;
+  return null;
+}
@@ -0,0 +1,80 @@
+// /lib/jarvis/memory/command.ts
+// "Forget X" from chat and Telegram, always confirmed first:
+//   /forget <topic>, or "forget (the) memories about <topic>" /
+//   "forget what you know about <topic>" → lists the matching memories, asks yes/no
+//   yes / no                         → only while a forget is waiting (15 min)
+//   undo forget / /undo              → brings back the last forgotten batch
+// Returns null when the text isn't one of these.
+
+import { memoryText } from "./retrieval";
+import {
+  cancelForget,
+  confirmForget,
+  FORGET_CONFIRM_MINUTES,
+  getLatestMemoryAction,
+  getPendingForget,
+  requestForget,
+  undoMemoryAction,
+} from "./store";
+import type { MemoryLogEntry } from "./types";
+
+// Plain "forget about yesterday's loss" is venting, not a request: without the
+// slash command the sentence has to be about memories
+const FORGET_RE = /^\/forget(?:@\w+)?\s+(?:about\s+)?([\s\S]+?)[.!]?$/i;
+const SPOKEN_FORGET_RE =
+  /^(?:please\s+|jarvis,?\s+)*(?:forget|delete|erase|remove|wipe)\s+(?:(?:all|any|my|your|the|those|these)\s+)*(?:memor(?:y|ies)|what you (?:know|remember))\s+(?:about|of|on|regarding)\s+([\s\S]+?)[.!]?$/i;
+const CONFIRM_RE = /^(?:yes|y|yep|yeah|confirm|do it|yes,? forget (?:it|them|that))[.!]?$/i;
+const CANCEL_RE = /^(?:no|n|nope|cancel|keep (?:it|them))[.!]?$/i;
+const UNDO_RE = /^\/?undo(?:@\w+)?(?:\s+(?:forget|that|the forget))?[.!]?$/i;
+
+// "forget it" / "forget that" are conversational, not requests
+const CASUAL_TOPICS = /^(?:it|that|this|about it|about that|it bro|that bro)$/i;
+
+function listRows(entry: MemoryLogEntry): string {
+  return entry.before
+    .map((r, i) => `${i + 1}. ${memoryText(r).slice(0, 120)}`)
+    .join("\n");
+}
+
+export async function answerMemoryCommand(
+  supabase: any,
+  userId: string,
+  text: string,
+  channel: string
+): Promise<string | null> {
+  const trimmed = text.trim();
+
+  const forget = trimmed.match(FORGET_RE) ?? trimmed.match(SPOKEN_FORGET_RE);
+  if (forget && !CASUAL_TOPICS.test(forget[1].trim())) {
+    const topic = forget[1].trim();
+    const entry = await requestForget(supabase, userId, topic, channel);
+    if (!entry) return `I don't have any memories about "${topic}".`;
+    const count = entry.before.length;
+    return [
+      `I'd forget ${count} ${count === 1 ? "memory" : "memories"} about "${topic}":`,
+      listRows(entry),
+      `Reply yes to forget ${count === 1 ? "it" : "them"} or no to keep ${count === 1 ? "it" : "them"} (${FORGET_CONFIRM_MINUTES} min).`,
+    ].join("\n");
+  }
+
+  if (CONFIRM_RE.test(trimmed) || CANCEL_RE.test(trimmed)) {
+    const pending = await getPendingForget(supabase, userId);
+    if (!pending) return null;
+    if (CANCEL_RE.test(trimmed)) {
+      await cancelForget(supabase, pending);
+      return "Okay, keeping them.";
+    }
+    await confirmForget(supabase, pending);
+    const count = pending.memory_ids.length;
+    return `Forgotten ${count} ${count === 1 ? "memory" : "memories"} about "${pending.query}". Say "undo forget" to bring ${count === 1 ? "it" : "them"} back.`;
+  }
+
+  if (UNDO_RE.test(trimmed)) {
+    const last = await getLatestMemoryAction(supabase, userId, "forget");
+    if (!last) return "Nothing forgotten to bring back.";
+    await undoMemoryAction(supabase, last.id);
+    return `Restored ${last.before.length} ${last.before.length === 1 ? "memory" : "memories"} about "${last.query}".`;
+  }
+
+  return null;
+}
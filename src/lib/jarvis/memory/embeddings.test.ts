@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import {
+  compactVector,
+  createHashingEmbedder,
+  embeddingTokens,
+  HASH_EMBEDDING_DIMENSIONS,
+  hashEmbed,
+  normalizeVector,
+} from "./embeddings";
+import { cosineSimilarity, parseStoredVector } from "./retrieval";
+
+describe("embeddingTokens", () => {
+  it("drops stopwords and strips common suffixes", () => {
+    expect(embeddingTokens("I was trading the trades I traded")).toEqual(["trad", "trad", "trad"]);
+    expect(embeddingTokens("Loss, losses; LOSS!")).toEqual(["loss", "loss", "loss"]);
+    expect(embeddingTokens("")).toEqual([]);
+  });
+});
+
+describe("hashEmbed", () => {
+  it("is deterministic, unit length and sized to the dimensions", () => {
+    const vector = hashEmbed("revenge trade after a loss");
+    expect(vector).toHaveLength(HASH_EMBEDDING_DIMENSIONS);
+    expect(vector).toEqual(hashEmbed("revenge trade after a loss"));
+    expect(Math.hypot(...vector)).toBeCloseTo(1, 10);
+    expect(hashEmbed("revenge", 64)).toHaveLength(64);
+  });
+
+  it("ranks related wording above unrelated text", () => {
+    const query = hashEmbed("revenge trade");
+    const related = cosineSimilarity(query, hashEmbed("revenge trading after a loss"));
+    const unrelated = cosineSimilarity(query, hashEmbed("my favourite coffee is a flat white"));
+    expect(related).toBeGreaterThan(0.25);
+    expect(unrelated).toBeLessThan(0.2);
+  });
+
+  it("returns a zero vector for text with no features", () => {
+    expect(hashEmbed("the and of", 8)).toEqual(new Array(8).fill(0));
+  });
+});
+
+describe("createHashingEmbedder", () => {
+  it("tags vectors with a provider id that includes the dimensions", async () => {
+    const provider = createHashingEmbedder(128);
+    expect(provider).toMatchObject({ id: "hash-128-v1", dimensions: 128 });
+    const [a, b] = await provider.embed(["london breakout", "news spike"]);
+    expect(a).toEqual(hashEmbed("london breakout", 128));
+    expect(b).toHaveLength(128);
+  });
+});
+
+describe("vector helpers", () => {
+  it("normalises, rounds and reads back stored vectors", () => {
+    expect(normalizeVector([3, 4])).toEqual([0.6, 0.8]);
+    expect(normalizeVector([0, 0])).toEqual([0, 0]);
+    expect(compactVector([0.123456789, -0.000001])).toEqual([0.12346, -0]);
+    expect(parseStoredVector("[0.5,-0.25]")).toEqual([0.5, -0.25]);
+    expect(parseStoredVector([1, "2"])).toEqual([1, 2]);
+    expect(parseStoredVector("not a vector")).toBeNull();
+    expect(parseStoredVector([])).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+// /lib/jarvis/memory/embeddings.ts
+// Embedding providers for memory retrieval. The default is a local hashing
+// embedder: deterministic, no network, good enough to match "revenge trade"
+// with "revenge trading after a loss". An OpenAI-compatible provider can be
+// switched on with JARVIS_EMBEDDINGS_PROVIDER=openai.
+
+import type { EmbeddingProvider } from "./types";
+
+export const HASH_EMBEDDING_DIMENSIONS = 512;
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be been but by can do does did for from had has have how i if in into is it its " +
+    "me my of on or our so than that the their them then there these they this to was we were what when " +
+    "where which who why will with you your just about would should could im ive dont"
+  ).split(" ")
+);
+
+// FNV-1a, 32-bit, with murmur3's finalizer — plain FNV's low bits collide on short words
+function hash(text: string, seed = 0): number {
+  let h = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+// Crude suffix stripping so "trades", "trading" and "traded" share a feature
+function stem(token: string): string {
+  if (token.length > 5 && token.endsWith("ing")) return token.slice(0, -3);
+  if (token.length > 4 && token.endsWith("ed")) return token.slice(0, -2);
+  if (token.length > 4 && token.endsWith("es")) return token.slice(0, -2);
+  if (token.length > 3 && token.endsWith("s") && !token.endsWith("ss")) return token.slice(0, -1);
+  return token;
+}
+
+export function embeddingTokens(text: string): string[] {
+  return (String(text ?? "").toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter((t) => !STOPWORDS.has(t))
+    .map(stem);
+}
+
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((s, v) => s + v * v, 0));
+  return norm ? vector.map((v) => v / norm) : vector;
+}
+
+// Each feature lands in this many buckets, so one chance collision between
+// two short memories only shares a fraction of a word
+const HASH_PROBES = 3;
+
+// Feature hashing over stemmed words (weight 1) and adjacent word pairs
+// (weight 0.5); the hash's top bit picks the sign so collisions cancel out
+export function hashEmbed(text: string, dimensions = HASH_EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const tokens = embeddingTokens(text);
+  const add = (feature: string, weight: number) => {
+    for (let probe = 0; probe < HASH_PROBES; probe++) {
+      const h = hash(feature, probe * 0x9e3779b9);
+      vector[h % dimensions] += h & 0x80000000 ? -weight : weight;
+    }
+  };
+  tokens.forEach((t, i) => {
+    add(t, 1);
+    if (i > 0) add(`${tokens[i - 1]}_${t}`, 0.5);
+  });
+  return normalizeVector(vector);
+}
+
+export function createHashingEmbedder(dimensions = HASH_EMBEDDING_DIMENSIONS): EmbeddingProvider {
+  return {
+    id: `hash-${dimensions}-v1`,
+    dimensions,
+    embed: async (texts) => texts.map((t) => hashEmbed(t, dimensions)),
+  };
+}
+
+// OpenAI-compatible /v1/embeddings endpoint (OpenAI itself, or any proxy via OPENAI_BASE_URL)
+export function createOpenAIEmbedder(
+  model = process.env.JARVIS_EMBEDDINGS_MODEL || "text-embedding-3-small",
+  dimensions = Number(process.env.JARVIS_EMBEDDINGS_DIMENSIONS ?? 1536)
+): EmbeddingProvider {
+  return {
+    id: `openai-${model}-${dimensions}`,
+    dimensions,
+    embed: async (texts) => {
+      const key = process.env.OPENAI_API_KEY;
+      if (!key) throw new Error("Missing OPENAI_API_KEY env var");
+      const base = process.env.OPENAI_BASE_URL || "https://api.openai.com";
+      const res = await fetch(`${base}/v1/embeddings`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${key}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ model, input: texts, dimensions }),
+      });
+      if (!res.ok) {
+        throw new Error(`Embeddings API error: ${res.status} ${await res.text()}`);
+      }
+      const json: any = await res.json();
+      return (json?.data ?? [])
+        .sort((a: any, b: any) => a.index - b.index)
+        .map((d: any) => normalizeVector(d.embedding as number[]));
+    },
+  };
+}
+
+let override: EmbeddingProvider | null = null;
+let fromEnv: EmbeddingProvider | null = null;
+
+// Provider used for storing and querying memories
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (override) return override;
+  if (!fromEnv) {
+    fromEnv =
+      (process.env.JARVIS_EMBEDDINGS_PROVIDER ?? "").toLowerCase() === "openai"
+        ? createOpenAIEmbedder()
+        : createHashingEmbedder();
+  }
+  return fromEnv;
+}
+
+// Plug in a different provider (or null to go back to the env choice)
+export function setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+  override = provider;
+}
+
+// Vectors are stored rounded; 5 decimals is far below ranking noise
+export function compactVector(vector: number[]): number[] {
+  return vector.map((v) => Math.round(v * 1e5) / 1e5);
+}
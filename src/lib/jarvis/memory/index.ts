@@ -0,0 +1,7 @@
+// /lib/jarvis/memory/index.ts
+export * from "./types";
+export * from "./embeddings";
+export * from "./retrieval";
+export * from "./lifecycle";
+export * from "./store";
+export * from "./command";
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { findDuplicate, mergePatch, planMemoryMaintenance } from "./lifecycle";
+
+const now = new Date("2026-10-12T12:00:00Z");
+
+function daysAgo(days: number): string {
+  return new Date(now.getTime() - days * 86400000).toISOString();
+}
+
+function memory(id: string, extra: Record<string, any> = {}) {
+  return { id, user_id: "single-user", type: "preference", importance: 3, created_at: daysAgo(1), ...extra };
+}
+
+const east = [1, 0];
+const nearlyEast = [0.99, 0.1];
+const north = [0, 1];
+
+describe("findDuplicate", () => {
+  it("returns the closest candidate above the threshold", () => {
+    const candidates = [
+      { row: memory("a"), vector: north },
+      { row: memory("b"), vector: nearlyEast },
+    ];
+    expect(findDuplicate(east, candidates)?.row.id).toBe("b");
+    expect(findDuplicate([0.7, 0.7], candidates)).toBeNull();
+  });
+});
+
+describe("mergePatch", () => {
+  it("keeps the highest importance and counts every fold as a reinforcement", () => {
+    const keep = memory("a", { importance: 2, reinforce_count: 1 });
+    const others = [memory("b", { importance: 4 }), memory("c", { reinforce_count: 2 })];
+    const patch = mergePatch(keep, others, now);
+    expect(patch).toEqual({ importance: 4, reinforce_count: 5, reinforced_at: now.toISOString() });
+  });
+});
+
+describe("planMemoryMaintenance", () => {
+  it("folds near-duplicates into the most important copy", () => {
+    const plan = planMemoryMaintenance(
+      [
+        { row: memory("low", { importance: 2 }), vector: nearlyEast },
+        { row: memory("high", { importance: 4 }), vector: east },
+        { row: memory("other"), vector: north },
+      ],
+      now
+    );
+    expect(plan.merges).toHaveLength(1);
+    expect(plan.merges[0].keep.id).toBe("high");
+    expect(plan.merges[0].remove.map((r) => r.id)).toEqual(["low"]);
+    expect(plan.merges[0].patch).toMatchObject({ importance: 4, reinforce_count: 1 });
+  });
+
+  it("never merges away pinned memories or dated journal entries", () => {
+    const plan = planMemoryMaintenance(
+      [
+        { row: memory("kept", { importance: 5 }), vector: east },
+        { row: memory("pinned", { pinned: true, importance: 1 }), vector: east },
+        { row: memory("journal", { type: "journal" }), vector: nearlyEast },
+      ],
+      now
+    );
+    // The pinned copy wins and keeps the other, unpinned one
+    expect(plan.merges).toEqual([expect.objectContaining({ keep: expect.objectContaining({ id: "pinned" }) })]);
+    expect(plan.merges[0].remove.map((r) => r.id)).toEqual(["kept"]);
+  });
+
+  it("decays unreinforced memories one step per run and archives them once they bottom out", () => {
+    const plan = planMemoryMaintenance(
+      [
+        { row: memory("stale", { created_at: daysAgo(20) }), vector: [1, 0, 0, 0, 0] },
+        { row: memory("recent-decay", { created_at: daysAgo(30), decayed_at: daysAgo(5) }), vector: [0, 1, 0, 0, 0] },
+        { row: memory("reinforced", { created_at: daysAgo(90), reinforced_at: daysAgo(2) }), vector: [0, 0, 1, 0, 0] },
+        { row: memory("forgotten", { importance: 2, created_at: daysAgo(90) }), vector: [0, 0, 0, 1, 0] },
+        { row: memory("pinned", { importance: 1, pinned: true, created_at: daysAgo(400) }), vector: [0, 0, 0, 0, 1] },
+      ],
+      now
+    );
+    expect(plan.merges).toEqual([]);
+    expect(plan.decays).toEqual([
+      { id: "stale", from: 3, to: 2 },
+      { id: "forgotten", from: 2, to: 1 },
+    ]);
+    expect(plan.archives.map((r) => r.id)).toEqual(["forgotten"]);
+  });
+});
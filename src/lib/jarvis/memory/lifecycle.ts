@@ -0,0 +1,119 @@
+// /lib/jarvis/memory/lifecycle.ts
+// Memory upkeep rules. Near-duplicates are folded into the most important
+// copy (which counts as a reinforcement), importance steps down by one for
+// every DECAY_EVERY_DAYS a memory goes unreinforced, and memories that have
+// sunk to the floor and stayed untouched are archived. Pinned memories are
+// always kept as they are.
+// Pure; the store applies the plan and logs it for undo.
+
+import { cosineSimilarity } from "./retrieval";
+import type { MemoryCandidate, MemoryMaintenancePlan, MemoryMerge } from "./types";
+
+export const DUPLICATE_SIMILARITY = 0.9;
+export const DECAY_EVERY_DAYS = 14;
+export const ARCHIVE_AFTER_DAYS = 60;
+export const ARCHIVE_IMPORTANCE = 1;
+
+const DAY_MS = 86400000;
+
+// Dated entries: similar wording on two days is still two entries
+const NEVER_MERGED = new Set(["journal"]);
+
+function time(raw: unknown): number {
+  const t = Date.parse(String(raw ?? ""));
+  return Number.isFinite(t) ? t : 0;
+}
+
+function importanceOf(row: Record<string, any>): number {
+  const n = Number(row.importance);
+  return Number.isFinite(n) ? n : 1;
+}
+
+// Created or last reinforced, whichever is later
+function lastReinforced(row: Record<string, any>): number {
+  return Math.max(time(row.created_at), time(row.reinforced_at));
+}
+
+// The copy to keep: pinned, then most important, then most recently reinforced
+function keepFirst(a: Record<string, any>, b: Record<string, any>): number {
+  return (
+    Number(Boolean(b.pinned)) - Number(Boolean(a.pinned)) ||
+    importanceOf(b) - importanceOf(a) ||
+    lastReinforced(b) - lastReinforced(a)
+  );
+}
+
+// Closest existing memory at or above DUPLICATE_SIMILARITY, if any
+export function findDuplicate<Row extends Record<string, any>>(
+  vector: number[],
+  candidates: MemoryCandidate<Row>[],
+  threshold = DUPLICATE_SIMILARITY
+): MemoryCandidate<Row> | null {
+  let best: MemoryCandidate<Row> | null = null;
+  let bestSimilarity = threshold;
+  for (const c of candidates) {
+    const similarity = cosineSimilarity(vector, c.vector);
+    if (similarity >= bestSimilarity) {
+      best = c;
+      bestSimilarity = similarity;
+    }
+  }
+  return best;
+}
+
+export function mergePatch(
+  keep: Record<string, any>,
+  others: Record<string, any>[],
+  now: Date = new Date()
+): MemoryMerge["patch"] {
+  return {
+    importance: Math.max(importanceOf(keep), ...others.map(importanceOf)),
+    reinforce_count: [keep, ...others].reduce((s, r) => s + (Number(r.reinforce_count) || 0), 0) + others.length,
+    reinforced_at: now.toISOString(),
+  };
+}
+
+export function planMemoryMaintenance<Row extends Record<string, any>>(
+  candidates: MemoryCandidate<Row>[],
+  now: Date = new Date()
+): MemoryMaintenancePlan<Row> {
+  const ordered = [...candidates].sort((a, b) => keepFirst(a.row, b.row));
+  const merged = new Set<MemoryCandidate<Row>>();
+  const merges: MemoryMaintenancePlan<Row>["merges"] = [];
+
+  for (const c of ordered) {
+    if (merged.has(c) || NEVER_MERGED.has(c.row.type)) continue;
+    const dupes = ordered.filter(
+      (o) =>
+        o !== c &&
+        !merged.has(o) &&
+        !NEVER_MERGED.has(o.row.type) &&
+        !o.row.pinned &&
+        o.row.user_id === c.row.user_id &&
+        cosineSimilarity(c.vector, o.vector) >= DUPLICATE_SIMILARITY
+    );
+    if (!dupes.length) continue;
+    merged.add(c);
+    dupes.forEach((d) => merged.add(d));
+    const remove = dupes.map((d) => d.row);
+    merges.push({ keep: c.row, remove, patch: mergePatch(c.row, remove, now) });
+  }
+
+  const decays: MemoryMaintenancePlan<Row>["decays"] = [];
+  const archives: Row[] = [];
+  for (const c of ordered) {
+    if (merged.has(c) || c.row.pinned) continue;
+    const row = c.row;
+    let importance = importanceOf(row);
+    const lastTouch = Math.max(lastReinforced(row), time(row.decayed_at));
+    if (importance > ARCHIVE_IMPORTANCE && now.getTime() - lastTouch >= DECAY_EVERY_DAYS * DAY_MS) {
+      decays.push({ id: row.id, from: importance, to: importance - 1 });
+      importance -= 1;
+    }
+    if (importance <= ARCHIVE_IMPORTANCE && now.getTime() - lastReinforced(row) >= ARCHIVE_AFTER_DAYS * DAY_MS) {
+      archives.push(row);
+    }
+  }
+
+  return { merges, decays, archives };
+}
@@ -0,0 +1,103 @@
+// /lib/jarvis/memory/retrieval.ts
+// Ranking for semantic memory retrieval: cosine similarity to the query,
+// blended with the row's importance and how recent it is.
+// No Supabase here; lib/jarvis-memory.ts and the store load the rows.
+
+import type {
+  EmbeddingProvider,
+  MemoryCandidate,
+  RankedMemory,
+  RetrievalOptions,
+  RetrievalWeights,
+} from "./types";
+
+export const DEFAULT_RETRIEVAL_WEIGHTS: RetrievalWeights = { similarity: 0.7, importance: 0.2, recency: 0.1 };
+export const MIN_MEMORY_SIMILARITY = 0.1;
+export const MEMORY_HALF_LIFE_DAYS = 30;
+
+// Text of a jarvis_memory row: `content`, or wherever older rows kept it (summary, text, data.*)
+export function memoryText(row: Record<string, any> | null | undefined): string {
+  if (!row) return "";
+  const data = row.data && typeof row.data === "object" ? row.data : {};
+  const text = row.content ?? row.summary ?? row.text ?? data.summary ?? data.text ?? data.note ?? "";
+  return String(text).replace(/\s+/g, " ").trim();
+}
+
+// Stored vectors may come back as an array, a JSON string or pgvector's "[…]" text
+export function parseStoredVector(raw: unknown): number[] | null {
+  let value = raw;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  if (!Array.isArray(value) || !value.length) return null;
+  const vector = value.map(Number);
+  return vector.every(Number.isFinite) ? vector : null;
+}
+
+// Pairs rows with their vectors; rows saved before embeddings (or with
+// another provider) are embedded on the fly. Rows without text are dropped.
+export async function memoryCandidates<Row extends Record<string, any>>(
+  rows: Row[],
+  provider: EmbeddingProvider
+): Promise<MemoryCandidate<Row>[]> {
+  const withText = rows.filter((r) => memoryText(r));
+  const stored = withText.map((r) => (r.embedding_model === provider.id ? parseStoredVector(r.embedding) : null));
+  const missing = withText.filter((_, i) => !stored[i]);
+  const fresh = missing.length ? await provider.embed(missing.map(memoryText)) : [];
+
+  let next = 0;
+  return withText.map((row, i) => ({ row, vector: stored[i] ?? fresh[next++] }));
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (!a.length || a.length !== b.length) return 0;
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
+
+export function recencyScore(createdAt: unknown, now: Date, halfLifeDays = MEMORY_HALF_LIFE_DAYS): number {
+  const t = Date.parse(String(createdAt ?? ""));
+  if (!Number.isFinite(t)) return 0;
+  const ageDays = Math.max(0, (now.getTime() - t) / 86400000);
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+function importanceScore(raw: unknown): number {
+  const n = Number(raw);
+  return Number.isFinite(n) ? Math.max(0, Math.min(10, n)) / 10 : 0;
+}
+
+// Best first; rows under minSimilarity are dropped whatever their importance
+export function rankMemories<Row extends Record<string, any>>(
+  query: number[],
+  candidates: MemoryCandidate<Row>[],
+  opts: RetrievalOptions = {}
+): RankedMemory<Row>[] {
+  const weights = opts.weights ?? DEFAULT_RETRIEVAL_WEIGHTS;
+  const minSimilarity = opts.minSimilarity ?? MIN_MEMORY_SIMILARITY;
+  const now = opts.now ?? new Date();
+
+  return candidates
+    .map(({ row, vector }) => {
+      const similarity = cosineSimilarity(query, vector);
+      const importance = importanceScore(row.importance);
+      const recency = recencyScore(row.created_at, now, opts.halfLifeDays);
+      const score =
+        weights.similarity * similarity + weights.importance * importance + weights.recency * recency;
+      return { row, score, similarity, importance, recency };
+    })
+    .filter((m) => m.similarity >= minSimilarity)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, opts.limit ?? 10);
+}
@@ -0,0 +1,382 @@
+// /lib/jarvis/memory/store.ts
+// Supabase side of the memory lifecycle: merging duplicates on write,
+// the maintenance pass (merge, decay, archive), "forget X" requests, the
+// undo log (public.jarvis_memory_log), the admin console's search / edit /
+// delete and the per-reply injection log (public.jarvis_memory_injections).
+// Chat reads and writes memories through lib/jarvis-memory.ts.
+
+import { compactVector, getEmbeddingProvider } from "./embeddings";
+import { findDuplicate, mergePatch, planMemoryMaintenance } from "./lifecycle";
+import { memoryCandidates, memoryText, rankMemories } from "./retrieval";
+import {
+  MEMORY_TYPES,
+  type MemoryInjection,
+  type MemoryLogAction,
+  type MemoryLogEntry,
+  type MemoryLogStatus,
+  type MemoryMaintenanceResult,
+  type MemoryPatch,
+  type MemorySearchOptions,
+} from "./types";
+
+const TABLE = "jarvis_memory";
+const LOG_TABLE = "jarvis_memory_log";
+const INJECTION_TABLE = "jarvis_memory_injections";
+const DEDUP_CANDIDATES = 200;     // recent rows a new memory is compared against
+const MAINTENANCE_LIMIT = 500;
+const FORGET_CANDIDATES = 500;
+const FORGET_MATCHES = 10;
+const FORGET_SIMILARITY = 0.35;
+export const FORGET_CONFIRM_MINUTES = 15;
+const INJECTED_TEXT_CHARS = 300;
+
+// Row as kept in the log: everything but the vector, which is rebuilt on demand
+function snapshot(row: Record<string, any>): Record<string, any> {
+  const { embedding: _embedding, embedding_model: _model, ...rest } = row;
+  return rest;
+}
+
+async function logMemoryAction(
+  supabase: any,
+  entry: {
+    user_id: string;
+    action: MemoryLogAction;
+    status?: MemoryLogStatus;
+    query?: string | null;
+    rows: Record<string, any>[];
+    channel?: string | null;
+  }
+): Promise<MemoryLogEntry> {
+  const status = entry.status ?? "done";
+  const { data, error } = await supabase
+    .from(LOG_TABLE)
+    .insert({
+      user_id: entry.user_id,
+      action: entry.action,
+      status,
+      query: entry.query ?? null,
+      memory_ids: entry.rows.map((r) => r.id).filter(Boolean),
+      before: entry.rows.map(snapshot),
+      channel: entry.channel ?? null,
+      resolved_at: status === "pending" ? null : new Date().toISOString(),
+    })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data as MemoryLogEntry;
+}
+
+async function resolveLogEntry(supabase: any, id: string, status: MemoryLogStatus): Promise<MemoryLogEntry> {
+  const { data, error } = await supabase
+    .from(LOG_TABLE)
+    .update({ status, resolved_at: new Date().toISOString() })
+    .eq("id", id)
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data as MemoryLogEntry;
+}
+
+async function activeMemories(supabase: any, opts: { userId?: string; limit: number }) {
+  let query = supabase.from(TABLE).select("*").is("archived_at", null);
+  if (opts.userId) query = query.eq("user_id", opts.userId);
+  const { data, error } = await query.order("created_at", { ascending: false }).limit(opts.limit);
+
+  if (error) throw error;
+  return (data ?? []) as Record<string, any>[];
+}
+
+export async function listMemoryLog(
+  supabase: any,
+  opts: { userId?: string; limit?: number } = {}
+): Promise<MemoryLogEntry[]> {
+  let query = supabase.from(LOG_TABLE).select("*");
+  if (opts.userId) query = query.eq("user_id", opts.userId);
+  const { data, error } = await query.order("created_at", { ascending: false }).limit(opts.limit ?? 50);
+
+  if (error) throw error;
+  return (data ?? []) as MemoryLogEntry[];
+}
+
+/**
+ * Folds a memory about to be saved into a near-identical existing one
+ * (bumping its importance and reinforcement) instead of inserting a copy.
+ * Returns the id of the memory it was merged into, or null to insert.
+ */
+export async function mergeIntoDuplicate(
+  supabase: any,
+  incoming: Record<string, any> & { user_id: string; embedding: number[] }
+): Promise<string | null> {
+  const rows = (await activeMemories(supabase, { userId: incoming.user_id, limit: DEDUP_CANDIDATES })).filter(
+    (r) => r.type !== "journal"
+  );
+  const match = findDuplicate(incoming.embedding, await memoryCandidates(rows, getEmbeddingProvider()));
+  if (!match) return null;
+
+  const kept = match.row;
+  const before = [snapshot(kept), snapshot(incoming)];
+  const { error } = await supabase.from(TABLE).update(mergePatch(kept, [incoming])).eq("id", kept.id);
+  if (error) throw error;
+
+  // The incoming copy has no id; undo inserts it as its own memory again
+  await logMemoryAction(supabase, { user_id: kept.user_id, action: "merge", rows: before });
+  return kept.id;
+}
+
+// Daily upkeep over the newest active memories of every user
+export async function runMemoryMaintenance(
+  supabase: any,
+  opts: { userId?: string; now?: Date } = {}
+): Promise<MemoryMaintenanceResult> {
+  const now = opts.now ?? new Date();
+  const rows = await activeMemories(supabase, { userId: opts.userId, limit: MAINTENANCE_LIMIT });
+  const plan = planMemoryMaintenance(await memoryCandidates(rows, getEmbeddingProvider()), now);
+
+  let merged = 0;
+  for (const merge of plan.merges) {
+    const before = [merge.keep, ...merge.remove].map(snapshot);
+    const { error } = await supabase.from(TABLE).update(merge.patch).eq("id", merge.keep.id);
+    if (error) throw error;
+    const removeIds = merge.remove.map((r) => r.id);
+    const { error: deleteError } = await supabase.from(TABLE).delete().in("id", removeIds);
+    if (deleteError) throw deleteError;
+    await logMemoryAction(supabase, { user_id: merge.keep.user_id, action: "merge", rows: before });
+    merged += removeIds.length;
+  }
+
+  for (const decay of plan.decays) {
+    const { error } = await supabase
+      .from(TABLE)
+      .update({ importance: decay.to, decayed_at: now.toISOString() })
+      .eq("id", decay.id);
+    if (error) throw error;
+  }
+
+  // One log entry per user, so an undo brings back that user's batch
+  const archivesByUser = new Map<string, Record<string, any>[]>();
+  for (const row of plan.archives) {
+    archivesByUser.set(row.user_id, [...(archivesByUser.get(row.user_id) ?? []), row]);
+  }
+  for (const [userId, archived] of archivesByUser) {
+    const before = archived.map(snapshot);
+    const { error } = await supabase
+      .from(TABLE)
+      .update({ archived_at: now.toISOString() })
+      .in("id", archived.map((r) => r.id));
+    if (error) throw error;
+    await logMemoryAction(supabase, { user_id: userId, action: "archive", rows: before });
+  }
+
+  return { scanned: rows.length, merged, decayed: plan.decays.length, archived: plan.archives.length };
+}
+
+// Active memories matching a "forget …" request: by meaning or by the words themselves
+export async function findMemoriesToForget(supabase: any, userId: string, query: string) {
+  const provider = getEmbeddingProvider();
+  const rows = await activeMemories(supabase, { userId, limit: FORGET_CANDIDATES });
+  const [queryVector] = await provider.embed([query]);
+  const ranked = rankMemories(queryVector, await memoryCandidates(rows, provider), {
+    minSimilarity: FORGET_SIMILARITY,
+    limit: FORGET_MATCHES,
+  }).map((m) => m.row);
+
+  const needle = query.toLowerCase();
+  const literal = rows.filter((r) => !ranked.includes(r) && memoryText(r).toLowerCase().includes(needle));
+  return [...ranked, ...literal].slice(0, FORGET_MATCHES);
+}
+
+// Logs a pending forget for the user to confirm; replaces any earlier pending one
+export async function requestForget(
+  supabase: any,
+  userId: string,
+  query: string,
+  channel: string
+): Promise<MemoryLogEntry | null> {
+  const pending = await getPendingForget(supabase, userId);
+  if (pending) await resolveLogEntry(supabase, pending.id, "cancelled");
+
+  const rows = await findMemoriesToForget(supabase, userId, query);
+  if (!rows.length) return null;
+  return logMemoryAction(supabase, { user_id: userId, action: "forget", status: "pending", query, rows, channel });
+}
+
+export async function getPendingForget(supabase: any, userId: string): Promise<MemoryLogEntry | null> {
+  const since = new Date(Date.now() - FORGET_CONFIRM_MINUTES * 60000).toISOString();
+  const { data, error } = await supabase
+    .from(LOG_TABLE)
+    .select("*")
+    .eq("user_id", userId)
+    .eq("action", "forget")
+    .eq("status", "pending")
+    .gte("created_at", since)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as MemoryLogEntry) ?? null;
+}
+
+export async function confirmForget(supabase: any, entry: MemoryLogEntry): Promise<MemoryLogEntry> {
+  if (entry.memory_ids.length) {
+    const { error } = await supabase.from(TABLE).delete().in("id", entry.memory_ids);
+    if (error) throw error;
+  }
+  return resolveLogEntry(supabase, entry.id, "done");
+}
+
+export async function cancelForget(supabase: any, entry: MemoryLogEntry): Promise<MemoryLogEntry> {
+  return resolveLogEntry(supabase, entry.id, "cancelled");
+}
+
+// Puts every logged row back as it was: merged/forgotten rows are
+// re-created, kept and archived rows get their old fields back
+export async function undoMemoryAction(supabase: any, id: string): Promise<MemoryLogEntry> {
+  const { data, error } = await supabase.from(LOG_TABLE).select("*").eq("id", id).single();
+  if (error) throw error;
+  const entry = data as MemoryLogEntry;
+  if (entry.status !== "done") {
+    throw new Error(`Only completed actions can be undone (this one is ${entry.status}).`);
+  }
+
+  const existing = entry.before.filter((r) => r.id);
+  const recreated = entry.before.filter((r) => !r.id);
+  if (existing.length) {
+    const { error: upsertError } = await supabase.from(TABLE).upsert(existing, { onConflict: "id" });
+    if (upsertError) throw upsertError;
+  }
+  if (recreated.length) {
+    const { error: insertError } = await supabase.from(TABLE).insert(recreated);
+    if (insertError) throw insertError;
+  }
+  return resolveLogEntry(supabase, entry.id, "undone");
+}
+
+export async function getLatestMemoryAction(
+  supabase: any,
+  userId: string,
+  action: MemoryLogAction
+): Promise<MemoryLogEntry | null> {
+  const { data, error } = await supabase
+    .from(LOG_TABLE)
+    .select("*")
+    .eq("user_id", userId)
+    .eq("action", action)
+    .eq("status", "done")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as MemoryLogEntry) ?? null;
+}
+
+/* -------------------------
+   admin console
+   ------------------------- */
+
+// Filtered listing for the memory browser, newest first, without vectors
+export async function searchMemories(
+  supabase: any,
+  opts: MemorySearchOptions = {}
+): Promise<Record<string, any>[]> {
+  let query = supabase.from(TABLE).select("*");
+  query = opts.archived ? query.not("archived_at", "is", null) : query.is("archived_at", null);
+  if (opts.userId) query = query.eq("user_id", opts.userId);
+  if (opts.type) query = query.eq("type", opts.type);
+  if (opts.minImportance != null) query = query.gte("importance", opts.minImportance);
+  if (opts.maxImportance != null) query = query.lte("importance", opts.maxImportance);
+  if (opts.from) query = query.gte("created_at", opts.from);
+  if (opts.to) query = query.lte("created_at", opts.to.length === 10 ? `${opts.to}T23:59:59.999Z` : opts.to);
+  if (opts.pinned != null) query = query.eq("pinned", opts.pinned);
+
+  // Commas and parentheses would split the or-filter
+  const needle = (opts.q ?? "").replace(/[,()]/g, " ").trim();
+  if (needle) {
+    query = query.or(`content.ilike.%${needle}%,summary.ilike.%${needle}%,data->>text.ilike.%${needle}%`);
+  }
+
+  const { data, error } = await query.order("created_at", { ascending: false }).limit(opts.limit ?? 100);
+  if (error) throw error;
+  return ((data ?? []) as Record<string, any>[]).map(snapshot);
+}
+
+export async function updateMemory(supabase: any, id: string, patch: MemoryPatch): Promise<Record<string, any>> {
+  const update: Record<string, any> = {};
+
+  if (patch.content !== undefined) {
+    const content = String(patch.content).trim();
+    if (!content) throw new Error("Memory content cannot be empty.");
+    const provider = getEmbeddingProvider();
+    const [vector] = await provider.embed([content]);
+    Object.assign(update, { content, embedding: compactVector(vector), embedding_model: provider.id });
+  }
+  if (patch.type !== undefined) {
+    if (!(MEMORY_TYPES as readonly string[]).includes(patch.type)) {
+      throw new Error(`Unknown memory type "${patch.type}".`);
+    }
+    update.type = patch.type;
+  }
+  if (patch.tags !== undefined) {
+    if (!Array.isArray(patch.tags)) throw new Error("tags must be an array of strings.");
+    update.tags = patch.tags.map((t) => String(t).trim()).filter(Boolean);
+  }
+  if (patch.importance !== undefined) {
+    const n = Number(patch.importance);
+    if (!Number.isInteger(n) || n < 1 || n > 10) throw new Error("importance must be a whole number from 1 to 10.");
+    update.importance = n;
+  }
+  if (patch.pinned !== undefined) update.pinned = Boolean(patch.pinned);
+  if (patch.archived !== undefined) update.archived_at = patch.archived ? new Date().toISOString() : null;
+  if (!Object.keys(update).length) throw new Error("Nothing to update.");
+
+  const { data, error } = await supabase.from(TABLE).update(update).eq("id", id).select("*").single();
+  if (error) throw error;
+  return snapshot(data);
+}
+
+// Deleted from the console, logged so the log's undo can bring it back
+export async function deleteMemory(supabase: any, id: string): Promise<MemoryLogEntry> {
+  const { data, error } = await supabase.from(TABLE).select("*").eq("id", id).single();
+  if (error) throw error;
+
+  const { error: deleteError } = await supabase.from(TABLE).delete().eq("id", id);
+  if (deleteError) throw deleteError;
+  return logMemoryAction(supabase, { user_id: data.user_id, action: "delete", rows: [data], channel: "admin" });
+}
+
+// Which memories went into the prompt for one reply; text is copied so the
+// record still reads after the memory is edited or deleted
+export async function recordMemoryInjection(
+  supabase: any,
+  entry: { userId: string; channel?: string | null; message?: string | null; rows: Record<string, any>[] }
+): Promise<void> {
+  if (!entry.rows.length) return;
+  const { error } = await supabase.from(INJECTION_TABLE).insert({
+    user_id: entry.userId,
+    channel: entry.channel ?? null,
+    message: entry.message ? entry.message.slice(0, INJECTED_TEXT_CHARS) : null,
+    memory_ids: entry.rows.map((r) => r.id).filter(Boolean),
+    memories: entry.rows.map((r) => ({
+      id: r.id ?? null,
+      text: memoryText(r).slice(0, INJECTED_TEXT_CHARS),
+      type: r.type ?? null,
+      relevance: typeof r.relevance === "number" ? r.relevance : null,
+    })),
+  });
+  if (error) throw error;
+}
+
+export async function listMemoryInjections(
+  supabase: any,
+  opts: { userId?: string; limit?: number } = {}
+): Promise<MemoryInjection[]> {
+  let query = supabase.from(INJECTION_TABLE).select("*");
+  if (opts.userId) query = query.eq("user_id", opts.userId);
+  const { data, error } = await query.order("created_at", { ascending: false }).limit(opts.limit ?? 30);
+
+  if (error) throw error;
+  return (data ?? []) as MemoryInjection[];
+}
@@ -0,0 +1,142 @@
+// /lib/jarvis/memory/types.ts
+
+export const MEMORY_TYPES = [
+  "preference",
+  "profile",
+  "trade",
+  "event",
+  "emotion",
+  "goal",
+  "summary",
+  "journal",
+  "math",
+  "misc",
+] as const;
+export type MemoryType = (typeof MEMORY_TYPES)[number];
+
+// Anything that turns text into fixed-length vectors. Vectors from different
+// providers (or dimensions) are never compared — `id` is stored with each row.
+export interface EmbeddingProvider {
+  id: string;                     // e.g. "hash-512-v1", stored as jarvis_memory.embedding_model
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Columns added to public.jarvis_memory for semantic retrieval
+export interface MemoryEmbeddingColumns {
+  embedding: number[] | null;
+  embedding_model: string | null;
+}
+
+// How the final rank is blended; weights should add up to 1
+export interface RetrievalWeights {
+  similarity: number;             // cosine(query, memory)
+  importance: number;             // importance 1–10, scaled to 0–1
+  recency: number;                // exponential decay on created_at
+}
+
+export interface RetrievalOptions {
+  limit?: number;
+  minSimilarity?: number;         // rows below this are treated as unrelated
+  halfLifeDays?: number;          // recency halves every N days
+  weights?: RetrievalWeights;
+  now?: Date;
+}
+
+export interface MemoryCandidate<Row = Record<string, any>> {
+  row: Row;
+  vector: number[];
+}
+
+export interface RankedMemory<Row = Record<string, any>> {
+  row: Row;
+  score: number;                  // blended
+  similarity: number;
+  importance: number;             // 0–1
+  recency: number;                // 0–1
+}
+
+// Lifecycle columns on public.jarvis_memory (dedup, decay, archive)
+export interface MemoryLifecycleColumns {
+  archived_at: string | null;     // archived rows are left out of retrieval
+  reinforced_at: string | null;   // last time a duplicate was merged in
+  reinforce_count: number | null;
+  decayed_at: string | null;      // last importance step-down
+  pinned: boolean | null;         // set from the admin console; never decayed, archived or merged away
+}
+
+export type MemoryLogAction = "merge" | "archive" | "forget" | "delete";
+export type MemoryLogStatus = "pending" | "done" | "undone" | "cancelled";
+
+// Row in public.jarvis_memory_log — every merge, archive, forget and admin delete, so it can be undone
+export interface MemoryLogEntry {
+  id: string;                     // uuid
+  user_id: string;
+  action: MemoryLogAction;
+  status: MemoryLogStatus;        // "pending" only for a forget awaiting confirmation
+  query: string | null;           // what the user asked to forget
+  memory_ids: string[];           // rows changed or deleted
+  before: Record<string, any>[];  // row snapshots (without vectors) restored on undo
+  channel: string | null;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+export interface MemoryMerge<Row = Record<string, any>> {
+  keep: Row;
+  remove: Row[];
+  patch: { importance: number; reinforce_count: number; reinforced_at: string };
+}
+
+export interface MemoryDecay {
+  id: string;
+  from: number;
+  to: number;
+}
+
+export interface MemoryMaintenancePlan<Row = Record<string, any>> {
+  merges: MemoryMerge<Row>[];
+  decays: MemoryDecay[];
+  archives: Row[];
+}
+
+export interface MemoryMaintenanceResult {
+  scanned: number;
+  merged: number;                 // rows folded into another
+  decayed: number;
+  archived: number;
+}
+
+// Row in public.jarvis_memory_injections — the memories put into one reply's prompt
+export interface MemoryInjection {
+  id: string;                     // uuid
+  user_id: string;
+  channel: string | null;
+  message: string | null;         // the user message being answered
+  memory_ids: string[];
+  memories: { id: string | null; text: string; type: string | null; relevance: number | null }[];
+  created_at: string;
+}
+
+// Admin console search over public.jarvis_memory
+export interface MemorySearchOptions {
+  userId?: string;
+  q?: string;                     // substring of the memory text
+  type?: string;
+  minImportance?: number;
+  maxImportance?: number;
+  from?: string;                  // created_at >= (ISO date)
+  to?: string;                    // created_at <= (ISO date, whole day)
+  pinned?: boolean;
+  archived?: boolean;             // true: only archived; default: only active
+  limit?: number;
+}
+
+export interface MemoryPatch {
+  content?: string;
+  type?: string;
+  tags?: string[];
+  importance?: number;
+  pinned?: boolean;
+  archived?: boolean;             // false restores an archived memory
+}
@@ -0,0 +1,65 @@
+// /lib/jarvis/preTrade/command.ts
+// Telegram commands for the pre-trade gate:
+//   /pretrade <plan>  → verdict, logged for the override stats; "✓all" in the
+//                       plan confirms every checklist item
+//   /taken <R>        → outcome of the latest unresolved check
+//   /skipped          → the latest unresolved check was not taken
+// Returns null when the text isn't one of these commands.
+
+import { evaluatePreTrade, formatPreTradeReply } from "./gate";
+import { logPreTradeCheck, recordLatestOutcome } from "./store";
+
+const PRETRADE_RE = /^\/(?:pretrade|gate)(?:@\w+)?\b\s*([\s\S]*)$/i;
+const TAKEN_RE = /^\/taken(?:@\w+)?\b\s*([-+]?\d+(?:\.\d+)?)?\s*r?\s*$/i;
+const SKIPPED_RE = /^\/skipped(?:@\w+)?\b/i;
+// No tick boxes on Telegram: "✓all" / "checklist ok" confirms the whole checklist
+const CHECKLIST_ALL_RE = /(?:[✓✔]\uFE0F?\s*all\b|\bchecklist\s+(?:ok|done)\b)/giu;
+
+const USAGE =
+  "Send your plan after the command, e.g.\n/pretrade long XAUUSD entry 2350 SL 2342 TP 2366 1% risk ✓all\n(✓all = every checklist item is done)";
+
+export async function answerPreTradeCommand(supabase: any, text: string): Promise<string | null> {
+  const trimmed = text.trim();
+
+  const pretrade = trimmed.match(PRETRADE_RE);
+  if (pretrade) {
+    const confirmedAll = pretrade[1].search(CHECKLIST_ALL_RE) >= 0;
+    const description = pretrade[1].replace(CHECKLIST_ALL_RE, " ").replace(/\s+/g, " ").trim();
+    if (!description) return USAGE;
+
+    // Without "✓all" checklist items count as unconfirmed
+    const result = await evaluatePreTrade(supabase, {
+      description,
+      checklist: confirmedAll ? "all" : null,
+      channel: "telegram",
+    });
+    let reply = formatPreTradeReply(result);
+    if (result.checklist.some((c) => c.confirmed === null)) {
+      reply += "\n\nAll checklist items done? Send the same /pretrade with ✓all added.";
+    }
+    try {
+      await logPreTradeCheck(supabase, result, description, "telegram");
+      reply += "\n\nAfter the trade: /taken <result R> or /skipped.";
+    } catch (err) {
+      console.error("[telegram/pretrade] log error", err);
+    }
+    return reply;
+  }
+
+  const taken = trimmed.match(TAKEN_RE);
+  if (taken) {
+    const row = await recordLatestOutcome(supabase, { taken: true, result_r: taken[1] ?? null });
+    if (!row) return "No pre-trade check waiting for an outcome.";
+    const r = row.result_r == null ? "result pending" : `${row.result_r > 0 ? "+" : ""}${row.result_r}R`;
+    const against = row.verdict === "GO" ? "" : ` (against a ${row.verdict} verdict)`;
+    return `Logged: taken${against}, ${r}.`;
+  }
+
+  if (SKIPPED_RE.test(trimmed)) {
+    const row = await recordLatestOutcome(supabase, { taken: false });
+    if (!row) return "No pre-trade check waiting for an outcome.";
+    return `Logged: skipped ${row.symbol ?? "the trade"} (${row.verdict}).`;
+  }
+
+  return null;
+}
@@ -0,0 +1,372 @@
+// /lib/jarvis/preTrade/gate.ts
+// Pre-trade gate: a planned trade is checked against today's check-in, any
+// tilt cool-down, the daily loss room (math engine), the max-trades-per-day cap and the
+// user's active rule/checklist knowledge items. Every input adds reasons;
+// any "block" means NO-TRADE, any "reduce" means REDUCE SIZE, else GO.
+// Fully deterministic, so the same plan always gets the same verdict.
+
+import { localDate } from "@/lib/time";
+import {
+  describeMathResult,
+  formatProvenance,
+  runMathTask,
+  type RoomLeftResult,
+} from "../math";
+import { buildKnowledgeContext } from "../knowledge/context";
+import type { KnowledgeContextBlock } from "../knowledge/types";
+import { loadTradingProfile, type TradingProfile } from "../tradingMemory";
+import { loadFinance } from "../finance";
+import { listTrades } from "../trades";
+import { describeSignal, loadTodayReadiness, type ReadinessResult } from "../checkins";
+import { cooldownMinutesLeft, getActiveCooldown, type JarvisCooldown } from "../tilt";
+import {
+  computeSetupMath,
+  extractTradeSetup,
+  gradeRuleDeterministically,
+  type TradeSetup,
+} from "../tradeAnalysis";
+import type {
+  PreTradeChecklistItem,
+  PreTradeInput,
+  PreTradeReason,
+  PreTradeResult,
+  PreTradeVerdict,
+} from "./types";
+
+export const DEFAULT_PRETRADE_RISK_PERCENT = 1;
+export const DEFAULT_MAX_TRADES_PER_DAY = 3;
+const DEFAULT_TOTAL_DRAWDOWN_PCT = 10;
+
+function round2(value: number): number {
+  return Number(value.toFixed(2));
+}
+
+function optionalNumber(value: unknown, field: string): number | null {
+  if (value == null || String(value).trim() === "") return null;
+  const n = Number(value);
+  if (!Number.isFinite(n)) {
+    throw new Error(`${field} must be a number.`);
+  }
+  return n;
+}
+
+// Parsed description, then explicit fields on top
+function resolveSetup(input: PreTradeInput): TradeSetup {
+  const parsed = extractTradeSetup(input.description ?? "");
+  const setup: TradeSetup = { ...parsed };
+
+  if (input.symbol?.trim()) setup.symbol = input.symbol.trim().toUpperCase();
+  if (input.direction === "long" || input.direction === "short") setup.direction = input.direction;
+  setup.entry = optionalNumber(input.entry, "Entry") ?? setup.entry;
+  setup.stop = optionalNumber(input.stop, "Stop") ?? setup.stop;
+  setup.target = optionalNumber(input.target, "Target") ?? setup.target;
+  setup.riskPercent = optionalNumber(input.riskPercent, "Risk percent") ?? setup.riskPercent;
+
+  if (setup.riskPercent != null && setup.riskPercent <= 0) {
+    throw new Error("Risk percent must be greater than 0.");
+  }
+  return setup;
+}
+
+function checkinReasons(readiness: ReadinessResult | null): PreTradeReason[] {
+  if (!readiness) {
+    return [
+      {
+        factor: "checkin",
+        severity: "reduce",
+        text: "No check-in for today — your state is unknown, so trade smaller (log one at /checkin).",
+      },
+    ];
+  }
+  const severity = readiness.level === "block" ? "block" : readiness.level === "caution" ? "reduce" : "ok";
+  const flagged = readiness.signals.filter((s) => s.severity !== "good").map(describeSignal);
+  const flags = flagged.length ? ` Flags: ${flagged.join("; ")}.` : "";
+  return [{ factor: "checkin", severity, text: `${readiness.label} (${readiness.score}/100).${flags}` }];
+}
+
+function cooldownReasons(cooldown: JarvisCooldown | null): PreTradeReason[] {
+  if (!cooldown) return [];
+  const why = cooldown.signals.map((s) => s.detail).join("; ");
+  return [
+    {
+      factor: "cooldown",
+      severity: cooldown.severity === "refuse" ? "block" : "reduce",
+      text: `Tilt cool-down for another ${cooldownMinutesLeft(cooldown)} min (${why}).`,
+    },
+  ];
+}
+
+function roomReasons(
+  room: RoomLeftResult | null,
+  riskPercent: number,
+  accountSize: number | null
+): { reasons: PreTradeReason[]; cap: number | null } {
+  if (!room || !accountSize) {
+    return {
+      reasons: [
+        {
+          factor: "room",
+          severity: "ok",
+          text: "Daily loss room not checked — set your account size and daily loss limit in your profile.",
+        },
+      ],
+      cap: null,
+    };
+  }
+
+  const intended = (accountSize * riskPercent) / 100;
+  const left = room.remainingTodayAmount;
+  if (left <= 0) {
+    return {
+      reasons: [{ factor: "room", severity: "block", text: "No daily loss room left — any further loss breaches the rules." }],
+      cap: 0,
+    };
+  }
+  if (intended > left) {
+    const cap = round2(room.maxRiskNextTradePct);
+    return {
+      reasons: [
+        {
+          factor: "room",
+          severity: "reduce",
+          text: `Only ${left.toFixed(2)} of daily room left; ${riskPercent}% risk (${intended.toFixed(
+            2
+          )}) would breach it — max ${cap}%.`,
+        },
+      ],
+      cap,
+    };
+  }
+  return {
+    reasons: [
+      {
+        factor: "room",
+        severity: "ok",
+        text: `${left.toFixed(2)} of daily room left — ${Math.floor(left / intended)} loss(es) at ${riskPercent}% before the limit.`,
+      },
+    ],
+    cap: null,
+  };
+}
+
+function tradesReasons(tradesToday: number, max: number): PreTradeReason[] {
+  if (tradesToday >= max) {
+    return [{ factor: "trades", severity: "block", text: `Already ${tradesToday} trade(s) today — your cap is ${max}.` }];
+  }
+  const left = max - tradesToday;
+  return [
+    {
+      factor: "trades",
+      severity: "ok",
+      text: left === 1 ? `Last trade allowed today (${tradesToday}/${max}).` : `${tradesToday}/${max} trades today.`,
+    },
+  ];
+}
+
+function levelReasons(setup: TradeSetup, mathError: string | null): PreTradeReason[] {
+  const reasons: PreTradeReason[] = [];
+  if (setup.stop == null) {
+    reasons.push({ factor: "levels", severity: "block", text: "No stop loss — define where the idea is wrong first." });
+  }
+  if (mathError) {
+    reasons.push({ factor: "levels", severity: "block", text: mathError });
+  }
+  return reasons;
+}
+
+function checklistReasons(items: PreTradeChecklistItem[]): PreTradeReason[] {
+  const missed = items.filter((i) => i.confirmed === false).map((i) => i.title);
+  const unasked = items.filter((i) => i.confirmed === null).map((i) => i.title);
+  const reasons: PreTradeReason[] = [];
+  if (missed.length) {
+    reasons.push({ factor: "checklist", severity: "block", text: `Checklist not met: ${missed.join("; ")}.` });
+  }
+  if (unasked.length) {
+    reasons.push({ factor: "checklist", severity: "reduce", text: `Checklist not confirmed: ${unasked.join("; ")}.` });
+  }
+  if (items.length && !missed.length && !unasked.length) {
+    reasons.push({ factor: "checklist", severity: "ok", text: `All ${items.length} checklist item(s) confirmed.` });
+  }
+  return reasons;
+}
+
+function verdictOf(reasons: PreTradeReason[]): PreTradeVerdict {
+  if (reasons.some((r) => r.severity === "block")) return "NO-TRADE";
+  if (reasons.some((r) => r.severity === "reduce")) return "REDUCE SIZE";
+  return "GO";
+}
+
+export async function evaluatePreTrade(supabase: any, input: PreTradeInput): Promise<PreTradeResult> {
+  const setup = resolveSetup(input);
+  const assumptions: string[] = [];
+  const riskPercent = setup.riskPercent ?? DEFAULT_PRETRADE_RISK_PERCENT;
+  if (setup.riskPercent == null) assumptions.push(`${DEFAULT_PRETRADE_RISK_PERCENT}% risk (default)`);
+
+  const [profile, finance, todaysTrades, { readiness }, cooldown, knowledge] = await Promise.all([
+    loadTradingProfile(supabase),
+    loadFinance(supabase),
+    listTrades(supabase, { from: localDate(), to: localDate() }),
+    loadTodayReadiness(supabase),
+    getActiveCooldown(supabase).catch((err) => {
+      console.error("evaluatePreTrade cool-down error:", err);
+      return null;
+    }),
+    buildKnowledgeContext({ itemTypes: ["rule", "checklist"], maxItems: 20 }).catch((err) => {
+      console.error("evaluatePreTrade knowledge error:", err);
+      return [] as KnowledgeContextBlock[];
+    }),
+  ]);
+
+  const accountSize = profile?.account_size ?? null;
+  const balance = accountSize ? accountSize + (profile?.current_profit ?? 0) : null;
+  const accountCurrency = finance?.account_currency || "USD";
+
+  // Levels → RR and size
+  const math = computeSetupMath({ ...setup, riskPercent }, { accountSize: balance, accountCurrency });
+  assumptions.push(...math.assumptions);
+
+  // Daily room via the engine's room-left task
+  const room = computeRoom(profile, accountCurrency, riskPercent, todaysTrades, input.dayPnl, assumptions, math.lines);
+
+  const maxTradesPerDay = profile?.max_trades_per_day ?? DEFAULT_MAX_TRADES_PER_DAY;
+  if (profile?.max_trades_per_day == null) {
+    assumptions.push(`${DEFAULT_MAX_TRADES_PER_DAY} trades per day max (default)`);
+  }
+
+  const checklist: PreTradeChecklistItem[] = knowledge
+    .filter((b) => b.item_type === "checklist")
+    .map((b) => ({
+      title: b.title,
+      content: b.content,
+      confirmed:
+        input.checklist === "all" ? true : input.checklist ? input.checklist[b.title] === true : null,
+    }));
+
+  const ruleReasons: PreTradeReason[] = knowledge
+    .map((b) => gradeRuleDeterministically(b, { ...setup, riskPercent }, math))
+    .filter((c): c is NonNullable<typeof c> => !!c && c.status !== "unknown")
+    .map((c) => ({
+      factor: "rule",
+      severity: c.status === "fail" ? "block" : "ok",
+      text: `${c.label}: ${c.detail}`,
+    }));
+
+  const roomCheck = roomReasons(room, riskPercent, accountSize);
+  const reasons: PreTradeReason[] = [
+    ...checkinReasons(readiness),
+    ...cooldownReasons(cooldown),
+    ...roomCheck.reasons,
+    ...tradesReasons(todaysTrades.length, maxTradesPerDay),
+    ...levelReasons(setup, math.error),
+    ...ruleReasons,
+    ...checklistReasons(checklist),
+  ];
+
+  const verdict = verdictOf(reasons);
+
+  // Half size for state/checklist doubts, capped by the daily room
+  let suggestedRiskPercent: number | null = null;
+  if (verdict === "REDUCE SIZE") {
+    const halved = reasons.some((r) => r.severity === "reduce" && r.factor !== "room") ? riskPercent / 2 : riskPercent;
+    suggestedRiskPercent = round2(Math.min(halved, roomCheck.cap ?? halved));
+  }
+
+  return {
+    verdict,
+    reasons,
+    setup: { ...setup, riskPercent },
+    riskPercent,
+    suggestedRiskPercent,
+    readiness,
+    roomLeft: room,
+    tradesToday: todaysTrades.length,
+    maxTradesPerDay,
+    checklist,
+    mathLines: math.lines,
+    assumptions,
+  };
+}
+
+function computeRoom(
+  profile: TradingProfile | null,
+  accountCurrency: string,
+  riskPercent: number,
+  todaysTrades: { rr_result: number | null }[],
+  dayPnlInput: PreTradeInput["dayPnl"],
+  assumptions: string[],
+  lines: string[]
+): RoomLeftResult | null {
+  const accountSize = profile?.account_size ?? null;
+  const daily = profile?.daily_loss_percent ?? null;
+  if (!accountSize || !daily) return null;
+
+  const startOfDayBalance = accountSize + (profile?.current_profit ?? 0);
+  let dayPnl = optionalNumber(dayPnlInput, "Day P/L");
+  if (dayPnl == null) {
+    const dayR = todaysTrades.reduce((sum, t) => sum + (t.rr_result ?? 0), 0);
+    dayPnl = round2((dayR * accountSize * riskPercent) / 100);
+    if (todaysTrades.length) {
+      assumptions.push(`today's P/L ${dayPnl} estimated from ${round2(dayR)}R in the journal at ${riskPercent}% per R`);
+    }
+  }
+
+  try {
+    const result = runMathTask({
+      type: "room-left",
+      input: {
+        config: {
+          accountSize,
+          currency: accountCurrency,
+          targetReturnPct: profile?.target_percent ?? 0,
+          maxDailyDrawdownPct: daily,
+          maxTotalDrawdownPct: profile?.max_loss_percent ?? DEFAULT_TOTAL_DRAWDOWN_PCT,
+        },
+        startOfDayBalance,
+        currentEquity: Math.max(0, startOfDayBalance + dayPnl),
+        riskPercent,
+      },
+    });
+    if (result.type !== "room-left") return null;
+    lines.push(`${describeMathResult(result)} ${formatProvenance(result.provenance)}`);
+    return result.result;
+  } catch (err) {
+    console.error("evaluatePreTrade room-left error:", err);
+    return null;
+  }
+}
+
+// ---- Telegram / chat formatting --------------------------------------------
+
+const VERDICT_ICONS: Record<PreTradeVerdict, string> = {
+  GO: "🟢",
+  "REDUCE SIZE": "🟠",
+  "NO-TRADE": "🔴",
+};
+
+export function formatPreTradeReply(result: PreTradeResult): string {
+  const s = result.setup;
+  const plan = [
+    s.symbol,
+    s.direction,
+    s.entry != null ? `@ ${s.entry}` : null,
+    s.stop != null ? `SL ${s.stop}` : null,
+    s.target != null ? `TP ${s.target}` : null,
+    `${result.riskPercent}% risk`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  const lines = [`${VERDICT_ICONS[result.verdict]} ${result.verdict} — ${plan}`];
+  if (result.suggestedRiskPercent != null) {
+    lines.push(`Size down to ${result.suggestedRiskPercent}% risk.`);
+  }
+  for (const r of result.reasons) {
+    const mark = r.severity === "block" ? "✖" : r.severity === "reduce" ? "▲" : "✔";
+    lines.push(`${mark} ${r.text}`);
+  }
+  lines.push(...result.mathLines);
+  if (result.assumptions.length) {
+    lines.push(`Assumptions: ${result.assumptions.join("; ")}.`);
+  }
+  return lines.join("\n");
+}
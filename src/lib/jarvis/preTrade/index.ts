@@ -0,0 +1,5 @@
+// /lib/jarvis/preTrade/index.ts
+export * from "./types";
+export * from "./gate";
+export * from "./store";
+export * from "./command";
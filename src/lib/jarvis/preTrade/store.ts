@@ -0,0 +1,152 @@
+// /lib/jarvis/preTrade/store.ts
+// Supabase data layer for pre-trade gate checks (public.jarvis_pretrade_checks).
+// Each verdict is logged with the plan; the outcome (taken? result R?) is
+// added later so overrides can be measured against following the gate.
+
+import type {
+  PreTradeChannel,
+  PreTradeCheckRow,
+  PreTradeOutcome,
+  PreTradeOverrideSummary,
+  PreTradeResult,
+  PreTradeVerdict,
+  PreTradeVerdictStats,
+} from "./types";
+
+const TABLE = "jarvis_pretrade_checks";
+const USER_ID = "single-user";
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 1000;
+
+const VERDICTS: PreTradeVerdict[] = ["GO", "REDUCE SIZE", "NO-TRADE"];
+
+function toNumberOrNull(value: unknown, field: string): number | null {
+  if (value == null || String(value).trim() === "") return null;
+  const n = Number(value);
+  if (!Number.isFinite(n)) {
+    throw new Error(`${field} must be a number.`);
+  }
+  return n;
+}
+
+export async function logPreTradeCheck(
+  supabase: any,
+  result: PreTradeResult,
+  description: string,
+  channel: PreTradeChannel
+): Promise<PreTradeCheckRow> {
+  const { setup } = result;
+  const payload = {
+    user_id: USER_ID,
+    channel,
+    description: description.trim() || null,
+    symbol: setup.symbol,
+    direction: setup.direction,
+    entry: setup.entry,
+    stop: setup.stop,
+    target: setup.target,
+    risk_percent: result.riskPercent,
+    verdict: result.verdict,
+    suggested_risk_percent: result.suggestedRiskPercent,
+    reasons: result.reasons,
+  };
+
+  const { data, error } = await supabase.from(TABLE).insert(payload).select("*").single();
+  if (error) throw error;
+  return data as PreTradeCheckRow;
+}
+
+// Newest first
+export async function listPreTradeChecks(supabase: any, limit = DEFAULT_LIMIT): Promise<PreTradeCheckRow[]> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select("*")
+    .eq("user_id", USER_ID)
+    .order("created_at", { ascending: false })
+    .limit(Math.min(Math.max(1, limit), MAX_LIMIT));
+
+  if (error) throw error;
+  return (data ?? []) as PreTradeCheckRow[];
+}
+
+export async function recordPreTradeOutcome(
+  supabase: any,
+  id: string,
+  outcome: PreTradeOutcome
+): Promise<PreTradeCheckRow> {
+  if (typeof outcome?.taken !== "boolean") {
+    throw new Error("taken must be true or false.");
+  }
+  const resultR = outcome.taken ? toNumberOrNull(outcome.result_r, "Result R") : null;
+
+  const { data, error } = await supabase
+    .from(TABLE)
+    .update({
+      taken: outcome.taken,
+      result_r: resultR,
+      trade_id: outcome.taken ? outcome.trade_id ?? null : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("user_id", USER_ID)
+    .eq("id", id)
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data as PreTradeCheckRow;
+}
+
+// For Telegram's /taken and /skipped: the newest check still waiting for an
+// outcome, or null when there is none
+export async function recordLatestOutcome(
+  supabase: any,
+  outcome: PreTradeOutcome
+): Promise<PreTradeCheckRow | null> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select("id")
+    .eq("user_id", USER_ID)
+    .is("taken", null)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+  return recordPreTradeOutcome(supabase, data.id, outcome);
+}
+
+function emptyStats(): PreTradeVerdictStats {
+  return { checks: 0, taken: 0, withResult: 0, losses: 0, totalR: 0 };
+}
+
+function addRow(stats: PreTradeVerdictStats, row: PreTradeCheckRow): void {
+  stats.checks += 1;
+  if (!row.taken) return;
+  stats.taken += 1;
+  if (row.result_r == null) return;
+  stats.withResult += 1;
+  stats.totalR = Number((stats.totalR + Number(row.result_r)).toFixed(2));
+  if (Number(row.result_r) < 0) stats.losses += 1;
+}
+
+// An override is a trade taken against REDUCE SIZE or NO-TRADE
+export function summarizeOverrides(rows: PreTradeCheckRow[]): PreTradeOverrideSummary {
+  const byVerdict = Object.fromEntries(VERDICTS.map((v) => [v, emptyStats()])) as Record<
+    PreTradeVerdict,
+    PreTradeVerdictStats
+  >;
+  const overrides = emptyStats();
+  const followed = emptyStats();
+  let pendingOutcome = 0;
+
+  for (const row of rows) {
+    const bucket = byVerdict[row.verdict];
+    if (!bucket) continue;
+    addRow(bucket, row);
+    if (row.taken == null) pendingOutcome += 1;
+    if (row.taken) addRow(row.verdict === "GO" ? followed : overrides, row);
+  }
+
+  return { byVerdict, overrides, followed, pendingOutcome };
+}
@@ -0,0 +1,96 @@
+// /lib/jarvis/preTrade/types.ts
+
+import type { ReadinessResult } from "../checkins/readiness";
+import type { RoomLeftResult } from "../math";
+import type { TradeSetup } from "../tradeAnalysis";
+
+export type PreTradeVerdict = "GO" | "REDUCE SIZE" | "NO-TRADE";
+export type PreTradeChannel = "web" | "telegram";
+
+// What each gate input contributes; the worst severity decides the verdict
+export type PreTradeFactor = "checkin" | "cooldown" | "room" | "trades" | "levels" | "rule" | "checklist";
+export type PreTradeSeverity = "block" | "reduce" | "ok";
+
+export interface PreTradeReason {
+  factor: PreTradeFactor;
+  severity: PreTradeSeverity;
+  text: string;
+}
+
+export interface PreTradeInput {
+  description?: string;           // free-text plan, parsed like the analyzer does
+  symbol?: string;                // explicit fields win over the parsed ones
+  direction?: "long" | "short";
+  entry?: number | string | null;
+  stop?: number | string | null;
+  target?: number | string | null;
+  riskPercent?: number | string | null; // default 1%
+  dayPnl?: number | string | null; // realised P/L today, account currency; default from the journal
+  checklist?: Record<string, boolean> | "all" | null; // checklist title → ticked, or every item; null when not asked
+  channel?: PreTradeChannel;
+}
+
+export interface PreTradeChecklistItem {
+  title: string;
+  content: string;
+  confirmed: boolean | null;      // null: not asked (e.g. Telegram)
+}
+
+export interface PreTradeResult {
+  verdict: PreTradeVerdict;
+  reasons: PreTradeReason[];
+  setup: TradeSetup;
+  riskPercent: number;
+  suggestedRiskPercent: number | null; // set on REDUCE SIZE
+  readiness: ReadinessResult | null; // today's check-in; null when none is logged
+  roomLeft: RoomLeftResult | null;
+  tradesToday: number;
+  maxTradesPerDay: number;
+  checklist: PreTradeChecklistItem[];
+  mathLines: string[];            // engine answers with provenance tags
+  assumptions: string[];
+}
+
+// Row in public.jarvis_pretrade_checks
+export interface PreTradeCheckRow {
+  id: string;                     // uuid
+  user_id: string;
+  channel: PreTradeChannel;
+  description: string | null;
+  symbol: string | null;
+  direction: "long" | "short" | null;
+  entry: number | null;
+  stop: number | null;
+  target: number | null;
+  risk_percent: number;
+  verdict: PreTradeVerdict;
+  suggested_risk_percent: number | null;
+  reasons: PreTradeReason[];
+  taken: boolean | null;          // null until the outcome is recorded
+  result_r: number | null;
+  trade_id: string | null;        // jarvis_trades row, when linked
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PreTradeOutcome {
+  taken: boolean;
+  result_r?: number | string | null;
+  trade_id?: string | null;
+}
+
+export interface PreTradeVerdictStats {
+  checks: number;
+  taken: number;
+  withResult: number;
+  losses: number;
+  totalR: number;
+}
+
+// How often going against the gate costs money
+export interface PreTradeOverrideSummary {
+  byVerdict: Record<PreTradeVerdict, PreTradeVerdictStats>;
+  overrides: PreTradeVerdictStats;  // taken despite REDUCE SIZE / NO-TRADE
+  followed: PreTradeVerdictStats;   // taken on GO
+  pendingOutcome: number;           // checks with no outcome recorded yet
+}
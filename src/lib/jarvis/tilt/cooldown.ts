@@ -0,0 +1,51 @@
+// /lib/jarvis/tilt/cooldown.ts
+// What a cool-down changes: chat switches to support mode, sizing answers
+// are halved ("shrink") or refused ("refuse"), the pre-trade gate reduces or
+// blocks. Pure helpers shared by the chat, Telegram, math and gate paths.
+
+import type { CooldownSeverity, JarvisCooldown } from "./types";
+
+export const DEFAULT_COOLDOWN_MINUTES = 60;
+export const REFUSE_SCORE = 5;      // sizing refused (not just halved) from this score
+export const COOLDOWN_RISK_FACTOR = 0.5;
+
+export function cooldownSeverity(score: number): CooldownSeverity {
+  return score >= REFUSE_SCORE ? "refuse" : "shrink";
+}
+
+export function cooldownMinutesLeft(cooldown: JarvisCooldown, now: Date = new Date()): number {
+  return Math.max(0, Math.ceil((Date.parse(cooldown.ends_at) - now.getTime()) / 60000));
+}
+
+function reasons(cooldown: JarvisCooldown): string {
+  return cooldown.signals.map((s) => s.detail).join("; ");
+}
+
+// Context block for the chat system prompt while a cool-down runs
+export function buildCooldownSnippet(cooldown: JarvisCooldown | null | undefined): string {
+  if (!cooldown) return "";
+  return [
+    `COOL-DOWN ACTIVE (${cooldownMinutesLeft(cooldown)} min left) — tilt signals: ${reasons(cooldown)}.`,
+    "Talk in SUPPORT mode: acknowledge the emotion, slow things down, suggest stepping away from the charts.",
+    cooldown.severity === "refuse"
+      ? "Do not help size, plan or enter any trade until the cool-down ends."
+      : "No new setups; if they insist on sizing, only at half their normal risk.",
+  ].join("\n");
+}
+
+// Short message shown when a cool-down starts
+export function cooldownNotice(cooldown: JarvisCooldown): string {
+  const minutes = cooldownMinutesLeft(cooldown);
+  return [
+    `🧊 Cool-down on for ${minutes} min, bro — ${reasons(cooldown)}.`,
+    cooldown.severity === "refuse"
+      ? "No sizing or new trades until it ends. Step away, breathe, I'll check in after."
+      : "Sizing is halved until it ends. Step away for a bit, I'll check in after.",
+  ].join("\n");
+}
+
+// Risk % to size with during a cool-down; null means refuse
+export function cooldownRiskPercent(cooldown: JarvisCooldown, riskPercent: number): number | null {
+  if (cooldown.severity === "refuse") return null;
+  return Number((riskPercent * COOLDOWN_RISK_FACTOR).toFixed(2));
+}
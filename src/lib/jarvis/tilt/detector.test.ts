@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { assessTilt, TILT_SCORE } from "./detector";
+
+const now = new Date("2026-10-12T15:00:00Z");
+
+function loss(createdAt: string, source = "web") {
+  return { created_at: createdAt, rr_result: -1, source };
+}
+
+const streak = [loss("2026-10-12T14:00:00Z"), loss("2026-10-12T14:05:00Z"), loss("2026-10-12T14:08:00Z")];
+
+describe("assessTilt", () => {
+  it("cools down when tilt wording meets a losing streak", () => {
+    const result = assessTilt({ text: "just need to win it back", trades: streak, now });
+    expect(result.tilted).toBe(true);
+    expect(result.score).toBeGreaterThanOrEqual(TILT_SCORE);
+    expect(result.signals.map((s) => s.kind)).toEqual(expect.arrayContaining(["language", "loss-streak", "rapid-fire"]));
+    expect(result.signals.find((s) => s.kind === "loss-streak")?.detail).toBe("3 losses in a row");
+  });
+
+  it("needs the message or a live check to agree with the journal", () => {
+    const result = assessTilt({ text: "what's the plan for the london open", trades: streak, now });
+    expect(result.score).toBeGreaterThanOrEqual(TILT_SCORE);
+    expect(result.tilted).toBe(false);
+  });
+
+  it("never triggers on words alone", () => {
+    expect(assessTilt({ text: "revenge trade incoming, going all-in", trades: [], now }).tilted).toBe(false);
+  });
+
+  it("ignores imported trades and anything older than the lookback", () => {
+    const imported = streak.map((t) => ({ ...t, source: "broker-import" }));
+    expect(assessTilt({ text: "win it back", trades: imported, now })).toMatchObject({ tilted: false });
+
+    const yesterday = streak.map((t) => ({ ...t, created_at: t.created_at.replace("10-12", "10-11") }));
+    expect(assessTilt({ text: "win it back", trades: yesterday, now }).signals.map((s) => s.kind)).toEqual(["language"]);
+  });
+
+  it("treats raising risk right after a loss as a live signal", () => {
+    const result = assessTilt({
+      text: "ok next one",
+      trades: [loss("2026-10-12T13:30:00Z"), loss("2026-10-12T12:30:00Z")],
+      checks: [
+        { created_at: "2026-10-12T12:00:00Z", risk_percent: 1 },
+        { created_at: "2026-10-12T14:00:00Z", risk_percent: 2 },
+      ],
+      now,
+    });
+    expect(result.tilted).toBe(true);
+    expect(result.signals[0]).toMatchObject({
+      kind: "size-up-after-loss",
+      detail: "risk raised from 1% to 2% after a loss",
+    });
+  });
+});
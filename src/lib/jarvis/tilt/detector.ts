@@ -0,0 +1,136 @@
+// /lib/jarvis/tilt/detector.ts
+// Tilt / revenge-trading detector. Language (detectToneMode plus explicit
+// tilt wording) is combined with journal patterns from the last few hours:
+// consecutive losses, trades logged minutes apart, risk raised right after a
+// loss and emotional trades. Words alone never trigger a cool-down — at least
+// one journal pattern has to agree — and neither do journal patterns alone:
+// the message itself or a live pre-trade check has to point the same way.
+// Only trades logged as they happened (web, Telegram) count; imports get
+// created_at of the import, which says nothing about when they were traded.
+// Pure; the store feeds it Supabase rows.
+
+import { detectToneMode, type Channel } from "../tone";
+import { readinessFactors, type ReadinessTradeLike } from "../checkins/readiness";
+import type { TiltAssessment, TiltSignal } from "./types";
+
+export const TILT_LOOKBACK_HOURS = 12;
+export const TILT_SCORE = 3;        // cool-down from this score
+
+const RAPID_FIRE_MINUTES = 10;
+const LIVE_SOURCES = ["web", "telegram"];
+// Signals that come from what the user is doing right now, not the journal history
+const LIVE_SIGNALS: TiltSignal["kind"][] = ["language", "support-tone", "size-up-after-loss"];
+
+const TILT_LANGUAGE_RE =
+  /\b(tilt(ed|ing)?|revenge|(win|make|get) (it|that|this|my money) back|impulse trade|impulsive(ly)?|double (my |the )?(size|lots?)|size up|all[- ]in|one more trade)\b/i;
+
+// Pre-trade checks as logged by the gate
+export type TiltCheckLike = { created_at: string; risk_percent: number | null };
+
+export interface TiltInput {
+  text: string;
+  channel?: Channel;
+  trades: ReadinessTradeLike[];     // recent journal rows with source, any order
+  checks?: TiltCheckLike[];         // recent pre-trade checks, any order
+  now?: Date;
+}
+
+function loggedAt(row: { created_at?: string }): number {
+  const t = Date.parse(String(row.created_at ?? ""));
+  return Number.isFinite(t) ? t : 0;
+}
+
+function isLoss(t: ReadinessTradeLike): boolean {
+  const r = Number(t.rr_result ?? t.rrResult);
+  return (Number.isFinite(r) && r < 0) || t.outcome === "Loss";
+}
+
+function languageSignals(text: string, channel: Channel): TiltSignal[] {
+  const signals: TiltSignal[] = [];
+  const match = text.match(TILT_LANGUAGE_RE);
+  if (match) signals.push({ kind: "language", weight: 2, detail: `you said "${match[0]}"` });
+  if (detectToneMode(text, channel) === "support") {
+    signals.push({ kind: "support-tone", weight: 1, detail: "the message reads stressed or emotional" });
+  }
+  return signals;
+}
+
+function lossStreak(trades: ReadinessTradeLike[]): TiltSignal[] {
+  let streak = 0;
+  for (const t of trades) {
+    if (!isLoss(t)) break;
+    streak += 1;
+  }
+  if (streak >= 3) return [{ kind: "loss-streak", weight: 2, detail: `${streak} losses in a row` }];
+  if (streak === 2) return [{ kind: "loss-streak", weight: 1, detail: "2 losses in a row" }];
+  // Adds nothing to the score, but lets "win it back" talk right after a loss count
+  if (streak === 1) return [{ kind: "loss-streak", weight: 0, detail: "last trade was a loss" }];
+  return [];
+}
+
+function rapidFire(trades: ReadinessTradeLike[]): TiltSignal[] {
+  let quick = 0;
+  for (let i = 1; i < trades.length; i++) {
+    const gap = (loggedAt(trades[i - 1]) - loggedAt(trades[i])) / 60000;
+    if (gap >= 0 && gap < RAPID_FIRE_MINUTES) quick += 1;
+  }
+  if (!quick) return [];
+  return [
+    {
+      kind: "rapid-fire",
+      weight: quick >= 2 ? 2 : 1,
+      detail: `${quick + 1} trades logged under ${RAPID_FIRE_MINUTES} minutes apart`,
+    },
+  ];
+}
+
+// A pre-trade check with more risk than the previous one, with a loss logged in between
+function sizeUpAfterLoss(trades: ReadinessTradeLike[], checks: TiltCheckLike[]): TiltSignal[] {
+  const ordered = [...checks].filter((c) => c.risk_percent != null).sort((a, b) => loggedAt(a) - loggedAt(b));
+  for (let i = ordered.length - 1; i > 0; i--) {
+    const prev = ordered[i - 1];
+    const next = ordered[i];
+    const lossBetween = trades.some(
+      (t) => isLoss(t) && loggedAt(t) >= loggedAt(prev) && loggedAt(t) <= loggedAt(next)
+    );
+    if (lossBetween && next.risk_percent! > prev.risk_percent!) {
+      return [
+        {
+          kind: "size-up-after-loss",
+          weight: 2,
+          detail: `risk raised from ${prev.risk_percent}% to ${next.risk_percent}% after a loss`,
+        },
+      ];
+    }
+  }
+  return [];
+}
+
+function emotionalTrades(trades: ReadinessTradeLike[]): TiltSignal[] {
+  return readinessFactors({}, trades).emotionalTrades === "two-plus"
+    ? [{ kind: "emotional-trades", weight: 1, detail: "2+ recent trades logged as angry, frustrated or revenge" }]
+    : [];
+}
+
+export function assessTilt(input: TiltInput): TiltAssessment {
+  const now = (input.now ?? new Date()).getTime();
+  const since = now - TILT_LOOKBACK_HOURS * 3600 * 1000;
+  const recent = (rows: any[]) => rows.filter((r) => loggedAt(r) >= since).sort((a, b) => loggedAt(b) - loggedAt(a));
+  const trades = recent(input.trades.filter((t) => LIVE_SOURCES.includes(String(t.source))));
+  const checks = recent(input.checks ?? []);
+
+  const journal = [
+    ...lossStreak(trades),
+    ...rapidFire(trades),
+    ...sizeUpAfterLoss(trades, checks),
+    ...emotionalTrades(trades),
+  ];
+  const signals = [...languageSignals(input.text ?? "", input.channel ?? "web"), ...journal].sort(
+    (a, b) => b.weight - a.weight
+  );
+  const score = signals.reduce((s, sig) => s + sig.weight, 0);
+
+  const live = signals.some((sig) => sig.weight > 0 && LIVE_SIGNALS.includes(sig.kind));
+
+  return { tilted: score >= TILT_SCORE && journal.length > 0 && live, score, signals };
+}
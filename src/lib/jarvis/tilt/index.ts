@@ -0,0 +1,5 @@
+// /lib/jarvis/tilt/index.ts
+export * from "./types";
+export * from "./detector";
+export * from "./cooldown";
+export * from "./store";
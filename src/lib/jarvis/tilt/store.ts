@@ -0,0 +1,113 @@
+// /lib/jarvis/tilt/store.ts
+// Supabase data layer for tilt cool-downs (public.jarvis_cooldowns).
+// Every user message (web chat and Telegram) runs through checkForTilt; when
+// the detector fires a cool-down row is written and a Telegram follow-up is
+// queued in jarvis_reminders for when it ends.
+
+import { localDate } from "@/lib/time";
+import type { Channel } from "../tone";
+import { listTrades } from "../trades/store";
+import { listPreTradeChecks } from "../preTrade/store";
+import { loadTradingProfile } from "../tradingMemory";
+import { assessTilt, TILT_LOOKBACK_HOURS } from "./detector";
+import { cooldownSeverity, DEFAULT_COOLDOWN_MINUTES } from "./cooldown";
+import type { CooldownCheck, JarvisCooldown, TiltAssessment } from "./types";
+
+const TABLE = "jarvis_cooldowns";
+const REMINDERS_TABLE = "jarvis_reminders";
+const USER_ID = "single-user";
+const RECENT_TRADES_LIMIT = 20;
+const RECENT_CHECKS_LIMIT = 20;
+
+const FOLLOW_UP_MESSAGE =
+  "Cool-down's over, bro. How are you feeling now? Do a quick /checkin before the next trade — no rush to win anything back.";
+
+export async function getActiveCooldown(supabase: any): Promise<JarvisCooldown | null> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select("*")
+    .eq("user_id", USER_ID)
+    .gt("ends_at", new Date().toISOString())
+    .order("ends_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as JarvisCooldown) ?? null;
+}
+
+// Follow-up ping when the cool-down ends; picked up by /api/reminder-ping
+async function scheduleFollowUp(supabase: any, cooldown: JarvisCooldown, chatId?: string | number | null) {
+  const target = chatId ?? process.env.TELEGRAM_PRIMARY_CHAT_ID ?? process.env.TELEGRAM_CHAT_ID ?? null;
+  const { error } = await supabase.from(REMINDERS_TABLE).insert({
+    user_id: USER_ID,
+    message: FOLLOW_UP_MESSAGE,
+    send_at: cooldown.ends_at,
+    status: "scheduled",
+    channel: "telegram",
+    chat_id: target == null ? null : String(target),
+  });
+  if (error) console.error("Error scheduling cool-down follow-up:", error.message);
+}
+
+export async function startCooldown(
+  supabase: any,
+  assessment: TiltAssessment,
+  opts: { channel: Channel; text?: string; chatId?: string | number | null; minutes?: number }
+): Promise<JarvisCooldown> {
+  const minutes = opts.minutes ?? DEFAULT_COOLDOWN_MINUTES;
+  const now = new Date();
+
+  const { data, error } = await supabase
+    .from(TABLE)
+    .insert({
+      user_id: USER_ID,
+      started_at: now.toISOString(),
+      ends_at: new Date(now.getTime() + minutes * 60000).toISOString(),
+      severity: cooldownSeverity(assessment.score),
+      score: assessment.score,
+      signals: assessment.signals,
+      channel: opts.channel,
+      trigger_text: opts.text?.slice(0, 500) || null,
+    })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  const cooldown = data as JarvisCooldown;
+  await scheduleFollowUp(supabase, cooldown, opts.chatId);
+  return cooldown;
+}
+
+// Run one user message through the detector; starts a cool-down when it
+// fires. Never throws — a failed check just means no cool-down.
+export async function checkForTilt(
+  supabase: any,
+  text: string,
+  opts: { channel: Channel; chatId?: string | number | null }
+): Promise<CooldownCheck> {
+  try {
+    const active = await getActiveCooldown(supabase);
+    if (active) return { cooldown: active, started: false, assessment: null };
+
+    const since = localDate(undefined, new Date(Date.now() - TILT_LOOKBACK_HOURS * 3600 * 1000));
+    const [trades, checks, profile] = await Promise.all([
+      listTrades(supabase, { from: since, limit: RECENT_TRADES_LIMIT }),
+      listPreTradeChecks(supabase, RECENT_CHECKS_LIMIT),
+      loadTradingProfile(supabase),
+    ]);
+
+    const assessment = assessTilt({ text, channel: opts.channel, trades, checks });
+    if (!assessment.tilted) return { cooldown: null, started: false, assessment };
+
+    const cooldown = await startCooldown(supabase, assessment, {
+      ...opts,
+      text,
+      minutes: profile?.cooldown_minutes ?? DEFAULT_COOLDOWN_MINUTES,
+    });
+    return { cooldown, started: true, assessment };
+  } catch (err) {
+    console.error("Exception checking for tilt:", err);
+    return { cooldown: null, started: false, assessment: null };
+  }
+}
@@ -0,0 +1,46 @@
+// /lib/jarvis/tilt/types.ts
+
+import type { Channel } from "../tone";
+
+export type TiltSignalKind =
+  | "language"                    // tilt / revenge / "win it back" wording
+  | "support-tone"                // detectToneMode says the message is emotional
+  | "loss-streak"                 // consecutive losing trades
+  | "rapid-fire"                  // trades logged minutes apart
+  | "size-up-after-loss"          // pre-trade risk % raised right after a loss
+  | "emotional-trades";           // angry/frustrated/revenge/tilt trades in the journal
+
+export interface TiltSignal {
+  kind: TiltSignalKind;
+  weight: number;
+  detail: string;
+}
+
+export interface TiltAssessment {
+  tilted: boolean;
+  score: number;                  // sum of signal weights
+  signals: TiltSignal[];          // strongest first
+}
+
+// "shrink" halves sizing answers; "refuse" won't size a trade at all
+export type CooldownSeverity = "shrink" | "refuse";
+
+// Row in public.jarvis_cooldowns
+export interface JarvisCooldown {
+  id: string;                     // uuid
+  user_id: string;
+  started_at: string;
+  ends_at: string;
+  severity: CooldownSeverity;
+  score: number;
+  signals: TiltSignal[];
+  channel: Channel;
+  trigger_text: string | null;
+  created_at: string;
+}
+
+export interface CooldownCheck {
+  cooldown: JarvisCooldown | null; // active cool-down, if any
+  started: boolean;               // this message is what started it
+  assessment: TiltAssessment | null; // null when a cool-down was already running
+}
@@ -0,0 +1,511 @@
+// src/lib/jarvis/tradeAnalysis.ts
+// Trade / setup analyzer behind /api/trade/analyze. Levels are pulled out of
+// the free-text description with regexes, RR and size come from the math
+// engine, and the setup is graded against the user's active rule/checklist
+// knowledge items. Rules with a recognisable number (min RR, max risk, stop
+// required) are checked in code; the rest are graded by the LLM, which also
+// writes the narrative. Without an LLM the deterministic part still stands.
+
+import callLLM from "@/lib/llm";
+import {
+  DEFAULT_FX_RATES,
+  describeMathResult,
+  findInstrument,
+  formatProvenance,
+  runMathTask,
+  type CurrencyDisplay,
+  type InstrumentPositionSizeResult,
+  type MathTask,
+  type PositionSizeResult,
+  type RiskRewardResult,
+} from "./math";
+import { buildKnowledgeContext } from "./knowledge/context";
+import type { KnowledgeContextBlock } from "./knowledge/types";
+import { loadTradingProfile, type TradingProfile } from "./tradingMemory";
+import { loadFinance } from "./finance";
+
+export type SetupDirection = "long" | "short";
+export type CheckStatus = "pass" | "fail" | "unknown";
+export type CheckSource = "math" | "rule" | "checklist";
+
+export interface TradeSetup {
+  symbol: string | null;
+  direction: SetupDirection | null;
+  entry: number | null;
+  stop: number | null;
+  target: number | null;
+  plannedRR: number | null;       // RR as written ("1:2", "2R")
+  riskPercent: number | null;     // risk as written ("1% risk")
+}
+
+export interface SetupMath {
+  riskReward: RiskRewardResult | null;
+  positionSize: InstrumentPositionSizeResult | PositionSizeResult | null;
+  lines: string[];                // engine answers, each with its provenance tag
+  assumptions: string[];
+  error: string | null;           // levels that don't make sense (stop on the wrong side…)
+}
+
+export interface SetupCheck {
+  label: string;
+  source: CheckSource;
+  status: CheckStatus;
+  detail: string;
+}
+
+export interface TradeAnalysis {
+  setup: TradeSetup;
+  math: SetupMath;
+  checks: SetupCheck[];
+  analysis: string;
+}
+
+const DEFAULT_RISK_PERCENT = 1;
+const RR_TOLERANCE = 0.15; // stated vs computed RR, in R
+const MAX_RULES = 12;
+
+const NUM = "(\\d+(?:\\.\\d+)?)";
+const NOT_DISTANCE = "(?![\\d.]|\\s*(?:%|r\\b|rr\\b|pips?|points?|pts?|ticks?))";
+
+// Caps words that look like tickers but aren't
+const NOT_SYMBOLS = new Set([
+  "SL", "TP", "TP1", "TP2", "RR", "HTF", "LTF", "BOS", "CHOCH", "FVG", "OB", "EMA", "SMA",
+  "VWAP", "ATR", "NY", "LDN", "ASIA", "AM", "PM", "LONG", "SHORT", "BUY", "SELL", "I",
+]);
+
+function firstNumber(text: string, patterns: string[]): number | null {
+  for (const p of patterns) {
+    const m = text.match(new RegExp(p));
+    if (m) {
+      const n = parseFloat(m[1]);
+      if (Number.isFinite(n) && n > 0) return n;
+    }
+  }
+  return null;
+}
+
+// A level only counts when it's in the same ballpark as the entry
+function nearEntry(value: number | null, entry: number | null): number | null {
+  if (value == null || entry == null) return value;
+  return value !== entry && Math.abs(value - entry) / entry <= 0.5 ? value : null;
+}
+
+function extractSymbol(original: string): string | null {
+  const words = original.match(/[A-Za-z0-9][A-Za-z0-9/.#]*/g) || [];
+  for (const word of words) {
+    if (word.length <= 3 && word !== word.toUpperCase()) continue;
+    const spec = findInstrument(word);
+    if (spec) return spec.symbol;
+  }
+  // Unlisted tickers (NIFTY, BANKNIFTY, TSLA…) when written in caps
+  const caps = words.find((w) => /^[A-Z][A-Z0-9]{2,11}$/.test(w) && !NOT_SYMBOLS.has(w));
+  return caps ?? null;
+}
+
+export function extractTradeSetup(text: string): TradeSetup {
+  const t = text.toLowerCase().replace(/(\d),(?=\d{3}\b)/g, "$1");
+
+  const saysLong = /\b(?:long|buy|bought|longed)\b/.test(t);
+  const saysShort = /\b(?:short|sell|sold|shorted)\b/.test(t);
+
+  const entry = firstNumber(t, [
+    `\\b(?:entry|entered|enter(?:ing)?|filled)\\b[^\\d\\n]{0,12}${NUM}${NOT_DISTANCE}`,
+    `(?:^|\\s)(?:at|@)\\s*${NUM}${NOT_DISTANCE}`,
+    `\\b(?:long|short|buy|sell|bought|sold)\\s*(?:at|@|=|:)?\\s*${NUM}${NOT_DISTANCE}`,
+  ]);
+  const stop = nearEntry(
+    firstNumber(t, [`\\b(?:sl|stop(?:[- ]?loss)?|stoploss|invalidation)\\b[^\\d\\n]{0,12}${NUM}${NOT_DISTANCE}`]),
+    entry
+  );
+  const target = nearEntry(
+    firstNumber(t, [`\\b(?:tp\\d?|target|take[- ]?profit|tgt)\\b[^\\d\\n]{0,12}${NUM}${NOT_DISTANCE}`]),
+    entry
+  );
+
+  let direction: SetupDirection | null = saysLong !== saysShort ? (saysLong ? "long" : "short") : null;
+  if (!direction && entry != null && stop != null) {
+    direction = stop < entry ? "long" : "short";
+  }
+
+  return {
+    symbol: extractSymbol(text),
+    direction,
+    entry,
+    stop,
+    target,
+    plannedRR: firstNumber(t, [
+      `\\b1\\s*:\\s*${NUM}`,
+      `\\b(?:rr|r:r|risk[- ]?reward)\\s*(?:of|is|=|:)?\\s*${NUM}`,
+      `\\b${NUM}\\s*(?:r|rr)\\b(?!:)`,
+    ]),
+    riskPercent: firstNumber(t, [
+      `${NUM}\\s*%\\s*risk`,
+      `risk(?:ing|ed)?\\s*(?:of|is|=|:)?\\s*${NUM}\\s*%`,
+    ]),
+  };
+}
+
+function run(task: MathTask, display: CurrencyDisplay, lines: string[]) {
+  const result = runMathTask(task);
+  lines.push(`${describeMathResult(result, display)} ${formatProvenance(result.provenance)}`);
+  return result;
+}
+
+export function computeSetupMath(
+  setup: TradeSetup,
+  account: { accountSize: number | null; accountCurrency: string; homeCurrency?: string }
+): SetupMath {
+  const math: SetupMath = { riskReward: null, positionSize: null, lines: [], assumptions: [], error: null };
+  const display: CurrencyDisplay = {
+    accountCurrency: account.accountCurrency,
+    homeCurrency: account.homeCurrency,
+  };
+  const { entry, stop, target } = setup;
+
+  try {
+    if (entry != null && stop != null && target != null) {
+      const rr = run(
+        {
+          type: "risk-reward",
+          input: { entryPrice: entry, stopPrice: stop, targetPrice: target, direction: setup.direction ?? undefined },
+        },
+        display,
+        math.lines
+      );
+      if (rr.type === "risk-reward") math.riskReward = rr.result;
+    }
+
+    if (entry != null && stop != null && account.accountSize) {
+      const riskPercent = setup.riskPercent ?? DEFAULT_RISK_PERCENT;
+      if (setup.riskPercent == null) math.assumptions.push(`${DEFAULT_RISK_PERCENT}% risk (default)`);
+
+      const spec = setup.symbol ? findInstrument(setup.symbol) : null;
+      const sized = spec
+        ? run(
+            {
+              type: "instrument-position-size",
+              input: {
+                symbol: spec.symbol,
+                accountSize: account.accountSize,
+                accountCurrency: account.accountCurrency,
+                riskPercent,
+                entryPrice: entry,
+                stopPrice: stop,
+                fxRates: DEFAULT_FX_RATES,
+              },
+            },
+            display,
+            math.lines
+          )
+        : run(
+            {
+              type: "position-size",
+              input: {
+                accountSize: account.accountSize,
+                riskPercent,
+                stopLossPoints: Math.abs(entry - stop),
+                valuePerPoint: 1,
+              },
+            },
+            display,
+            math.lines
+          );
+      if (!spec) {
+        math.assumptions.push(
+          `no contract specs for ${setup.symbol ?? "this instrument"}, so size is in units at 1 per point`
+        );
+      }
+      math.positionSize = sized.result as InstrumentPositionSizeResult | PositionSizeResult;
+    }
+  } catch (err: any) {
+    math.error = err?.message ?? String(err);
+  }
+
+  return math;
+}
+
+// ---- Checks -----------------------------------------------------------------
+
+export function buildMathChecks(
+  setup: TradeSetup,
+  math: SetupMath,
+  profile: TradingProfile | null
+): SetupCheck[] {
+  const checks: SetupCheck[] = [];
+  const add = (label: string, status: CheckStatus, detail: string) =>
+    checks.push({ label, source: "math", status, detail });
+
+  add(
+    "Stop loss defined",
+    setup.stop != null ? "pass" : "fail",
+    setup.stop != null ? `Stop at ${setup.stop}.` : "No stop-loss price found in the description."
+  );
+  add(
+    "Target defined",
+    setup.target != null ? "pass" : "fail",
+    setup.target != null ? `Target at ${setup.target}.` : "No take-profit price found in the description."
+  );
+
+  if (math.error) {
+    add("Levels make sense", "fail", math.error);
+  } else if (math.riskReward) {
+    add(
+      "Levels make sense",
+      "pass",
+      `Stop and target on the right sides of the entry for a ${math.riskReward.direction}.`
+    );
+  }
+
+  if (setup.plannedRR != null && math.riskReward) {
+    const diff = Math.abs(math.riskReward.rr - setup.plannedRR);
+    add(
+      "Stated RR matches the levels",
+      diff <= RR_TOLERANCE ? "pass" : "fail",
+      diff <= RR_TOLERANCE
+        ? `Levels give ${math.riskReward.rr}R, as written.`
+        : `You wrote ${setup.plannedRR}R but the levels give ${math.riskReward.rr}R.`
+    );
+  }
+
+  const daily = profile?.daily_loss_percent ?? null;
+  if (daily) {
+    const risk = setup.riskPercent ?? DEFAULT_RISK_PERCENT;
+    add(
+      "Risk fits the daily loss limit",
+      risk < daily ? "pass" : "fail",
+      `${risk}% risk${setup.riskPercent == null ? " (default)" : ""} vs ${daily}% daily loss limit${
+        risk < daily ? ` (${Math.floor(daily / risk)} full losses before the limit)` : " — one loss ends the day or breaches it"
+      }.`
+    );
+  }
+
+  return checks;
+}
+
+// Rules with a number we can check without the LLM; null when the rule
+// isn't one of these shapes (or the setup lacks the needed numbers)
+export function gradeRuleDeterministically(
+  block: KnowledgeContextBlock,
+  setup: TradeSetup,
+  math: SetupMath
+): SetupCheck | null {
+  if (block.item_type !== "rule") return null;
+  const text = `${block.title}\n${block.content}`.toLowerCase();
+  const check = (status: CheckStatus, detail: string): SetupCheck => ({
+    label: block.title,
+    source: "rule",
+    status,
+    detail,
+  });
+
+  const aboutRR = /\brr\b|r:r|risk[- ]?reward|reward[- ]?to[- ]?risk|\d\s*r\b/.test(text);
+  const minRR = aboutRR
+    ? firstNumber(text, [
+        `(?:min(?:imum)?|at least|no less than|>=?)\\s*(?:an?\\s*)?(?:rr|r:r|risk[- ]?reward|reward[- ]?to[- ]?risk)?\\s*(?:of\\s*)?(?:1\\s*:\\s*)?${NUM}`,
+        `(?:rr|r:r|risk[- ]?reward)\\s*(?:must be|should be|of)?\\s*(?:at least|min(?:imum)?|>=?)\\s*(?:1\\s*:\\s*)?${NUM}`,
+      ])
+    : null;
+  if (minRR != null) {
+    const rr = math.riskReward?.rr ?? setup.plannedRR;
+    if (rr == null) return check("unknown", `Needs at least ${minRR}R; no RR could be worked out.`);
+    return check(rr >= minRR ? "pass" : "fail", `Needs at least ${minRR}R; this setup is ${rr}R.`);
+  }
+
+  const maxRisk = /risk/.test(text)
+    ? firstNumber(text, [
+        `(?:never|don't|do not|max(?:imum)?|no more than|not more than|at most|up to|<=?)\\s*(?:risk(?:ing)?\\s*)?(?:more than\\s*)?${NUM}\\s*%`,
+        `risk\\s*(?:per trade)?\\s*(?:is|of|=|:)?\\s*(?:max(?:imum)?|at most|up to)\\s*${NUM}\\s*%`,
+      ])
+    : null;
+  if (maxRisk != null) {
+    if (setup.riskPercent == null) {
+      return check("unknown", `Max ${maxRisk}% risk; the description doesn't say how much was risked.`);
+    }
+    return check(
+      setup.riskPercent <= maxRisk ? "pass" : "fail",
+      `Max ${maxRisk}% risk; this trade risks ${setup.riskPercent}%.`
+    );
+  }
+
+  const needsStop =
+    /(?:always|must|every trade)[^.\n]*\b(?:stop|sl)\b/.test(text) ||
+    /(?:never|no trade|don't|do not)[^.\n]*without[^.\n]*\b(?:stop|sl)\b/.test(text);
+  if (needsStop) {
+    return check(
+      setup.stop != null ? "pass" : "fail",
+      setup.stop != null ? `Stop at ${setup.stop}.` : "No stop-loss in the description."
+    );
+  }
+
+  return null;
+}
+
+// ---- LLM grading + narrative ----------------------------------------------
+
+const analyzerSystem = `
+You are Jarvis, a strict but supportive trading coach reviewing one trade or setup.
+You get the user's description, extra context, numbers computed by a deterministic math engine,
+checks already graded in code, and a numbered list of the user's own rules/checklists to grade.
+Never recompute or contradict the engine numbers.
+
+Output MUST be valid JSON only:
+{
+  "rules": [{ "index": <number from the list>, "status": "pass" | "fail" | "unknown", "reason": "<one short sentence>" }],
+  "analysis": "<plain-text review: setup quality, risk, psychology, lessons; max ~200 words>"
+}
+Use "unknown" when the description doesn't say enough to judge a rule.
+`.trim();
+
+function describeSetup(setup: TradeSetup): string {
+  const fmt = (v: number | string | null) => (v == null ? "?" : String(v));
+  return `symbol ${fmt(setup.symbol)}, direction ${fmt(setup.direction)}, entry ${fmt(setup.entry)}, stop ${fmt(
+    setup.stop
+  )}, target ${fmt(setup.target)}, stated RR ${fmt(setup.plannedRR)}, stated risk ${
+    setup.riskPercent == null ? "?" : `${setup.riskPercent}%`
+  }`;
+}
+
+function fallbackAnalysis(setup: TradeSetup, checks: SetupCheck[]): string {
+  const failed = checks.filter((c) => c.status === "fail");
+  const lines = [`Setup read as: ${describeSetup(setup)}.`];
+  lines.push(
+    failed.length
+      ? `Failed checks: ${failed.map((c) => `${c.label} (${c.detail})`).join("; ")}`
+      : "No failed checks on what could be verified."
+  );
+  return lines.join("\n");
+}
+
+async function gradeWithLLM(
+  description: string,
+  context: string,
+  setup: TradeSetup,
+  math: SetupMath,
+  graded: SetupCheck[],
+  pending: KnowledgeContextBlock[]
+): Promise<{ rules: SetupCheck[]; narrative: string } | null> {
+  const ruleList = pending
+    .map((b, i) => `${i + 1}. [${b.item_type}] ${b.title}\n${b.content}${b.instructions ? `\n(How to apply: ${b.instructions})` : ""}`)
+    .join("\n\n");
+
+  const userPrompt = `Description:
+"""${description}"""
+
+Extra context:
+"""${context || "none"}"""
+
+Parsed setup: ${describeSetup(setup)}
+Engine results:
+${math.lines.length ? math.lines.join("\n") : math.error ? `Error: ${math.error}` : "none (levels missing)"}
+${math.assumptions.length ? `Assumptions: ${math.assumptions.join("; ")}` : ""}
+
+Already checked:
+${graded.map((c) => `- ${c.label}: ${c.status} — ${c.detail}`).join("\n") || "none"}
+
+Rules / checklists to grade:
+${ruleList || "none"}
+
+Return JSON only.`;
+
+  try {
+    const raw = await callLLM(analyzerSystem, [{ role: "user", content: userPrompt }], {
+      temperature: 0.2,
+      max_tokens: 900,
+    });
+    const jsonMatch = String(raw).match(/\{[\s\S]*\}/);
+    const parsed = JSON.parse(jsonMatch ? jsonMatch[0] : raw);
+
+    const byIndex = new Map<number, any>();
+    for (const r of Array.isArray(parsed.rules) ? parsed.rules : []) {
+      byIndex.set(Number(r?.index), r);
+    }
+    const rules = pending.map((block, i): SetupCheck => {
+      const r = byIndex.get(i + 1);
+      const status: CheckStatus = r?.status === "pass" || r?.status === "fail" ? r.status : "unknown";
+      return {
+        label: block.title,
+        source: block.item_type === "checklist" ? "checklist" : "rule",
+        status,
+        detail: String(r?.reason ?? "Not graded."),
+      };
+    });
+
+    return { rules, narrative: String(parsed.analysis ?? "").trim() };
+  } catch (err) {
+    console.error("analyzeTradeSetup LLM grading error:", err);
+    return null;
+  }
+}
+
+// ---- Orchestration ----------------------------------------------------------
+
+export async function analyzeTradeSetup(
+  supabase: any,
+  description: string,
+  context = ""
+): Promise<TradeAnalysis> {
+  if (!description || !description.trim()) {
+    throw new Error("Description is required.");
+  }
+
+  const [profile, finance, knowledge] = await Promise.all([
+    loadTradingProfile(supabase),
+    loadFinance(supabase),
+    buildKnowledgeContext({
+      itemTypes: ["rule", "checklist"],
+      intentTags: ["trading", "risk", "entry", "setup", "psychology"],
+      maxItems: MAX_RULES,
+    }).catch((err) => {
+      console.error("analyzeTradeSetup knowledge error:", err);
+      return [] as KnowledgeContextBlock[];
+    }),
+  ]);
+
+  const setup = extractTradeSetup(`${description}\n${context}`);
+  const accountSize = profile?.account_size
+    ? profile.account_size + (profile.current_profit ?? 0)
+    : finance?.funded_current_equity ?? finance?.funded_account_size ?? finance?.eval_account_size ?? null;
+  const math = computeSetupMath(setup, {
+    accountSize,
+    accountCurrency: finance?.account_currency || "USD",
+    homeCurrency: finance?.home_currency || undefined,
+  });
+  if (!accountSize && setup.entry != null && setup.stop != null) {
+    math.assumptions.push("no account size in your profile, so position size was skipped");
+  }
+
+  const checks = buildMathChecks(setup, math, profile);
+  const pending: KnowledgeContextBlock[] = [];
+  for (const block of knowledge) {
+    const graded = gradeRuleDeterministically(block, setup, math);
+    if (graded) checks.push(graded);
+    else pending.push(block);
+  }
+
+  const llm = await gradeWithLLM(description, context, setup, math, checks, pending);
+  if (llm) {
+    checks.push(...llm.rules);
+  } else {
+    checks.push(
+      ...pending.map((block): SetupCheck => ({
+        label: block.title,
+        source: block.item_type === "checklist" ? "checklist" : "rule",
+        status: "unknown",
+        detail: "Couldn't be graded automatically right now.",
+      }))
+    );
+  }
+
+  const failed = checks.filter((c) => c.status === "fail").length;
+  const passed = checks.filter((c) => c.status === "pass").length;
+  const analysis = [
+    math.lines.length ? math.lines.join("\n") : null,
+    math.assumptions.length ? `Assumptions: ${math.assumptions.join("; ")}.` : null,
+    `Checks: ${passed} passed, ${failed} failed, ${checks.length - passed - failed} unclear.`,
+    llm?.narrative || fallbackAnalysis(setup, checks),
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  return { setup, math, checks, analysis };
+}
@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeRMultiple,
+  decodeStatement,
+  detectBrokerFormat,
+  parseBrokerStatement,
+  parseCsv,
+  parseStatementDate,
+} from "./brokerImport";
+import type { CsvColumnMapping } from "./types";
+
+function utf16le(text: string, bom = true): Uint8Array {
+  const bytes = new Uint8Array((bom ? 2 : 0) + text.length * 2);
+  if (bom) bytes.set([0xff, 0xfe]);
+  for (let i = 0; i < text.length; i++) bytes[(bom ? 2 : 0) + i * 2] = text.charCodeAt(i);
+  return bytes;
+}
+
+const mtHtml = `<html><body><table>
+<tr><td colspan="13"><b>Closed Transactions:</b></td></tr>
+<tr><td>Ticket</td><td>Open Time</td><td>Type</td><td>Size</td><td>Item</td><td>Price</td><td>S / L</td><td>T / P</td><td>Close Time</td><td>Price</td><td>Commission</td><td>Swap</td><td>Profit</td></tr>
+<tr><td>1001</td><td>2026.10.01 09:00:00</td><td>buy</td><td>0.50</td><td>eurusd</td><td>1.0850</td><td>1.0820</td><td>1.0910</td><td>2026.10.01 12:00:00</td><td>1.0910</td><td>0.00</td><td>0.00</td><td>300.00</td></tr>
+<tr><td>1002</td><td>2026.10.02 09:00:00</td><td>sell</td><td>0.50</td><td>xauusd</td><td>2350.00</td><td>0.00000</td><td>0.00000</td><td>2026.10.02 10:00:00</td><td>2355.00</td><td>0.00</td><td>0.00</td><td>-250.00</td></tr>
+<tr><td>1003</td><td>2026.10.02 11:00:00</td><td>balance</td><td colspan="9">Deposit</td><td>5&nbsp;000.00</td></tr>
+<tr><td>1001</td><td>2026.10.01 09:00:00</td><td>buy</td><td>0.50</td><td>eurusd</td><td>1.0850</td><td>1.0820</td><td>1.0910</td><td>2026.10.01 12:00:00</td><td>1.0910</td><td>0.00</td><td>0.00</td><td>300.00</td></tr>
+<tr><td colspan="12">Closed P/L:</td><td>50.00</td></tr>
+</table></body></html>`;
+
+describe("decodeStatement", () => {
+  it("follows the byte order mark", () => {
+    expect(decodeStatement(utf16le("Ticket,Type"))).toBe("Ticket,Type");
+    expect(decodeStatement(new Uint8Array([0xfe, 0xff, 0, 0x41, 0, 0x42]))).toBe("AB");
+    expect(decodeStatement(new Uint8Array([0xef, 0xbb, 0xbf, 0x41, 0x42]))).toBe("AB");
+  });
+
+  it("spots UTF-16 without a BOM from its zero bytes", () => {
+    expect(decodeStatement(utf16le("<html>", false).buffer as ArrayBuffer)).toBe("<html>");
+    expect(decodeStatement(new TextEncoder().encode("plain, utf-8 ✓"))).toBe("plain, utf-8 ✓");
+  });
+});
+
+describe("parseCsv", () => {
+  it("handles quotes, doubled quotes, CRLF and blank lines", () => {
+    expect(parseCsv('a,b,c\r\n"1,5","say ""hi""",x\r\n\r\n2,,3')).toEqual([
+      ["a", "b", "c"],
+      ["1,5", 'say "hi"', "x"],
+      ["2", "", "3"],
+    ]);
+  });
+
+  it("picks the delimiter from the header line", () => {
+    expect(parseCsv("Symbol;Side\nEURUSD;Buy")).toEqual([["Symbol", "Side"], ["EURUSD", "Buy"]]);
+    expect(parseCsv("Symbol\tSide\nEURUSD\tBuy")[1]).toEqual(["EURUSD", "Buy"]);
+  });
+});
+
+describe("parseStatementDate", () => {
+  it("normalises statement dates to ISO days", () => {
+    expect(parseStatementDate("2026.10.01 14:00:05")).toBe("2026-10-01");
+    expect(parseStatementDate("2026-10-01T14:00Z")).toBe("2026-10-01");
+    expect(parseStatementDate("01/10/2026 14:00", "DMY")).toBe("2026-10-01");
+    expect(parseStatementDate("10/01/26", "MDY")).toBe("2026-10-01");
+  });
+
+  it("rejects impossible or missing dates", () => {
+    expect(parseStatementDate("13/13/2026", "DMY")).toBeNull();
+    expect(parseStatementDate("yesterday")).toBeNull();
+    expect(parseStatementDate(null)).toBeNull();
+  });
+});
+
+describe("computeRMultiple", () => {
+  it("measures the move against the risk for both directions", () => {
+    expect(computeRMultiple("Long", 100, 90, 120)).toBe(2);
+    expect(computeRMultiple("Short", 100, 110, 105)).toBe(-0.5);
+  });
+
+  it("gives up when the stop is missing or on the wrong side", () => {
+    expect(computeRMultiple("Long", 100, null, 120)).toBeNull();
+    expect(computeRMultiple("Long", 100, 110, 120)).toBeNull();
+  });
+});
+
+describe("detectBrokerFormat", () => {
+  it("tells HTML, cTrader and plain CSV apart", () => {
+    expect(detectBrokerFormat(mtHtml)).toBe("mt-html");
+    expect(detectBrokerFormat("Position ID,Symbol,Opening Direction,Closing Time\n")).toBe("ctrader-csv");
+    expect(detectBrokerFormat("date,pair,side\n")).toBe("csv");
+  });
+});
+
+describe("parseBrokerStatement", () => {
+  it("reads closed MT positions, skipping totals and counting balance rows", () => {
+    const result = parseBrokerStatement(mtHtml);
+    expect(result.format).toBe("mt-html");
+    expect(result.ignored).toBe(1);
+    expect(result.trades).toHaveLength(2);
+    expect(result.trades[0]).toMatchObject({
+      trade_date: "2026-10-01",
+      symbol: "EURUSD",
+      direction: "Long",
+      stop: 1.082,
+      target: 1.091,
+      rr_planned: 2,
+      rr_result: 2,
+      outcome: "Win",
+      source: "broker-import",
+      external_id: "mt:1001",
+    });
+    expect(result.trades[1]).toMatchObject({ direction: "Short", stop: null, rr_result: null, outcome: "Loss" });
+    expect(result.trades[1].notes).toContain("no stop on record");
+    expect(result.unmapped).toEqual([expect.objectContaining({ reason: "duplicate ticket in file" })]);
+  });
+
+  it("throws when the HTML has no positions table", () => {
+    expect(() => parseBrokerStatement("<html><table><tr><td>hi</td></tr></table></html>")).toThrow(
+      /No MT4\/MT5 positions table/
+    );
+  });
+
+  it("maps cTrader history by its headers, reading dates day first", () => {
+    const csv = [
+      "Position ID,Symbol,Opening Direction,Opening Time,Closing Time,Entry Price,Closing Price,Stop Loss,Net $",
+      "55,GBPUSD,Sell,02/10/2026 08:00:00,02/10/2026 09:30:00,1.3000,1.2950,1.3025,125.00",
+      "56,GBPUSD,Buy,03/10/2026 08:00:00,,1.3000,,,",
+    ].join("\n");
+    const result = parseBrokerStatement(csv);
+    expect(result.format).toBe("ctrader-csv");
+    expect(result.trades).toEqual([
+      expect.objectContaining({ trade_date: "2026-10-02", direction: "Short", rr_result: 2, external_id: "ctrader:55" }),
+    ]);
+    expect(result.unmapped).toEqual([expect.objectContaining({ row: 3, reason: "no close price or result (still open?)" })]);
+  });
+
+  it("returns only the headers of a plain CSV until it has a mapping", () => {
+    const csv = "Date,Pair,Side,R\n2026-10-05,eurusd,long,1.5\n2026-10-06,eurusd,flat,1";
+    expect(parseBrokerStatement(csv)).toEqual({
+      format: "csv",
+      headers: ["Date", "Pair", "Side", "R"],
+      trades: [],
+      unmapped: [],
+      ignored: 0,
+    });
+
+    const mapped = parseBrokerStatement(csv, {
+      mapping: { openTime: "Date", symbol: "Pair", direction: "Side", resultR: "R" },
+    });
+    expect(mapped.trades).toEqual([
+      expect.objectContaining({ symbol: "EURUSD", direction: "Long", rr_result: 1.5, outcome: "Win" }),
+    ]);
+    expect(mapped.trades[0].external_id).toMatch(/^csv:EURUSD\|/);
+    expect(mapped.unmapped).toEqual([expect.objectContaining({ row: 3, reason: 'unknown direction "flat"' })]);
+  });
+
+  it("rejects mappings that miss required or unknown columns", () => {
+    const csv = "Date,Pair,Side\n2026-10-05,eurusd,long";
+    expect(() => parseBrokerStatement(csv, { mapping: { symbol: "Pair" } as CsvColumnMapping })).toThrow(/symbol and direction/);
+    expect(() => parseBrokerStatement(csv, { mapping: { symbol: "Ticker", direction: "Side" } })).toThrow(
+      /Column "Ticker" not found/
+    );
+    expect(() => parseBrokerStatement("")).toThrow(/empty/);
+  });
+});
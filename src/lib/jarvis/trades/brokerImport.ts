@@ -0,0 +1,545 @@
+// /lib/jarvis/trades/brokerImport.ts
+// Broker statements → journal trades. MT4/MT5 HTML reports and CSV exports
+// are reduced to one raw record per closed position, then mapped onto the
+// TradeInput shape with R computed from entry, stop and exit when possible.
+// Tickets become external_ids, so importing the same statement twice is a no-op.
+
+import type {
+  BrokerFormat,
+  BrokerImportOptions,
+  BrokerParseResult,
+  CsvColumnMapping,
+  DateOrder,
+  TradeDirection,
+  TradeInput,
+  TradeOutcome,
+} from "./types";
+
+// One closed position as read from a statement, before validation
+interface RawBrokerTrade {
+  ticket: string | null;
+  symbol: string | null;
+  type: string | null;
+  openTime: string | null;
+  closeTime: string | null;
+  entry: number | null;
+  exit: number | null;
+  stop: number | null;
+  target: number | null;
+  profit: number | null;
+  resultR: number | null;
+  volume: number | null;
+}
+
+type RawField = keyof RawBrokerTrade;
+
+const MAX_ROWS = 20000;
+
+// cTrader history exports vary by version/locale; first header equal to one
+// of these (lowercased), or starting with it plus a unit like " $", wins
+const CTRADER_HEADERS: Partial<Record<RawField, string[]>> = {
+  ticket: ["position id", "position", "id"],
+  symbol: ["symbol"],
+  type: ["opening direction", "direction", "side"],
+  openTime: ["opening time", "open time"],
+  closeTime: ["closing time", "close time"],
+  entry: ["entry price", "opening price"],
+  exit: ["closing price", "close price"],
+  stop: ["stop loss", "sl"],
+  target: ["take profit", "tp"],
+  profit: ["net", "gross"],
+  volume: ["closing quantity", "quantity", "volume"],
+};
+
+function round2(value: number): number {
+  return Number(value.toFixed(2));
+}
+
+// ---- Low-level parsing -----------------------------------------------------
+
+// Statement file bytes → text. MT5 saves its HTML reports as UTF-16LE, so the
+// encoding comes from the BOM (or, without one, from zero bytes between ASCII
+// characters) instead of assuming UTF-8.
+export function decodeStatement(bytes: ArrayBuffer | Uint8Array): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  if (view[0] === 0xff && view[1] === 0xfe) return new TextDecoder("utf-16le").decode(view.subarray(2));
+  if (view[0] === 0xfe && view[1] === 0xff) return new TextDecoder("utf-16be").decode(view.subarray(2));
+  if (view[0] === 0xef && view[1] === 0xbb && view[2] === 0xbf) return new TextDecoder("utf-8").decode(view.subarray(3));
+  if (view.length >= 4 && view[0] !== 0 && view[1] === 0 && view[2] !== 0 && view[3] === 0) {
+    return new TextDecoder("utf-16le").decode(view);
+  }
+  if (view.length >= 4 && view[0] === 0 && view[1] !== 0 && view[2] === 0 && view[3] !== 0) {
+    return new TextDecoder("utf-16be").decode(view);
+  }
+  return new TextDecoder("utf-8").decode(view);
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/gi, " ")
+    .replace(/&amp;/gi, "&")
+    .replace(/&lt;/gi, "<")
+    .replace(/&gt;/gi, ">")
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;/gi, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)));
+}
+
+function cellText(html: string): string {
+  return decodeEntities(html.replace(/<[^>]*>/g, " ")).replace(/\s+/g, " ").trim();
+}
+
+// "1 234.56", "1,234.56", "-12.5" → number; blanks and junk → null
+function parseNumber(raw: string | null | undefined): number | null {
+  if (raw == null) return null;
+  const cleaned = String(raw).replace(/[\s,]/g, "").replace(/[^0-9.+-]/g, "");
+  if (!cleaned || cleaned === "-" || cleaned === "+") return null;
+  const n = Number(cleaned);
+  return Number.isFinite(n) ? n : null;
+}
+
+// MT writes 0.00000 for "no stop" / "no target"
+function parseLevel(raw: string | null | undefined): number | null {
+  const n = parseNumber(raw);
+  return n == null || n === 0 ? null : n;
+}
+
+// "2026.10.01 14:00:05", "01/10/2026 14:00", "2026-10-01T14:00Z" → "2026-10-01"
+export function parseStatementDate(raw: string | null | undefined, order: DateOrder = "YMD"): string | null {
+  if (!raw) return null;
+  const m = String(raw).match(/(\d{1,4})[./-](\d{1,2})[./-](\d{1,4})/);
+  if (!m) return null;
+
+  let y: number;
+  let mo: number;
+  let d: number;
+  const [a, b, c] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  if (m[1].length === 4) {
+    [y, mo, d] = [a, b, c];
+  } else if (order === "MDY") {
+    [mo, d, y] = [a, b, c];
+  } else {
+    [d, mo, y] = [a, b, c];
+  }
+  if (y < 100) y += 2000;
+  if (mo < 1 || mo > 12 || d < 1 || d > 31) return null;
+
+  return `${y}-${String(mo).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
+}
+
+function detectDelimiter(headerLine: string): string {
+  const counts = [",", ";", "\t"].map((d) => ({ d, n: headerLine.split(d).length }));
+  return counts.sort((x, y) => y.n - x.n)[0].d;
+}
+
+// RFC 4180-ish: quoted fields, doubled quotes, CRLF
+export function parseCsv(text: string): string[][] {
+  const body = text.replace(/^\uFEFF/, "");
+  const firstLine = body.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = detectDelimiter(firstLine);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (quoted) {
+      if (ch === '"' && body[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && body[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows
+    .map((r) => r.map((c) => c.trim()))
+    .filter((r) => r.some((c) => c !== ""))
+    .slice(0, MAX_ROWS + 1);
+}
+
+// <tr> rows as cell texts, with colspans expanded so columns line up
+function parseHtmlRows(html: string): string[][] {
+  const rows: string[][] = [];
+  const trRe = /<tr[^>]*>([\s\S]*?)<\/tr>/gi;
+  const cellRe = /<t([dh])([^>]*)>([\s\S]*?)<\/t\1>/gi;
+
+  let tr: RegExpExecArray | null;
+  while ((tr = trRe.exec(html)) && rows.length <= MAX_ROWS) {
+    const cells: string[] = [];
+    let cell: RegExpExecArray | null;
+    cellRe.lastIndex = 0;
+    while ((cell = cellRe.exec(tr[1]))) {
+      const span = Number(cell[2].match(/colspan\s*=\s*["']?(\d+)/i)?.[1] ?? 1);
+      cells.push(cellText(cell[3]));
+      for (let k = 1; k < span; k++) cells.push("");
+    }
+    if (cells.length) rows.push(cells);
+  }
+  return rows;
+}
+
+// ---- Record → TradeInput ---------------------------------------------------
+
+function toDirection(type: string | null): TradeDirection | null {
+  const t = (type ?? "").trim().toLowerCase();
+  if (/^(buy|long|b)\b/.test(t)) return "Long";
+  if (/^(sell|short|s)\b/.test(t)) return "Short";
+  return null;
+}
+
+// Result in R from prices; null when the stop isn't on the losing side
+export function computeRMultiple(
+  direction: TradeDirection,
+  entry: number | null,
+  stop: number | null,
+  exit: number | null
+): number | null {
+  if (entry == null || stop == null || exit == null) return null;
+  const risk = direction === "Long" ? entry - stop : stop - entry;
+  if (risk <= 0) return null;
+  const move = direction === "Long" ? exit - entry : entry - exit;
+  return round2(move / risk);
+}
+
+function plannedRR(
+  direction: TradeDirection,
+  entry: number | null,
+  stop: number | null,
+  target: number | null
+): number | null {
+  if (entry == null || stop == null || target == null) return null;
+  const risk = direction === "Long" ? entry - stop : stop - entry;
+  const reward = direction === "Long" ? target - entry : entry - target;
+  if (risk <= 0 || reward <= 0) return null;
+  return round2(reward / risk);
+}
+
+function toOutcome(profit: number | null, r: number | null): TradeOutcome | null {
+  const basis = profit ?? r;
+  if (basis == null) return null;
+  if (basis > 0) return "Win";
+  if (basis < 0) return "Loss";
+  return "Break-even";
+}
+
+function buildTrade(
+  rec: RawBrokerTrade,
+  prefix: string,
+  label: string,
+  order: DateOrder
+): TradeInput | string {
+  const symbol = rec.symbol?.trim().toUpperCase();
+  if (!symbol) return "no symbol";
+
+  const direction = toDirection(rec.type);
+  if (!direction) return `unknown direction "${rec.type ?? ""}"`;
+
+  const tradeDate = parseStatementDate(rec.openTime, order) ?? parseStatementDate(rec.closeTime, order);
+  if (!tradeDate) return `unreadable date "${rec.openTime ?? rec.closeTime ?? ""}"`;
+
+  if (rec.exit == null && rec.resultR == null && rec.profit == null) {
+    return "no close price or result (still open?)";
+  }
+
+  const resultR = rec.resultR ?? computeRMultiple(direction, rec.entry, rec.stop, rec.exit);
+  const ticket = rec.ticket?.trim() || null;
+  const externalId = ticket
+    ? `${prefix}:${ticket}`
+    : `${prefix}:${symbol}|${rec.openTime ?? ""}|${rec.entry ?? ""}|${rec.exit ?? ""}`;
+
+  const details = [
+    rec.volume != null ? `size ${rec.volume}` : null,
+    rec.exit != null ? `exit ${rec.exit}` : null,
+    rec.profit != null ? `P/L ${rec.profit}` : null,
+    resultR == null && rec.stop == null ? "no stop on record, R not computed" : null,
+  ].filter(Boolean);
+
+  return {
+    trade_date: tradeDate,
+    symbol,
+    direction,
+    entry: rec.entry,
+    stop: rec.stop,
+    target: rec.target,
+    rr_planned: plannedRR(direction, rec.entry, rec.stop, rec.target),
+    rr_result: resultR,
+    outcome: toOutcome(rec.profit, resultR),
+    notes: `Imported from ${label}${ticket ? ` #${ticket}` : ""}${details.length ? ` — ${details.join(", ")}` : ""}`,
+    source: "broker-import",
+    external_id: externalId,
+  };
+}
+
+// Shared tail of every format: validate, dedupe by ticket, collect reasons
+function collect(
+  records: { row: number; raw: string; rec: RawBrokerTrade }[],
+  prefix: string,
+  label: string,
+  order: DateOrder,
+  result: BrokerParseResult
+): BrokerParseResult {
+  const seen = new Set<string>();
+  for (const { row, raw, rec } of records) {
+    const built = buildTrade(rec, prefix, label, order);
+    if (typeof built === "string") {
+      result.unmapped.push({ row, reason: built, raw: raw.slice(0, 200) });
+      continue;
+    }
+    if (seen.has(built.external_id!)) {
+      result.unmapped.push({ row, reason: "duplicate ticket in file", raw: raw.slice(0, 200) });
+      continue;
+    }
+    seen.add(built.external_id!);
+    result.trades.push(built);
+  }
+  return result;
+}
+
+// ---- MT4 / MT5 HTML --------------------------------------------------------
+
+type HtmlLayout = Partial<Record<RawField, number>>;
+
+function normalizeHeader(cell: string): string {
+  return cell.toLowerCase().replace(/\s+/g, "");
+}
+
+// Column positions from a header row, or null when it isn't a positions table.
+// Both reports repeat Time/Price for open and close, in that order.
+function layoutFromHeader(cells: string[]): HtmlLayout | null {
+  const h = cells.map(normalizeHeader);
+  const layout: HtmlLayout = {};
+  const times: number[] = [];
+  const prices: number[] = [];
+
+  h.forEach((c, i) => {
+    if (c === "ticket" || c === "position") layout.ticket = i;
+    else if (c === "item" || c === "symbol") layout.symbol = i;
+    else if (c === "type") layout.type = i;
+    else if (c === "size" || c === "volume") layout.volume = i;
+    else if (c === "s/l") layout.stop = i;
+    else if (c === "t/p") layout.target = i;
+    else if (c === "profit") layout.profit = i;
+    else if (c === "opentime" || c === "time") times.push(i);
+    else if (c === "closetime") times[1] = i;
+    else if (c === "price") prices.push(i);
+  });
+
+  if (layout.ticket == null || layout.symbol == null || layout.type == null) return null;
+  [layout.openTime, layout.closeTime] = times;
+  [layout.entry, layout.exit] = prices;
+  return layout;
+}
+
+function parseMtHtml(html: string, order: DateOrder): BrokerParseResult {
+  const result: BrokerParseResult = { format: "mt-html", headers: [], trades: [], unmapped: [], ignored: 0 };
+  const records: { row: number; raw: string; rec: RawBrokerTrade }[] = [];
+
+  let layout: HtmlLayout | null = null;
+  parseHtmlRows(html).forEach((cells, idx) => {
+    const row = idx + 1;
+    const lowered = cells.map(normalizeHeader);
+    if (lowered.includes("type") && (lowered.includes("item") || lowered.includes("symbol"))) {
+      layout = layoutFromHeader(cells);
+      if (layout && !result.headers.length) result.headers = cells.filter(Boolean);
+      return;
+    }
+    if (!layout) return;
+
+    // Totals, section titles and comment rows have no numeric ticket
+    const ticket = cells[layout.ticket!];
+    if (!ticket || !/^\d+$/.test(ticket)) return;
+
+    const type = cells[layout.type!] ?? "";
+    if (!/^(buy|sell)$/i.test(type.trim())) {
+      result.ignored += 1; // balance, credit, pending orders
+      return;
+    }
+
+    const at = (field: RawField) => {
+      const i = layout![field];
+      return i == null ? null : cells[i] ?? null;
+    };
+    // "Open Trades" share the closed-trades header but have no close time;
+    // their Price column is the live quote, not an exit
+    const open = layout.closeTime != null && !at("closeTime");
+    records.push({
+      row,
+      raw: cells.filter(Boolean).join(" | "),
+      rec: {
+        ticket,
+        symbol: at("symbol"),
+        type,
+        openTime: at("openTime"),
+        closeTime: at("closeTime"),
+        entry: parseNumber(at("entry")),
+        exit: open ? null : parseNumber(at("exit")),
+        stop: parseLevel(at("stop")),
+        target: parseLevel(at("target")),
+        profit: open ? null : parseNumber(at("profit")),
+        resultR: null,
+        volume: parseNumber(at("volume")),
+      },
+    });
+  });
+
+  if (!result.headers.length) {
+    throw new Error("No MT4/MT5 positions table found in the HTML statement.");
+  }
+  return collect(records, "mt", "MT statement", order, result);
+}
+
+// ---- CSV -------------------------------------------------------------------
+
+function columnIndex(headers: string[], ref: string | number | undefined): number | null {
+  if (ref == null || ref === "") return null;
+  if (typeof ref === "number") return ref >= 0 && ref < headers.length ? ref : null;
+  const wanted = ref.trim().toLowerCase();
+  const i = headers.findIndex((h) => h.trim().toLowerCase() === wanted);
+  if (i === -1) {
+    throw new Error(`Column "${ref}" not found in the CSV header.`);
+  }
+  return i;
+}
+
+function parseMappedCsv(
+  rows: string[][],
+  mapping: Partial<Record<RawField, string | number>>,
+  format: "csv" | "ctrader-csv",
+  order: DateOrder
+): BrokerParseResult {
+  const headers = rows[0] ?? [];
+  const result: BrokerParseResult = { format, headers, trades: [], unmapped: [], ignored: 0 };
+
+  const idx: Partial<Record<RawField, number | null>> = {};
+  for (const [field, ref] of Object.entries(mapping) as [RawField, string | number][]) {
+    idx[field] = columnIndex(headers, ref);
+  }
+  if (idx.symbol == null || idx.type == null) {
+    throw new Error("The column mapping needs at least symbol and direction.");
+  }
+
+  const records = rows.slice(1).map((cells, i) => {
+    const at = (field: RawField) => {
+      const c = idx[field];
+      return c == null ? null : cells[c] ?? null;
+    };
+    return {
+      row: i + 2, // header is line 1
+      raw: cells.join(", "),
+      rec: {
+        ticket: at("ticket"),
+        symbol: at("symbol"),
+        type: at("type"),
+        openTime: at("openTime"),
+        closeTime: at("closeTime"),
+        entry: parseNumber(at("entry")),
+        exit: parseNumber(at("exit")),
+        stop: parseLevel(at("stop")),
+        target: parseLevel(at("target")),
+        profit: parseNumber(at("profit")),
+        resultR: parseNumber(at("resultR")),
+        volume: parseNumber(at("volume")),
+      },
+    };
+  });
+
+  const prefix = format === "ctrader-csv" ? "ctrader" : "csv";
+  const label = format === "ctrader-csv" ? "cTrader history" : "CSV";
+  return collect(records, prefix, label, order, result);
+}
+
+function ctraderMapping(headers: string[]): Partial<Record<RawField, number>> {
+  const lowered = headers.map((h) => h.trim().toLowerCase());
+  const mapping: Partial<Record<RawField, number>> = {};
+  for (const [field, candidates] of Object.entries(CTRADER_HEADERS) as [RawField, string[]][]) {
+    for (const cand of candidates) {
+      const i = lowered.findIndex((h) => h === cand || h.startsWith(`${cand} `) || h.startsWith(`${cand}(`));
+      if (i !== -1) {
+        mapping[field] = i;
+        break;
+      }
+    }
+  }
+  return mapping;
+}
+
+// Public mapping fields → internal record fields
+function fromColumnMapping(m: CsvColumnMapping): Partial<Record<RawField, string | number>> {
+  return {
+    ticket: m.ticket,
+    symbol: m.symbol,
+    type: m.direction,
+    openTime: m.openTime,
+    closeTime: m.closeTime,
+    entry: m.entry,
+    exit: m.exit,
+    stop: m.stop,
+    target: m.target,
+    profit: m.profit,
+    resultR: m.resultR,
+  };
+}
+
+// ---- Entry point -----------------------------------------------------------
+
+export function detectBrokerFormat(content: string): Exclude<BrokerFormat, "auto"> {
+  if (/<table[\s>]/i.test(content) || /<html[\s>]/i.test(content)) return "mt-html";
+  const header = (content.replace(/^\uFEFF/, "").split(/\r?\n/, 1)[0] ?? "").toLowerCase();
+  if (header.includes("opening direction") || header.includes("closing time")) return "ctrader-csv";
+  return "csv";
+}
+
+// Parse a statement into journal trades. A plain CSV without a mapping only
+// returns its headers, so a UI can ask which column is which.
+export function parseBrokerStatement(
+  content: string,
+  options: BrokerImportOptions = {}
+): BrokerParseResult {
+  if (!content || typeof content !== "string") {
+    throw new Error("Statement content is empty.");
+  }
+
+  const format = !options.format || options.format === "auto" ? detectBrokerFormat(content) : options.format;
+
+  if (format === "mt-html") {
+    return parseMtHtml(content, options.dateOrder ?? "YMD");
+  }
+
+  const rows = parseCsv(content);
+  if (rows.length === 0) {
+    throw new Error("The CSV has no rows.");
+  }
+
+  if (format === "ctrader-csv") {
+    // cTrader writes dd/MM/yyyy unless told otherwise
+    return parseMappedCsv(rows, ctraderMapping(rows[0]), format, options.dateOrder ?? "DMY");
+  }
+
+  if (!options.mapping) {
+    return { format: "csv", headers: rows[0], trades: [], unmapped: [], ignored: 0 };
+  }
+  return parseMappedCsv(rows, fromColumnMapping(options.mapping), "csv", options.dateOrder ?? "YMD");
+}
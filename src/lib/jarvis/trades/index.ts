@@ -0,0 +1,4 @@
+// /lib/jarvis/trades/index.ts
+export * from "./types";
+export * from "./store";
+export * from "./brokerImport";
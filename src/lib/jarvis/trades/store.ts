@@ -0,0 +1,317 @@
+// /lib/jarvis/trades/store.ts
+// Supabase data layer for the trade journal (public.jarvis_trades).
+// Every channel — /journal, /api/chat, Telegram — reads the same rows.
+
+import { localDate } from "@/lib/time";
+import type { ExportColumn } from "../export";
+import type { JournalStats, JournalTrade } from "../journalStats";
+import { computeJournalStats } from "../journalStats";
+import type {
+  JarvisTrade,
+  TradeDirection,
+  TradeFilters,
+  TradeImportResult,
+  TradeInput,
+  TradeOutcome,
+  TradePatch,
+} from "./types";
+
+const TABLE = "jarvis_trades";
+const USER_ID = "single-user";
+const DEFAULT_LIMIT = 500;
+const MAX_LIMIT = 5000;
+const PAGE_SIZE = 1000;              // PostgREST returns at most this many rows per request
+const IMPORT_CHUNK = 200;           // external_ids per lookup and rows per insert
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const DIRECTIONS: TradeDirection[] = ["Long", "Short"];
+const OUTCOMES: TradeOutcome[] = ["Win", "Loss", "Break-even"];
+
+function toNumberOrNull(value: unknown, field: string): number | null {
+  if (value == null || String(value).trim() === "") return null;
+  const n = Number(value);
+  if (!Number.isFinite(n)) {
+    throw new Error(`${field} must be a number.`);
+  }
+  return n;
+}
+
+function toTextOrNull(value: unknown): string | null {
+  if (value == null) return null;
+  const s = String(value).trim();
+  return s ? s : null;
+}
+
+function checkDate(value: string, field: string): string {
+  if (!DATE_RE.test(value)) {
+    throw new Error(`${field} must be a YYYY-MM-DD date.`);
+  }
+  return value;
+}
+
+// Validated column values for insert/update; only keys present in the input
+function toColumns(input: TradePatch): Record<string, unknown> {
+  const cols: Record<string, unknown> = {};
+
+  if (input.trade_date !== undefined) cols.trade_date = checkDate(String(input.trade_date), "Trade date");
+  if (input.symbol !== undefined) {
+    const symbol = String(input.symbol ?? "").trim().toUpperCase();
+    if (!symbol) throw new Error("Symbol is required.");
+    cols.symbol = symbol;
+  }
+  if (input.direction !== undefined) {
+    if (!DIRECTIONS.includes(input.direction)) {
+      throw new Error(`Direction must be one of: ${DIRECTIONS.join(", ")}.`);
+    }
+    cols.direction = input.direction;
+  }
+  if (input.outcome !== undefined) {
+    if (input.outcome !== null && !OUTCOMES.includes(input.outcome)) {
+      throw new Error(`Outcome must be one of: ${OUTCOMES.join(", ")}.`);
+    }
+    cols.outcome = input.outcome;
+  }
+
+  if (input.entry !== undefined) cols.entry = toNumberOrNull(input.entry, "Entry");
+  if (input.stop !== undefined) cols.stop = toNumberOrNull(input.stop, "Stop");
+  if (input.target !== undefined) cols.target = toNumberOrNull(input.target, "Target");
+  if (input.rr_planned !== undefined) cols.rr_planned = toNumberOrNull(input.rr_planned, "Planned R:R");
+  if (input.rr_result !== undefined) cols.rr_result = toNumberOrNull(input.rr_result, "Result R");
+
+  if (input.emotion_before !== undefined) cols.emotion_before = toTextOrNull(input.emotion_before);
+  if (input.emotion_after !== undefined) cols.emotion_after = toTextOrNull(input.emotion_after);
+  if (input.notes !== undefined) cols.notes = toTextOrNull(input.notes);
+  if (input.source !== undefined) cols.source = input.source;
+  if (input.external_id !== undefined) cols.external_id = toTextOrNull(input.external_id);
+
+  return cols;
+}
+
+// Newest first, like the journal table; id breaks ties so pages don't overlap
+function tradesQuery(supabase: any, filters: TradeFilters) {
+  let query = supabase
+    .from(TABLE)
+    .select("*")
+    .eq("user_id", USER_ID)
+    .order("trade_date", { ascending: false })
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false });
+
+  if (filters.from) query = query.gte("trade_date", checkDate(filters.from, "From"));
+  if (filters.to) query = query.lte("trade_date", checkDate(filters.to, "To"));
+  if (filters.symbol) query = query.eq("symbol", filters.symbol.trim().toUpperCase());
+  return query;
+}
+
+export async function listTrades(supabase: any, filters: TradeFilters = {}): Promise<JarvisTrade[]> {
+  const limit = Math.min(Math.max(1, filters.limit ?? DEFAULT_LIMIT), MAX_LIMIT);
+
+  const { data, error } = await tradesQuery(supabase, filters).limit(limit);
+  if (error) throw error;
+  return (data ?? []) as JarvisTrade[];
+}
+
+// Every matching trade, a page at a time — for stats, exports and reports
+// that must not stop at a row limit
+export async function listAllTrades(
+  supabase: any,
+  filters: Omit<TradeFilters, "limit"> = {}
+): Promise<JarvisTrade[]> {
+  const rows: JarvisTrade[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await tradesQuery(supabase, filters).range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data ?? []) as JarvisTrade[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+export async function getTrade(supabase: any, id: string): Promise<JarvisTrade | null> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select("*")
+    .eq("user_id", USER_ID)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as JarvisTrade) ?? null;
+}
+
+export async function createTrade(supabase: any, input: TradeInput): Promise<JarvisTrade> {
+  const payload: Record<string, unknown> = {
+    direction: "Long",
+    source: "web",
+    ...toColumns({ ...input, trade_date: input.trade_date || localDate() }),
+    user_id: USER_ID,
+  };
+  if (!payload.symbol) throw new Error("Symbol is required.");
+
+  const { data, error } = await supabase.from(TABLE).insert(payload).select("*").single();
+  if (error) throw error;
+  return data as JarvisTrade;
+}
+
+export async function updateTrade(supabase: any, id: string, patch: TradePatch): Promise<JarvisTrade> {
+  const cols = toColumns(patch);
+  if (Object.keys(cols).length === 0) {
+    throw new Error("Nothing to update.");
+  }
+
+  const { data, error } = await supabase
+    .from(TABLE)
+    .update({ ...cols, updated_at: new Date().toISOString() })
+    .eq("user_id", USER_ID)
+    .eq("id", id)
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data as JarvisTrade;
+}
+
+export async function deleteTrade(supabase: any, id: string): Promise<void> {
+  const { error } = await supabase.from(TABLE).delete().eq("user_id", USER_ID).eq("id", id);
+  if (error) throw error;
+}
+
+// Insert rows whose external_id isn't stored yet; rerunning an import is a no-op
+export async function insertTradesIfNew(
+  supabase: any,
+  inputs: TradeInput[]
+): Promise<TradeImportResult> {
+  const result: TradeImportResult = { imported: 0, skipped: 0, errors: [] };
+
+  const ids = inputs.map((t) => t.external_id).filter((id): id is string => !!id);
+  const existing = new Set<string>();
+  for (let i = 0; i < ids.length; i += IMPORT_CHUNK) {
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select("external_id")
+      .eq("user_id", USER_ID)
+      .in("external_id", ids.slice(i, i + IMPORT_CHUNK));
+    if (error) throw error;
+    for (const row of data ?? []) existing.add(row.external_id);
+  }
+
+  const rows: Record<string, unknown>[] = [];
+  inputs.forEach((input, i) => {
+    if (input.external_id && existing.has(input.external_id)) {
+      result.skipped += 1;
+      return;
+    }
+    try {
+      rows.push({
+        direction: "Long",
+        ...toColumns(input),
+        trade_date: checkDate(String(input.trade_date ?? ""), "Trade date"),
+        user_id: USER_ID,
+      });
+      if (input.external_id) existing.add(input.external_id);
+    } catch (err: any) {
+      result.errors.push(`Row ${i + 1}: ${err?.message ?? String(err)}`);
+    }
+  });
+
+  for (let i = 0; i < rows.length; i += IMPORT_CHUNK) {
+    const chunk = rows.slice(i, i + IMPORT_CHUNK);
+    const { error } = await supabase.from(TABLE).insert(chunk);
+    if (error) throw error;
+    result.imported += chunk.length;
+  }
+  return result;
+}
+
+// ---- localStorage journal (jarvis-trade-journal-v1) ------------------------
+
+// Browser inputs were free text; anything that isn't a number is dropped
+function lenientNumber(value: unknown): number | null {
+  if (value == null || String(value).trim() === "") return null;
+  const n = Number(String(value).replace(/,/g, ""));
+  return Number.isFinite(n) ? n : null;
+}
+
+export function fromJournalTrade(trade: JournalTrade): TradeInput {
+  const outcome = OUTCOMES.includes(trade.outcome as TradeOutcome) ? (trade.outcome as TradeOutcome) : null;
+  return {
+    trade_date: trade.date,
+    symbol: trade.symbol,
+    direction: trade.direction === "Short" ? "Short" : "Long",
+    entry: lenientNumber(trade.entry),
+    stop: lenientNumber(trade.stop),
+    target: lenientNumber(trade.target),
+    rr_planned: lenientNumber(trade.rrPlanned),
+    rr_result: lenientNumber(trade.rrResult),
+    outcome,
+    emotion_before: trade.emotionBefore,
+    emotion_after: trade.emotionAfter,
+    notes: trade.notes,
+    source: "local-import",
+    external_id: `local:${trade.id}`,
+  };
+}
+
+export function toJournalTrade(row: JarvisTrade): JournalTrade {
+  const str = (v: number | null) => (v == null ? "" : String(v));
+  return {
+    id: row.id,
+    date: row.trade_date,
+    symbol: row.symbol,
+    direction: row.direction,
+    entry: str(row.entry),
+    stop: str(row.stop),
+    target: str(row.target),
+    rrPlanned: str(row.rr_planned),
+    rrResult: str(row.rr_result),
+    outcome: row.outcome ?? "",
+    emotionBefore: row.emotion_before ?? "",
+    emotionAfter: row.emotion_after ?? "",
+    notes: row.notes ?? "",
+  };
+}
+
+// One-time import of the browser journal; safe to call again
+export async function importLocalJournal(
+  supabase: any,
+  trades: JournalTrade[]
+): Promise<TradeImportResult> {
+  if (!Array.isArray(trades)) {
+    throw new Error("Trades must be an array.");
+  }
+  return insertTradesIfNew(supabase, trades.map(fromJournalTrade));
+}
+
+// Stats over the whole stored journal (or filters.limit newest trades), or
+// null when it can't be read
+export async function loadJournalStats(
+  supabase: any,
+  filters: TradeFilters = {}
+): Promise<JournalStats | null> {
+  try {
+    const rows = filters.limit ? await listTrades(supabase, filters) : await listAllTrades(supabase, filters);
+    return computeJournalStats(rows.map(toJournalTrade));
+  } catch (err) {
+    console.error("Exception loading jarvis_trades:", err);
+    return null;
+  }
+}
+
+// ---- Export -----------------------------------------------------------------
+
+export const TRADE_EXPORT_COLUMNS: ExportColumn<JarvisTrade>[] = [
+  { header: "date", value: (t) => t.trade_date },
+  { header: "symbol", value: (t) => t.symbol },
+  { header: "direction", value: (t) => t.direction },
+  { header: "entry", value: (t) => t.entry },
+  { header: "stop", value: (t) => t.stop },
+  { header: "target", value: (t) => t.target },
+  { header: "rr_planned", value: (t) => t.rr_planned },
+  { header: "rr_result", value: (t) => t.rr_result },
+  { header: "outcome", value: (t) => t.outcome },
+  { header: "emotion_before", value: (t) => t.emotion_before },
+  { header: "emotion_after", value: (t) => t.emotion_after },
+  { header: "notes", value: (t) => t.notes },
+  { header: "source", value: (t) => t.source },
+  { header: "external_id", value: (t) => t.external_id },
+  { header: "id", value: (t) => t.id },
+];
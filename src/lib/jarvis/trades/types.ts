@@ -0,0 +1,106 @@
+// /lib/jarvis/trades/types.ts
+
+export type TradeDirection = "Long" | "Short";
+export type TradeOutcome = "Win" | "Loss" | "Break-even";
+
+// Where a row came from; imports use it with external_id to stay idempotent
+export type TradeSource = "web" | "telegram" | "local-import" | "broker-import";
+
+// Row in public.jarvis_trades
+export interface JarvisTrade {
+  id: string;                     // uuid
+  user_id: string;
+  trade_date: string;             // YYYY-MM-DD
+  symbol: string;                 // uppercased, e.g. "XAUUSD"
+  direction: TradeDirection;
+  entry: number | null;
+  stop: number | null;
+  target: number | null;
+  rr_planned: number | null;
+  rr_result: number | null;       // result in R; null until known
+  outcome: TradeOutcome | null;
+  emotion_before: string | null;
+  emotion_after: string | null;
+  notes: string | null;
+  source: TradeSource;
+  external_id: string | null;     // e.g. "local:1733051234567"; unique per user
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TradeInput {
+  trade_date?: string;            // default today
+  symbol: string;
+  direction?: TradeDirection;     // default "Long"
+  entry?: number | string | null;
+  stop?: number | string | null;
+  target?: number | string | null;
+  rr_planned?: number | string | null;
+  rr_result?: number | string | null;
+  outcome?: TradeOutcome | null;
+  emotion_before?: string | null;
+  emotion_after?: string | null;
+  notes?: string | null;
+  source?: TradeSource;
+  external_id?: string | null;
+}
+
+export type TradePatch = Partial<TradeInput>;
+
+export interface TradeFilters {
+  from?: string;                  // inclusive YYYY-MM-DD
+  to?: string;                    // inclusive YYYY-MM-DD
+  symbol?: string;
+  limit?: number;
+}
+
+export interface TradeImportResult {
+  imported: number;
+  skipped: number;                // already imported (same external_id)
+  errors: string[];
+}
+
+// ---- Broker statement import ----------------------------------------------
+
+export type BrokerFormat =
+  | "auto"
+  | "mt-html"                     // MT4 detailed statement / MT5 report (HTML)
+  | "ctrader-csv"                 // cTrader history export
+  | "csv";                        // any CSV with a column mapping
+
+export type DateOrder = "YMD" | "DMY" | "MDY";
+
+// Header name (case-insensitive) or 0-based column index for each field
+export interface CsvColumnMapping {
+  ticket?: string | number;
+  symbol: string | number;
+  direction: string | number;     // buy/sell or long/short
+  openTime?: string | number;
+  closeTime?: string | number;
+  entry?: string | number;
+  exit?: string | number;
+  stop?: string | number;
+  target?: string | number;
+  profit?: string | number;       // money result, used for the outcome
+  resultR?: string | number;      // R already computed by the broker/export
+}
+
+export interface BrokerImportOptions {
+  format?: BrokerFormat;          // default "auto"
+  mapping?: CsvColumnMapping;     // required for "csv"
+  dateOrder?: DateOrder;          // for ambiguous dates like 01/02/2026; default "YMD"
+}
+
+export interface UnmappedRow {
+  row: number;                    // 1-based line / table row in the source
+  reason: string;
+  raw: string;                    // trimmed source text, for the report
+}
+
+export interface BrokerParseResult {
+  format: Exclude<BrokerFormat, "auto">;
+  headers: string[];              // detected header cells (CSV) for mapping UIs
+  trades: TradeInput[];
+  unmapped: UnmappedRow[];
+  ignored: number;                // balance / deposit / cancelled-order rows
+}
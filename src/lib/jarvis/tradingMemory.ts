@@ -8,6 +8,8 @@ export interface TradingProfile {
   daily_loss_percent?: number | null;
   max_loss_percent?: number | null;
   current_profit?: number | null;
+  max_trades_per_day?: number | null;
+  cooldown_minutes?: number | null;  // tilt cool-down length
   last_updated?: string | null;
 }
 
@@ -60,99 +62,64 @@ export async function upsertTradingProfile(
   }
 }
 
-// ---- Small helpers for parsing numbers from text ---------------------------
-
-function findPercents(text: string): number[] {
-  const out: number[] = [];
-  const regex = /(-?\d+(\.\d+)?)\s*%/g;
-  let m: RegExpExecArray | null;
-  while ((m = regex.exec(text)) !== null) {
-    out.push(parseFloat(m[1]));
-  }
-  return out;
-}
-
-function findBigNumber(text: string): number | null {
-  const m = text.match(/(\d{3,})(?:\.\d+)?/);
-  if (!m) return null;
-  return parseFloat(m[1]);
-}
-
-// ---- Auto-update trading memory from what you say -------------------------
-
-export async function autoUpdateTradingMemoryFromUtterance(
-  supabase: SupabaseLike,
-  text: string | undefined | null
-) {
-  if (!text) return;
-  const raw = text;
-  const lower = raw.toLowerCase();
-  if (!raw.trim()) return;
-
-  const percents = findPercents(raw);
+// ---- Profile facts extracted from conversation ----------------------------
+
+const NUMBER_RANGES: Partial<Record<keyof TradingProfile, [number, number, boolean]>> = {
+  account_size: [1, 1e9, false],
+  target_percent: [0.1, 100, false],
+  daily_loss_percent: [0.1, 100, false],
+  max_loss_percent: [0.1, 100, false],
+  current_profit: [-1e9, 1e9, false],
+  max_trades_per_day: [1, 50, true],
+  cooldown_minutes: [5, 1440, true],
+};
+
+// Keeps only known fields with sane values; the LLM extractor is not trusted blindly
+export function sanitizeTradingProfilePatch(raw: unknown): Partial<TradingProfile> {
+  if (!raw || typeof raw !== "object") return {};
+  const input = raw as Record<string, unknown>;
   const patch: Partial<TradingProfile> = {};
 
-  // Daily + max loss in one sentence: "daily is 3% and max loss is 12%"
-  if (
-    lower.includes("daily") &&
-    lower.includes("loss") &&
-    (lower.includes("max") || lower.includes("overall"))
-  ) {
-    if (percents[0] != null) patch.daily_loss_percent = percents[0];
-    if (percents[1] != null) patch.max_loss_percent = percents[1];
-  } else {
-    // Single daily loss definition
-    if (lower.includes("daily") && lower.includes("loss") && percents[0] != null) {
-      patch.daily_loss_percent = percents[0];
-    }
-
-    // Single max loss definition
-    if (
-      (lower.includes("max loss") ||
-        lower.includes("max-loss") ||
-        lower.includes("maxloss")) &&
-      percents[0] != null
-    ) {
-      patch.max_loss_percent = percents[0];
-    }
-  }
-
-  // Target percent
-  if (
-    lower.includes("target") &&
-    (lower.includes("%") || lower.includes("percent")) &&
-    percents[0] != null
-  ) {
-    patch.target_percent = percents[0];
+  for (const [key, [min, max, integer]] of Object.entries(NUMBER_RANGES) as [
+    keyof TradingProfile,
+    [number, number, boolean],
+  ][]) {
+    const value = input[key];
+    if (value == null || value === "") continue;
+    const n = Number(String(value).replace(/[,%\s]/g, ""));
+    if (!Number.isFinite(n) || n < min || n > max || (integer && !Number.isInteger(n))) continue;
+    (patch as any)[key] = n;
   }
 
-  // Account size
-  if (
-    lower.includes("account") &&
-    (lower.includes("size") ||
-      lower.includes("propfirm") ||
-      lower.includes("prop firm") ||
-      lower.includes("funded") ||
-      lower.includes("evaluation"))
-  ) {
-    const num = findBigNumber(raw);
-    if (num != null) patch.account_size = num;
-  }
+  const firm = typeof input.propfirm_name === "string" ? input.propfirm_name.trim() : "";
+  if (firm && firm.length <= 60) patch.propfirm_name = firm;
 
-  // Prop firm name (simple heuristic)
-  if (lower.includes("funded elite")) {
-    patch.propfirm_name = "Funded Elite";
-  }
+  return patch;
+}
 
-  // Current profit (only if there's a big number and we mention profit)
-  if (lower.includes("profit") && !lower.includes("%")) {
-    const num = findBigNumber(raw);
-    if (num != null) patch.current_profit = num;
+// Admin form → profile patch. Unlike extracted facts, a rejected value is an
+// error the user should see, and an emptied field clears the setting.
+export function parseTradingProfileForm(raw: unknown): Partial<TradingProfile> {
+  if (!raw || typeof raw !== "object") return {};
+  const input = raw as Record<string, unknown>;
+  const patch = sanitizeTradingProfilePatch(input);
+
+  for (const key of [...Object.keys(NUMBER_RANGES), "propfirm_name"] as (keyof TradingProfile)[]) {
+    if (!(key in input) || key in patch) continue;
+    const value = input[key];
+    if (value == null || String(value).trim() === "") {
+      (patch as any)[key] = null;
+      continue;
+    }
+    const range = NUMBER_RANGES[key];
+    throw new Error(
+      range
+        ? `${key} must be ${range[2] ? "a whole number" : "a number"} from ${range[0]} to ${range[1]}.`
+        : `${key} must be at most 60 characters.`
+    );
   }
 
-  if (Object.keys(patch).length === 0) return;
-
-  await upsertTradingProfile(supabase, patch);
+  return patch;
 }
 
 // ---- Build snippet for system prompt --------------------------------------
@@ -181,6 +148,7 @@ export function buildTradingProfileSnippet(
 - Max loss limit: ${
     profile.max_loss_percent != null ? profile.max_loss_percent + "%" : "not set"
   }
+- Max trades per day: ${profile.max_trades_per_day ?? "not set"}
 - Last known profit: ${profile.current_profit ?? "not set"}
 `.trim();
 }
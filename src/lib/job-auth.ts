@@ -0,0 +1,23 @@
+// src/lib/job-auth.ts
+// Shared auth for /api/jobs/* routes: Vercel Cron sends
+// "Authorization: Bearer <CRON_SECRET>", manual runs send X-JARVIS-KEY
+// (JARVIS_API_KEY env). Returns the error response, or null when allowed.
+
+import { NextRequest, NextResponse } from "next/server";
+
+export function jobAuthError(req: NextRequest, job: string): NextResponse | null {
+  const jarvisKey = process.env.JARVIS_API_KEY ?? "";
+  const provided = req.headers.get("x-jarvis-key") ?? "";
+  const cronSecret = process.env.CRON_SECRET ?? "";
+
+  if (cronSecret && req.headers.get("authorization") === `Bearer ${cronSecret}`) return null;
+  if (!jarvisKey || jarvisKey.length < 6) {
+    console.error(`[jobs/${job}] missing JARVIS_API_KEY in env`);
+    return NextResponse.json({ ok: false, error: "missing_server_key" }, { status: 500 });
+  }
+  if (provided !== jarvisKey) {
+    console.warn(`[jobs/${job}] invalid x-jarvis-key header`);
+    return NextResponse.json({ ok: false, error: "invalid_key" }, { status: 401 });
+  }
+  return null;
+}
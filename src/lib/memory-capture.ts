@@ -0,0 +1,76 @@
+// src/lib/memory-capture.ts
+// Runs incoming web and Telegram messages through extractMemoryWithLLM and
+// stores what it finds: the fact goes to jarvis_memory via saveMemory, and
+// trading-profile facts (account size, loss limits, ...) go to
+// upsertTradingProfile. Skips casual_micro messages and slash commands, and is
+// rate-limited per user because every call costs an LLM round-trip.
+// Meant to run after the reply (next/server `after`); never throws.
+
+import { extractMemoryWithLLM } from "./memory-extractor-llm";
+import { saveMemory } from "./jarvis-memory";
+import { detectToneMode, type Channel } from "./jarvis/tone";
+import { sanitizeTradingProfilePatch, upsertTradingProfile, type TradingProfile } from "./jarvis/tradingMemory";
+
+const MIN_GAP_MS = 15_000;        // at most one extraction per user per 15s
+const MAX_PER_HOUR = 30;
+const MIN_IMPORTANCE_TO_SAVE = 3;
+
+// Per-instance call log; good enough to stop bursts from one chat
+const recentCalls = new Map<string, number[]>();
+
+export type CaptureResult = {
+  skipped?: "empty" | "command" | "casual_micro" | "rate_limited" | "no_extraction";
+  saved: boolean;
+  profile: Partial<TradingProfile> | null;
+};
+
+function takeSlot(userId: string, now: number): boolean {
+  const calls = (recentCalls.get(userId) ?? []).filter((t) => now - t < 3600_000);
+  const last = calls[calls.length - 1];
+  if ((last != null && now - last < MIN_GAP_MS) || calls.length >= MAX_PER_HOUR) {
+    recentCalls.set(userId, calls);
+    return false;
+  }
+  recentCalls.set(userId, [...calls, now]);
+  return true;
+}
+
+export async function captureMemoryFromMessage(
+  supabase: any,
+  opts: { userId: string; text: string; channel: Channel }
+): Promise<CaptureResult> {
+  const text = (opts.text ?? "").trim();
+  const none = { saved: false, profile: null };
+  if (!text) return { ...none, skipped: "empty" };
+  if (text.startsWith("/")) return { ...none, skipped: "command" };
+  if (detectToneMode(text, opts.channel) === "casual_micro") return { ...none, skipped: "casual_micro" };
+  if (!takeSlot(opts.userId, Date.now())) return { ...none, skipped: "rate_limited" };
+
+  try {
+    const extracted = await extractMemoryWithLLM(text, opts.userId);
+    if (!extracted) return { ...none, skipped: "no_extraction" };
+
+    const profile = sanitizeTradingProfilePatch(extracted.profile);
+    const hasProfile = Object.keys(profile).length > 0;
+    if (hasProfile) await upsertTradingProfile(supabase, profile);
+
+    let saved = false;
+    const importance = extracted.importance ?? 1;
+    if (extracted.shouldSave && extracted.text && importance >= MIN_IMPORTANCE_TO_SAVE) {
+      saved = await saveMemory(opts.userId, {
+        type: hasProfile && extracted.type === "misc" ? "profile" : extracted.type,
+        content: extracted.text,
+        tags: extracted.tags,
+        importance,
+        source: "extractor",
+        channel: opts.channel,
+        data: hasProfile ? { profile } : {},
+      });
+    }
+
+    return { saved, profile: hasProfile ? profile : null };
+  } catch (err) {
+    console.warn("captureMemoryFromMessage failed:", err);
+    return none;
+  }
+}
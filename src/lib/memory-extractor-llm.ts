@@ -1,33 +1,55 @@
 // src/lib/memory-extractor-llm.ts
 // Uses the shared callLLM to convert a free-text message into structured memory.
 // Returns null if nothing worth saving, otherwise an object:
-// { shouldSave: boolean, type, tags, importance, text }
+// { shouldSave: boolean, type, tags, importance, text, profile }
+// `profile` holds trading-profile facts (account size, limits, ...) stated in the message.
 
 // IMPORTANT: this uses the LLM and costs tokens; use sparingly (e.g., for non-trivial messages).
 
 import callLLM from "./llm";
+import { MEMORY_TYPES, type MemoryType } from "./jarvis/memory";
+import type { TradingProfile } from "./jarvis/tradingMemory";
 
-type Extracted = {
+export type ExtractedProfile = Partial<
+  Pick<
+    TradingProfile,
+    | "propfirm_name"
+    | "account_size"
+    | "target_percent"
+    | "daily_loss_percent"
+    | "max_loss_percent"
+    | "current_profit"
+    | "max_trades_per_day"
+    | "cooldown_minutes"
+  >
+>;
+
+export type Extracted = {
   shouldSave: boolean;
-  type?: string;
+  type?: MemoryType;
   tags?: string[];
   importance?: number;
   text?: string;
+  profile?: ExtractedProfile | null;
 };
 
 const extractionSystem = `
 You are an extractor that converts a user's message into a JSON object describing whether the message should be saved to memory.
 Output MUST be valid JSON only, with keys:
 - shouldSave (boolean)
-- type (string: one of "smalltalk","preference","trade","event","emotion","summary","misc" or "preference")
+- type (string: one of "preference","profile","trade","event","emotion","goal","misc")
 - tags (array of short tag strings)
 - importance (int 1-10)
 - text (short cleaned version of the fact to store)
+- profile (object or null): trading account facts the user states as true about THEIR OWN account right now. Allowed keys, all optional:
+  propfirm_name (string), account_size (number), target_percent, daily_loss_percent, max_loss_percent (numbers, percent),
+  current_profit (number, account currency), max_trades_per_day (int), cooldown_minutes (int)
 
 Rules:
 - Only include fields listed above.
-- If message is trivial and shouldn't be saved, return {"shouldSave": false, "type":"misc","tags": [], "importance":1, "text": ""}
+- If message is trivial and shouldn't be saved, return {"shouldSave": false, "type":"misc","tags": [], "importance":1, "text": "", "profile": null}
 - Keep "text" short (max 200 chars).
+- Hypotheticals and questions ("what if I had a 100k account?") are not profile facts; use null.
 `;
 
 export async function extractMemoryWithLLM(message: string, userId?: string | number): Promise<Extracted | null> {
@@ -49,10 +71,11 @@ Return JSON only.`;
     // normalize
     const out: Extracted = {
       shouldSave: !!parsed.shouldSave,
-      type: parsed.type || "misc",
+      type: (MEMORY_TYPES as readonly string[]).includes(parsed.type) ? parsed.type : "misc",
       tags: Array.isArray(parsed.tags) ? parsed.tags.map(String) : [],
       importance: Math.min(10, Math.max(1, Number(parsed.importance) || 1)),
       text: (parsed.text || "").toString().slice(0, 1000),
+      profile: parsed.profile && typeof parsed.profile === "object" ? parsed.profile : null,
     };
     return out;
   } catch (err) {
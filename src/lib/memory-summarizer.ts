@@ -2,9 +2,7 @@
 // Summarizes memory items (by calling LLM) and optionally saves a summary memory row.
 
 import callLLM from "./llm";
-import { createClient } from "@/lib/supabase/server";
-
-const supabase = createClient();
+import { saveMemory } from "./jarvis-memory";
 
 /**
  * summarizeItemsWithLLM: accepts an array of memory text items and returns a short summary.
@@ -41,17 +39,14 @@ Output JSON only: { "summary": "...", "bullets": ["...", "..."] }`;
     const bullets = Array.isArray(parsed.bullets) ? parsed.bullets.map(String) : [];
 
     if (persist && summary.trim()) {
-      // upsert a summary into jarvis_memory
-      const record = {
-        user_id: userId?.toString(),
+      const saved = await saveMemory(String(userId), {
         type: "summary",
-        text: summary,
+        content: summary,
         tags: ["auto_summary"],
         importance: 8,
         source: "auto_summarizer",
-      };
-      const { error } = await supabase.from("jarvis_memory").insert(record);
-      if (error) console.error("persist summary error", error);
+      });
+      if (!saved) console.error("persist summary error");
     }
 
     return { summary, bullets, count: items.length };
@@ -157,13 +157,14 @@ export async function logJournalEntry({
 // ---------------------------------------------------------------------------
 /** Long-term profile (jarvis_profile) */
 // ---------------------------------------------------------------------------
+// Returns the row ({ summary, updated_at }) — /profile shows when it was last rebuilt
 export async function getUserProfileSummary(userId) {
   if (!supabase || !hasSupabase) return null;
 
   try {
     const { data, error } = await supabase
       .from(PROFILE_TABLE)
-      .select("summary")
+      .select("summary, updated_at")
       .eq("user_id", userId)
       .maybeSingle();
 
@@ -172,7 +173,7 @@ export async function getUserProfileSummary(userId) {
       return null;
     }
 
-    return data?.summary ?? null;
+    return data ?? null;
   } catch (err) {
     console.error("getUserProfileSummary unexpected error:", err);
     return null;
@@ -187,7 +188,7 @@ export async function upsertUserProfileSummary(summary, userId) {
       {
         user_id: userId,
         summary,
-        // updated_at column in DB should have default now()
+        updated_at: new Date().toISOString(),
       },
       {
         onConflict: "user_id",
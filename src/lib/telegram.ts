@@ -2,7 +2,14 @@
 // sendToTelegram helper used by api/telegram route.
 // Exports named function sendToTelegram(chatId, text) and default export for backward compatibility.
 
-export async function sendToTelegram(chatId: string | number, text: string, opts?: { parseMode?: "Markdown" | "HTML" }) {
+// Inline keyboard: rows of buttons; callback_data comes back in a callback_query update
+export type TelegramInlineKeyboard = { text: string; callback_data: string }[][];
+
+export async function sendToTelegram(
+  chatId: string | number,
+  text: string,
+  opts?: { parseMode?: "Markdown" | "HTML"; keyboard?: TelegramInlineKeyboard }
+) {
   const BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN;
   if (!BOT_TOKEN) {
     console.warn("sendToTelegram: TELEGRAM_BOT_TOKEN missing");
@@ -16,6 +23,7 @@ export async function sendToTelegram(chatId: string | number, text: string, opts
   };
 
   if (opts?.parseMode) body.parse_mode = opts.parseMode;
+  if (opts?.keyboard) body.reply_markup = { inline_keyboard: opts.keyboard };
 
   const res = await fetch(url, {
     method: "POST",
@@ -33,7 +41,40 @@ export async function sendToTelegram(chatId: string | number, text: string, opts
   return json;
 }
 
+async function callTelegram(method: string, body: Record<string, unknown>) {
+  const BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN;
+  if (!BOT_TOKEN) {
+    console.warn(`${method}: TELEGRAM_BOT_TOKEN missing`);
+    throw new Error("Missing TELEGRAM_BOT_TOKEN env var");
+  }
+
+  const res = await fetch(`https://api.telegram.org/bot${BOT_TOKEN}/${method}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  if (!res.ok) {
+    const txt = await res.text();
+    console.warn(`${method} failed:`, res.status, txt);
+    throw new Error(`${method} failed: ${res.status} ${txt}`);
+  }
+  return res.json();
+}
+
+// Stops the loading spinner on a tapped inline button
+export async function answerTelegramCallback(callbackQueryId: string, text?: string) {
+  return callTelegram("answerCallbackQuery", { callback_query_id: callbackQueryId, ...(text ? { text } : {}) });
+}
+
+// Replaces a message's text and drops its inline keyboard
+export async function editTelegramMessage(chatId: string | number, messageId: number, text: string) {
+  return callTelegram("editMessageText", { chat_id: chatId, message_id: messageId, text });
+}
+
 // For older callers importing default
 export default {
   sendToTelegram,
+  answerTelegramCallback,
+  editTelegramMessage,
 };
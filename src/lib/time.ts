@@ -2,6 +2,19 @@
 // Rich time helper: returns ISO, human and many convenience fields used across the project.
 // Default timezone: Asia/Kolkata. Pass user's timezone string (IANA) where available.
 
+const DEFAULT_TIMEZONE = "Asia/Kolkata";
+
+// YYYY-MM-DD in the given IANA timezone (default JARVIS_TIMEZONE). "Today" for
+// check-ins, journal trades and daily caps rolls over at the user's midnight, not UTC's.
+export function localDate(timezone = process.env.JARVIS_TIMEZONE || DEFAULT_TIMEZONE, at = new Date()): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(at);
+}
+
 export function getNowInfo(timezone = "Asia/Kolkata") {
   // Create a Date representation for the target timezone using toLocaleString
   const localStr = new Date().toLocaleString("en-US", { timeZone: timezone });
@@ -0,0 +1,12 @@
+-- Currencies for public.jarvis_finance (src/lib/jarvis/finance.ts).
+-- Amounts stay in the account currency; null falls back to USD / INR.
+
+alter table public.jarvis_finance
+  add column if not exists account_currency text,
+  add column if not exists home_currency text;
+
+alter table public.jarvis_finance
+  drop constraint if exists jarvis_finance_account_currency_check,
+  add constraint jarvis_finance_account_currency_check check (account_currency ~ '^[A-Z]{3}$'),
+  drop constraint if exists jarvis_finance_home_currency_check,
+  add constraint jarvis_finance_home_currency_check check (home_currency ~ '^[A-Z]{3}$');
@@ -0,0 +1,30 @@
+-- Trade journal (src/lib/jarvis/trades). One row per trade; imports set
+-- external_id so running the same import twice skips what is already stored.
+
+create table if not exists public.jarvis_trades (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null,
+  trade_date date not null,
+  symbol text not null,
+  direction text not null check (direction in ('Long', 'Short')),
+  entry double precision,
+  stop double precision,
+  target double precision,
+  rr_planned double precision,
+  rr_result double precision,
+  outcome text check (outcome in ('Win', 'Loss', 'Break-even')),
+  emotion_before text,
+  emotion_after text,
+  notes text,
+  source text not null default 'web' check (source in ('web', 'telegram', 'local-import', 'broker-import')),
+  external_id text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists jarvis_trades_user_external_id_key
+  on public.jarvis_trades (user_id, external_id);
+
+-- listTrades / listAllTrades order
+create index if not exists jarvis_trades_user_date_idx
+  on public.jarvis_trades (user_id, trade_date desc, created_at desc, id desc);
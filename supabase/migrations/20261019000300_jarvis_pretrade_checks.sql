@@ -0,0 +1,26 @@
+-- Pre-trade gate log (src/lib/jarvis/preTrade). Every verdict is stored with
+-- the plan; taken / result_r are filled in later to measure overrides.
+
+create table if not exists public.jarvis_pretrade_checks (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null,
+  channel text not null check (channel in ('web', 'telegram')),
+  description text,
+  symbol text,
+  direction text check (direction in ('long', 'short')),
+  entry double precision,
+  stop double precision,
+  target double precision,
+  risk_percent double precision not null,
+  verdict text not null check (verdict in ('GO', 'REDUCE SIZE', 'NO-TRADE')),
+  suggested_risk_percent double precision,
+  reasons jsonb not null default '[]'::jsonb,
+  taken boolean,
+  result_r double precision,
+  trade_id uuid references public.jarvis_trades (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists jarvis_pretrade_checks_user_created_idx
+  on public.jarvis_pretrade_checks (user_id, created_at desc);
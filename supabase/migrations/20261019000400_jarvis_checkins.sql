@@ -0,0 +1,21 @@
+-- Daily check-ins (src/lib/jarvis/checkins), one per user per day. Answer
+-- values are validated against the option lists in checkins/types.ts.
+
+create table if not exists public.jarvis_checkins (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null,
+  checkin_date date not null,
+  sleep_hours double precision check (sleep_hours between 0 and 24),
+  sleep_quality text,
+  mood text,
+  stress text,
+  energy text,
+  focus text,
+  urge_to_trade text,
+  notes text,
+  plan text,
+  source text not null default 'web' check (source in ('web', 'telegram', 'local-import')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, checkin_date)
+);
@@ -0,0 +1,13 @@
+-- Guided Telegram check-in progress (src/lib/jarvis/checkins/telegram.ts),
+-- one row per chat per day, kept between webhook calls.
+
+create table if not exists public.jarvis_telegram_sessions (
+  chat_id text not null,
+  checkin_date date not null,
+  status text not null default 'active' check (status in ('active', 'done', 'cancelled')),
+  step integer not null default 0,
+  answers jsonb not null default '{}'::jsonb,
+  started_by text not null check (started_by in ('command', 'schedule')),
+  updated_at timestamptz not null default now(),
+  primary key (chat_id, checkin_date)
+);
@@ -0,0 +1,21 @@
+-- Calibrated readiness models (src/lib/jarvis/checkins/calibration.ts).
+-- Proposals are kept with their evidence; the one "accepted" row per user
+-- replaces DEFAULT_READINESS_MODEL.
+
+create table if not exists public.jarvis_readiness_models (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null,
+  version text not null,
+  model jsonb not null,
+  evidence jsonb not null,
+  status text not null default 'proposed' check (status in ('proposed', 'accepted', 'retired')),
+  accepted_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists jarvis_readiness_models_one_accepted_key
+  on public.jarvis_readiness_models (user_id)
+  where status = 'accepted';
+
+create index if not exists jarvis_readiness_models_user_created_idx
+  on public.jarvis_readiness_models (user_id, created_at desc);
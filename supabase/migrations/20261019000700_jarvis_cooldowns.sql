@@ -0,0 +1,22 @@
+-- Tilt cool-downs (src/lib/jarvis/tilt). A row is active until ends_at; its
+-- Telegram follow-up goes through jarvis_reminders.
+
+create table if not exists public.jarvis_cooldowns (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null,
+  started_at timestamptz not null default now(),
+  ends_at timestamptz not null,
+  severity text not null check (severity in ('shrink', 'refuse')),
+  score integer not null,
+  signals jsonb not null default '[]'::jsonb,
+  channel text not null check (channel in ('web', 'telegram')),
+  trigger_text text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists jarvis_cooldowns_user_ends_idx
+  on public.jarvis_cooldowns (user_id, ends_at desc);
+
+-- Cool-down length; null uses DEFAULT_COOLDOWN_MINUTES
+alter table public.jarvis_trading_profile
+  add column if not exists cooldown_minutes integer check (cooldown_minutes between 5 and 1440);
@@ -0,0 +1,11 @@
+-- Semantic retrieval columns on public.jarvis_memory (src/lib/jarvis/memory).
+-- Plain arrays rather than pgvector: dimensions depend on the provider, and
+-- ranking happens in the app. embedding_model is the provider id; rows from
+-- another provider are re-embedded by /api/jobs/memory-embeddings.
+
+alter table public.jarvis_memory
+  add column if not exists embedding double precision[],
+  add column if not exists embedding_model text;
+
+create index if not exists jarvis_memory_embedding_model_idx
+  on public.jarvis_memory (embedding_model);
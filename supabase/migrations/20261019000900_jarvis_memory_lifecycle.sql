@@ -0,0 +1,31 @@
+-- Memory upkeep (src/lib/jarvis/memory/lifecycle.ts): merge, decay and
+-- archive columns on public.jarvis_memory, plus the undo log.
+
+alter table public.jarvis_memory
+  add column if not exists archived_at timestamptz,
+  add column if not exists reinforced_at timestamptz,
+  add column if not exists reinforce_count integer default 0,
+  add column if not exists decayed_at timestamptz;
+
+-- Retrieval and maintenance only read active rows
+create index if not exists jarvis_memory_active_idx
+  on public.jarvis_memory (user_id, created_at desc)
+  where archived_at is null;
+
+-- Every merge, archive and forget, with row snapshots to restore on undo.
+-- memory_ids is text[] so it matches whatever jarvis_memory.id is.
+create table if not exists public.jarvis_memory_log (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null,
+  action text not null check (action in ('merge', 'archive', 'forget')),
+  status text not null default 'done' check (status in ('pending', 'done', 'undone', 'cancelled')),
+  query text,
+  memory_ids text[] not null default '{}',
+  before jsonb not null default '[]'::jsonb,
+  channel text,
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz
+);
+
+create index if not exists jarvis_memory_log_user_created_idx
+  on public.jarvis_memory_log (user_id, created_at desc);
@@ -0,0 +1,22 @@
+-- Admin memory browser (src/app/admin/memory): pinned memories, deletes in
+-- the undo log, and a record of which memories went into each reply.
+
+alter table public.jarvis_memory
+  add column if not exists pinned boolean not null default false;
+
+alter table public.jarvis_memory_log
+  drop constraint if exists jarvis_memory_log_action_check,
+  add constraint jarvis_memory_log_action_check check (action in ('merge', 'archive', 'forget', 'delete'));
+
+create table if not exists public.jarvis_memory_injections (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null,
+  channel text,
+  message text,
+  memory_ids text[] not null default '{}',
+  memories jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists jarvis_memory_injections_user_created_idx
+  on public.jarvis_memory_injections (user_id, created_at desc);